@@ -1,9 +1,12 @@
 import { Tabs } from "expo-router";
 import { useTheme } from "react-native-paper";
 import { MaterialIcons } from "@expo/vector-icons";
+import { usePermission } from "../../components/auth/Permission";
 
 export default function TabLayout() {
   const theme = useTheme();
+  const canCreateReports = usePermission("reports.create");
+  const canDispatchJobs = usePermission("jobs.dispatch");
 
   return (
     <Tabs
@@ -33,16 +36,53 @@ export default function TabLayout() {
           ),
         }}
       />
+      <Tabs.Screen
+        name="jobs"
+        options={{
+          title: "Jobs",
+          headerTitle: "My Jobs",
+          href: canCreateReports || canDispatchJobs ? undefined : null,
+          tabBarIcon: ({ color, size }) => (
+            <MaterialIcons name="work-outline" size={size} color={color} />
+          ),
+        }}
+      />
+      <Tabs.Screen
+        name="schedule"
+        options={{
+          title: "Schedule",
+          headerTitle: "Upcoming / Overdue",
+          tabBarIcon: ({ color, size }) => (
+            <MaterialIcons name="event" size={size} color={color} />
+          ),
+        }}
+      />
       <Tabs.Screen
         name="create"
         options={{
           title: "Create",
           headerTitle: "Create Report",
+          // Hidden rather than removed so the route still exists for typing
+          href: canCreateReports ? undefined : null,
           tabBarIcon: ({ color, size }) => (
             <MaterialIcons name="add-circle" size={size} color={color} />
           ),
         }}
       />
+      <Tabs.Screen
+        name="equipment"
+        options={{
+          title: "Equipment",
+          headerTitle: "Equipment Registry",
+          tabBarIcon: ({ color, size }) => (
+            <MaterialIcons
+              name="precision-manufacturing"
+              size={size}
+              color={color}
+            />
+          ),
+        }}
+      />
       <Tabs.Screen
         name="profile"
         options={{
@@ -1,4 +1,4 @@
-import React, { useState } from "react";
+import React, { useEffect, useRef, useState } from "react";
 import { View, StyleSheet, ScrollView, Alert } from "react-native";
 import {
   Text,
@@ -11,56 +11,211 @@ import {
   ActivityIndicator,
 } from "react-native-paper";
 import { MaterialIcons } from "@expo/vector-icons";
+import { router, useLocalSearchParams } from "expo-router";
+import { useAuth } from "../../components/auth/AuthContext";
+import { useReports } from "../../components/reports/ReportContext";
+import { useTemplates } from "../../components/templates/TemplateContext";
+import { useEquipment } from "../../components/equipment/EquipmentContext";
+import { useJobs } from "../../components/jobs/JobContext";
+import { EquipmentPicker } from "../../components/equipment/EquipmentPicker";
+import { ReportPhotoSection } from "../../components/photos/ReportPhotoSection";
+import { ChecklistForm } from "../../components/templates/ChecklistForm";
+import { SignatureSection } from "../../components/signatures/SignatureSection";
+import { DefectSection } from "../../components/defects/DefectSection";
+import {
+  pruneChecklist,
+  toTemplateSnapshot,
+  validateInspection,
+} from "../../services/templates/checklistValidation";
+import {
+  describeDue,
+  daysUntil,
+  INSPECTION_CLASSES,
+  INSPECTION_CLASS_LABELS,
+} from "../../services/schedule/dueDates";
+import {
+  findSignature,
+  hashReportContent,
+} from "../../services/signatures/reportSignatures";
+import { InspectionForm, ReportPriority } from "../../types/report";
+import { ReportPhoto } from "../../types/photo";
+import { ChecklistResponse } from "../../types/template";
+import { Equipment } from "../../types/equipment";
+import { ReportSignature } from "../../types/signature";
+import { InspectionClass } from "../../types/schedule";
+import { DefectInput } from "../../types/defect";
 
-interface InspectionForm {
-  equipmentId: string;
-  equipmentType: string;
-  location: string;
-  priority: "Low" | "Medium" | "High";
-  description: string;
-  notes: string;
-}
+const EMPTY_FORM: InspectionForm = {
+  equipmentId: "",
+  equipmentType: "",
+  location: "",
+  priority: "Medium",
+  inspectionClass: "frequent",
+  description: "",
+  notes: "",
+  photos: [],
+  checklist: {},
+  defects: [],
+  signatures: [],
+};
+
+const DRAFT_SAVE_DELAY_MS = 500;
+
+type FormField =
+  | "location"
+  | "priority"
+  | "inspectionClass"
+  | "description"
+  | "notes";
 
 export default function CreateReportScreen() {
   const theme = useTheme();
+  const { user } = useAuth();
+  const { createReport, draft, saveDraft, clearDraft } = useReports();
+  const { findTemplate } = useTemplates();
+  const { equipment } = useEquipment();
+  const { jobs, findJob, refreshJobs } = useJobs();
+  const { assetId, inspectionClass, jobId } = useLocalSearchParams<{
+    assetId?: string;
+    inspectionClass?: InspectionClass;
+    jobId?: string;
+  }>();
   const [loading, setLoading] = useState(false);
-  const [form, setForm] = useState<InspectionForm>({
-    equipmentId: "",
-    equipmentType: "",
-    location: "",
-    priority: "Medium",
-    description: "",
-    notes: "",
-  });
-  const [errors, setErrors] = useState<Partial<InspectionForm>>({});
-
-  const priorityOptions = [
-    { value: "Low", label: "Low", icon: "keyboard-arrow-down" },
-    { value: "Medium", label: "Medium", icon: "remove" },
-    { value: "High", label: "High", icon: "keyboard-arrow-up" },
-  ];
+  const [form, setForm] = useState<InspectionForm>(EMPTY_FORM);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [reportHash, setReportHash] = useState<string | null>(null);
+  const template = findTemplate(form.equipmentType);
+  const selectedEquipment = equipment.find((e) => e.id === form.assetId);
+  const job = form.jobId ? findJob(form.jobId) : undefined;
+  // Only autosave after the user has actually edited something
+  const dirty = useRef(false);
 
-  const validateForm = (): boolean => {
-    const newErrors: Partial<InspectionForm> = {};
+  // Restore the saved draft unless the user has already started typing.
+  // A report opened for revision replaces whatever is on screen.
+  useEffect(() => {
+    if (draft && (!dirty.current || draft.form.reportId !== form.reportId)) {
+      dirty.current = false;
+      setForm({ ...EMPTY_FORM, ...draft.form });
+      setErrors({});
+    }
+  }, [draft]);
 
-    if (!form.equipmentId.trim()) {
-      newErrors.equipmentId = "Equipment ID is required";
+  // Started from an equipment detail screen
+  useEffect(() => {
+    const item = equipment.find((e) => e.id === assetId);
+    if (item && form.assetId !== item.id) {
+      selectEquipment(item);
     }
+  }, [assetId, equipment.length]);
 
-    if (!form.equipmentType.trim()) {
-      newErrors.equipmentType = "Equipment type is required";
+  // Started from My Jobs: the job decides the asset and inspection type.
+  // A draft for the same job is continued, anything else starts fresh.
+  useEffect(() => {
+    const started = jobId ? findJob(jobId) : undefined;
+    const item = equipment.find((e) => e.id === started?.assetId);
+    if (!started || !item || form.jobId === started.id) {
+      return;
     }
+    dirty.current = true;
+    setForm({
+      ...EMPTY_FORM,
+      jobId: started.id,
+      inspectionClass: started.inspectionClass,
+      assetId: item.id,
+      equipmentId: item.assetTag,
+      equipmentType: item.equipmentType,
+      location: `${item.site} - ${item.location}`,
+    });
+    setErrors({});
+  }, [jobId, jobs.length, equipment.length]);
 
-    if (!form.location.trim()) {
-      newErrors.location = "Location is required";
+  // Started from the inspection schedule
+  useEffect(() => {
+    if (inspectionClass && INSPECTION_CLASSES.includes(inspectionClass)) {
+      updateForm("inspectionClass", inspectionClass);
     }
+  }, [inspectionClass]);
+
+  // The template is part of the signed content, so it goes into the form
+  // itself rather than being added at submit time
+  useEffect(() => {
+    setForm((prev) => {
+      const checklist = pruneChecklist(prev.checklist, template);
+      if (
+        prev.templateId === template?.id &&
+        prev.templateVersion === template?.version &&
+        !!prev.templateSnapshot === !!template &&
+        Object.keys(checklist).length === Object.keys(prev.checklist).length
+      ) {
+        return prev;
+      }
+      return {
+        ...prev,
+        templateId: template?.id,
+        templateVersion: template?.version,
+        templateSnapshot: template ? toTemplateSnapshot(template) : undefined,
+        checklist,
+      };
+    });
+  }, [template?.id, template?.version, form.checklist]);
 
-    if (!form.description.trim()) {
-      newErrors.description = "Description is required";
-    } else if (form.description.trim().length < 10) {
-      newErrors.description = "Description must be at least 10 characters";
+  // Any edit after signing changes the hash, and signatures made against
+  // the old content no longer count
+  useEffect(() => {
+    let cancelled = false;
+    hashReportContent(form).then((hash) => {
+      if (cancelled) {
+        return;
+      }
+      setReportHash(hash);
+      const signatures = form.signatures || [];
+      const stillValid = signatures.filter((s) => s.reportHash === hash);
+      if (stillValid.length < signatures.length) {
+        setForm((prev) => ({ ...prev, signatures: stillValid }));
+        Alert.alert(
+          "Signatures Cleared",
+          "The report changed after it was signed, so it needs to be signed again."
+        );
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [form]);
+
+  useEffect(() => {
+    if (!dirty.current) {
+      return;
     }
 
+    const timer = setTimeout(() => {
+      if (dirty.current) {
+        saveDraft(form);
+      }
+    }, DRAFT_SAVE_DELAY_MS);
+
+    return () => clearTimeout(timer);
+  }, [form]);
+
+  const priorityOptions = [
+    { value: "Low", label: "Low", icon: "keyboard-arrow-down" },
+    { value: "Medium", label: "Medium", icon: "remove" },
+    { value: "High", label: "High", icon: "keyboard-arrow-up" },
+  ];
+
+  const inspectionClassOptions = INSPECTION_CLASSES.map((value) => ({
+    value,
+    label: INSPECTION_CLASS_LABELS[value],
+  }));
+
+  const validateForm = (): boolean => {
+    const newErrors = validateInspection(form, template);
+    if (
+      !reportHash ||
+      !findSignature(form.signatures, "inspector", reportHash)
+    ) {
+      newErrors.signatures = "Sign the report before submitting it";
+    }
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
@@ -71,29 +226,48 @@ export default function CreateReportScreen() {
     }
 
     setLoading(true);
+    dirty.current = false;
 
     try {
-      // Simulate API call
-      await new Promise((resolve) => setTimeout(resolve, 2000));
+      // Submitted exactly as signed
+      const result = await createReport(form);
+
+      if (!result.success) {
+        dirty.current = true;
+        Alert.alert(
+          "Error",
+          result.error ||
+            "Failed to create inspection report. Please try again."
+        );
+        return;
+      }
+
+      if (form.jobId) {
+        refreshJobs();
+      }
 
-      Alert.alert("Success", "Inspection report created successfully!", [
+      const message = result.queued
+        ? "Report saved on this device. It will sync automatically when you're back online."
+        : form.reportId
+        ? "Report resubmitted for review."
+        : "Inspection report created successfully!";
+
+      Alert.alert(result.queued ? "Saved Offline" : "Success", message, [
         {
           text: "OK",
           onPress: () => {
             // Reset form
-            setForm({
-              equipmentId: "",
-              equipmentType: "",
-              location: "",
-              priority: "Medium",
-              description: "",
-              notes: "",
-            });
+            setForm(EMPTY_FORM);
             setErrors({});
+            if (form.jobId && !form.reportId) {
+              router.setParams({ jobId: undefined } as any);
+              router.navigate("/jobs" as any);
+            }
           },
         },
       ]);
     } catch (error) {
+      dirty.current = true;
       Alert.alert(
         "Error",
         "Failed to create inspection report. Please try again."
@@ -103,7 +277,87 @@ export default function CreateReportScreen() {
     }
   };
 
-  const updateForm = (field: keyof InspectionForm, value: string) => {
+  const handleDiscardRevision = () => {
+    Alert.alert(
+      "Discard Revision",
+      "Your changes will be lost. The report stays with you until you resubmit it.",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Discard",
+          style: "destructive",
+          onPress: async () => {
+            dirty.current = false;
+            await clearDraft();
+            setForm(EMPTY_FORM);
+            setErrors({});
+          },
+        },
+      ]
+    );
+  };
+
+  const selectEquipment = (item: Equipment | null) => {
+    dirty.current = true;
+    setForm((prev) => ({
+      ...prev,
+      assetId: item?.id,
+      equipmentId: item?.assetTag || "",
+      equipmentType: item?.equipmentType || "",
+      location: item ? `${item.site} - ${item.location}` : prev.location,
+    }));
+    if (errors.assetId) {
+      setErrors((prev) => ({ ...prev, assetId: undefined }));
+    }
+  };
+
+  const updateChecklist = (itemId: string, response: ChecklistResponse) => {
+    dirty.current = true;
+    setForm((prev) => ({
+      ...prev,
+      checklist: { ...prev.checklist, [itemId]: response },
+    }));
+    if (errors[itemId]) {
+      setErrors((prev) => ({ ...prev, [itemId]: undefined }));
+    }
+  };
+
+  const updateSignatures = (signatures: ReportSignature[]) => {
+    dirty.current = true;
+    setForm((prev) => ({ ...prev, signatures }));
+    if (errors.signatures) {
+      setErrors((prev) => ({ ...prev, signatures: undefined }));
+    }
+  };
+
+  const updateDefects = (defects: DefectInput[]) => {
+    dirty.current = true;
+    setForm((prev) => ({ ...prev, defects }));
+  };
+
+  // Deleted photos can't stay attached to a defect
+  const updatePhotos = (photos: ReportPhoto[]) => {
+    dirty.current = true;
+    const photoIds = photos.map((p) => p.id);
+    setForm((prev) => ({
+      ...prev,
+      photos,
+      defects: (prev.defects || []).map((defect) => ({
+        ...defect,
+        beforePhotoIds: defect.beforePhotoIds.filter((id) =>
+          photoIds.includes(id)
+        ),
+      })),
+    }));
+  };
+
+  // Checklist evidence is managed by ChecklistForm, the rest lives here
+  const generalPhotos = form.photos.filter((p) => !p.checklistItemId);
+  const updateGeneralPhotos = (photos: ReportPhoto[]) =>
+    updatePhotos([...form.photos.filter((p) => p.checklistItemId), ...photos]);
+
+  const updateForm = (field: FormField, value: string) => {
+    dirty.current = true;
     setForm((prev) => ({ ...prev, [field]: value }));
     // Clear error when user starts typing
     if (errors[field]) {
@@ -124,41 +378,56 @@ export default function CreateReportScreen() {
               size={32}
               color={theme.colors.primary}
             />
-            <Title style={styles.title}>New Inspection Report</Title>
+            <Title style={styles.title}>
+              {form.reportId
+                ? "Revise Inspection Report"
+                : "New Inspection Report"}
+            </Title>
           </View>
+          {form.reportId && (
+            <Text
+              style={[
+                styles.revisionNotice,
+                { color: theme.colors.onSurfaceVariant },
+              ]}
+            >
+              This report was sent back by its reviewer. Make the changes they
+              asked for, sign it again and resubmit it.
+            </Text>
+          )}
 
           <View style={styles.form}>
-            <TextInput
-              label="Equipment ID *"
-              value={form.equipmentId}
-              onChangeText={(text) => updateForm("equipmentId", text)}
-              mode="outlined"
-              error={!!errors.equipmentId}
-              disabled={loading}
-              style={styles.input}
-              placeholder="e.g., EQ-001, PUMP-A23"
-            />
-            {errors.equipmentId && (
-              <Text style={[styles.errorText, { color: theme.colors.error }]}>
-                {errors.equipmentId}
-              </Text>
+            {job && (
+              <Card mode="outlined">
+                <Card.Title
+                  title={`Job: ${job.assetTag}`}
+                  subtitle={`${
+                    INSPECTION_CLASS_LABELS[job.inspectionClass]
+                  } · ${describeDue({
+                    daysUntilDue: daysUntil(job.dueDate),
+                  })} · from ${job.createdByName}`}
+                  left={(props) => (
+                    <MaterialIcons
+                      name="work-outline"
+                      size={props.size}
+                      color={theme.colors.primary}
+                    />
+                  )}
+                />
+                {!!job.instructions && (
+                  <Card.Content>
+                    <Text>{job.instructions}</Text>
+                  </Card.Content>
+                )}
+              </Card>
             )}
 
-            <TextInput
-              label="Equipment Type *"
-              value={form.equipmentType}
-              onChangeText={(text) => updateForm("equipmentType", text)}
-              mode="outlined"
-              error={!!errors.equipmentType}
+            <EquipmentPicker
+              selected={selectedEquipment}
+              onSelect={selectEquipment}
+              error={errors.assetId}
               disabled={loading}
-              style={styles.input}
-              placeholder="e.g., Hydraulic Pump, Conveyor Belt"
             />
-            {errors.equipmentType && (
-              <Text style={[styles.errorText, { color: theme.colors.error }]}>
-                {errors.equipmentType}
-              </Text>
-            )}
 
             <TextInput
               label="Location *"
@@ -181,15 +450,36 @@ export default function CreateReportScreen() {
               <SegmentedButtons
                 value={form.priority}
                 onValueChange={(value) =>
-                  updateForm("priority", value as "Low" | "Medium" | "High")
+                  updateForm("priority", value as ReportPriority)
                 }
                 buttons={priorityOptions}
                 style={styles.segmentedButtons}
               />
             </View>
 
+            <View style={styles.prioritySection}>
+              <Text style={styles.fieldLabel}>Inspection Type</Text>
+              <SegmentedButtons
+                value={form.inspectionClass || "frequent"}
+                onValueChange={(value) => updateForm("inspectionClass", value)}
+                buttons={inspectionClassOptions}
+                style={styles.segmentedButtons}
+              />
+            </View>
+
+            {template && (
+              <ChecklistForm
+                template={template}
+                form={form}
+                errors={errors}
+                disabled={loading}
+                onChangeResponse={updateChecklist}
+                onChangePhotos={updatePhotos}
+              />
+            )}
+
             <TextInput
-              label="Inspection Description *"
+              label={template ? "Summary" : "Inspection Description *"}
               value={form.description}
               onChangeText={(text) => updateForm("description", text)}
               mode="outlined"
@@ -220,20 +510,11 @@ export default function CreateReportScreen() {
 
             <View style={styles.photoSection}>
               <Text style={styles.fieldLabel}>Photos</Text>
-              <Button
-                mode="outlined"
-                icon="camera"
-                onPress={() =>
-                  Alert.alert(
-                    "Coming Soon",
-                    "Photo capture will be implemented next!"
-                  )
-                }
+              <ReportPhotoSection
+                photos={generalPhotos}
+                onChange={updateGeneralPhotos}
                 disabled={loading}
-                style={styles.photoButton}
-              >
-                Add Photos
-              </Button>
+              />
               <Text
                 style={[
                   styles.helperText,
@@ -244,6 +525,37 @@ export default function CreateReportScreen() {
               </Text>
             </View>
 
+            <View style={styles.defectSection}>
+              <Text style={styles.fieldLabel}>Defects</Text>
+              <DefectSection
+                form={form}
+                template={template}
+                onChange={updateDefects}
+                disabled={loading}
+              />
+            </View>
+
+            <View style={styles.signatureSection}>
+              <Text style={styles.fieldLabel}>Sign-off</Text>
+              <SignatureSection
+                signatures={form.signatures || []}
+                reportHash={reportHash}
+                inspector={{
+                  id: user?.id || "",
+                  name: user ? `${user.firstName} ${user.lastName}` : "",
+                }}
+                onChange={updateSignatures}
+                disabled={loading}
+              />
+              {errors.signatures && (
+                <Text
+                  style={[styles.signatureError, { color: theme.colors.error }]}
+                >
+                  {errors.signatures}
+                </Text>
+              )}
+            </View>
+
             <Button
               mode="contained"
               onPress={handleSubmit}
@@ -253,10 +565,21 @@ export default function CreateReportScreen() {
             >
               {loading ? (
                 <ActivityIndicator color="white" />
+              ) : form.reportId ? (
+                "Resubmit Report"
               ) : (
                 "Create Inspection Report"
               )}
             </Button>
+            {form.reportId && (
+              <Button
+                mode="text"
+                onPress={handleDiscardRevision}
+                disabled={loading}
+              >
+                Discard Revision
+              </Button>
+            )}
           </View>
         </Card.Content>
       </Card>
@@ -289,6 +612,10 @@ const styles = StyleSheet.create({
     fontWeight: "bold",
     marginLeft: 12,
   },
+  revisionNotice: {
+    marginTop: -12,
+    marginBottom: 24,
+  },
   form: {
     gap: 16,
   },
@@ -316,8 +643,15 @@ const styles = StyleSheet.create({
   photoSection: {
     gap: 8,
   },
-  photoButton: {
-    marginTop: 4,
+  defectSection: {
+    gap: 8,
+  },
+  signatureSection: {
+    gap: 8,
+  },
+  signatureError: {
+    fontSize: 12,
+    marginLeft: 12,
   },
   helperText: {
     fontSize: 12,
@@ -0,0 +1,217 @@
+import React, { useState } from "react";
+import { View, StyleSheet, ScrollView, RefreshControl } from "react-native";
+import {
+  Card,
+  Title,
+  Paragraph,
+  Chip,
+  FAB,
+  Searchbar,
+  Text,
+  useTheme,
+} from "react-native-paper";
+import { MaterialIcons } from "@expo/vector-icons";
+import { router } from "expo-router";
+import { useEquipment } from "../../components/equipment/EquipmentContext";
+import { EquipmentSummary } from "../../components/equipment/EquipmentSummary";
+import { useDefects } from "../../components/defects/DefectContext";
+import {
+  isOutOfService,
+  isOutstanding,
+} from "../../services/defects/defectWorkflow";
+
+export default function EquipmentScreen() {
+  const theme = useTheme();
+  const { loading, error, refreshEquipment, searchEquipment } = useEquipment();
+  const { defects } = useDefects();
+  const [query, setQuery] = useState("");
+
+  const results = searchEquipment(query);
+  const outstanding = defects.filter(isOutstanding);
+  const criticalCount = outstanding.filter(
+    (defect) => defect.severity === "Critical" || defect.removeFromService
+  ).length;
+
+  return (
+    <View style={styles.container}>
+      <Searchbar
+        placeholder="Search asset, serial, site..."
+        value={query}
+        onChangeText={setQuery}
+        style={styles.searchbar}
+      />
+
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.contentContainer}
+        refreshControl={
+          <RefreshControl refreshing={loading} onRefresh={refreshEquipment} />
+        }
+      >
+        {error && (
+          <Text style={[styles.errorText, { color: theme.colors.error }]}>
+            {error}
+          </Text>
+        )}
+        {outstanding.length > 0 && (
+          <Card
+            style={styles.card}
+            onPress={() => router.push("/defects" as any)}
+          >
+            <Card.Title
+              title={`${outstanding.length} outstanding defect${
+                outstanding.length === 1 ? "" : "s"
+              }`}
+              subtitle={
+                criticalCount > 0
+                  ? `${criticalCount} critical or out of service`
+                  : "None critical"
+              }
+              subtitleStyle={
+                criticalCount > 0 ? { color: theme.colors.error } : undefined
+              }
+              left={(props) => (
+                <MaterialIcons
+                  name="report-problem"
+                  size={props.size}
+                  color={
+                    criticalCount > 0
+                      ? theme.colors.error
+                      : theme.colors.onSurfaceVariant
+                  }
+                />
+              )}
+              right={(props) => (
+                <MaterialIcons
+                  name="chevron-right"
+                  size={props.size}
+                  color={theme.colors.onSurfaceVariant}
+                />
+              )}
+            />
+          </Card>
+        )}
+        {results.length === 0 ? (
+          <View style={styles.emptyState}>
+            <MaterialIcons
+              name="precision-manufacturing"
+              size={64}
+              color={theme.colors.onSurfaceVariant}
+            />
+            <Text
+              style={[
+                styles.emptyText,
+                { color: theme.colors.onSurfaceVariant },
+              ]}
+            >
+              {query ? "No matching equipment" : "No equipment registered yet"}
+            </Text>
+          </View>
+        ) : (
+          results.map((item) => (
+            <Card
+              key={item.id}
+              style={styles.card}
+              onPress={() => router.push(`/equipment/${item.id}` as any)}
+            >
+              <Card.Content>
+                <View style={styles.cardHeader}>
+                  <View style={styles.titleSection}>
+                    <Title style={styles.assetTag}>{item.assetTag}</Title>
+                    <Paragraph style={styles.equipmentType}>
+                      {item.equipmentType}
+                    </Paragraph>
+                  </View>
+                  {!item.isActive && (
+                    <Chip mode="outlined" textStyle={{ fontSize: 12 }}>
+                      Retired
+                    </Chip>
+                  )}
+                  {item.isActive && isOutOfService(item.id, defects) && (
+                    <Chip
+                      mode="outlined"
+                      textStyle={{ color: theme.colors.error, fontSize: 12 }}
+                      style={{ borderColor: theme.colors.error }}
+                    >
+                      Out of Service
+                    </Chip>
+                  )}
+                </View>
+                <EquipmentSummary equipment={item} />
+              </Card.Content>
+            </Card>
+          ))
+        )}
+      </ScrollView>
+
+      <FAB
+        icon="plus"
+        style={[styles.fab, { backgroundColor: theme.colors.primary }]}
+        onPress={() => router.push("/equipment/new" as any)}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#f5f5f5",
+  },
+  searchbar: {
+    margin: 16,
+    marginBottom: 0,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: 16,
+    paddingBottom: 80, // Account for FAB
+  },
+  errorText: {
+    fontSize: 14,
+    marginBottom: 12,
+    textAlign: "center",
+  },
+  emptyState: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    paddingTop: 100,
+  },
+  emptyText: {
+    fontSize: 18,
+    fontWeight: "600",
+    marginTop: 16,
+    textAlign: "center",
+  },
+  card: {
+    marginBottom: 12,
+    elevation: 2,
+  },
+  cardHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "flex-start",
+    marginBottom: 12,
+  },
+  titleSection: {
+    flex: 1,
+  },
+  assetTag: {
+    fontSize: 18,
+    fontWeight: "bold",
+    marginBottom: 4,
+  },
+  equipmentType: {
+    fontSize: 14,
+    opacity: 0.7,
+  },
+  fab: {
+    position: "absolute",
+    margin: 16,
+    right: 0,
+    bottom: 0,
+  },
+});
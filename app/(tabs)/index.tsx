@@ -1,6 +1,8 @@
-import React from "react";
-import { View, StyleSheet, ScrollView } from "react-native";
+import React, { useEffect, useState } from "react";
+import { View, StyleSheet, FlatList, RefreshControl } from "react-native";
 import {
+  ActivityIndicator,
+  Button,
   Card,
   Title,
   Paragraph,
@@ -11,54 +13,77 @@ import {
 } from "react-native-paper";
 import { MaterialIcons } from "@expo/vector-icons";
 import { router } from "expo-router";
+import { useAuth } from "../../components/auth/AuthContext";
+import { useReports } from "../../components/reports/ReportContext";
+import { ReportFilterBar } from "../../components/reports/ReportFilterBar";
+import { useEquipment } from "../../components/equipment/EquipmentContext";
+import { ReportThumbnails } from "../../components/photos/ReportThumbnails";
+import { InspectionReport, ReportStatus, SyncState } from "../../types/report";
+import { hasCapability } from "../../services/auth/permissions";
+import { hasActiveFilters } from "../../services/reports/reportFilters";
 
-// Mock data for reports
-const mockReports = [
-  {
-    id: "1",
-    equipmentId: "EQ-001",
-    equipmentType: "Hydraulic Pump",
-    location: "Plant A - Bay 2",
-    status: "Completed",
-    priority: "High",
-    inspectorName: "John Smith",
-    createdAt: "2025-01-15",
-    lastInspection: "2024-12-15",
-  },
-  {
-    id: "2",
-    equipmentId: "EQ-002",
-    equipmentType: "Conveyor Belt",
-    location: "Plant B - Line 1",
-    status: "In Progress",
-    priority: "Medium",
-    inspectorName: "Sarah Johnson",
-    createdAt: "2025-01-14",
-    lastInspection: "2024-11-20",
-  },
-  {
-    id: "3",
-    equipmentId: "EQ-003",
-    equipmentType: "Safety Valve",
-    location: "Plant A - Section C",
-    status: "Pending",
-    priority: "Low",
-    inspectorName: "Mike Davis",
-    createdAt: "2025-01-13",
-    lastInspection: "2024-10-30",
-  },
-];
+const syncStateLabels: Record<SyncState, { label: string; icon: string }> = {
+  draft: { label: "Draft", icon: "pencil-outline" },
+  queued: { label: "Queued", icon: "cloud-upload-outline" },
+  synced: { label: "Synced", icon: "cloud-check-outline" },
+  conflict: { label: "Conflict", icon: "alert-circle-outline" },
+};
 
 export default function ReportsScreen() {
   const theme = useTheme();
+  const { user, userAdminService } = useAuth();
+  const {
+    reports,
+    filters,
+    hasMoreReports,
+    loading,
+    loadingMore,
+    error,
+    refreshReports,
+    loadMoreReports,
+    setFilters,
+    retryReport,
+    discardReport,
+  } = useReports();
+  const { equipment } = useEquipment();
+  const [team, setTeam] = useState<{ id: string; name: string }[]>([]);
+
+  // Managers can filter by anyone on the team; inspectors only by themselves
+  useEffect(() => {
+    if (!user || !hasCapability(user, "users.manage")) {
+      setTeam([]);
+      return;
+    }
+    userAdminService.listUsers(user.contractorId, user).then((result) => {
+      if (result.success && result.data) {
+        setTeam(
+          result.data
+            .filter((member) => member.id !== user.id)
+            .map((member) => ({
+              id: member.id,
+              name: `${member.firstName} ${member.lastName}`,
+            }))
+        );
+      }
+    });
+  }, [user?.id, user?.contractorId]);
 
-  const getStatusColor = (status: string) => {
+  const inspectors = user ? [{ id: user.id, name: "Me" }, ...team] : team;
+
+  const getLastInspection = (assetId?: string) =>
+    equipment.find((item) => item.id === assetId)?.lastInspection;
+
+  const getStatusColor = (status: ReportStatus) => {
     switch (status) {
       case "Completed":
         return theme.colors.tertiary;
-      case "In Progress":
+      case "Reviewed":
+        return theme.colors.primary;
+      case "Submitted":
         return theme.colors.secondary;
-      case "Pending":
+      case "In Progress":
+        return theme.colors.error;
+      case "Draft":
         return theme.colors.outline;
       default:
         return theme.colors.outline;
@@ -78,6 +103,19 @@ export default function ReportsScreen() {
     }
   };
 
+  const getSyncStateColor = (syncState: SyncState) => {
+    switch (syncState) {
+      case "synced":
+        return theme.colors.tertiary;
+      case "queued":
+        return theme.colors.secondary;
+      case "conflict":
+        return theme.colors.error;
+      default:
+        return theme.colors.outline;
+    }
+  };
+
   const handleCreateReport = () => {
     try {
       router.push("/create" as any);
@@ -86,147 +124,232 @@ export default function ReportsScreen() {
     }
   };
 
-  return (
-    <View style={styles.container}>
-      <ScrollView
-        style={styles.scrollView}
-        contentContainerStyle={styles.contentContainer}
-      >
-        {mockReports.length === 0 ? (
-          <View style={styles.emptyState}>
+  const renderReport = (report: InspectionReport) => (
+    <Card
+      style={styles.reportCard}
+      onPress={
+        report.syncState === "synced"
+          ? () => router.push(`/reports/${report.id}` as any)
+          : undefined
+      }
+    >
+      <Card.Content>
+        <View style={styles.cardHeader}>
+          <View style={styles.titleSection}>
+            <Title style={styles.equipmentId}>{report.equipmentId}</Title>
+            <Paragraph style={styles.equipmentType}>
+              {report.equipmentType}
+            </Paragraph>
+          </View>
+          <View style={styles.statusSection}>
+            <Chip
+              mode="outlined"
+              textStyle={{ fontSize: 12 }}
+              style={[
+                styles.statusChip,
+                { borderColor: getStatusColor(report.status) },
+              ]}
+            >
+              {report.status}
+            </Chip>
+          </View>
+        </View>
+
+        <View style={styles.cardBody}>
+          <View style={styles.infoRow}>
             <MaterialIcons
-              name="assignment"
-              size={64}
+              name="location-on"
+              size={16}
               color={theme.colors.onSurfaceVariant}
             />
             <Text
               style={[
-                styles.emptyText,
+                styles.infoText,
                 { color: theme.colors.onSurfaceVariant },
               ]}
             >
-              No inspection reports yet
+              {report.location}
             </Text>
+          </View>
+
+          <View style={styles.infoRow}>
+            <MaterialIcons
+              name="person"
+              size={16}
+              color={theme.colors.onSurfaceVariant}
+            />
             <Text
               style={[
-                styles.emptySubtext,
+                styles.infoText,
                 { color: theme.colors.onSurfaceVariant },
               ]}
             >
-              Create your first inspection report using the + button
+              {report.inspectorName}
             </Text>
           </View>
-        ) : (
-          mockReports.map((report) => (
-            <Card key={report.id} style={styles.reportCard}>
-              <Card.Content>
-                <View style={styles.cardHeader}>
-                  <View style={styles.titleSection}>
-                    <Title style={styles.equipmentId}>
-                      {report.equipmentId}
-                    </Title>
-                    <Paragraph style={styles.equipmentType}>
-                      {report.equipmentType}
-                    </Paragraph>
-                  </View>
-                  <View style={styles.statusSection}>
-                    <Chip
-                      mode="outlined"
-                      textStyle={{ fontSize: 12 }}
-                      style={[
-                        styles.statusChip,
-                        { borderColor: getStatusColor(report.status) },
-                      ]}
-                    >
-                      {report.status}
-                    </Chip>
-                  </View>
-                </View>
 
-                <View style={styles.cardBody}>
-                  <View style={styles.infoRow}>
-                    <MaterialIcons
-                      name="location-on"
-                      size={16}
-                      color={theme.colors.onSurfaceVariant}
-                    />
-                    <Text
-                      style={[
-                        styles.infoText,
-                        { color: theme.colors.onSurfaceVariant },
-                      ]}
-                    >
-                      {report.location}
-                    </Text>
-                  </View>
+          <View style={styles.infoRow}>
+            <MaterialIcons
+              name="schedule"
+              size={16}
+              color={theme.colors.onSurfaceVariant}
+            />
+            <Text
+              style={[
+                styles.infoText,
+                { color: theme.colors.onSurfaceVariant },
+              ]}
+            >
+              Created: {report.createdAt.toLocaleDateString()}
+            </Text>
+          </View>
 
-                  <View style={styles.infoRow}>
-                    <MaterialIcons
-                      name="person"
-                      size={16}
-                      color={theme.colors.onSurfaceVariant}
-                    />
-                    <Text
-                      style={[
-                        styles.infoText,
-                        { color: theme.colors.onSurfaceVariant },
-                      ]}
-                    >
-                      {report.inspectorName}
-                    </Text>
-                  </View>
+          {getLastInspection(report.assetId) && (
+            <View style={styles.infoRow}>
+              <MaterialIcons
+                name="history"
+                size={16}
+                color={theme.colors.onSurfaceVariant}
+              />
+              <Text
+                style={[
+                  styles.infoText,
+                  { color: theme.colors.onSurfaceVariant },
+                ]}
+              >
+                Last inspection:{" "}
+                {getLastInspection(report.assetId)!.toLocaleDateString()}
+              </Text>
+            </View>
+          )}
+        </View>
 
-                  <View style={styles.infoRow}>
-                    <MaterialIcons
-                      name="schedule"
-                      size={16}
-                      color={theme.colors.onSurfaceVariant}
-                    />
-                    <Text
-                      style={[
-                        styles.infoText,
-                        { color: theme.colors.onSurfaceVariant },
-                      ]}
-                    >
-                      Created: {new Date(report.createdAt).toLocaleDateString()}
-                    </Text>
-                  </View>
+        <ReportThumbnails photos={report.photos} />
 
-                  <View style={styles.infoRow}>
-                    <MaterialIcons
-                      name="history"
-                      size={16}
-                      color={theme.colors.onSurfaceVariant}
-                    />
-                    <Text
-                      style={[
-                        styles.infoText,
-                        { color: theme.colors.onSurfaceVariant },
-                      ]}
-                    >
-                      Last inspection:{" "}
-                      {new Date(report.lastInspection).toLocaleDateString()}
-                    </Text>
-                  </View>
-                </View>
+        <View style={styles.cardFooter}>
+          <Chip
+            mode="outlined"
+            textStyle={{ fontSize: 11 }}
+            style={[
+              styles.priorityChip,
+              { borderColor: getPriorityColor(report.priority) },
+            ]}
+          >
+            {report.priority} Priority
+          </Chip>
+          <Chip
+            mode="outlined"
+            icon={syncStateLabels[report.syncState].icon}
+            textStyle={{ fontSize: 11 }}
+            style={[
+              styles.syncChip,
+              { borderColor: getSyncStateColor(report.syncState) },
+            ]}
+          >
+            {syncStateLabels[report.syncState].label}
+          </Chip>
+        </View>
 
-                <View style={styles.cardFooter}>
-                  <Chip
-                    mode="outlined"
-                    textStyle={{ fontSize: 11 }}
-                    style={[
-                      styles.priorityChip,
-                      { borderColor: getPriorityColor(report.priority) },
-                    ]}
-                  >
-                    {report.priority} Priority
-                  </Chip>
-                </View>
-              </Card.Content>
-            </Card>
-          ))
+        {report.syncState === "conflict" && (
+          <View style={styles.conflictSection}>
+            <Text style={[styles.infoText, { color: theme.colors.error }]}>
+              {report.syncError || "The server rejected this report"}
+            </Text>
+            <View style={styles.conflictActions}>
+              <Button compact onPress={() => retryReport(report.clientId!)}>
+                Retry
+              </Button>
+              <Button
+                compact
+                textColor={theme.colors.error}
+                onPress={() => discardReport(report.clientId!)}
+              >
+                Discard
+              </Button>
+            </View>
+          </View>
         )}
-      </ScrollView>
+      </Card.Content>
+    </Card>
+  );
+
+  return (
+    <View style={styles.container}>
+      <ReportFilterBar
+        filters={filters}
+        onChange={setFilters}
+        inspectors={inspectors}
+      />
+
+      <FlatList
+        style={styles.scrollView}
+        contentContainerStyle={styles.contentContainer}
+        data={reports}
+        keyExtractor={(report) => report.id}
+        renderItem={({ item }) => renderReport(item)}
+        onEndReached={() => {
+          if (hasMoreReports) {
+            loadMoreReports();
+          }
+        }}
+        onEndReachedThreshold={0.5}
+        refreshControl={
+          <RefreshControl refreshing={loading} onRefresh={refreshReports} />
+        }
+        ListHeaderComponent={
+          error ? (
+            <Text style={[styles.errorText, { color: theme.colors.error }]}>
+              {error}
+            </Text>
+          ) : null
+        }
+        ListFooterComponent={
+          loadingMore ? <ActivityIndicator style={styles.footer} /> : null
+        }
+        ListEmptyComponent={
+          loading ? null : hasActiveFilters(filters) ? (
+            <View style={styles.emptyState}>
+              <MaterialIcons
+                name="search-off"
+                size={64}
+                color={theme.colors.onSurfaceVariant}
+              />
+              <Text
+                style={[
+                  styles.emptyText,
+                  { color: theme.colors.onSurfaceVariant },
+                ]}
+              >
+                No reports match your filters
+              </Text>
+            </View>
+          ) : (
+            <View style={styles.emptyState}>
+              <MaterialIcons
+                name="assignment"
+                size={64}
+                color={theme.colors.onSurfaceVariant}
+              />
+              <Text
+                style={[
+                  styles.emptyText,
+                  { color: theme.colors.onSurfaceVariant },
+                ]}
+              >
+                No inspection reports yet
+              </Text>
+              <Text
+                style={[
+                  styles.emptySubtext,
+                  { color: theme.colors.onSurfaceVariant },
+                ]}
+              >
+                Create your first inspection report using the + button
+              </Text>
+            </View>
+          )
+        }
+      />
 
       <FAB
         icon="plus"
@@ -249,6 +372,11 @@ const styles = StyleSheet.create({
     padding: 16,
     paddingBottom: 80, // Account for FAB
   },
+  errorText: {
+    fontSize: 14,
+    marginBottom: 12,
+    textAlign: "center",
+  },
   emptyState: {
     flex: 1,
     justifyContent: "center",
@@ -319,6 +447,20 @@ const styles = StyleSheet.create({
   priorityChip: {
     height: 26,
   },
+  syncChip: {
+    height: 26,
+    marginLeft: 8,
+  },
+  conflictSection: {
+    marginTop: 12,
+  },
+  footer: {
+    marginVertical: 16,
+  },
+  conflictActions: {
+    flexDirection: "row",
+    justifyContent: "flex-end",
+  },
   fab: {
     position: "absolute",
     margin: 16,
@@ -0,0 +1,146 @@
+import React from "react";
+import {
+  View,
+  StyleSheet,
+  ScrollView,
+  RefreshControl,
+  Alert,
+} from "react-native";
+import { Button, Text, useTheme } from "react-native-paper";
+import { MaterialIcons } from "@expo/vector-icons";
+import { router, useFocusEffect } from "expo-router";
+import { Can } from "../../components/auth/Permission";
+import { useJobs } from "../../components/jobs/JobContext";
+import { JobCard } from "../../components/jobs/JobCard";
+import { InspectionJob } from "../../types/job";
+
+export default function MyJobsScreen() {
+  const theme = useTheme();
+  const { myJobs, loading, error, refreshJobs, updateJobStatus } = useJobs();
+
+  // Pick up jobs dispatched or completed since the tab was last shown
+  useFocusEffect(
+    React.useCallback(() => {
+      refreshJobs();
+    }, [refreshJobs])
+  );
+
+  const startJob = async (job: InspectionJob) => {
+    if (job.status === "Assigned") {
+      const result = await updateJobStatus(job.id, "In Progress");
+      // Offline inspections still go ahead; the job catches up on sync
+      if (!result.success) {
+        console.warn("Failed to start job:", result.error);
+      }
+    }
+    router.push({ pathname: "/create", params: { jobId: job.id } } as any);
+  };
+
+  const releaseJob = (job: InspectionJob) =>
+    Alert.alert(
+      "Stop Job",
+      "Move this job back to Assigned? Your draft report is kept.",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Stop",
+          onPress: async () => {
+            const result = await updateJobStatus(job.id, "Assigned");
+            if (!result.success) {
+              Alert.alert("Error", result.error || "Failed to update job");
+            }
+          },
+        },
+      ]
+    );
+
+  return (
+    <ScrollView
+      style={styles.container}
+      contentContainerStyle={styles.contentContainer}
+      refreshControl={
+        <RefreshControl refreshing={loading} onRefresh={refreshJobs} />
+      }
+    >
+      <Can capability="jobs.dispatch">
+        <Button
+          mode="contained-tonal"
+          icon="clipboard-account-outline"
+          onPress={() => router.push("/dispatch" as any)}
+          style={styles.dispatchButton}
+        >
+          Dispatch Board
+        </Button>
+      </Can>
+
+      {error && (
+        <Text style={[styles.errorText, { color: theme.colors.error }]}>
+          {error}
+        </Text>
+      )}
+      {myJobs.length === 0 ? (
+        <View style={styles.emptyState}>
+          <MaterialIcons
+            name="assignment-turned-in"
+            size={64}
+            color={theme.colors.onSurfaceVariant}
+          />
+          <Text
+            style={[styles.emptyText, { color: theme.colors.onSurfaceVariant }]}
+          >
+            No jobs assigned to you
+          </Text>
+        </View>
+      ) : (
+        myJobs.map((job) => (
+          <JobCard
+            key={job.id}
+            job={job}
+            onPress={() => router.push(`/equipment/${job.assetId}` as any)}
+          >
+            {job.status === "In Progress" && (
+              <Button onPress={() => releaseJob(job)}>Stop</Button>
+            )}
+            <Button
+              mode="contained"
+              icon="clipboard-plus-outline"
+              onPress={() => startJob(job)}
+            >
+              {job.status === "In Progress" ? "Continue" : "Start Inspection"}
+            </Button>
+          </JobCard>
+        ))
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#f5f5f5",
+  },
+  contentContainer: {
+    padding: 16,
+  },
+  dispatchButton: {
+    marginBottom: 16,
+  },
+  errorText: {
+    fontSize: 14,
+    marginBottom: 12,
+    textAlign: "center",
+  },
+  emptyState: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    paddingTop: 100,
+  },
+  emptyText: {
+    fontSize: 18,
+    fontWeight: "600",
+    marginTop: 16,
+    textAlign: "center",
+  },
+});
@@ -0,0 +1,346 @@
+import React, { useState } from "react";
+import { StyleSheet, ScrollView, RefreshControl, Alert } from "react-native";
+import {
+  ActivityIndicator,
+  Button,
+  Card,
+  Divider,
+  List,
+  SegmentedButtons,
+  Text,
+  TextInput,
+  useTheme,
+} from "react-native-paper";
+import { router, useFocusEffect } from "expo-router";
+import { useAuth } from "../../components/auth/AuthContext";
+import { useAppLock } from "../../components/auth/AppLock";
+import { Can, usePermission } from "../../components/auth/Permission";
+import { APP_LOCK_INTERVAL_OPTIONS } from "../../services/auth/appLock";
+import { MfaStatus, User } from "../../types/auth";
+
+const roleLabels: Record<User["role"], string> = {
+  super_admin: "Super Admin",
+  manager: "Manager",
+  inspector: "Inspector",
+};
+
+export default function ProfileScreen() {
+  const theme = useTheme();
+  const { session, authService, updateProfile, logout } = useAuth();
+  const { lockIntervalMs, setLockInterval } = useAppLock();
+  const canAdminister = [
+    usePermission("templates.manage"),
+    usePermission("users.manage"),
+    usePermission("contractors.manage"),
+  ].some(Boolean);
+  // The signed-in account, not the contractor view being impersonated
+  const [profile, setProfile] = useState<User | null>(session?.user || null);
+  const [firstName, setFirstName] = useState(profile?.firstName || "");
+  const [lastName, setLastName] = useState(profile?.lastName || "");
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [mfaStatus, setMfaStatus] = useState<MfaStatus | null>(null);
+
+  const loadProfile = async () => {
+    setLoading(true);
+    try {
+      const [result, mfaResult] = await Promise.all([
+        authService.getCurrentUser(),
+        authService.getMfaStatus(),
+      ]);
+      if (mfaResult.success && mfaResult.data) {
+        setMfaStatus(mfaResult.data);
+      }
+      if (result.success && result.data) {
+        setProfile(result.data);
+        setFirstName(result.data.firstName);
+        setLastName(result.data.lastName);
+        setError(null);
+      } else {
+        setError(result.error || "Failed to load profile");
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useFocusEffect(
+    React.useCallback(() => {
+      loadProfile();
+    }, [session?.user.id])
+  );
+
+  if (!profile) {
+    return null;
+  }
+
+  const dirty =
+    firstName.trim() !== profile.firstName ||
+    lastName.trim() !== profile.lastName;
+
+  const handleSave = async () => {
+    if (!firstName.trim() || !lastName.trim()) {
+      Alert.alert("Error", "First and last name are required");
+      return;
+    }
+
+    setSaving(true);
+    const result = await updateProfile({
+      firstName: firstName.trim(),
+      lastName: lastName.trim(),
+    });
+    setSaving(false);
+
+    if (result.success) {
+      loadProfile();
+    } else {
+      Alert.alert("Error", result.error || "Failed to update profile");
+    }
+  };
+
+  const handleDisableMfa = () => {
+    Alert.alert(
+      "Turn Off Two-Factor",
+      "Your account will be protected by your password only, and your recovery codes will stop working.",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Turn Off",
+          style: "destructive",
+          onPress: async () => {
+            const result = await authService.disableMfa();
+            if (result.success) {
+              loadProfile();
+            } else {
+              Alert.alert("Error", result.error || "Failed to turn off");
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleLogout = () => {
+    Alert.alert("Sign Out", "Sign out of this device?", [
+      { text: "Cancel", style: "cancel" },
+      { text: "Sign Out", onPress: () => logout() },
+    ]);
+  };
+
+  const handleLogoutEverywhere = () => {
+    Alert.alert(
+      "Sign Out of All Devices",
+      "You'll be signed out here and on every other device using your account.",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Sign Out Everywhere",
+          style: "destructive",
+          onPress: () => logout({ allDevices: true }),
+        },
+      ]
+    );
+  };
+
+  return (
+    <ScrollView
+      style={styles.container}
+      contentContainerStyle={styles.contentContainer}
+      refreshControl={
+        <RefreshControl refreshing={loading} onRefresh={loadProfile} />
+      }
+    >
+      {error && (
+        <Text style={[styles.errorText, { color: theme.colors.error }]}>
+          {error}
+        </Text>
+      )}
+
+      <Card style={styles.card}>
+        <Card.Title title="Personal Details" />
+        <Card.Content style={styles.form}>
+          <TextInput
+            label="First Name"
+            value={firstName}
+            onChangeText={setFirstName}
+            mode="outlined"
+            disabled={saving}
+          />
+          <TextInput
+            label="Last Name"
+            value={lastName}
+            onChangeText={setLastName}
+            mode="outlined"
+            disabled={saving}
+          />
+          <Button
+            mode="contained"
+            onPress={handleSave}
+            disabled={saving || !dirty}
+          >
+            {saving ? <ActivityIndicator color="white" /> : "Save Changes"}
+          </Button>
+        </Card.Content>
+      </Card>
+
+      <Card style={styles.card}>
+        <List.Item
+          title={profile.email}
+          description="Email"
+          left={(props) => <List.Icon {...props} icon="email-outline" />}
+        />
+        <List.Item
+          title={roleLabels[profile.role]}
+          description="Role"
+          left={(props) => <List.Icon {...props} icon="shield-account" />}
+        />
+        <List.Item
+          title={profile.contractorName}
+          description="Contractor"
+          left={(props) => <List.Icon {...props} icon="domain" />}
+        />
+        <List.Item
+          title={
+            profile.lastLogin ? profile.lastLogin.toLocaleString() : "Unknown"
+          }
+          description="Last login"
+          left={(props) => <List.Icon {...props} icon="clock-outline" />}
+        />
+      </Card>
+
+      {canAdminister && (
+        <Card style={styles.card}>
+          <Card.Title title="Administration" />
+          <Can capability="templates.manage">
+            <List.Item
+              title="Checklist Templates"
+              left={(props) => (
+                <List.Icon {...props} icon="clipboard-list-outline" />
+              )}
+              right={(props) => <List.Icon {...props} icon="chevron-right" />}
+              onPress={() => router.push("/templates" as any)}
+            />
+          </Can>
+          <Can capability="users.manage">
+            <List.Item
+              title="Team"
+              left={(props) => (
+                <List.Icon {...props} icon="account-group-outline" />
+              )}
+              right={(props) => <List.Icon {...props} icon="chevron-right" />}
+              onPress={() => router.push("/team" as any)}
+            />
+          </Can>
+          <Can capability="contractors.manage">
+            <List.Item
+              title="Contractors"
+              left={(props) => <List.Icon {...props} icon="domain" />}
+              right={(props) => <List.Icon {...props} icon="chevron-right" />}
+              onPress={() => router.push("/contractors" as any)}
+            />
+          </Can>
+        </Card>
+      )}
+
+      <Card style={styles.card}>
+        <Card.Title
+          title="App Lock"
+          subtitle="Require Face ID, fingerprint or device PIN after the app has been in the background for"
+          subtitleNumberOfLines={2}
+        />
+        <Card.Content>
+          <SegmentedButtons
+            value={String(lockIntervalMs)}
+            onValueChange={(value) => setLockInterval(Number(value))}
+            buttons={APP_LOCK_INTERVAL_OPTIONS.map((option) => ({
+              value: String(option.value),
+              label: option.label,
+            }))}
+            density="small"
+          />
+        </Card.Content>
+      </Card>
+
+      {mfaStatus && (
+        <Card style={styles.card}>
+          <List.Item
+            title="Two-Factor Authentication"
+            description={[
+              mfaStatus.enrolled ? "On" : "Off",
+              mfaStatus.required ? "Required by your organization" : null,
+            ]
+              .filter(Boolean)
+              .join(" · ")}
+            left={(props) => <List.Icon {...props} icon="shield-key" />}
+          />
+          <Card.Actions>
+            {mfaStatus.enrolled ? (
+              <Button
+                textColor={theme.colors.error}
+                onPress={handleDisableMfa}
+                disabled={mfaStatus.required}
+              >
+                Turn Off
+              </Button>
+            ) : (
+              <Button onPress={() => router.push("/mfa-setup" as any)}>
+                Set Up
+              </Button>
+            )}
+          </Card.Actions>
+        </Card>
+      )}
+
+      <Card style={styles.card}>
+        <List.Item
+          title="Change Password"
+          left={(props) => <List.Icon {...props} icon="lock-reset" />}
+          right={(props) => <List.Icon {...props} icon="chevron-right" />}
+          onPress={() => router.push("/change-password" as any)}
+        />
+        <Divider />
+        <List.Item
+          title="Sign Out"
+          left={(props) => <List.Icon {...props} icon="logout" />}
+          onPress={handleLogout}
+        />
+        <Divider />
+        <List.Item
+          title="Sign Out of All Devices"
+          titleStyle={{ color: theme.colors.error }}
+          left={(props) => (
+            <List.Icon
+              {...props}
+              icon="cellphone-off"
+              color={theme.colors.error}
+            />
+          )}
+          onPress={handleLogoutEverywhere}
+        />
+      </Card>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#f5f5f5",
+  },
+  contentContainer: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  errorText: {
+    fontSize: 14,
+    marginBottom: 12,
+    textAlign: "center",
+  },
+  card: {
+    marginBottom: 16,
+  },
+  form: {
+    gap: 12,
+  },
+});
@@ -0,0 +1,296 @@
+import React, { useState } from "react";
+import { View, StyleSheet, ScrollView, RefreshControl } from "react-native";
+import {
+  Button,
+  Card,
+  Chip,
+  Paragraph,
+  SegmentedButtons,
+  Text,
+  Title,
+  useTheme,
+} from "react-native-paper";
+import { MaterialIcons } from "@expo/vector-icons";
+import { router, useFocusEffect } from "expo-router";
+import { Can, usePermission } from "../../components/auth/Permission";
+import { useEquipment } from "../../components/equipment/EquipmentContext";
+import { useSchedule } from "../../components/schedule/ScheduleContext";
+import { useJobs } from "../../components/jobs/JobContext";
+import {
+  describeDue,
+  findInspectionsToDispatch,
+  findOpenJob,
+  INSPECTION_CLASS_LABELS,
+} from "../../services/schedule/dueDates";
+import { DueState, ScheduledInspection } from "../../types/schedule";
+
+type ScheduleView = "overdue" | "upcoming" | "all";
+
+const EMPTY_MESSAGES: Record<ScheduleView, string> = {
+  overdue: "No overdue inspections",
+  upcoming: "Nothing due soon",
+  all: "No active equipment to schedule",
+};
+
+export default function ScheduleScreen() {
+  const theme = useTheme();
+  const { refreshEquipment } = useEquipment();
+  const { schedule, loading, error, refreshSchedule } = useSchedule();
+  const { jobs } = useJobs();
+  const canInspect = usePermission("reports.create");
+  const canDispatch = usePermission("jobs.dispatch");
+  const [view, setView] = useState<ScheduleView>("overdue");
+
+  const overdue = schedule.filter((item) => item.state === "overdue");
+  const upcoming = schedule.filter((item) => item.state === "due_soon");
+  const visible =
+    view === "overdue" ? overdue : view === "upcoming" ? upcoming : schedule;
+  const toDispatch = canDispatch
+    ? findInspectionsToDispatch(schedule, jobs)
+    : [];
+
+  const stateColors: Record<DueState, string> = {
+    overdue: theme.colors.error,
+    due_soon: "#f57c00",
+    scheduled: theme.colors.onSurfaceVariant,
+  };
+
+  // Pick up inspections completed since the tab was last shown
+  useFocusEffect(
+    React.useCallback(() => {
+      refreshSchedule();
+    }, [refreshSchedule])
+  );
+
+  const refresh = async () => {
+    await Promise.all([refreshEquipment(), refreshSchedule()]);
+  };
+
+  const dispatchJob = (item: ScheduledInspection) =>
+    router.push({
+      pathname: "/dispatch/new",
+      params: {
+        assetId: item.assetId,
+        inspectionClass: item.inspectionClass,
+        dueDate: item.dueDate.toISOString(),
+      },
+    } as any);
+
+  const startInspection = (item: ScheduledInspection) =>
+    router.push({
+      pathname: "/create",
+      params: { assetId: item.assetId, inspectionClass: item.inspectionClass },
+    } as any);
+
+  return (
+    <View style={styles.container}>
+      <SegmentedButtons
+        value={view}
+        onValueChange={(value) => setView(value as ScheduleView)}
+        buttons={[
+          { value: "overdue", label: `Overdue (${overdue.length})` },
+          { value: "upcoming", label: `Upcoming (${upcoming.length})` },
+          { value: "all", label: "All" },
+        ]}
+        style={styles.segmentedButtons}
+      />
+
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.contentContainer}
+        refreshControl={
+          <RefreshControl refreshing={loading} onRefresh={refresh} />
+        }
+      >
+        {error && (
+          <Text style={[styles.errorText, { color: theme.colors.error }]}>
+            {error}
+          </Text>
+        )}
+        {toDispatch.length > 0 && (
+          <Button
+            mode="contained-tonal"
+            icon="calendar-plus"
+            onPress={() => router.push("/dispatch/generate" as any)}
+            style={styles.generateButton}
+          >
+            {`Create Jobs for ${toDispatch.length} Due Inspection${
+              toDispatch.length === 1 ? "" : "s"
+            }`}
+          </Button>
+        )}
+        {visible.length === 0 ? (
+          <View style={styles.emptyState}>
+            <MaterialIcons
+              name="event-available"
+              size={64}
+              color={theme.colors.onSurfaceVariant}
+            />
+            <Text
+              style={[
+                styles.emptyText,
+                { color: theme.colors.onSurfaceVariant },
+              ]}
+            >
+              {EMPTY_MESSAGES[view]}
+            </Text>
+          </View>
+        ) : (
+          visible.map((item) => {
+            const openJob = findOpenJob(item, jobs);
+
+            return (
+              <Card
+                key={item.id}
+                style={styles.card}
+                onPress={() => router.push(`/equipment/${item.assetId}` as any)}
+              >
+                <Card.Content>
+                  <View style={styles.cardHeader}>
+                    <View style={styles.titleSection}>
+                      <Title style={styles.assetTag}>{item.assetTag}</Title>
+                      <Paragraph style={styles.equipmentType}>
+                        {item.equipmentType}
+                      </Paragraph>
+                    </View>
+                    <Chip mode="outlined" textStyle={{ fontSize: 12 }}>
+                      {INSPECTION_CLASS_LABELS[item.inspectionClass]}
+                    </Chip>
+                  </View>
+                  <Text
+                    style={[styles.dueText, { color: stateColors[item.state] }]}
+                  >
+                    {describeDue(item)} · {item.dueDate.toLocaleDateString()}
+                  </Text>
+                  <Text
+                    style={[
+                      styles.infoText,
+                      { color: theme.colors.onSurfaceVariant },
+                    ]}
+                  >
+                    {item.site} - {item.location}
+                  </Text>
+                  <Text
+                    style={[
+                      styles.infoText,
+                      { color: theme.colors.onSurfaceVariant },
+                    ]}
+                  >
+                    {item.lastInspection
+                      ? `Last inspection: ${item.lastInspection.toLocaleDateString()}`
+                      : "Never inspected"}
+                  </Text>
+                  {openJob && (
+                    <Text
+                      style={[styles.infoText, { color: theme.colors.primary }]}
+                    >
+                      {openJob.status} · {openJob.assigneeName}
+                    </Text>
+                  )}
+                </Card.Content>
+                {(canInspect || canDispatch) && (
+                  <Card.Actions>
+                    {canDispatch && !openJob && (
+                      <Button
+                        icon="account-arrow-right-outline"
+                        onPress={() => dispatchJob(item)}
+                      >
+                        Assign
+                      </Button>
+                    )}
+                    {canInspect && (
+                      <Button
+                        icon="clipboard-plus-outline"
+                        onPress={() => startInspection(item)}
+                      >
+                        Inspect
+                      </Button>
+                    )}
+                  </Card.Actions>
+                )}
+              </Card>
+            );
+          })
+        )}
+
+        <Can capability="equipment.manage">
+          <Button
+            mode="text"
+            icon="timer-cog-outline"
+            onPress={() => router.push("/schedule/rules" as any)}
+          >
+            Inspection Intervals
+          </Button>
+        </Can>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#f5f5f5",
+  },
+  segmentedButtons: {
+    margin: 16,
+    marginBottom: 0,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: 16,
+  },
+  generateButton: {
+    marginBottom: 12,
+  },
+  errorText: {
+    fontSize: 14,
+    marginBottom: 12,
+    textAlign: "center",
+  },
+  emptyState: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    paddingTop: 100,
+  },
+  emptyText: {
+    fontSize: 18,
+    fontWeight: "600",
+    marginTop: 16,
+    textAlign: "center",
+  },
+  card: {
+    marginBottom: 12,
+    elevation: 2,
+  },
+  cardHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "flex-start",
+    marginBottom: 8,
+  },
+  titleSection: {
+    flex: 1,
+  },
+  assetTag: {
+    fontSize: 18,
+    fontWeight: "bold",
+    marginBottom: 4,
+  },
+  equipmentType: {
+    fontSize: 14,
+    opacity: 0.7,
+  },
+  dueText: {
+    fontSize: 14,
+    fontWeight: "600",
+    marginBottom: 6,
+  },
+  infoText: {
+    fontSize: 13,
+    marginBottom: 4,
+  },
+});
@@ -1,9 +1,19 @@
 import { Stack } from "expo-router";
 import * as SplashScreen from "expo-splash-screen";
 import { useEffect, useState } from "react";
+import { View } from "react-native";
 import { PaperProvider } from "react-native-paper";
 import { SafeAreaProvider } from "react-native-safe-area-context";
 import { AuthProvider } from "../components/auth/AuthContext";
+import { AppLockProvider } from "../components/auth/AppLock";
+import { AuthGate } from "../components/auth/AuthGate";
+import { ImpersonationBanner } from "../components/auth/ImpersonationBanner";
+import { ReportProvider } from "../components/reports/ReportContext";
+import { TemplateProvider } from "../components/templates/TemplateContext";
+import { EquipmentProvider } from "../components/equipment/EquipmentContext";
+import { ScheduleProvider } from "../components/schedule/ScheduleContext";
+import { JobProvider } from "../components/jobs/JobContext";
+import { DefectProvider } from "../components/defects/DefectContext";
 import { theme } from "../constants/theme";
 
 // Prevent the splash screen from auto-hiding before asset loading is complete.
@@ -21,8 +31,8 @@ export default function RootLayout() {
       } catch (e) {
         console.warn(e);
       } finally {
+        // AuthGate hides the splash screen once the session is resolved
         setAppIsReady(true);
-        SplashScreen.hideAsync();
       }
     }
 
@@ -37,11 +47,100 @@ export default function RootLayout() {
     <SafeAreaProvider>
       <PaperProvider theme={theme}>
         <AuthProvider>
-          <Stack screenOptions={{ headerShown: false }}>
-            <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
-            <Stack.Screen name="auth" options={{ headerShown: false }} />
-            <Stack.Screen name="index" options={{ headerShown: false }} />
-          </Stack>
+          <AppLockProvider>
+            <ReportProvider>
+              <TemplateProvider>
+                <EquipmentProvider>
+                  <ScheduleProvider>
+                    <JobProvider>
+                      <DefectProvider>
+                        <AuthGate>
+                          <View style={{ flex: 1 }}>
+                            <ImpersonationBanner />
+                            <Stack screenOptions={{ headerShown: false }}>
+                              <Stack.Screen
+                                name="(tabs)"
+                                options={{ headerShown: false }}
+                              />
+                              <Stack.Screen
+                                name="auth"
+                                options={{ headerShown: false }}
+                              />
+                              <Stack.Screen
+                                name="change-password"
+                                options={{
+                                  headerShown: false,
+                                  gestureEnabled: false,
+                                }}
+                              />
+                              <Stack.Screen
+                                name="confirm-email"
+                                options={{ headerShown: false }}
+                              />
+                              <Stack.Screen
+                                name="reset-password"
+                                options={{
+                                  headerShown: false,
+                                  gestureEnabled: false,
+                                }}
+                              />
+                              <Stack.Screen
+                                name="mfa-setup"
+                                options={{
+                                  headerShown: false,
+                                  gestureEnabled: false,
+                                }}
+                              />
+                              <Stack.Screen
+                                name="index"
+                                options={{ headerShown: false }}
+                              />
+                              <Stack.Screen
+                                name="templates"
+                                options={{ headerShown: false }}
+                              />
+                              <Stack.Screen
+                                name="equipment"
+                                options={{ headerShown: false }}
+                              />
+                              <Stack.Screen
+                                name="dispatch"
+                                options={{ headerShown: false }}
+                              />
+                              <Stack.Screen
+                                name="defects"
+                                options={{ headerShown: false }}
+                              />
+                              <Stack.Screen
+                                name="schedule"
+                                options={{ headerShown: false }}
+                              />
+                              <Stack.Screen
+                                name="reports"
+                                options={{ headerShown: false }}
+                              />
+                              <Stack.Screen
+                                name="invitations"
+                                options={{ headerShown: false }}
+                              />
+                              <Stack.Screen
+                                name="team"
+                                options={{ headerShown: false }}
+                              />
+                              <Stack.Screen
+                                name="contractors"
+                                options={{ headerShown: false }}
+                              />
+                            </Stack>
+                          </View>
+                        </AuthGate>
+                      </DefectProvider>
+                    </JobProvider>
+                  </ScheduleProvider>
+                </EquipmentProvider>
+              </TemplateProvider>
+            </ReportProvider>
+          </AppLockProvider>
         </AuthProvider>
       </PaperProvider>
     </SafeAreaProvider>
@@ -1,5 +1,8 @@
+import { useLocalSearchParams } from "expo-router";
 import { AuthScreen } from "../components/auth/AuthScreen";
 
 export default function Auth() {
-  return <AuthScreen />;
+  const { invite } = useLocalSearchParams<{ invite?: string }>();
+
+  return <AuthScreen inviteToken={invite} />;
 }
@@ -0,0 +1,24 @@
+import { useState } from "react";
+import { router, useLocalSearchParams } from "expo-router";
+import { useAuth } from "../components/auth/AuthContext";
+import ChangePasswordScreen from "../components/auth/ChangePasswordScreen";
+import { sanitizeRedirect } from "../services/auth/redirect";
+
+export default function ChangePassword() {
+  const { user } = useAuth();
+  const { redirect } = useLocalSearchParams<{ redirect?: string }>();
+  // Captured on mount: the flag clears as soon as the change succeeds
+  const [required] = useState(!!user?.mustChangePassword);
+
+  const handleComplete = () => {
+    if (required || !router.canGoBack()) {
+      router.replace((sanitizeRedirect(redirect) || "/(tabs)") as any);
+    } else {
+      router.back();
+    }
+  };
+
+  return (
+    <ChangePasswordScreen required={required} onComplete={handleComplete} />
+  );
+}
@@ -0,0 +1,12 @@
+import { router } from "expo-router";
+import EmailLinkScreen from "../components/auth/EmailLinkScreen";
+
+// inspectrix://confirm-email, the target of the sign-up confirmation email
+export default function ConfirmEmail() {
+  return (
+    <EmailLinkScreen
+      pendingMessage="Confirming your email..."
+      onComplete={() => router.replace("/(tabs)" as any)}
+    />
+  );
+}
@@ -0,0 +1,262 @@
+import React, { useEffect, useState } from "react";
+import { View, StyleSheet, ScrollView, Alert } from "react-native";
+import {
+  Text,
+  TextInput,
+  Button,
+  Card,
+  HelperText,
+  useTheme,
+  ActivityIndicator,
+} from "react-native-paper";
+import { router, useLocalSearchParams, Stack } from "expo-router";
+import { useAuth } from "../../components/auth/AuthContext";
+import { Contractor } from "../../types/contractor";
+
+export default function ContractorEditorScreen() {
+  const theme = useTheme();
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const isNew = id === "new";
+  const { session, contractorService, startImpersonation } = useAuth();
+  const [existing, setExisting] = useState<Contractor | null>(null);
+  const [name, setName] = useState("");
+  const [brandColor, setBrandColor] = useState("");
+  const [logoUrl, setLogoUrl] = useState("");
+  const [loading, setLoading] = useState(!isNew);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (isNew) {
+      return;
+    }
+
+    const load = async () => {
+      const result = await contractorService.getContractor(id);
+      setLoading(false);
+      if (result.success && result.data) {
+        setExisting(result.data);
+        setName(result.data.name);
+        setBrandColor(result.data.brandColor || "");
+        setLogoUrl(result.data.logoUrl || "");
+      } else {
+        Alert.alert("Error", result.error || "Failed to load contractor");
+      }
+    };
+
+    load();
+  }, [id]);
+
+  if (!session) {
+    return null;
+  }
+
+  // Always act as the real super admin, even while impersonating
+  const actor = session.user;
+  const isOwnOrganization = existing?.id === actor.contractorId;
+
+  const handleSave = async () => {
+    setSaving(true);
+    const input = {
+      name,
+      brandColor: brandColor.trim() || undefined,
+      logoUrl: logoUrl.trim() || undefined,
+    };
+    const result = existing
+      ? await contractorService.updateContractor(existing.id, input, actor)
+      : await contractorService.createContractor(input, actor);
+    setSaving(false);
+
+    if (result.success) {
+      router.back();
+    } else {
+      Alert.alert("Error", result.error || "Failed to save contractor");
+    }
+  };
+
+  const handleToggleSuspended = () => {
+    if (!existing) {
+      return;
+    }
+
+    const suspend = !existing.isSuspended;
+    Alert.alert(
+      suspend ? "Suspend Contractor" : "Reinstate Contractor",
+      suspend
+        ? `All ${existing.name} users will be signed out and unable to sign in until reinstated.`
+        : `${existing.name} users will be able to sign in again.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: suspend ? "Suspend" : "Reinstate",
+          style: suspend ? "destructive" : "default",
+          onPress: async () => {
+            setSaving(true);
+            const result = await contractorService.setSuspended(
+              existing.id,
+              suspend,
+              actor
+            );
+            setSaving(false);
+            if (result.success && result.data) {
+              setExisting(result.data);
+            } else {
+              Alert.alert(
+                "Error",
+                result.error || "Failed to update contractor"
+              );
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleImpersonate = () => {
+    if (!existing) {
+      return;
+    }
+
+    startImpersonation(existing);
+    router.replace("/(tabs)" as any);
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator />
+      </View>
+    );
+  }
+
+  const colorInvalid =
+    !!brandColor.trim() && !/^#[0-9a-f]{6}$/i.test(brandColor.trim());
+
+  return (
+    <ScrollView
+      style={styles.container}
+      contentContainerStyle={styles.contentContainer}
+    >
+      <Stack.Screen
+        options={{ title: existing ? existing.name : "New Contractor" }}
+      />
+
+      <Card style={styles.card}>
+        <Card.Content style={styles.form}>
+          <TextInput
+            label="Organization Name *"
+            value={name}
+            onChangeText={setName}
+            mode="outlined"
+            disabled={saving}
+          />
+          <View>
+            <TextInput
+              label="Brand Color"
+              value={brandColor}
+              onChangeText={setBrandColor}
+              mode="outlined"
+              autoCapitalize="none"
+              disabled={saving}
+              placeholder="#1976d2"
+              error={colorInvalid}
+              right={
+                !colorInvalid && brandColor.trim() ? (
+                  <TextInput.Icon
+                    icon="circle"
+                    color={brandColor.trim()}
+                    forceTextInputFocus={false}
+                  />
+                ) : undefined
+              }
+            />
+            <HelperText type="error" visible={colorInvalid}>
+              Use a hex value like #1976d2
+            </HelperText>
+          </View>
+          <TextInput
+            label="Logo URL"
+            value={logoUrl}
+            onChangeText={setLogoUrl}
+            mode="outlined"
+            autoCapitalize="none"
+            keyboardType="url"
+            disabled={saving}
+          />
+        </Card.Content>
+      </Card>
+
+      <Button
+        mode="contained"
+        onPress={handleSave}
+        disabled={saving || colorInvalid || !name.trim()}
+        contentStyle={styles.buttonContent}
+      >
+        {saving ? <ActivityIndicator color="white" /> : "Save Contractor"}
+      </Button>
+
+      {existing && (
+        <>
+          {existing.isSuspended && (
+            <Text style={[styles.statusText, { color: theme.colors.error }]}>
+              Suspended
+              {existing.suspendedAt
+                ? ` since ${existing.suspendedAt.toLocaleString()}`
+                : ""}
+            </Text>
+          )}
+          <Button
+            mode="outlined"
+            icon="account-eye-outline"
+            onPress={handleImpersonate}
+            disabled={saving || isOwnOrganization}
+            style={styles.secondaryButton}
+          >
+            View as {existing.name}
+          </Button>
+          <Button
+            textColor={existing.isSuspended ? undefined : theme.colors.error}
+            onPress={handleToggleSuspended}
+            disabled={saving || isOwnOrganization}
+            style={styles.secondaryButton}
+          >
+            {existing.isSuspended
+              ? "Reinstate Contractor"
+              : "Suspend Contractor"}
+          </Button>
+        </>
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#f5f5f5",
+  },
+  contentContainer: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  card: {
+    marginBottom: 16,
+  },
+  form: {
+    gap: 12,
+  },
+  buttonContent: {
+    paddingVertical: 8,
+  },
+  statusText: {
+    textAlign: "center",
+    marginTop: 16,
+  },
+  secondaryButton: {
+    marginTop: 12,
+  },
+});
@@ -0,0 +1,26 @@
+import { Stack } from "expo-router";
+import { useTheme } from "react-native-paper";
+import { RequirePermission } from "../../components/auth/Permission";
+
+export default function ContractorsLayout() {
+  const theme = useTheme();
+
+  return (
+    <RequirePermission capability="contractors.manage">
+      <Stack
+        screenOptions={{
+          headerStyle: {
+            backgroundColor: theme.colors.primary,
+          },
+          headerTintColor: theme.colors.onPrimary,
+          headerTitleStyle: {
+            fontWeight: "bold",
+          },
+        }}
+      >
+        <Stack.Screen name="index" options={{ title: "Contractors" }} />
+        <Stack.Screen name="[id]" options={{ title: "Contractor" }} />
+      </Stack>
+    </RequirePermission>
+  );
+}
@@ -0,0 +1,135 @@
+import React, { useState } from "react";
+import { View, StyleSheet, ScrollView, RefreshControl } from "react-native";
+import { Card, Chip, FAB, List, Text, useTheme } from "react-native-paper";
+import { router, useFocusEffect } from "expo-router";
+import { useAuth } from "../../components/auth/AuthContext";
+import { ContractorSummary } from "../../types/contractor";
+
+export default function ContractorsScreen() {
+  const theme = useTheme();
+  const { session, contractorService } = useAuth();
+  const [contractors, setContractors] = useState<ContractorSummary[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadContractors = async () => {
+    if (!session) {
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const result = await contractorService.listContractors(session.user);
+      if (result.success && result.data) {
+        setContractors(result.data);
+        setError(null);
+      } else {
+        setError(result.error || "Failed to load contractors");
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useFocusEffect(
+    React.useCallback(() => {
+      loadContractors();
+    }, [session?.user.id])
+  );
+
+  return (
+    <View style={styles.container}>
+      <ScrollView
+        contentContainerStyle={styles.contentContainer}
+        refreshControl={
+          <RefreshControl refreshing={loading} onRefresh={loadContractors} />
+        }
+      >
+        {error && (
+          <Text style={[styles.errorText, { color: theme.colors.error }]}>
+            {error}
+          </Text>
+        )}
+        {!loading && !error && contractors.length === 0 && (
+          <Text style={styles.emptyText}>No contractors yet.</Text>
+        )}
+        {contractors.map((contractor) => (
+          <Card
+            key={contractor.id}
+            style={[
+              styles.card,
+              contractor.isSuspended && styles.suspendedCard,
+            ]}
+            onPress={() => router.push(`/contractors/${contractor.id}` as any)}
+          >
+            <List.Item
+              title={contractor.name}
+              description={`${contractor.userCount} users · ${contractor.reportCount} reports`}
+              left={(props) => (
+                <List.Icon
+                  {...props}
+                  icon="domain"
+                  color={contractor.brandColor || props.color}
+                />
+              )}
+              right={() =>
+                contractor.isSuspended ? (
+                  <Chip
+                    mode="outlined"
+                    style={styles.chip}
+                    compact
+                    textStyle={{ fontSize: 12, color: theme.colors.error }}
+                  >
+                    Suspended
+                  </Chip>
+                ) : null
+              }
+            />
+          </Card>
+        ))}
+      </ScrollView>
+
+      <FAB
+        icon="plus"
+        style={[styles.fab, { backgroundColor: theme.colors.primary }]}
+        onPress={() => router.push("/contractors/new" as any)}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#f5f5f5",
+  },
+  contentContainer: {
+    padding: 16,
+    paddingBottom: 80, // Account for FAB
+  },
+  errorText: {
+    fontSize: 14,
+    marginBottom: 12,
+    textAlign: "center",
+  },
+  emptyText: {
+    textAlign: "center",
+    opacity: 0.7,
+    marginTop: 32,
+  },
+  card: {
+    marginBottom: 12,
+  },
+  chip: {
+    alignSelf: "center",
+  },
+  suspendedCard: {
+    opacity: 0.6,
+  },
+  fab: {
+    position: "absolute",
+    margin: 16,
+    right: 0,
+    bottom: 0,
+  },
+});
@@ -0,0 +1,365 @@
+import React, { useEffect, useRef, useState } from "react";
+import { View, StyleSheet, ScrollView, Alert } from "react-native";
+import {
+  Button,
+  Card,
+  List,
+  Menu,
+  Text,
+  TextInput,
+  useTheme,
+} from "react-native-paper";
+import { router, useLocalSearchParams } from "expo-router";
+import { useAuth } from "../../components/auth/AuthContext";
+import { Can } from "../../components/auth/Permission";
+import { useDefects } from "../../components/defects/DefectContext";
+import { DefectCard } from "../../components/defects/DefectCard";
+import { useJobs } from "../../components/jobs/JobContext";
+import { ReportPhotoSection } from "../../components/photos/ReportPhotoSection";
+import { ReportThumbnails } from "../../components/photos/ReportThumbnails";
+import { deleteLocalPhoto } from "../../services/photos/photoCapture";
+import { getAvailableDefectTransitions } from "../../services/defects/defectWorkflow";
+import {
+  formatDateInput,
+  parseDateInput,
+} from "../../services/schedule/dueDates";
+import { hasCapability } from "../../services/auth/permissions";
+import { DefectTransition } from "../../types/defect";
+import { ReportPhoto } from "../../types/photo";
+
+export default function DefectDetailScreen() {
+  const theme = useTheme();
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { user } = useAuth();
+  const { findDefect, assignDefect, addRepairEvidence, transitionDefect } =
+    useDefects();
+  const { assignees } = useJobs();
+  const [assigning, setAssigning] = useState(false);
+  const [dueDate, setDueDate] = useState("");
+  const [evidence, setEvidence] = useState<ReportPhoto[]>([]);
+  const [repairNotes, setRepairNotes] = useState("");
+  const [busy, setBusy] = useState(false);
+  const unsaved = useRef<ReportPhoto[]>([]);
+  unsaved.current = evidence;
+
+  const defect = findDefect(id);
+
+  useEffect(() => {
+    if (defect) {
+      setDueDate(formatDateInput(defect.dueDate));
+      setRepairNotes(defect.repairNotes);
+    }
+  }, [defect?.id, defect?.updatedAt.getTime()]);
+
+  // Photos that were captured but never saved aren't needed
+  useEffect(
+    () => () => {
+      unsaved.current.forEach(deleteLocalPhoto);
+    },
+    []
+  );
+
+  if (!defect || !user) {
+    return (
+      <View style={styles.centered}>
+        <Text>Defect not found.</Text>
+      </View>
+    );
+  }
+
+  const transitions = getAvailableDefectTransitions(defect, user);
+  const canRecordRepair =
+    defect.status === "In Repair" &&
+    (defect.assigneeId === user.id || hasCapability(user, "defects.manage"));
+
+  const run = async (
+    action: () => Promise<{ success: boolean; error?: string }>
+  ) => {
+    setBusy(true);
+    const result = await action();
+    setBusy(false);
+    if (!result.success) {
+      Alert.alert("Error", result.error || "Failed to update defect");
+    }
+    return result.success;
+  };
+
+  const assign = (assigneeId: string | null) => {
+    setAssigning(false);
+    if (assigneeId !== (defect.assigneeId || null)) {
+      run(() => assignDefect(defect.id, { assigneeId }));
+    }
+  };
+
+  const saveDueDate = () => {
+    const due = parseDateInput(dueDate);
+    if (!due) {
+      Alert.alert("Invalid Date", "Enter the due date as YYYY-MM-DD.");
+      return;
+    }
+    run(() => assignDefect(defect.id, { dueDate: due }));
+  };
+
+  const saveEvidence = async () => {
+    const saved = await run(() =>
+      addRepairEvidence(defect.id, evidence, repairNotes)
+    );
+    if (saved) {
+      setEvidence([]);
+    }
+  };
+
+  const applyTransition = (transition: DefectTransition) => {
+    if (transition.requiresEvidence && defect.afterPhotos.length === 0) {
+      Alert.alert(
+        "Evidence Required",
+        "Save at least one photo of the completed repair before closing."
+      );
+      return;
+    }
+    Alert.alert(transition.action, `${transition.action}: ${defect.title}?`, [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: transition.action,
+        onPress: () => run(() => transitionDefect(defect.id, transition.to)),
+      },
+    ]);
+  };
+
+  const details = [
+    {
+      title: `Reported by ${defect.reportedByName}`,
+      description: defect.createdAt.toLocaleString(),
+      icon: "account-alert-outline",
+    },
+  ];
+  if (defect.closedAt) {
+    details.push({
+      title: `Verified closed by ${defect.closedByName || "Unknown"}`,
+      description: defect.closedAt.toLocaleString(),
+      icon: "check-decagram-outline",
+    });
+  }
+
+  return (
+    <ScrollView
+      style={styles.container}
+      contentContainerStyle={styles.contentContainer}
+    >
+      <DefectCard defect={defect}>
+        <Button
+          onPress={() => router.push(`/reports/${defect.reportId}` as any)}
+        >
+          View Report
+        </Button>
+        {defect.assetId && (
+          <Button
+            onPress={() => router.push(`/equipment/${defect.assetId}` as any)}
+          >
+            Equipment
+          </Button>
+        )}
+      </DefectCard>
+
+      <Card style={styles.card}>
+        {details.map((detail) => (
+          <List.Item
+            key={detail.icon}
+            title={detail.title}
+            description={detail.description}
+            left={(props) => <List.Icon {...props} icon={detail.icon} />}
+          />
+        ))}
+      </Card>
+
+      <Text variant="titleMedium" style={styles.sectionTitle}>
+        Before
+      </Text>
+      {defect.beforePhotos.length === 0 ? (
+        <Text
+          style={[styles.helperText, { color: theme.colors.onSurfaceVariant }]}
+        >
+          No photos were attached when the defect was found.
+        </Text>
+      ) : (
+        <View style={styles.photos}>
+          <ReportThumbnails photos={defect.beforePhotos} max={8} />
+        </View>
+      )}
+
+      <Text variant="titleMedium" style={styles.sectionTitle}>
+        After Repair
+      </Text>
+      {defect.afterPhotos.length === 0 && !defect.repairNotes ? (
+        <Text
+          style={[styles.helperText, { color: theme.colors.onSurfaceVariant }]}
+        >
+          No repair evidence yet.
+        </Text>
+      ) : (
+        <View style={styles.photos}>
+          <ReportThumbnails photos={defect.afterPhotos} max={8} />
+          {!!defect.repairNotes && <Text>{defect.repairNotes}</Text>}
+        </View>
+      )}
+
+      {canRecordRepair && (
+        <Card style={styles.card}>
+          <Card.Content style={styles.form}>
+            <ReportPhotoSection
+              photos={evidence}
+              onChange={setEvidence}
+              disabled={busy}
+            />
+            <TextInput
+              label="Repair Notes"
+              value={repairNotes}
+              onChangeText={setRepairNotes}
+              mode="outlined"
+              multiline
+              disabled={busy}
+              style={styles.input}
+              placeholder="What was repaired or replaced..."
+            />
+          </Card.Content>
+          <Card.Actions>
+            <Button
+              mode="contained"
+              icon="content-save-outline"
+              onPress={saveEvidence}
+              loading={busy}
+              disabled={
+                busy ||
+                (evidence.length === 0 && repairNotes === defect.repairNotes)
+              }
+            >
+              Save Evidence
+            </Button>
+          </Card.Actions>
+        </Card>
+      )}
+
+      <Can capability="defects.manage">
+        {defect.status !== "Closed" && (
+          <Card style={styles.card}>
+            <Card.Content style={styles.form}>
+              <Menu
+                visible={assigning}
+                onDismiss={() => setAssigning(false)}
+                anchor={
+                  <Button
+                    mode="outlined"
+                    icon="account-wrench-outline"
+                    onPress={() => setAssigning(true)}
+                    disabled={busy}
+                  >
+                    {defect.assigneeName
+                      ? `Assigned to ${defect.assigneeName}`
+                      : "Assign Repair"}
+                  </Button>
+                }
+              >
+                {assignees.map((assignee) => (
+                  <Menu.Item
+                    key={assignee.id}
+                    title={assignee.name}
+                    leadingIcon={
+                      assignee.id === defect.assigneeId ? "check" : undefined
+                    }
+                    onPress={() => assign(assignee.id)}
+                  />
+                ))}
+                {defect.assigneeId && (
+                  <Menu.Item
+                    title="Unassign"
+                    leadingIcon="account-remove-outline"
+                    onPress={() => assign(null)}
+                  />
+                )}
+              </Menu>
+              <View style={styles.dueRow}>
+                <TextInput
+                  label="Repair Due (YYYY-MM-DD)"
+                  value={dueDate}
+                  onChangeText={setDueDate}
+                  mode="outlined"
+                  disabled={busy}
+                  style={[styles.input, styles.dueInput]}
+                />
+                <Button
+                  onPress={saveDueDate}
+                  disabled={busy || dueDate === formatDateInput(defect.dueDate)}
+                >
+                  Save
+                </Button>
+              </View>
+            </Card.Content>
+          </Card>
+        )}
+      </Can>
+
+      {transitions.length > 0 && (
+        <View style={styles.actions}>
+          {transitions.map((transition) => (
+            <Button
+              key={transition.to}
+              mode={transition.to === "Open" ? "outlined" : "contained"}
+              onPress={() => applyTransition(transition)}
+              disabled={busy}
+            >
+              {transition.action}
+            </Button>
+          ))}
+        </View>
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#f5f5f5",
+  },
+  contentContainer: {
+    padding: 16,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    padding: 20,
+  },
+  card: {
+    marginBottom: 16,
+  },
+  sectionTitle: {
+    marginBottom: 8,
+  },
+  helperText: {
+    fontSize: 13,
+    marginBottom: 16,
+  },
+  photos: {
+    gap: 8,
+    marginBottom: 16,
+  },
+  form: {
+    gap: 12,
+  },
+  input: {
+    backgroundColor: "transparent",
+  },
+  dueRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  dueInput: {
+    flex: 1,
+  },
+  actions: {
+    gap: 8,
+    marginBottom: 16,
+  },
+});
@@ -0,0 +1,23 @@
+import { Stack } from "expo-router";
+import { useTheme } from "react-native-paper";
+
+export default function DefectsLayout() {
+  const theme = useTheme();
+
+  return (
+    <Stack
+      screenOptions={{
+        headerStyle: {
+          backgroundColor: theme.colors.primary,
+        },
+        headerTintColor: theme.colors.onPrimary,
+        headerTitleStyle: {
+          fontWeight: "bold",
+        },
+      }}
+    >
+      <Stack.Screen name="index" options={{ title: "Defects" }} />
+      <Stack.Screen name="[id]" options={{ title: "Defect" }} />
+    </Stack>
+  );
+}
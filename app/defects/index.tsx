@@ -0,0 +1,152 @@
+import React, { useCallback, useState } from "react";
+import { View, StyleSheet, ScrollView, RefreshControl } from "react-native";
+import { SegmentedButtons, Text, useTheme } from "react-native-paper";
+import { router, useFocusEffect } from "expo-router";
+import { useDefects } from "../../components/defects/DefectContext";
+import { DefectCard } from "../../components/defects/DefectCard";
+import {
+  DEFECT_SEVERITIES,
+  isOutstanding,
+} from "../../services/defects/defectWorkflow";
+import { Defect } from "../../types/defect";
+
+type DashboardView = "critical" | "outstanding" | "closed";
+
+const UNREGISTERED_SITE = "Unregistered equipment";
+
+const VIEW_FILTERS: Record<DashboardView, (defect: Defect) => boolean> = {
+  critical: (defect) =>
+    isOutstanding(defect) &&
+    (defect.severity === "Critical" || defect.removeFromService),
+  outstanding: isOutstanding,
+  closed: (defect) => !isOutstanding(defect),
+};
+
+// Most severe first, then soonest due
+function compareDefects(a: Defect, b: Defect): number {
+  return (
+    DEFECT_SEVERITIES.indexOf(a.severity) -
+      DEFECT_SEVERITIES.indexOf(b.severity) ||
+    a.dueDate.getTime() - b.dueDate.getTime()
+  );
+}
+
+export default function DefectsDashboardScreen() {
+  const theme = useTheme();
+  const { defects, loading, error, refreshDefects } = useDefects();
+  const [view, setView] = useState<DashboardView>("critical");
+
+  // Repairs are closed out on other devices
+  useFocusEffect(
+    useCallback(() => {
+      refreshDefects();
+    }, [refreshDefects])
+  );
+
+  const criticalCount = defects.filter(VIEW_FILTERS.critical).length;
+  const outstandingCount = defects.filter(VIEW_FILTERS.outstanding).length;
+
+  const bySite = new Map<string, Defect[]>();
+  for (const defect of defects.filter(VIEW_FILTERS[view])) {
+    const site = defect.site || UNREGISTERED_SITE;
+    bySite.set(site, [...(bySite.get(site) || []), defect]);
+  }
+  const sites = [...bySite.keys()].sort((a, b) =>
+    a === UNREGISTERED_SITE
+      ? 1
+      : b === UNREGISTERED_SITE
+      ? -1
+      : a.localeCompare(b)
+  );
+
+  return (
+    <View style={styles.container}>
+      <SegmentedButtons
+        value={view}
+        onValueChange={(value) => setView(value as DashboardView)}
+        buttons={[
+          { value: "critical", label: `Critical (${criticalCount})` },
+          { value: "outstanding", label: `Open (${outstandingCount})` },
+          { value: "closed", label: "Closed" },
+        ]}
+        style={styles.segmentedButtons}
+      />
+
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.contentContainer}
+        refreshControl={
+          <RefreshControl refreshing={loading} onRefresh={refreshDefects} />
+        }
+      >
+        {error && (
+          <Text style={[styles.errorText, { color: theme.colors.error }]}>
+            {error}
+          </Text>
+        )}
+        {sites.length === 0 ? (
+          <Text
+            style={[styles.emptyText, { color: theme.colors.onSurfaceVariant }]}
+          >
+            {view === "closed"
+              ? "No defects have been closed yet."
+              : view === "critical"
+              ? "No critical or out-of-service defects outstanding."
+              : "No outstanding defects."}
+          </Text>
+        ) : (
+          sites.map((site) => {
+            const siteDefects = bySite.get(site)!.sort(compareDefects);
+            return (
+              <View key={site}>
+                <Text style={styles.sectionTitle}>
+                  {site} ({siteDefects.length})
+                </Text>
+                {siteDefects.map((defect) => (
+                  <DefectCard
+                    key={defect.id}
+                    defect={defect}
+                    onPress={() => router.push(`/defects/${defect.id}` as any)}
+                  />
+                ))}
+              </View>
+            );
+          })
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#f5f5f5",
+  },
+  segmentedButtons: {
+    margin: 16,
+    marginBottom: 0,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: 16,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: "600",
+    marginBottom: 8,
+  },
+  errorText: {
+    fontSize: 14,
+    marginBottom: 12,
+    textAlign: "center",
+  },
+  emptyText: {
+    fontSize: 14,
+    textAlign: "center",
+    paddingTop: 80,
+    paddingHorizontal: 24,
+  },
+});
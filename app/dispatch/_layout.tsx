@@ -0,0 +1,27 @@
+import { Stack } from "expo-router";
+import { useTheme } from "react-native-paper";
+import { RequirePermission } from "../../components/auth/Permission";
+
+export default function DispatchLayout() {
+  const theme = useTheme();
+
+  return (
+    <RequirePermission capability="jobs.dispatch">
+      <Stack
+        screenOptions={{
+          headerStyle: {
+            backgroundColor: theme.colors.primary,
+          },
+          headerTintColor: theme.colors.onPrimary,
+          headerTitleStyle: {
+            fontWeight: "bold",
+          },
+        }}
+      >
+        <Stack.Screen name="index" options={{ title: "Dispatch Board" }} />
+        <Stack.Screen name="new" options={{ title: "New Job" }} />
+        <Stack.Screen name="generate" options={{ title: "Create Due Jobs" }} />
+      </Stack>
+    </RequirePermission>
+  );
+}
@@ -0,0 +1,207 @@
+import React, { useState } from "react";
+import { View, StyleSheet, ScrollView, Alert } from "react-native";
+import {
+  Text,
+  TextInput,
+  Button,
+  Card,
+  List,
+  useTheme,
+  ActivityIndicator,
+} from "react-native-paper";
+import { router } from "expo-router";
+import { useSchedule } from "../../components/schedule/ScheduleContext";
+import { useJobs } from "../../components/jobs/JobContext";
+import {
+  describeDue,
+  findInspectionsToDispatch,
+  INSPECTION_CLASS_LABELS,
+} from "../../services/schedule/dueDates";
+
+// Creates one job per overdue or due-soon inspection that has no open job,
+// all assigned to the same inspector. Each keeps its scheduled due date.
+export default function GenerateJobsScreen() {
+  const theme = useTheme();
+  const { schedule } = useSchedule();
+  const { jobs, assignees, createJob } = useJobs();
+  const [assigneeId, setAssigneeId] = useState<string>();
+  const [instructions, setInstructions] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const due = findInspectionsToDispatch(schedule, jobs);
+
+  const handleSubmit = async () => {
+    if (!assigneeId) {
+      setError("Choose who will do the inspections");
+      return;
+    }
+
+    setLoading(true);
+    const failures: string[] = [];
+    for (const item of due) {
+      const result = await createJob({
+        assetId: item.assetId,
+        inspectionClass: item.inspectionClass,
+        dueDate: item.dueDate,
+        instructions,
+        assigneeId,
+      });
+      if (!result.success) {
+        failures.push(`${item.assetTag}: ${result.error || "Failed"}`);
+      }
+    }
+    setLoading(false);
+
+    if (failures.length === 0) {
+      router.back();
+      return;
+    }
+    Alert.alert(
+      "Some Jobs Weren't Created",
+      `${due.length - failures.length} of ${
+        due.length
+      } jobs were created.\n\n${failures.join("\n")}`
+    );
+  };
+
+  return (
+    <ScrollView
+      style={styles.container}
+      contentContainerStyle={styles.contentContainer}
+    >
+      <Card>
+        <Card.Content style={styles.form}>
+          <View style={styles.section}>
+            <Text style={styles.fieldLabel}>Inspections</Text>
+            <Card mode="outlined">
+              {due.length === 0 ? (
+                <Card.Content>
+                  <Text style={{ color: theme.colors.onSurfaceVariant }}>
+                    Every overdue and upcoming inspection already has a job.
+                  </Text>
+                </Card.Content>
+              ) : (
+                due.map((item) => (
+                  <List.Item
+                    key={item.id}
+                    title={`${item.assetTag} · ${
+                      INSPECTION_CLASS_LABELS[item.inspectionClass]
+                    }`}
+                    description={`${describeDue(
+                      item
+                    )} · ${item.dueDate.toLocaleDateString()}`}
+                    descriptionStyle={
+                      item.state === "overdue"
+                        ? { color: theme.colors.error }
+                        : undefined
+                    }
+                  />
+                ))
+              )}
+            </Card>
+          </View>
+
+          <TextInput
+            label="Instructions"
+            value={instructions}
+            onChangeText={setInstructions}
+            mode="outlined"
+            multiline
+            numberOfLines={3}
+            disabled={loading}
+            style={styles.input}
+            placeholder="Added to every job created here"
+          />
+
+          <View style={styles.section}>
+            <Text style={styles.fieldLabel}>Assign To *</Text>
+            <Card mode="outlined">
+              {assignees.length === 0 ? (
+                <Card.Content>
+                  <Text style={{ color: theme.colors.onSurfaceVariant }}>
+                    No active inspectors on your team.
+                  </Text>
+                </Card.Content>
+              ) : (
+                assignees.map((assignee) => (
+                  <List.Item
+                    key={assignee.id}
+                    title={assignee.name}
+                    onPress={() => {
+                      setAssigneeId(assignee.id);
+                      setError(null);
+                    }}
+                    disabled={loading}
+                    left={(props) => (
+                      <List.Icon
+                        {...props}
+                        icon={
+                          assigneeId === assignee.id
+                            ? "radiobox-marked"
+                            : "radiobox-blank"
+                        }
+                      />
+                    )}
+                  />
+                ))
+              )}
+            </Card>
+          </View>
+          {error && (
+            <Text style={[styles.errorText, { color: theme.colors.error }]}>
+              {error}
+            </Text>
+          )}
+
+          <Button
+            mode="contained"
+            onPress={handleSubmit}
+            disabled={loading || due.length === 0}
+            style={styles.submitButton}
+            contentStyle={styles.buttonContent}
+          >
+            {loading ? (
+              <ActivityIndicator color="white" />
+            ) : (
+              `Create ${due.length} Job${due.length === 1 ? "" : "s"}`
+            )}
+          </Button>
+        </Card.Content>
+      </Card>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#f5f5f5",
+  },
+  contentContainer: {
+    padding: 16,
+  },
+  form: {
+    gap: 16,
+  },
+  input: {
+    backgroundColor: "transparent",
+  },
+  errorText: {
+    fontSize: 12,
+    marginTop: -12,
+    marginLeft: 12,
+  },
+  section: {
+    gap: 8,
+  },
+  fieldLabel: {
+    fontSize: 16,
+    fontWeight: "500",
+  },
+  submitButton: {
+    marginTop: 8,
+  },
+  buttonContent: {
+    height: 50,
+  },
+});
@@ -0,0 +1,212 @@
+import React, { useState } from "react";
+import {
+  View,
+  StyleSheet,
+  ScrollView,
+  RefreshControl,
+  Alert,
+} from "react-native";
+import {
+  Button,
+  FAB,
+  Menu,
+  SegmentedButtons,
+  Text,
+  useTheme,
+} from "react-native-paper";
+import { router } from "expo-router";
+import { useJobs } from "../../components/jobs/JobContext";
+import { JobCard } from "../../components/jobs/JobCard";
+import { InspectionJob, JobStatus } from "../../types/job";
+
+type BoardView = "open" | "completed" | "all";
+
+const VIEW_STATUSES: Record<BoardView, JobStatus[]> = {
+  open: ["Assigned", "In Progress"],
+  completed: ["Completed"],
+  all: ["Assigned", "In Progress", "Completed", "Cancelled"],
+};
+
+export default function DispatchBoardScreen() {
+  const theme = useTheme();
+  const {
+    jobs,
+    assignees,
+    loading,
+    error,
+    refreshJobs,
+    reassignJob,
+    updateJobStatus,
+  } = useJobs();
+  const [view, setView] = useState<BoardView>("open");
+  const [reassigningId, setReassigningId] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const visible = jobs.filter((job) =>
+    VIEW_STATUSES[view].includes(job.status)
+  );
+  const openCount = jobs.filter((job) =>
+    VIEW_STATUSES.open.includes(job.status)
+  ).length;
+
+  const runAction = async (
+    job: InspectionJob,
+    action: () => Promise<{ success: boolean; error?: string }>
+  ) => {
+    setBusyId(job.id);
+    const result = await action();
+    setBusyId(null);
+    if (!result.success) {
+      Alert.alert("Error", result.error || "Failed to update job");
+    }
+  };
+
+  const reassign = (job: InspectionJob, assigneeId: string) => {
+    setReassigningId(null);
+    if (assigneeId !== job.assigneeId) {
+      runAction(job, () => reassignJob(job.id, assigneeId));
+    }
+  };
+
+  const cancelJob = (job: InspectionJob) =>
+    Alert.alert("Cancel Job", `Cancel the inspection of ${job.assetTag}?`, [
+      { text: "Keep", style: "cancel" },
+      {
+        text: "Cancel Job",
+        style: "destructive",
+        onPress: () =>
+          runAction(job, () => updateJobStatus(job.id, "Cancelled")),
+      },
+    ]);
+
+  return (
+    <View style={styles.container}>
+      <SegmentedButtons
+        value={view}
+        onValueChange={(value) => setView(value as BoardView)}
+        buttons={[
+          { value: "open", label: `Open (${openCount})` },
+          { value: "completed", label: "Completed" },
+          { value: "all", label: "All" },
+        ]}
+        style={styles.segmentedButtons}
+      />
+
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.contentContainer}
+        refreshControl={
+          <RefreshControl refreshing={loading} onRefresh={refreshJobs} />
+        }
+      >
+        {error && (
+          <Text style={[styles.errorText, { color: theme.colors.error }]}>
+            {error}
+          </Text>
+        )}
+        {visible.length === 0 ? (
+          <Text
+            style={[styles.emptyText, { color: theme.colors.onSurfaceVariant }]}
+          >
+            {view === "open"
+              ? "No open jobs. Dispatch one to get an inspector on site."
+              : "No jobs to show."}
+          </Text>
+        ) : (
+          visible.map((job) => {
+            const isOpen = VIEW_STATUSES.open.includes(job.status);
+            const busy = busyId === job.id;
+
+            return (
+              <JobCard key={job.id} job={job} showAssignee>
+                {job.reportId && (
+                  <Button
+                    onPress={() =>
+                      router.push(`/reports/${job.reportId}` as any)
+                    }
+                  >
+                    View Report
+                  </Button>
+                )}
+                {isOpen && (
+                  <Button onPress={() => cancelJob(job)} disabled={busy}>
+                    Cancel
+                  </Button>
+                )}
+                {isOpen && (
+                  <Menu
+                    visible={reassigningId === job.id}
+                    onDismiss={() => setReassigningId(null)}
+                    anchor={
+                      <Button
+                        mode="contained"
+                        icon="account-switch-outline"
+                        onPress={() => setReassigningId(job.id)}
+                        loading={busy}
+                        disabled={busy}
+                      >
+                        Reassign
+                      </Button>
+                    }
+                  >
+                    {assignees.map((assignee) => (
+                      <Menu.Item
+                        key={assignee.id}
+                        title={assignee.name}
+                        leadingIcon={
+                          assignee.id === job.assigneeId ? "check" : undefined
+                        }
+                        onPress={() => reassign(job, assignee.id)}
+                      />
+                    ))}
+                  </Menu>
+                )}
+              </JobCard>
+            );
+          })
+        )}
+      </ScrollView>
+
+      <FAB
+        icon="plus"
+        style={[styles.fab, { backgroundColor: theme.colors.primary }]}
+        onPress={() => router.push("/dispatch/new" as any)}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#f5f5f5",
+  },
+  segmentedButtons: {
+    margin: 16,
+    marginBottom: 0,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: 16,
+    paddingBottom: 80, // Account for FAB
+  },
+  errorText: {
+    fontSize: 14,
+    marginBottom: 12,
+    textAlign: "center",
+  },
+  emptyText: {
+    fontSize: 14,
+    textAlign: "center",
+    paddingTop: 80,
+    paddingHorizontal: 24,
+  },
+  fab: {
+    position: "absolute",
+    margin: 16,
+    right: 0,
+    bottom: 0,
+  },
+});
@@ -0,0 +1,245 @@
+import React, { useState } from "react";
+import { View, StyleSheet, ScrollView, Alert } from "react-native";
+import {
+  Text,
+  TextInput,
+  Button,
+  Card,
+  List,
+  SegmentedButtons,
+  useTheme,
+  ActivityIndicator,
+} from "react-native-paper";
+import { router, useLocalSearchParams } from "expo-router";
+import { useEquipment } from "../../components/equipment/EquipmentContext";
+import { EquipmentPicker } from "../../components/equipment/EquipmentPicker";
+import { useJobs } from "../../components/jobs/JobContext";
+import {
+  INSPECTION_CLASSES,
+  INSPECTION_CLASS_LABELS,
+  formatDateInput,
+  parseDateInput,
+} from "../../services/schedule/dueDates";
+import { InspectionClass } from "../../types/schedule";
+
+interface JobForm {
+  assetId?: string;
+  inspectionClass: InspectionClass;
+  dueDate: string; // YYYY-MM-DD as typed
+  instructions: string;
+  assigneeId?: string;
+}
+
+export default function NewJobScreen() {
+  const theme = useTheme();
+  const params = useLocalSearchParams<{
+    assetId?: string;
+    inspectionClass?: InspectionClass;
+    dueDate?: string;
+  }>();
+  const { equipment } = useEquipment();
+  const { assignees, createJob } = useJobs();
+  const [loading, setLoading] = useState(false);
+  const [form, setForm] = useState<JobForm>({
+    assetId: params.assetId,
+    inspectionClass:
+      params.inspectionClass &&
+      INSPECTION_CLASSES.includes(params.inspectionClass)
+        ? params.inspectionClass
+        : "frequent",
+    dueDate: formatDateInput(
+      params.dueDate ? new Date(params.dueDate) : new Date()
+    ),
+    instructions: "",
+  });
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const selectedEquipment = equipment.find((e) => e.id === form.assetId);
+
+  const updateForm = <K extends keyof JobForm>(field: K, value: JobForm[K]) => {
+    setForm((prev) => ({ ...prev, [field]: value }));
+    if (errors[field]) {
+      setErrors((prev) => ({ ...prev, [field]: "" }));
+    }
+  };
+
+  const validateForm = (): boolean => {
+    const newErrors: Record<string, string> = {};
+
+    if (!selectedEquipment) {
+      newErrors.assetId = "Select the equipment to inspect";
+    } else if (!selectedEquipment.isActive) {
+      newErrors.assetId = "This equipment has been retired";
+    }
+    if (!parseDateInput(form.dueDate)) {
+      newErrors.dueDate = "Enter a date as YYYY-MM-DD";
+    }
+    if (!form.assigneeId) {
+      newErrors.assigneeId = "Choose who will do the inspection";
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSubmit = async () => {
+    if (!validateForm()) {
+      return;
+    }
+
+    setLoading(true);
+    const result = await createJob({
+      assetId: form.assetId!,
+      inspectionClass: form.inspectionClass,
+      dueDate: parseDateInput(form.dueDate)!,
+      instructions: form.instructions,
+      assigneeId: form.assigneeId!,
+    });
+    setLoading(false);
+
+    if (result.success) {
+      router.back();
+    } else {
+      Alert.alert("Error", result.error || "Failed to create job");
+    }
+  };
+
+  const renderError = (field: string) =>
+    errors[field] ? (
+      <Text style={[styles.errorText, { color: theme.colors.error }]}>
+        {errors[field]}
+      </Text>
+    ) : null;
+
+  return (
+    <ScrollView
+      style={styles.container}
+      contentContainerStyle={styles.contentContainer}
+    >
+      <Card>
+        <Card.Content style={styles.form}>
+          <EquipmentPicker
+            selected={selectedEquipment}
+            onSelect={(item) => updateForm("assetId", item?.id)}
+            error={errors.assetId}
+            disabled={loading}
+          />
+
+          <View style={styles.section}>
+            <Text style={styles.fieldLabel}>Inspection Type</Text>
+            <SegmentedButtons
+              value={form.inspectionClass}
+              onValueChange={(value) =>
+                updateForm("inspectionClass", value as InspectionClass)
+              }
+              buttons={INSPECTION_CLASSES.map((value) => ({
+                value,
+                label: INSPECTION_CLASS_LABELS[value],
+              }))}
+            />
+          </View>
+
+          <TextInput
+            label="Due Date *"
+            value={form.dueDate}
+            onChangeText={(text) => updateForm("dueDate", text)}
+            mode="outlined"
+            error={!!errors.dueDate}
+            disabled={loading}
+            style={styles.input}
+            placeholder="YYYY-MM-DD"
+          />
+          {renderError("dueDate")}
+
+          <TextInput
+            label="Instructions"
+            value={form.instructions}
+            onChangeText={(text) => updateForm("instructions", text)}
+            mode="outlined"
+            multiline
+            numberOfLines={4}
+            disabled={loading}
+            style={styles.input}
+            placeholder="Access, contacts, known issues, anything the inspector needs on site..."
+          />
+
+          <View style={styles.section}>
+            <Text style={styles.fieldLabel}>Assign To *</Text>
+            <Card mode="outlined">
+              {assignees.length === 0 ? (
+                <Card.Content>
+                  <Text style={{ color: theme.colors.onSurfaceVariant }}>
+                    No active inspectors on your team.
+                  </Text>
+                </Card.Content>
+              ) : (
+                assignees.map((assignee) => (
+                  <List.Item
+                    key={assignee.id}
+                    title={assignee.name}
+                    onPress={() => updateForm("assigneeId", assignee.id)}
+                    disabled={loading}
+                    left={(props) => (
+                      <List.Icon
+                        {...props}
+                        icon={
+                          form.assigneeId === assignee.id
+                            ? "radiobox-marked"
+                            : "radiobox-blank"
+                        }
+                      />
+                    )}
+                  />
+                ))
+              )}
+            </Card>
+          </View>
+          {renderError("assigneeId")}
+
+          <Button
+            mode="contained"
+            onPress={handleSubmit}
+            disabled={loading}
+            style={styles.submitButton}
+            contentStyle={styles.buttonContent}
+          >
+            {loading ? <ActivityIndicator color="white" /> : "Dispatch Job"}
+          </Button>
+        </Card.Content>
+      </Card>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#f5f5f5",
+  },
+  contentContainer: {
+    padding: 16,
+  },
+  form: {
+    gap: 16,
+  },
+  input: {
+    backgroundColor: "transparent",
+  },
+  errorText: {
+    fontSize: 12,
+    marginTop: -12,
+    marginLeft: 12,
+  },
+  section: {
+    gap: 8,
+  },
+  fieldLabel: {
+    fontSize: 16,
+    fontWeight: "500",
+  },
+  submitButton: {
+    marginTop: 8,
+  },
+  buttonContent: {
+    height: 50,
+  },
+});
@@ -0,0 +1,285 @@
+import React, { useEffect, useState } from "react";
+import { View, StyleSheet, ScrollView, RefreshControl } from "react-native";
+import {
+  Button,
+  Card,
+  Chip,
+  List,
+  Text,
+  Title,
+  Paragraph,
+  useTheme,
+} from "react-native-paper";
+import { router, useLocalSearchParams, Stack } from "expo-router";
+import { Can } from "../../components/auth/Permission";
+import { useEquipment } from "../../components/equipment/EquipmentContext";
+import { EquipmentSummary } from "../../components/equipment/EquipmentSummary";
+import { useReports } from "../../components/reports/ReportContext";
+import { useSchedule } from "../../components/schedule/ScheduleContext";
+import { useDefects } from "../../components/defects/DefectContext";
+import { DefectCard } from "../../components/defects/DefectCard";
+import {
+  isOutOfService,
+  isOutstanding,
+} from "../../services/defects/defectWorkflow";
+import {
+  describeDue,
+  INSPECTION_CLASS_LABELS,
+} from "../../services/schedule/dueDates";
+import { InspectionReport } from "../../types/report";
+
+export default function EquipmentDetailScreen() {
+  const theme = useTheme();
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { equipment, updateEquipment } = useEquipment();
+  const { reportService } = useReports();
+  const { getAssetSchedule } = useSchedule();
+  const { defects, refreshDefects } = useDefects();
+  const [history, setHistory] = useState<InspectionReport[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const item = equipment.find((e) => e.id === id);
+
+  const loadHistory = async () => {
+    setLoading(true);
+    try {
+      const result = await reportService.listReportsForAsset(id);
+      if (result.success && result.data) {
+        setHistory(result.data);
+        setError(null);
+      } else {
+        setError(result.error || "Failed to load inspection history");
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadHistory();
+    refreshDefects();
+  }, [id]);
+
+  if (!item) {
+    return (
+      <View style={styles.centered}>
+        <Text>Equipment not found.</Text>
+      </View>
+    );
+  }
+
+  const openDefects = defects.filter(
+    (defect) => defect.assetId === item.id && isOutstanding(defect)
+  );
+
+  const toggleActive = () =>
+    updateEquipment(item.id, { isActive: !item.isActive });
+
+  return (
+    <ScrollView
+      style={styles.container}
+      contentContainerStyle={styles.contentContainer}
+      refreshControl={
+        <RefreshControl refreshing={loading} onRefresh={loadHistory} />
+      }
+    >
+      <Stack.Screen options={{ title: item.assetTag }} />
+
+      {isOutOfService(item.id, defects) && (
+        <Card
+          style={[
+            styles.card,
+            { backgroundColor: theme.colors.errorContainer },
+          ]}
+        >
+          <Card.Title
+            title="Out of Service"
+            subtitle="Do not use until the defects below are repaired and closed"
+            titleStyle={{ color: theme.colors.onErrorContainer }}
+            subtitleStyle={{ color: theme.colors.onErrorContainer }}
+            subtitleNumberOfLines={2}
+            left={(props) => (
+              <List.Icon
+                {...props}
+                icon="cancel"
+                color={theme.colors.onErrorContainer}
+              />
+            )}
+          />
+        </Card>
+      )}
+
+      <Card style={styles.card}>
+        <Card.Content>
+          <View style={styles.cardHeader}>
+            <View style={styles.titleSection}>
+              <Title style={styles.assetTag}>{item.assetTag}</Title>
+              <Paragraph style={styles.equipmentType}>
+                {item.equipmentType}
+              </Paragraph>
+            </View>
+            {!item.isActive && (
+              <Chip mode="outlined" textStyle={{ fontSize: 12 }}>
+                Retired
+              </Chip>
+            )}
+          </View>
+          <EquipmentSummary equipment={item} />
+        </Card.Content>
+        <Card.Actions>
+          <Can capability="equipment.manage">
+            <Button onPress={toggleActive}>
+              {item.isActive ? "Retire" : "Reactivate"}
+            </Button>
+          </Can>
+          <Button
+            mode="contained"
+            icon="clipboard-plus-outline"
+            disabled={!item.isActive}
+            onPress={() =>
+              router.push({
+                pathname: "/create",
+                params: { assetId: item.id },
+              } as any)
+            }
+          >
+            Inspect
+          </Button>
+        </Card.Actions>
+      </Card>
+
+      {item.isActive && (
+        <>
+          <Text variant="titleMedium" style={styles.sectionTitle}>
+            Next Inspections
+          </Text>
+          <Card style={styles.card}>
+            {getAssetSchedule(item.id).map((due) => (
+              <List.Item
+                key={due.id}
+                title={INSPECTION_CLASS_LABELS[due.inspectionClass]}
+                description={`${describeDue(
+                  due
+                )} · ${due.dueDate.toLocaleDateString()}`}
+                descriptionStyle={
+                  due.state === "overdue"
+                    ? { color: theme.colors.error }
+                    : undefined
+                }
+                left={(props) => (
+                  <List.Icon
+                    {...props}
+                    icon={
+                      due.state === "overdue"
+                        ? "calendar-alert"
+                        : "calendar-clock"
+                    }
+                  />
+                )}
+              />
+            ))}
+          </Card>
+        </>
+      )}
+
+      {openDefects.length > 0 && (
+        <>
+          <Text variant="titleMedium" style={styles.sectionTitle}>
+            Open Defects
+          </Text>
+          {openDefects.map((defect) => (
+            <DefectCard
+              key={defect.id}
+              defect={defect}
+              showAsset={false}
+              onPress={() => router.push(`/defects/${defect.id}` as any)}
+            />
+          ))}
+        </>
+      )}
+
+      <Text variant="titleMedium" style={styles.sectionTitle}>
+        Inspection History
+      </Text>
+      {error && (
+        <Text style={[styles.helperText, { color: theme.colors.error }]}>
+          {error}
+        </Text>
+      )}
+      {history.length === 0 && !loading ? (
+        <Text
+          style={[styles.helperText, { color: theme.colors.onSurfaceVariant }]}
+        >
+          No inspections recorded for this asset yet.
+        </Text>
+      ) : (
+        <Card>
+          {history.map((report) => (
+            <List.Item
+              key={report.id}
+              title={`${report.createdAt.toLocaleDateString()} · ${
+                report.status
+              }`}
+              description={`${report.inspectorName} · ${report.priority} priority`}
+              left={(props) => (
+                <List.Icon
+                  {...props}
+                  icon={
+                    report.status === "Completed"
+                      ? "check-circle-outline"
+                      : "progress-clock"
+                  }
+                />
+              )}
+            />
+          ))}
+        </Card>
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#f5f5f5",
+  },
+  contentContainer: {
+    padding: 16,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    padding: 20,
+  },
+  card: {
+    marginBottom: 16,
+  },
+  cardHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "flex-start",
+    marginBottom: 12,
+  },
+  titleSection: {
+    flex: 1,
+  },
+  assetTag: {
+    fontSize: 20,
+    fontWeight: "bold",
+    marginBottom: 4,
+  },
+  equipmentType: {
+    fontSize: 14,
+    opacity: 0.7,
+  },
+  sectionTitle: {
+    marginBottom: 8,
+  },
+  helperText: {
+    fontSize: 13,
+    marginBottom: 8,
+  },
+});
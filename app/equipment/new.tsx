@@ -0,0 +1,230 @@
+import React, { useState } from "react";
+import { View, StyleSheet, ScrollView, Alert } from "react-native";
+import {
+  Text,
+  TextInput,
+  Button,
+  Card,
+  SegmentedButtons,
+  useTheme,
+  ActivityIndicator,
+} from "react-native-paper";
+import { router } from "expo-router";
+import { useEquipment } from "../../components/equipment/EquipmentContext";
+import { CapacityUnit } from "../../types/equipment";
+
+interface EquipmentForm {
+  assetTag: string;
+  equipmentType: string;
+  serialNumber: string;
+  manufacturer: string;
+  model: string;
+  ratedCapacity: string;
+  capacityUnit: CapacityUnit;
+  site: string;
+  location: string;
+}
+
+const unitOptions = [
+  { value: "kg", label: "kg" },
+  { value: "t", label: "t" },
+  { value: "lb", label: "lb" },
+];
+
+export default function NewEquipmentScreen() {
+  const theme = useTheme();
+  const { createEquipment } = useEquipment();
+  const [loading, setLoading] = useState(false);
+  const [form, setForm] = useState<EquipmentForm>({
+    assetTag: "",
+    equipmentType: "",
+    serialNumber: "",
+    manufacturer: "",
+    model: "",
+    ratedCapacity: "",
+    capacityUnit: "t",
+    site: "",
+    location: "",
+  });
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  const validateForm = (): boolean => {
+    const newErrors: Record<string, string> = {};
+
+    if (!form.assetTag.trim()) {
+      newErrors.assetTag = "Asset ID is required";
+    }
+    if (!form.equipmentType.trim()) {
+      newErrors.equipmentType = "Equipment type is required";
+    }
+    if (!form.serialNumber.trim()) {
+      newErrors.serialNumber = "Serial number is required";
+    }
+    if (!form.manufacturer.trim()) {
+      newErrors.manufacturer = "Manufacturer is required";
+    }
+    if (form.ratedCapacity.trim()) {
+      const capacity = Number(form.ratedCapacity);
+      if (!Number.isFinite(capacity) || capacity <= 0) {
+        newErrors.ratedCapacity = "Enter a positive number";
+      }
+    }
+    if (!form.site.trim()) {
+      newErrors.site = "Site is required";
+    }
+    if (!form.location.trim()) {
+      newErrors.location = "Location is required";
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSubmit = async () => {
+    if (!validateForm()) {
+      return;
+    }
+
+    setLoading(true);
+    const result = await createEquipment({
+      assetTag: form.assetTag,
+      equipmentType: form.equipmentType,
+      serialNumber: form.serialNumber,
+      manufacturer: form.manufacturer,
+      model: form.model || undefined,
+      ratedCapacity: form.ratedCapacity.trim()
+        ? Number(form.ratedCapacity)
+        : undefined,
+      capacityUnit: form.ratedCapacity.trim() ? form.capacityUnit : undefined,
+      site: form.site,
+      location: form.location,
+    });
+    setLoading(false);
+
+    if (result.success && result.data) {
+      router.replace(`/equipment/${result.data.id}` as any);
+    } else {
+      Alert.alert("Error", result.error || "Failed to register equipment");
+    }
+  };
+
+  const updateForm = (field: keyof EquipmentForm, value: string) => {
+    setForm((prev) => ({ ...prev, [field]: value }));
+    if (errors[field]) {
+      setErrors((prev) => ({ ...prev, [field]: "" }));
+    }
+  };
+
+  const renderInput = (
+    field: Exclude<keyof EquipmentForm, "capacityUnit">,
+    label: string,
+    placeholder?: string
+  ) => (
+    <>
+      <TextInput
+        label={label}
+        value={form[field]}
+        onChangeText={(text) => updateForm(field, text)}
+        mode="outlined"
+        error={!!errors[field]}
+        disabled={loading}
+        style={styles.input}
+        placeholder={placeholder}
+        keyboardType={field === "ratedCapacity" ? "decimal-pad" : "default"}
+      />
+      {errors[field] && (
+        <Text style={[styles.errorText, { color: theme.colors.error }]}>
+          {errors[field]}
+        </Text>
+      )}
+    </>
+  );
+
+  return (
+    <ScrollView
+      style={styles.container}
+      contentContainerStyle={styles.contentContainer}
+    >
+      <Card>
+        <Card.Content style={styles.form}>
+          {renderInput("assetTag", "Asset ID *", "e.g., EQ-001")}
+          {renderInput(
+            "equipmentType",
+            "Equipment Type *",
+            "e.g., Overhead Crane"
+          )}
+          {renderInput("serialNumber", "Serial Number *")}
+          {renderInput("manufacturer", "Manufacturer *")}
+          {renderInput("model", "Model")}
+
+          <View style={styles.capacityRow}>
+            <View style={styles.capacityInput}>
+              {renderInput("ratedCapacity", "Rated Capacity")}
+            </View>
+            <SegmentedButtons
+              value={form.capacityUnit}
+              onValueChange={(value) => updateForm("capacityUnit", value)}
+              buttons={unitOptions}
+              style={styles.unitButtons}
+            />
+          </View>
+
+          {renderInput("site", "Site *", "e.g., Plant A")}
+          {renderInput("location", "Location *", "e.g., Bay 2")}
+
+          <Button
+            mode="contained"
+            onPress={handleSubmit}
+            disabled={loading}
+            style={styles.submitButton}
+            contentStyle={styles.buttonContent}
+          >
+            {loading ? (
+              <ActivityIndicator color="white" />
+            ) : (
+              "Register Equipment"
+            )}
+          </Button>
+        </Card.Content>
+      </Card>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#f5f5f5",
+  },
+  contentContainer: {
+    padding: 16,
+  },
+  form: {
+    gap: 16,
+  },
+  input: {
+    backgroundColor: "transparent",
+  },
+  errorText: {
+    fontSize: 12,
+    marginTop: -12,
+    marginLeft: 12,
+  },
+  capacityRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  capacityInput: {
+    flex: 1,
+  },
+  unitButtons: {
+    flex: 1,
+  },
+  submitButton: {
+    marginTop: 8,
+  },
+  buttonContent: {
+    height: 50,
+  },
+});
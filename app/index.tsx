@@ -1,36 +1,7 @@
-import { View, Text, StyleSheet } from "react-native";
-import { Button } from "react-native-paper";
-import { router } from "expo-router";
+import { Redirect } from "expo-router";
 
+// The root layout's auth gate decides where signed-out users go; everyone
+// else starts on the Reports tab
 export default function Index() {
-  return (
-    <View style={styles.container}>
-      <Text style={styles.text}>Welcome to Inspectrix v3!</Text>
-      <Button
-        mode="contained"
-        onPress={() => router.push("/auth" as any)}
-        style={styles.button}
-      >
-        Go to Auth
-      </Button>
-    </View>
-  );
+  return <Redirect href={"/(tabs)" as any} />;
 }
-
-const styles = StyleSheet.create({
-  container: {
-    flex: 1,
-    justifyContent: "center",
-    alignItems: "center",
-    backgroundColor: "#fff",
-    padding: 20,
-  },
-  text: {
-    fontSize: 24,
-    fontWeight: "bold",
-    marginBottom: 20,
-  },
-  button: {
-    marginTop: 20,
-  },
-});
@@ -0,0 +1,26 @@
+import { Stack } from "expo-router";
+import { useTheme } from "react-native-paper";
+import { RequirePermission } from "../../components/auth/Permission";
+
+export default function InvitationsLayout() {
+  const theme = useTheme();
+
+  return (
+    <RequirePermission capability="users.manage">
+      <Stack
+        screenOptions={{
+          headerStyle: {
+            backgroundColor: theme.colors.primary,
+          },
+          headerTintColor: theme.colors.onPrimary,
+          headerTitleStyle: {
+            fontWeight: "bold",
+          },
+        }}
+      >
+        <Stack.Screen name="index" options={{ title: "Invitations" }} />
+        <Stack.Screen name="new" options={{ title: "Invite Team Member" }} />
+      </Stack>
+    </RequirePermission>
+  );
+}
@@ -0,0 +1,186 @@
+import React, { useEffect, useState } from "react";
+import {
+  View,
+  StyleSheet,
+  ScrollView,
+  RefreshControl,
+  Alert,
+} from "react-native";
+import {
+  Button,
+  Card,
+  Chip,
+  FAB,
+  List,
+  Text,
+  useTheme,
+} from "react-native-paper";
+import { router, useFocusEffect } from "expo-router";
+import { useAuth } from "../../components/auth/AuthContext";
+import { Invitation } from "../../types/invitation";
+
+type InvitationState = "Pending" | "Accepted" | "Expired" | "Revoked";
+
+function getInvitationState(invitation: Invitation): InvitationState {
+  if (invitation.acceptedAt) {
+    return "Accepted";
+  }
+  if (invitation.revokedAt) {
+    return "Revoked";
+  }
+  if (invitation.expiresAt.getTime() < Date.now()) {
+    return "Expired";
+  }
+  return "Pending";
+}
+
+export default function InvitationListScreen() {
+  const theme = useTheme();
+  const { user, invitationService } = useAuth();
+  const [invitations, setInvitations] = useState<Invitation[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadInvitations = async () => {
+    if (!user) {
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const result = await invitationService.listInvitations(user.contractorId);
+      if (result.success && result.data) {
+        setInvitations(result.data);
+        setError(null);
+      } else {
+        setError(result.error || "Failed to load invitations");
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Reload when coming back from the invite form
+  useFocusEffect(
+    React.useCallback(() => {
+      loadInvitations();
+    }, [user?.contractorId])
+  );
+
+  const revoke = (invitation: Invitation) => {
+    Alert.alert(
+      "Revoke Invitation",
+      `The link sent to ${invitation.email} will stop working.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Revoke",
+          style: "destructive",
+          onPress: async () => {
+            const result = await invitationService.revokeInvitation(
+              invitation.id,
+              user!
+            );
+            if (result.success) {
+              loadInvitations();
+            } else {
+              Alert.alert(
+                "Error",
+                result.error || "Failed to revoke invitation"
+              );
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <ScrollView
+        contentContainerStyle={styles.contentContainer}
+        refreshControl={
+          <RefreshControl refreshing={loading} onRefresh={loadInvitations} />
+        }
+      >
+        {error && (
+          <Text style={[styles.errorText, { color: theme.colors.error }]}>
+            {error}
+          </Text>
+        )}
+        {invitations.length === 0 && !loading ? (
+          <Text
+            style={[styles.emptyText, { color: theme.colors.onSurfaceVariant }]}
+          >
+            No invitations yet. Invite inspectors and managers to join your
+            company.
+          </Text>
+        ) : (
+          invitations.map((invitation) => {
+            const state = getInvitationState(invitation);
+            return (
+              <Card key={invitation.id} style={styles.card}>
+                <List.Item
+                  title={invitation.email}
+                  description={`${
+                    invitation.role === "manager" ? "Manager" : "Inspector"
+                  } · expires ${invitation.expiresAt.toLocaleDateString()}`}
+                  left={(props) => (
+                    <List.Icon {...props} icon="email-outline" />
+                  )}
+                  right={() => (
+                    <Chip mode="outlined" textStyle={{ fontSize: 12 }}>
+                      {state}
+                    </Chip>
+                  )}
+                />
+                {state === "Pending" && (
+                  <Card.Actions>
+                    <Button onPress={() => revoke(invitation)}>Revoke</Button>
+                  </Card.Actions>
+                )}
+              </Card>
+            );
+          })
+        )}
+      </ScrollView>
+
+      <FAB
+        icon="account-plus"
+        style={[styles.fab, { backgroundColor: theme.colors.primary }]}
+        onPress={() => router.push("/invitations/new" as any)}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#f5f5f5",
+  },
+  contentContainer: {
+    padding: 16,
+    paddingBottom: 80, // Account for FAB
+  },
+  errorText: {
+    fontSize: 14,
+    marginBottom: 12,
+    textAlign: "center",
+  },
+  emptyText: {
+    fontSize: 14,
+    textAlign: "center",
+    paddingTop: 80,
+    paddingHorizontal: 24,
+  },
+  card: {
+    marginBottom: 12,
+  },
+  fab: {
+    position: "absolute",
+    margin: 16,
+    right: 0,
+    bottom: 0,
+  },
+});
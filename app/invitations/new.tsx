@@ -0,0 +1,202 @@
+import React, { useState } from "react";
+import { StyleSheet, ScrollView, Alert, Share } from "react-native";
+import {
+  Text,
+  TextInput,
+  Button,
+  Card,
+  SegmentedButtons,
+  useTheme,
+  ActivityIndicator,
+} from "react-native-paper";
+import { router } from "expo-router";
+import { useAuth } from "../../components/auth/AuthContext";
+import { InvitableRole, IssuedInvitation } from "../../types/invitation";
+
+const roleOptions = [
+  { value: "inspector", label: "Inspector" },
+  { value: "manager", label: "Manager" },
+];
+
+const expiryOptions = [
+  { value: "3", label: "3 days" },
+  { value: "7", label: "7 days" },
+  { value: "14", label: "14 days" },
+];
+
+export default function NewInvitationScreen() {
+  const theme = useTheme();
+  const { user, invitationService } = useAuth();
+  const [email, setEmail] = useState("");
+  const [role, setRole] = useState<InvitableRole>("inspector");
+  const [expiresInDays, setExpiresInDays] = useState("7");
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [issued, setIssued] = useState<IssuedInvitation | null>(null);
+
+  const handleSubmit = async () => {
+    if (!/\S+@\S+\.\S+/.test(email.trim())) {
+      setError("Enter a valid email address");
+      return;
+    }
+
+    setLoading(true);
+    const result = await invitationService.createInvitation(
+      { email, role, expiresInDays: Number(expiresInDays) },
+      user!
+    );
+    setLoading(false);
+
+    if (result.success && result.data) {
+      setIssued(result.data);
+    } else {
+      Alert.alert("Error", result.error || "Failed to create invitation");
+    }
+  };
+
+  const shareLink = (invitation: IssuedInvitation) =>
+    Share.share({
+      message: `You've been invited to join ${user?.contractorName} on Inspectrix. Open this link on your phone to create your account: ${invitation.link}`,
+    });
+
+  if (issued) {
+    return (
+      <ScrollView
+        style={styles.container}
+        contentContainerStyle={styles.contentContainer}
+      >
+        <Card>
+          <Card.Content style={styles.form}>
+            <Text variant="titleMedium">Invitation created</Text>
+            <Text>
+              Send this link to {issued.invitation.email}. It can be used once
+              and expires on {issued.invitation.expiresAt.toLocaleDateString()}.
+            </Text>
+            <Text
+              selectable
+              style={[
+                styles.link,
+                { backgroundColor: theme.colors.surfaceVariant },
+              ]}
+            >
+              {issued.link}
+            </Text>
+            <Text
+              style={[
+                styles.helperText,
+                { color: theme.colors.onSurfaceVariant },
+              ]}
+            >
+              The link won't be shown again. If it's lost, revoke this
+              invitation and send a new one.
+            </Text>
+            <Button
+              mode="contained"
+              icon="share-variant"
+              onPress={() => shareLink(issued)}
+            >
+              Share Link
+            </Button>
+            <Button mode="text" onPress={() => router.back()}>
+              Done
+            </Button>
+          </Card.Content>
+        </Card>
+      </ScrollView>
+    );
+  }
+
+  return (
+    <ScrollView
+      style={styles.container}
+      contentContainerStyle={styles.contentContainer}
+    >
+      <Card>
+        <Card.Content style={styles.form}>
+          <TextInput
+            label="Email *"
+            value={email}
+            onChangeText={(value) => {
+              setEmail(value);
+              setError(null);
+            }}
+            mode="outlined"
+            keyboardType="email-address"
+            autoCapitalize="none"
+            error={!!error}
+            disabled={loading}
+            style={styles.input}
+          />
+          {error && (
+            <Text style={[styles.errorText, { color: theme.colors.error }]}>
+              {error}
+            </Text>
+          )}
+
+          <Text variant="labelLarge">Role</Text>
+          <SegmentedButtons
+            value={role}
+            onValueChange={(value) => setRole(value as InvitableRole)}
+            buttons={roleOptions}
+          />
+
+          <Text variant="labelLarge">Link expires after</Text>
+          <SegmentedButtons
+            value={expiresInDays}
+            onValueChange={setExpiresInDays}
+            buttons={expiryOptions}
+          />
+
+          <Button
+            mode="contained"
+            onPress={handleSubmit}
+            disabled={loading}
+            style={styles.submitButton}
+            contentStyle={styles.buttonContent}
+          >
+            {loading ? (
+              <ActivityIndicator color="white" />
+            ) : (
+              "Create Invitation"
+            )}
+          </Button>
+        </Card.Content>
+      </Card>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#f5f5f5",
+  },
+  contentContainer: {
+    padding: 16,
+  },
+  form: {
+    gap: 16,
+  },
+  input: {
+    backgroundColor: "transparent",
+  },
+  errorText: {
+    fontSize: 12,
+    marginTop: -12,
+    marginLeft: 12,
+  },
+  link: {
+    fontSize: 12,
+    padding: 12,
+    borderRadius: 4,
+  },
+  helperText: {
+    fontSize: 13,
+  },
+  submitButton: {
+    marginTop: 8,
+  },
+  buttonContent: {
+    height: 50,
+  },
+});
@@ -0,0 +1,22 @@
+import { useState } from "react";
+import { router, useLocalSearchParams } from "expo-router";
+import { useAuth } from "../components/auth/AuthContext";
+import MfaSetupScreen from "../components/auth/MfaSetupScreen";
+import { sanitizeRedirect } from "../services/auth/redirect";
+
+export default function MfaSetup() {
+  const { user } = useAuth();
+  const { redirect } = useLocalSearchParams<{ redirect?: string }>();
+  // Captured on mount: the flag clears as soon as enrollment succeeds
+  const [required] = useState(!!user?.mustEnrollMfa);
+
+  const handleComplete = () => {
+    if (required || !router.canGoBack()) {
+      router.replace((sanitizeRedirect(redirect) || "/(tabs)") as any);
+    } else {
+      router.back();
+    }
+  };
+
+  return <MfaSetupScreen required={required} onComplete={handleComplete} />;
+}
@@ -0,0 +1,571 @@
+import React, { useEffect, useState } from "react";
+import {
+  View,
+  StyleSheet,
+  ScrollView,
+  RefreshControl,
+  Alert,
+} from "react-native";
+import {
+  Button,
+  Card,
+  Chip,
+  Dialog,
+  Divider,
+  List,
+  Paragraph,
+  Portal,
+  Text,
+  TextInput,
+  Title,
+  useTheme,
+} from "react-native-paper";
+import { router, useLocalSearchParams, Stack } from "expo-router";
+import { useAuth } from "../../components/auth/AuthContext";
+import { useReports } from "../../components/reports/ReportContext";
+import { useTemplates } from "../../components/templates/TemplateContext";
+import { useEquipment } from "../../components/equipment/EquipmentContext";
+import { useDefects } from "../../components/defects/DefectContext";
+import { DefectCard } from "../../components/defects/DefectCard";
+import { ReportThumbnails } from "../../components/photos/ReportThumbnails";
+import { SignatureView } from "../../components/signatures/SignatureView";
+import {
+  canReviseReport,
+  countPendingPhotos,
+  getAvailableTransitions,
+} from "../../services/reports/reportWorkflow";
+import { shareCertificate } from "../../services/reports/certificateExport";
+import {
+  formatChecklistResponse,
+  resolveReportTemplate,
+} from "../../services/templates/checklistValidation";
+import {
+  hashReportContent,
+  isSignatureValid,
+} from "../../services/signatures/reportSignatures";
+import { SIGNER_ROLE_LABELS } from "../../services/signatures/signatureGeometry";
+import {
+  InspectionReport,
+  ReportStatusEvent,
+  StatusTransition,
+} from "../../types/report";
+
+const SIGNATURE_HEIGHT = 48;
+
+export default function ReportDetailScreen() {
+  const theme = useTheme();
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { user, contractorService } = useAuth();
+  const {
+    reports,
+    draft,
+    reportService,
+    photoService,
+    transitionReport,
+    reviseReport,
+  } = useReports();
+  const { templates } = useTemplates();
+  const { equipment } = useEquipment();
+  const { defects } = useDefects();
+  const [fetched, setFetched] = useState<InspectionReport | null>(null);
+  const [history, setHistory] = useState<ReportStatusEvent[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [pending, setPending] = useState<StatusTransition | null>(null);
+  const [comment, setComment] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const [reportHash, setReportHash] = useState<string | null>(null);
+
+  const report = reports.find((r) => r.id === id) || fetched;
+  const template = report ? resolveReportTemplate(report, templates) : null;
+
+  const loadReport = async () => {
+    setLoading(true);
+    try {
+      const [reportResult, historyResult] = await Promise.all([
+        reportService.getReport(id),
+        reportService.getStatusHistory(id),
+      ]);
+      if (reportResult.success && reportResult.data) {
+        setFetched(reportResult.data);
+      }
+      if (historyResult.success && historyResult.data) {
+        setHistory(historyResult.data);
+        setError(null);
+      } else {
+        setError(historyResult.error || "Failed to load status history");
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadReport();
+  }, [id]);
+
+  // Signatures only count for the exact content that was signed
+  useEffect(() => {
+    if (report) {
+      hashReportContent(report).then(setReportHash);
+    }
+  }, [report]);
+
+  if (!report) {
+    return (
+      <View style={styles.centered}>
+        <Text>{loading ? "Loading report..." : "Report not found."}</Text>
+      </View>
+    );
+  }
+
+  // Resubmitting goes through the report form, so the inspector signs
+  // exactly what goes back to the reviewer
+  const transitions = user
+    ? getAvailableTransitions(report, user).filter((t) => t.to !== "Submitted")
+    : [];
+  const canRevise = canReviseReport(report, user);
+  const pendingPhotos = countPendingPhotos(report);
+  const signatures = report.signatures || [];
+  const trackedDefects = defects.filter((d) => d.reportId === report.id);
+
+  const applyTransition = async (
+    transition: StatusTransition,
+    note?: string
+  ) => {
+    setSubmitting(true);
+    const result = await transitionReport(report, transition.to, note);
+    setSubmitting(false);
+
+    if (result.success) {
+      setPending(null);
+      setComment("");
+      // Pick up the new event and any concurrent status change
+      loadReport();
+    } else {
+      Alert.alert("Error", result.error || "Failed to update report status");
+    }
+  };
+
+  const handleShareCertificate = async () => {
+    setExporting(true);
+    try {
+      const paths = report.photos
+        .map((photo) => photo.storagePath)
+        .filter(Boolean) as string[];
+      const [urls, contractor] = await Promise.all([
+        paths.length > 0 ? photoService.getPhotoUrls(paths) : null,
+        contractorService.getContractor(report.contractorId),
+      ]);
+      const approval = [...history]
+        .reverse()
+        .find((event) => event.toStatus === "Completed");
+
+      const result = await shareCertificate({
+        report,
+        contractorName: contractor.data?.name || user?.contractorName || "",
+        branding: contractor.data,
+        equipment: equipment.find((item) => item.id === report.assetId),
+        template: template || undefined,
+        photoUrls: urls?.data || {},
+        approvedBy: approval?.actorName,
+        completedAt: approval?.createdAt,
+        signatures,
+        reportHash: reportHash || (await hashReportContent(report)),
+        issuedAt: new Date(),
+      });
+
+      if (!result.success) {
+        Alert.alert("Error", result.error || "Failed to generate certificate");
+      }
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const openRevision = async () => {
+    const result = await reviseReport(report);
+    if (result.success) {
+      router.navigate("/create" as any);
+    } else {
+      Alert.alert("Error", result.error || "Failed to open the report");
+    }
+  };
+
+  const handleRevise = () => {
+    if (!draft || draft.form.reportId === report.id) {
+      openRevision();
+      return;
+    }
+    Alert.alert(
+      "Replace Draft",
+      "You have an unfinished report on this device. Revising this one discards it.",
+      [
+        { text: "Cancel", style: "cancel" },
+        { text: "Revise", style: "destructive", onPress: openRevision },
+      ]
+    );
+  };
+
+  const handleTransition = (transition: StatusTransition) => {
+    if (transition.requiresComment) {
+      setPending(transition);
+    } else {
+      applyTransition(transition);
+    }
+  };
+
+  return (
+    <ScrollView
+      style={styles.container}
+      contentContainerStyle={styles.contentContainer}
+      refreshControl={
+        <RefreshControl refreshing={loading} onRefresh={loadReport} />
+      }
+    >
+      <Stack.Screen options={{ title: report.equipmentId }} />
+
+      <Card style={styles.card}>
+        <Card.Content>
+          <View style={styles.cardHeader}>
+            <View style={styles.titleSection}>
+              <Title style={styles.equipmentId}>{report.equipmentId}</Title>
+              <Paragraph style={styles.equipmentType}>
+                {report.equipmentType}
+              </Paragraph>
+            </View>
+            <Chip mode="outlined" textStyle={{ fontSize: 12 }}>
+              {report.status}
+            </Chip>
+          </View>
+          <List.Item
+            title={report.location}
+            left={(props) => <List.Icon {...props} icon="map-marker" />}
+            style={styles.listItem}
+          />
+          <List.Item
+            title={report.inspectorName}
+            description={`Created ${report.createdAt.toLocaleString()}`}
+            left={(props) => <List.Icon {...props} icon="account" />}
+            style={styles.listItem}
+          />
+          <List.Item
+            title={`${report.priority} Priority`}
+            left={(props) => <List.Icon {...props} icon="flag" />}
+            style={styles.listItem}
+          />
+          {!!report.description && (
+            <Paragraph style={styles.bodyText}>{report.description}</Paragraph>
+          )}
+          {!!report.notes && (
+            <Paragraph
+              style={[
+                styles.bodyText,
+                { color: theme.colors.onSurfaceVariant },
+              ]}
+            >
+              {report.notes}
+            </Paragraph>
+          )}
+          <ReportThumbnails photos={report.photos} max={report.photos.length} />
+          {pendingPhotos > 0 && (
+            <Text
+              style={[
+                styles.helperText,
+                { color: theme.colors.onSurfaceVariant },
+              ]}
+            >
+              {pendingPhotos} more photo{pendingPhotos === 1 ? " is" : "s are"}{" "}
+              still uploading from the inspector's device. Review opens once
+              they arrive.
+            </Text>
+          )}
+        </Card.Content>
+        {(transitions.length > 0 || canRevise) && (
+          <Card.Actions>
+            {canRevise && (
+              <Button mode="contained" icon="pencil" onPress={handleRevise}>
+                Revise Report
+              </Button>
+            )}
+            {transitions.map((transition) => (
+              <Button
+                key={`${transition.from}-${transition.to}`}
+                mode={transition.requiresComment ? "outlined" : "contained"}
+                disabled={
+                  submitting ||
+                  report.syncState !== "synced" ||
+                  (transition.capability !== "reports.submit" &&
+                    pendingPhotos > 0)
+                }
+                onPress={() => handleTransition(transition)}
+              >
+                {transition.action}
+              </Button>
+            ))}
+          </Card.Actions>
+        )}
+        {report.status === "Completed" && (
+          <Card.Actions>
+            <Button
+              icon="file-certificate-outline"
+              onPress={handleShareCertificate}
+              loading={exporting}
+              disabled={exporting}
+            >
+              Share Certificate
+            </Button>
+          </Card.Actions>
+        )}
+      </Card>
+
+      {template && (
+        <>
+          <Text variant="titleMedium" style={styles.sectionTitle}>
+            {template.name}
+          </Text>
+          <Card style={styles.card}>
+            {template.sections.map((section, index) => (
+              <View key={section.id}>
+                {index > 0 && <Divider />}
+                <List.Subheader>{section.title}</List.Subheader>
+                {section.items.map((item) => {
+                  const response = report.checklist[item.id];
+                  return (
+                    <List.Item
+                      key={item.id}
+                      title={item.label}
+                      description={
+                        response?.comment
+                          ? `${formatChecklistResponse(item, response)} · ${
+                              response.comment
+                            }`
+                          : formatChecklistResponse(item, response)
+                      }
+                      descriptionStyle={
+                        response?.value === "fail"
+                          ? { color: theme.colors.error }
+                          : undefined
+                      }
+                    />
+                  );
+                })}
+              </View>
+            ))}
+          </Card>
+        </>
+      )}
+
+      {(report.defects || []).length > 0 && (
+        <>
+          <Text variant="titleMedium" style={styles.sectionTitle}>
+            Defects
+          </Text>
+          {trackedDefects.length > 0 ? (
+            trackedDefects.map((defect) => (
+              <DefectCard
+                key={defect.id}
+                defect={defect}
+                showAsset={false}
+                onPress={() => router.push(`/defects/${defect.id}` as any)}
+              />
+            ))
+          ) : (
+            // Not tracked yet: the report is still queued on this device
+            <Card style={styles.card}>
+              {report.defects.map((defect) => (
+                <List.Item
+                  key={defect.id}
+                  title={defect.title}
+                  description={`${defect.severity}${
+                    defect.removeFromService ? " · Remove from service" : ""
+                  } · ${defect.recommendedAction}`}
+                  descriptionStyle={
+                    defect.severity === "Critical" || defect.removeFromService
+                      ? { color: theme.colors.error }
+                      : undefined
+                  }
+                  left={(props) => (
+                    <List.Icon {...props} icon="alert-outline" />
+                  )}
+                />
+              ))}
+            </Card>
+          )}
+        </>
+      )}
+
+      <Text variant="titleMedium" style={styles.sectionTitle}>
+        Sign-off
+      </Text>
+      {signatures.length === 0 ? (
+        <Text
+          style={[styles.helperText, { color: theme.colors.onSurfaceVariant }]}
+        >
+          This report has not been signed.
+        </Text>
+      ) : (
+        <Card style={styles.card}>
+          {signatures.map((signature) => {
+            const valid =
+              !reportHash || isSignatureValid(signature, reportHash);
+            return (
+              <Card.Content key={signature.id} style={styles.signature}>
+                <SignatureView
+                  strokes={signature.strokes}
+                  width={
+                    (SIGNATURE_HEIGHT * signature.width) / signature.height
+                  }
+                  height={SIGNATURE_HEIGHT}
+                  color={valid ? undefined : theme.colors.outline}
+                />
+                <View style={styles.titleSection}>
+                  <Text variant="labelLarge">{signature.signerName}</Text>
+                  <Text
+                    variant="bodySmall"
+                    style={{ color: theme.colors.onSurfaceVariant }}
+                  >
+                    {SIGNER_ROLE_LABELS[signature.signerRole]} ·{" "}
+                    {new Date(signature.signedAt).toLocaleString()}
+                  </Text>
+                  {!valid && (
+                    <Text
+                      variant="bodySmall"
+                      style={{ color: theme.colors.error }}
+                    >
+                      Invalidated: the report changed after signing
+                    </Text>
+                  )}
+                </View>
+              </Card.Content>
+            );
+          })}
+        </Card>
+      )}
+
+      <Text variant="titleMedium" style={styles.sectionTitle}>
+        Status History
+      </Text>
+      {error && (
+        <Text style={[styles.helperText, { color: theme.colors.error }]}>
+          {error}
+        </Text>
+      )}
+      <Card>
+        <List.Item
+          title="Created"
+          description={`${
+            report.inspectorName
+          } · ${report.createdAt.toLocaleString()}`}
+          left={(props) => (
+            <List.Icon {...props} icon="file-document-outline" />
+          )}
+        />
+        {history.map((event) => (
+          <List.Item
+            key={event.id}
+            title={`${event.fromStatus} → ${event.toStatus}`}
+            description={[
+              `${event.actorName} · ${event.createdAt.toLocaleString()}`,
+              event.comment,
+            ]
+              .filter(Boolean)
+              .join("\n")}
+            descriptionNumberOfLines={4}
+            left={(props) => (
+              <List.Icon
+                {...props}
+                icon={
+                  event.comment ? "comment-alert-outline" : "swap-horizontal"
+                }
+              />
+            )}
+          />
+        ))}
+      </Card>
+
+      <Portal>
+        <Dialog visible={!!pending} onDismiss={() => setPending(null)}>
+          <Dialog.Title>{pending?.action}</Dialog.Title>
+          <Dialog.Content>
+            <TextInput
+              label="Comment *"
+              value={comment}
+              onChangeText={setComment}
+              mode="outlined"
+              multiline
+              numberOfLines={3}
+              placeholder="Explain what needs to be corrected"
+            />
+          </Dialog.Content>
+          <Dialog.Actions>
+            <Button onPress={() => setPending(null)}>Cancel</Button>
+            <Button
+              onPress={() => pending && applyTransition(pending, comment)}
+              disabled={submitting || !comment.trim()}
+            >
+              {pending?.action}
+            </Button>
+          </Dialog.Actions>
+        </Dialog>
+      </Portal>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#f5f5f5",
+  },
+  contentContainer: {
+    padding: 16,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    padding: 20,
+  },
+  card: {
+    marginBottom: 16,
+  },
+  cardHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "flex-start",
+    marginBottom: 8,
+  },
+  titleSection: {
+    flex: 1,
+  },
+  equipmentId: {
+    fontSize: 20,
+    fontWeight: "bold",
+    marginBottom: 4,
+  },
+  equipmentType: {
+    fontSize: 14,
+    opacity: 0.7,
+  },
+  listItem: {
+    paddingVertical: 0,
+  },
+  bodyText: {
+    marginVertical: 8,
+  },
+  signature: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    paddingVertical: 8,
+  },
+  sectionTitle: {
+    marginBottom: 8,
+  },
+  helperText: {
+    fontSize: 13,
+    marginBottom: 8,
+  },
+});
@@ -0,0 +1,26 @@
+import { useState } from "react";
+import { router } from "expo-router";
+import EmailLinkScreen from "../components/auth/EmailLinkScreen";
+import ChangePasswordScreen from "../components/auth/ChangePasswordScreen";
+
+// inspectrix://reset-password, the target of the password recovery email.
+// The link signs the user in; the new password is set on the same screen.
+export default function ResetPassword() {
+  const [linkOpened, setLinkOpened] = useState(false);
+
+  if (!linkOpened) {
+    return (
+      <EmailLinkScreen
+        pendingMessage="Checking your reset link..."
+        onComplete={() => setLinkOpened(true)}
+      />
+    );
+  }
+
+  return (
+    <ChangePasswordScreen
+      recovery
+      onComplete={() => router.replace("/(tabs)" as any)}
+    />
+  );
+}
@@ -0,0 +1,28 @@
+import { Stack } from "expo-router";
+import { useTheme } from "react-native-paper";
+import { RequirePermission } from "../../components/auth/Permission";
+
+export default function ScheduleLayout() {
+  const theme = useTheme();
+
+  return (
+    <RequirePermission capability="equipment.manage">
+      <Stack
+        screenOptions={{
+          headerStyle: {
+            backgroundColor: theme.colors.primary,
+          },
+          headerTintColor: theme.colors.onPrimary,
+          headerTitleStyle: {
+            fontWeight: "bold",
+          },
+        }}
+      >
+        <Stack.Screen
+          name="rules"
+          options={{ title: "Inspection Intervals" }}
+        />
+      </Stack>
+    </RequirePermission>
+  );
+}
@@ -0,0 +1,251 @@
+import React, { useState } from "react";
+import { View, StyleSheet, ScrollView, Alert } from "react-native";
+import {
+  Button,
+  Card,
+  IconButton,
+  List,
+  SegmentedButtons,
+  Text,
+  TextInput,
+  useTheme,
+} from "react-native-paper";
+import { useSchedule } from "../../components/schedule/ScheduleContext";
+import {
+  DEFAULT_INTERVAL_RULES,
+  INSPECTION_CLASSES,
+  INSPECTION_CLASS_LABELS,
+} from "../../services/schedule/dueDates";
+import { InspectionClass, IntervalRule } from "../../types/schedule";
+
+interface RuleDraft {
+  id?: string;
+  equipmentType: string;
+  inspectionClass: InspectionClass;
+  intervalDays: string;
+  leadDays: string;
+}
+
+const EMPTY_DRAFT: RuleDraft = {
+  equipmentType: "",
+  inspectionClass: "frequent",
+  intervalDays: "",
+  leadDays: "",
+};
+
+function describeRule(rule: { intervalDays: number; leadDays: number }) {
+  return `Every ${rule.intervalDays} days · upcoming ${rule.leadDays} days before`;
+}
+
+export default function IntervalRulesScreen() {
+  const theme = useTheme();
+  const { rules, saveRule, deleteRule } = useSchedule();
+  const [draft, setDraft] = useState<RuleDraft>(EMPTY_DRAFT);
+  const [saving, setSaving] = useState(false);
+
+  const sortedRules = [...rules].sort(
+    (a, b) =>
+      a.equipmentType.localeCompare(b.equipmentType) ||
+      INSPECTION_CLASSES.indexOf(a.inspectionClass) -
+        INSPECTION_CLASSES.indexOf(b.inspectionClass)
+  );
+
+  const editRule = (rule: IntervalRule) =>
+    setDraft({
+      id: rule.id,
+      equipmentType: rule.equipmentType === "*" ? "" : rule.equipmentType,
+      inspectionClass: rule.inspectionClass,
+      intervalDays: String(rule.intervalDays),
+      leadDays: String(rule.leadDays),
+    });
+
+  const handleSave = async () => {
+    const intervalDays = parseInt(draft.intervalDays, 10);
+    const leadDays = parseInt(draft.leadDays || "0", 10);
+    if (!intervalDays || intervalDays < 1 || isNaN(leadDays) || leadDays < 0) {
+      Alert.alert("Invalid Interval", "Enter the number of days as a number.");
+      return;
+    }
+
+    setSaving(true);
+    const result = await saveRule({
+      id: draft.id,
+      equipmentType: draft.equipmentType.trim() || "*",
+      inspectionClass: draft.inspectionClass,
+      intervalDays,
+      leadDays,
+    });
+    setSaving(false);
+
+    if (result.success) {
+      setDraft(EMPTY_DRAFT);
+    } else {
+      Alert.alert("Error", result.error || "Failed to save interval");
+    }
+  };
+
+  const confirmDelete = (rule: IntervalRule) =>
+    Alert.alert(
+      "Remove Interval",
+      "Equipment will fall back to the default interval for this inspection type.",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Remove",
+          style: "destructive",
+          onPress: async () => {
+            const result = await deleteRule(rule.id);
+            if (!result.success) {
+              Alert.alert("Error", result.error || "Failed to remove interval");
+            }
+          },
+        },
+      ]
+    );
+
+  return (
+    <ScrollView
+      style={styles.container}
+      contentContainerStyle={styles.contentContainer}
+    >
+      <Card style={styles.card}>
+        <Card.Title title={draft.id ? "Edit Interval" : "Add Interval"} />
+        <Card.Content style={styles.form}>
+          <TextInput
+            label="Equipment Type"
+            value={draft.equipmentType}
+            onChangeText={(equipmentType) =>
+              setDraft((prev) => ({ ...prev, equipmentType }))
+            }
+            mode="outlined"
+            placeholder="Leave blank for all equipment types"
+            disabled={saving}
+          />
+          <SegmentedButtons
+            value={draft.inspectionClass}
+            onValueChange={(value) =>
+              setDraft((prev) => ({
+                ...prev,
+                inspectionClass: value as InspectionClass,
+              }))
+            }
+            buttons={INSPECTION_CLASSES.map((value) => ({
+              value,
+              label: INSPECTION_CLASS_LABELS[value],
+            }))}
+          />
+          <View style={styles.row}>
+            <TextInput
+              label="Every (days) *"
+              value={draft.intervalDays}
+              onChangeText={(intervalDays) =>
+                setDraft((prev) => ({ ...prev, intervalDays }))
+              }
+              mode="outlined"
+              keyboardType="number-pad"
+              disabled={saving}
+              style={styles.rowInput}
+            />
+            <TextInput
+              label="Upcoming (days before)"
+              value={draft.leadDays}
+              onChangeText={(leadDays) =>
+                setDraft((prev) => ({ ...prev, leadDays }))
+              }
+              mode="outlined"
+              keyboardType="number-pad"
+              disabled={saving}
+              style={styles.rowInput}
+            />
+          </View>
+        </Card.Content>
+        <Card.Actions>
+          {draft.id && (
+            <Button onPress={() => setDraft(EMPTY_DRAFT)} disabled={saving}>
+              Cancel
+            </Button>
+          )}
+          <Button mode="contained" onPress={handleSave} loading={saving}>
+            Save
+          </Button>
+        </Card.Actions>
+      </Card>
+
+      <Text variant="titleMedium" style={styles.sectionTitle}>
+        Configured Intervals
+      </Text>
+      {sortedRules.length === 0 ? (
+        <Text
+          style={[styles.helperText, { color: theme.colors.onSurfaceVariant }]}
+        >
+          No intervals configured. The defaults below apply to all equipment.
+        </Text>
+      ) : (
+        <Card style={styles.card}>
+          {sortedRules.map((rule) => (
+            <List.Item
+              key={rule.id}
+              title={`${
+                rule.equipmentType === "*"
+                  ? "All equipment"
+                  : rule.equipmentType
+              } · ${INSPECTION_CLASS_LABELS[rule.inspectionClass]}`}
+              description={describeRule(rule)}
+              onPress={() => editRule(rule)}
+              right={(props) => (
+                <IconButton
+                  {...props}
+                  icon="delete-outline"
+                  onPress={() => confirmDelete(rule)}
+                />
+              )}
+            />
+          ))}
+        </Card>
+      )}
+
+      <Text variant="titleMedium" style={styles.sectionTitle}>
+        Defaults
+      </Text>
+      <Card style={styles.card}>
+        {DEFAULT_INTERVAL_RULES.map((rule) => (
+          <List.Item
+            key={rule.inspectionClass}
+            title={INSPECTION_CLASS_LABELS[rule.inspectionClass]}
+            description={describeRule(rule)}
+          />
+        ))}
+      </Card>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#f5f5f5",
+  },
+  contentContainer: {
+    padding: 16,
+  },
+  card: {
+    marginBottom: 16,
+  },
+  form: {
+    gap: 12,
+  },
+  row: {
+    flexDirection: "row",
+    gap: 12,
+  },
+  rowInput: {
+    flex: 1,
+  },
+  sectionTitle: {
+    marginBottom: 8,
+  },
+  helperText: {
+    fontSize: 13,
+    marginBottom: 16,
+  },
+});
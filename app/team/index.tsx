@@ -0,0 +1,334 @@
+import React, { useState } from "react";
+import {
+  View,
+  StyleSheet,
+  ScrollView,
+  RefreshControl,
+  Alert,
+} from "react-native";
+import {
+  Button,
+  Card,
+  Chip,
+  FAB,
+  IconButton,
+  List,
+  Switch,
+  Text,
+  useTheme,
+} from "react-native-paper";
+import { router, useFocusEffect, Stack } from "expo-router";
+import { useAuth } from "../../components/auth/AuthContext";
+import { User } from "../../types/auth";
+import { Contractor } from "../../types/contractor";
+import { ReportResult } from "../../types/report";
+
+const roleLabels: Record<User["role"], string> = {
+  super_admin: "Admin",
+  manager: "Manager",
+  inspector: "Inspector",
+};
+
+export default function TeamScreen() {
+  const theme = useTheme();
+  const { user, userAdminService, contractorService } = useAuth();
+  const [members, setMembers] = useState<User[]>([]);
+  const [contractor, setContractor] = useState<Contractor | null>(null);
+  const [savingPolicy, setSavingPolicy] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadTeam = async () => {
+    if (!user) {
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const [result, contractorResult] = await Promise.all([
+        userAdminService.listUsers(user.contractorId, user),
+        contractorService.getContractor(user.contractorId),
+      ]);
+      if (contractorResult.success && contractorResult.data) {
+        setContractor(contractorResult.data);
+      }
+      if (result.success && result.data) {
+        setMembers(result.data);
+        setError(null);
+      } else {
+        setError(result.error || "Failed to load team");
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useFocusEffect(
+    React.useCallback(() => {
+      loadTeam();
+    }, [user?.contractorId])
+  );
+
+  const runAction = async (
+    member: User,
+    action: () => Promise<ReportResult<User>>
+  ) => {
+    setBusyId(member.id);
+    const result = await action();
+    setBusyId(null);
+
+    if (result.success && result.data) {
+      const updated = result.data;
+      setMembers((prev) =>
+        prev.map((m) => (m.id === updated.id ? updated : m))
+      );
+    } else {
+      Alert.alert("Error", result.error || "Failed to update user");
+    }
+  };
+
+  const confirm = (
+    title: string,
+    message: string,
+    confirmText: string,
+    onConfirm: () => void
+  ) =>
+    Alert.alert(title, message, [
+      { text: "Cancel", style: "cancel" },
+      { text: confirmText, onPress: onConfirm },
+    ]);
+
+  const changeRole = (member: User) => {
+    const role = member.role === "manager" ? "inspector" : "manager";
+    confirm(
+      "Change Role",
+      `Make ${member.firstName} ${member.lastName} ${
+        role === "manager" ? "a manager" : "an inspector"
+      }?`,
+      "Change",
+      () =>
+        runAction(member, () =>
+          userAdminService.updateRole(member.id, role, user!)
+        )
+    );
+  };
+
+  const toggleActive = (member: User) => {
+    confirm(
+      member.isActive ? "Deactivate User" : "Reactivate User",
+      member.isActive
+        ? `${member.firstName} won't be able to sign in until reactivated.`
+        : `${member.firstName} will be able to sign in again.`,
+      member.isActive ? "Deactivate" : "Reactivate",
+      () =>
+        runAction(member, () =>
+          userAdminService.setActive(member.id, !member.isActive, user!)
+        )
+    );
+  };
+
+  const forcePasswordChange = (member: User) => {
+    confirm(
+      "Require Password Change",
+      `${member.firstName} will have to choose a new password the next time they sign in.`,
+      "Require",
+      () =>
+        runAction(member, () =>
+          userAdminService.requirePasswordChange(member.id, user!)
+        )
+    );
+  };
+
+  const toggleManagerMfa = (required: boolean) => {
+    if (!contractor) {
+      return;
+    }
+
+    const apply = async () => {
+      setSavingPolicy(true);
+      const result = await contractorService.setMfaPolicy(
+        contractor.id,
+        required,
+        user!
+      );
+      setSavingPolicy(false);
+      if (result.success && result.data) {
+        setContractor(result.data);
+      } else {
+        Alert.alert("Error", result.error || "Failed to update policy");
+      }
+    };
+
+    if (required) {
+      confirm(
+        "Require Two-Factor",
+        "Managers without an authenticator app set up will have to enroll the next time they open the app.",
+        "Require",
+        apply
+      );
+    } else {
+      apply();
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <Stack.Screen
+        options={{
+          headerRight: () => (
+            <IconButton
+              icon="email-outline"
+              iconColor={theme.colors.onPrimary}
+              onPress={() => router.push("/invitations" as any)}
+            />
+          ),
+        }}
+      />
+
+      <ScrollView
+        contentContainerStyle={styles.contentContainer}
+        refreshControl={
+          <RefreshControl refreshing={loading} onRefresh={loadTeam} />
+        }
+      >
+        {error && (
+          <Text style={[styles.errorText, { color: theme.colors.error }]}>
+            {error}
+          </Text>
+        )}
+        {contractor && (
+          <Card style={styles.card}>
+            <List.Item
+              title="Require two-factor for managers"
+              description="Managers must use an authenticator app to sign in"
+              left={(props) => <List.Icon {...props} icon="shield-key" />}
+              right={() => (
+                <Switch
+                  value={contractor.requireManagerMfa}
+                  onValueChange={toggleManagerMfa}
+                  disabled={savingPolicy}
+                />
+              )}
+            />
+          </Card>
+        )}
+        {members.map((member) => {
+          const isSelf = member.id === user?.id;
+          const editable = !isSelf && member.role !== "super_admin";
+          const busy = busyId === member.id;
+
+          return (
+            <Card
+              key={member.id}
+              style={[styles.card, !member.isActive && styles.inactiveCard]}
+            >
+              <List.Item
+                title={`${member.firstName} ${member.lastName}${
+                  isSelf ? " (you)" : ""
+                }`}
+                description={[
+                  member.email,
+                  member.lastLogin
+                    ? `Last login ${member.lastLogin.toLocaleString()}`
+                    : "Never signed in",
+                ].join("\n")}
+                descriptionNumberOfLines={2}
+                left={(props) => (
+                  <List.Icon
+                    {...props}
+                    icon={member.isActive ? "account" : "account-off"}
+                  />
+                )}
+              />
+              <View style={styles.chips}>
+                <Chip mode="outlined" compact textStyle={{ fontSize: 12 }}>
+                  {roleLabels[member.role]}
+                </Chip>
+                {!member.isActive && (
+                  <Chip mode="outlined" compact textStyle={{ fontSize: 12 }}>
+                    Deactivated
+                  </Chip>
+                )}
+                {member.mustChangePassword && (
+                  <Chip mode="outlined" compact textStyle={{ fontSize: 12 }}>
+                    Password change pending
+                  </Chip>
+                )}
+              </View>
+              {editable && (
+                <Card.Actions>
+                  <Button
+                    compact
+                    disabled={busy}
+                    onPress={() => changeRole(member)}
+                  >
+                    {member.role === "manager"
+                      ? "Make Inspector"
+                      : "Make Manager"}
+                  </Button>
+                  <Button
+                    compact
+                    disabled={busy || member.mustChangePassword}
+                    onPress={() => forcePasswordChange(member)}
+                  >
+                    Reset Password
+                  </Button>
+                  <Button
+                    compact
+                    disabled={busy}
+                    textColor={member.isActive ? theme.colors.error : undefined}
+                    onPress={() => toggleActive(member)}
+                  >
+                    {member.isActive ? "Deactivate" : "Reactivate"}
+                  </Button>
+                </Card.Actions>
+              )}
+            </Card>
+          );
+        })}
+      </ScrollView>
+
+      <FAB
+        icon="account-plus"
+        style={[styles.fab, { backgroundColor: theme.colors.primary }]}
+        onPress={() => router.push("/invitations/new" as any)}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#f5f5f5",
+  },
+  contentContainer: {
+    padding: 16,
+    paddingBottom: 80, // Account for FAB
+  },
+  errorText: {
+    fontSize: 14,
+    marginBottom: 12,
+    textAlign: "center",
+  },
+  card: {
+    marginBottom: 12,
+  },
+  inactiveCard: {
+    opacity: 0.6,
+  },
+  chips: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 6,
+    paddingHorizontal: 16,
+    paddingBottom: 8,
+  },
+  fab: {
+    position: "absolute",
+    margin: 16,
+    right: 0,
+    bottom: 0,
+  },
+});
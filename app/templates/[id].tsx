@@ -0,0 +1,426 @@
+import React, { useState } from "react";
+import { View, StyleSheet, ScrollView, Alert } from "react-native";
+import {
+  Text,
+  TextInput,
+  Button,
+  Card,
+  IconButton,
+  SegmentedButtons,
+  Switch,
+  useTheme,
+  ActivityIndicator,
+} from "react-native-paper";
+import { router, useLocalSearchParams } from "expo-router";
+import * as Crypto from "expo-crypto";
+import { useAuth } from "../../components/auth/AuthContext";
+import { useTemplates } from "../../components/templates/TemplateContext";
+import {
+  ChecklistItem,
+  ChecklistItemKind,
+  ChecklistSection,
+} from "../../types/template";
+
+const kindOptions = [
+  { value: "pass_fail", label: "Pass/Fail" },
+  { value: "measurement", label: "Measure" },
+  { value: "text", label: "Text" },
+  { value: "photo", label: "Photo" },
+];
+
+function newItem(): ChecklistItem {
+  return {
+    id: Crypto.randomUUID(),
+    label: "",
+    kind: "pass_fail",
+    required: true,
+  };
+}
+
+function newSection(): ChecklistSection {
+  return { id: Crypto.randomUUID(), title: "", items: [newItem()] };
+}
+
+function parseLimit(text: string): number | undefined {
+  const value = Number(text);
+  return text.trim() && Number.isFinite(value) ? value : undefined;
+}
+
+export default function TemplateEditorScreen() {
+  const theme = useTheme();
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { user } = useAuth();
+  const { templates, saveTemplate, deleteTemplate } = useTemplates();
+  const existing = templates.find((t) => t.id === id);
+
+  const [name, setName] = useState(existing?.name || "");
+  const [equipmentType, setEquipmentType] = useState(
+    existing?.equipmentType || ""
+  );
+  const [sections, setSections] = useState<ChecklistSection[]>(
+    existing?.sections || [newSection()]
+  );
+  const [saving, setSaving] = useState(false);
+
+  const updateSection = (
+    sectionId: string,
+    update: (section: ChecklistSection) => ChecklistSection
+  ) => {
+    setSections((prev) =>
+      prev.map((s) => (s.id === sectionId ? update(s) : s))
+    );
+  };
+
+  const updateItem = (
+    sectionId: string,
+    itemId: string,
+    patch: Partial<ChecklistItem>
+  ) => {
+    updateSection(sectionId, (section) => ({
+      ...section,
+      items: section.items.map((item) =>
+        item.id === itemId ? { ...item, ...patch } : item
+      ),
+    }));
+  };
+
+  const validate = (): string | null => {
+    if (!name.trim()) {
+      return "Template name is required";
+    }
+    if (!equipmentType.trim()) {
+      return "Equipment type is required";
+    }
+    const duplicate = templates.find(
+      (t) =>
+        t.id !== existing?.id &&
+        t.equipmentType.trim().toLowerCase() ===
+          equipmentType.trim().toLowerCase()
+    );
+    if (duplicate) {
+      return `"${duplicate.name}" already covers ${duplicate.equipmentType}`;
+    }
+    if (sections.length === 0) {
+      return "Add at least one section";
+    }
+    for (const section of sections) {
+      if (!section.title.trim()) {
+        return "Every section needs a title";
+      }
+      if (section.items.length === 0) {
+        return `Section "${section.title}" has no items`;
+      }
+      for (const item of section.items) {
+        if (!item.label.trim()) {
+          return `Section "${section.title}" has an item without a label`;
+        }
+        if (
+          item.min !== undefined &&
+          item.max !== undefined &&
+          item.min > item.max
+        ) {
+          return `"${item.label}" has a minimum above its maximum`;
+        }
+      }
+    }
+    return null;
+  };
+
+  const handleSave = async () => {
+    const error = validate();
+    if (error) {
+      Alert.alert("Template Error", error);
+      return;
+    }
+
+    setSaving(true);
+    const result = await saveTemplate({
+      id: existing?.id,
+      version: existing?.version,
+      contractorId: user.contractorId,
+      name,
+      equipmentType,
+      sections,
+    });
+    setSaving(false);
+
+    if (result.success) {
+      router.back();
+    } else {
+      Alert.alert("Error", result.error || "Failed to save template");
+    }
+  };
+
+  const handleDelete = () => {
+    if (!existing) {
+      return;
+    }
+
+    Alert.alert(
+      "Delete Template",
+      `Delete "${existing.name}"? Existing reports keep their results.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Delete",
+          style: "destructive",
+          onPress: async () => {
+            const result = await deleteTemplate(existing.id);
+            if (result.success) {
+              router.back();
+            } else {
+              Alert.alert("Error", result.error || "Failed to delete");
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  return (
+    <ScrollView
+      style={styles.container}
+      contentContainerStyle={styles.contentContainer}
+    >
+      <Card style={styles.card}>
+        <Card.Content style={styles.form}>
+          <TextInput
+            label="Template Name *"
+            value={name}
+            onChangeText={setName}
+            mode="outlined"
+            disabled={saving}
+            placeholder="e.g., Overhead Crane Periodic Inspection"
+          />
+          <TextInput
+            label="Equipment Type *"
+            value={equipmentType}
+            onChangeText={setEquipmentType}
+            mode="outlined"
+            disabled={saving}
+            placeholder="e.g., Overhead Crane"
+          />
+        </Card.Content>
+      </Card>
+
+      {sections.map((section) => (
+        <Card key={section.id} style={styles.card}>
+          <Card.Content style={styles.form}>
+            <View style={styles.row}>
+              <TextInput
+                label="Section Title *"
+                value={section.title}
+                onChangeText={(title) =>
+                  updateSection(section.id, (s) => ({ ...s, title }))
+                }
+                mode="outlined"
+                disabled={saving}
+                style={styles.flex}
+                placeholder="e.g., Hooks, Wire Rope, Brakes"
+              />
+              <IconButton
+                icon="delete-outline"
+                disabled={saving}
+                onPress={() =>
+                  setSections((prev) => prev.filter((s) => s.id !== section.id))
+                }
+              />
+            </View>
+
+            {section.items.map((item) => (
+              <View
+                key={item.id}
+                style={[styles.item, { borderColor: theme.colors.outline }]}
+              >
+                <View style={styles.row}>
+                  <TextInput
+                    label="Item *"
+                    value={item.label}
+                    onChangeText={(label) =>
+                      updateItem(section.id, item.id, { label })
+                    }
+                    mode="outlined"
+                    dense
+                    disabled={saving}
+                    style={styles.flex}
+                  />
+                  <IconButton
+                    icon="close"
+                    disabled={saving}
+                    onPress={() =>
+                      updateSection(section.id, (s) => ({
+                        ...s,
+                        items: s.items.filter((i) => i.id !== item.id),
+                      }))
+                    }
+                  />
+                </View>
+
+                <SegmentedButtons
+                  value={item.kind}
+                  onValueChange={(kind) =>
+                    updateItem(section.id, item.id, {
+                      kind: kind as ChecklistItemKind,
+                    })
+                  }
+                  buttons={kindOptions}
+                  density="small"
+                />
+
+                {item.kind === "measurement" && (
+                  <View style={styles.row}>
+                    <TextInput
+                      label="Unit"
+                      value={item.unit || ""}
+                      onChangeText={(unit) =>
+                        updateItem(section.id, item.id, {
+                          unit: unit || undefined,
+                        })
+                      }
+                      mode="outlined"
+                      dense
+                      disabled={saving}
+                      style={styles.flex}
+                    />
+                    <TextInput
+                      label="Min"
+                      defaultValue={item.min?.toString() || ""}
+                      onChangeText={(text) =>
+                        updateItem(section.id, item.id, {
+                          min: parseLimit(text),
+                        })
+                      }
+                      mode="outlined"
+                      dense
+                      keyboardType="decimal-pad"
+                      disabled={saving}
+                      style={styles.flex}
+                    />
+                    <TextInput
+                      label="Max"
+                      defaultValue={item.max?.toString() || ""}
+                      onChangeText={(text) =>
+                        updateItem(section.id, item.id, {
+                          max: parseLimit(text),
+                        })
+                      }
+                      mode="outlined"
+                      dense
+                      keyboardType="decimal-pad"
+                      disabled={saving}
+                      style={styles.flex}
+                    />
+                  </View>
+                )}
+
+                <TextInput
+                  label="Guidance"
+                  value={item.guidance || ""}
+                  onChangeText={(guidance) =>
+                    updateItem(section.id, item.id, {
+                      guidance: guidance || undefined,
+                    })
+                  }
+                  mode="outlined"
+                  dense
+                  disabled={saving}
+                />
+
+                <View style={styles.row}>
+                  <Text style={styles.flex}>Required</Text>
+                  <Switch
+                    value={item.required}
+                    onValueChange={(required) =>
+                      updateItem(section.id, item.id, { required })
+                    }
+                    disabled={saving}
+                  />
+                </View>
+              </View>
+            ))}
+
+            <Button
+              icon="plus"
+              disabled={saving}
+              onPress={() =>
+                updateSection(section.id, (s) => ({
+                  ...s,
+                  items: [...s.items, newItem()],
+                }))
+              }
+            >
+              Add Item
+            </Button>
+          </Card.Content>
+        </Card>
+      ))}
+
+      <Button
+        mode="outlined"
+        icon="playlist-plus"
+        disabled={saving}
+        onPress={() => setSections((prev) => [...prev, newSection()])}
+        style={styles.card}
+      >
+        Add Section
+      </Button>
+
+      <Button
+        mode="contained"
+        onPress={handleSave}
+        disabled={saving}
+        contentStyle={styles.buttonContent}
+      >
+        {saving ? <ActivityIndicator color="white" /> : "Save Template"}
+      </Button>
+
+      {existing && (
+        <Button
+          textColor={theme.colors.error}
+          onPress={handleDelete}
+          disabled={saving}
+          style={styles.deleteButton}
+        >
+          Delete Template
+        </Button>
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#f5f5f5",
+  },
+  contentContainer: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  card: {
+    marginBottom: 12,
+  },
+  form: {
+    gap: 12,
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  flex: {
+    flex: 1,
+  },
+  item: {
+    gap: 8,
+    padding: 8,
+    borderWidth: StyleSheet.hairlineWidth,
+    borderRadius: 4,
+  },
+  buttonContent: {
+    height: 50,
+  },
+  deleteButton: {
+    marginTop: 8,
+  },
+});
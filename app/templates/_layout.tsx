@@ -0,0 +1,26 @@
+import { Stack } from "expo-router";
+import { useTheme } from "react-native-paper";
+import { RequirePermission } from "../../components/auth/Permission";
+
+export default function TemplatesLayout() {
+  const theme = useTheme();
+
+  return (
+    <RequirePermission capability="templates.manage">
+      <Stack
+        screenOptions={{
+          headerStyle: {
+            backgroundColor: theme.colors.primary,
+          },
+          headerTintColor: theme.colors.onPrimary,
+          headerTitleStyle: {
+            fontWeight: "bold",
+          },
+        }}
+      >
+        <Stack.Screen name="index" options={{ title: "Checklist Templates" }} />
+        <Stack.Screen name="[id]" options={{ title: "Edit Template" }} />
+      </Stack>
+    </RequirePermission>
+  );
+}
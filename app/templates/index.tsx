@@ -0,0 +1,92 @@
+import React from "react";
+import { View, StyleSheet, ScrollView, RefreshControl } from "react-native";
+import { Card, Text, FAB, List, useTheme } from "react-native-paper";
+import { router } from "expo-router";
+import { useTemplates } from "../../components/templates/TemplateContext";
+
+export default function TemplateListScreen() {
+  const theme = useTheme();
+  const { templates, loading, refreshTemplates } = useTemplates();
+
+  const openTemplate = (id: string) => {
+    router.push(`/templates/${id}` as any);
+  };
+
+  return (
+    <View style={styles.container}>
+      <ScrollView
+        contentContainerStyle={styles.contentContainer}
+        refreshControl={
+          <RefreshControl refreshing={loading} onRefresh={refreshTemplates} />
+        }
+      >
+        {templates.length === 0 ? (
+          <Text
+            style={[styles.emptyText, { color: theme.colors.onSurfaceVariant }]}
+          >
+            No checklist templates yet. Create one for each equipment type your
+            inspectors work on.
+          </Text>
+        ) : (
+          templates.map((template) => {
+            const itemCount = template.sections.reduce(
+              (total, section) => total + section.items.length,
+              0
+            );
+
+            return (
+              <Card
+                key={template.id}
+                style={styles.card}
+                onPress={() => openTemplate(template.id)}
+              >
+                <List.Item
+                  title={template.name}
+                  description={`${template.equipmentType} · ${template.sections.length} sections · ${itemCount} items · v${template.version}`}
+                  left={(props) => (
+                    <List.Icon {...props} icon="clipboard-check-outline" />
+                  )}
+                  right={(props) => (
+                    <List.Icon {...props} icon="chevron-right" />
+                  )}
+                />
+              </Card>
+            );
+          })
+        )}
+      </ScrollView>
+
+      <FAB
+        icon="plus"
+        style={[styles.fab, { backgroundColor: theme.colors.primary }]}
+        onPress={() => openTemplate("new")}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#f5f5f5",
+  },
+  contentContainer: {
+    padding: 16,
+    paddingBottom: 80, // Account for FAB
+  },
+  emptyText: {
+    fontSize: 14,
+    textAlign: "center",
+    paddingTop: 80,
+    paddingHorizontal: 24,
+  },
+  card: {
+    marginBottom: 12,
+  },
+  fab: {
+    position: "absolute",
+    margin: 16,
+    right: 0,
+    bottom: 0,
+  },
+});
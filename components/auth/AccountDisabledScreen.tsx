@@ -0,0 +1,51 @@
+// components/auth/AccountDisabledScreen.tsx
+import React from "react";
+import { View } from "react-native";
+import { Button, Text, Card, Icon, useTheme } from "react-native-paper";
+import { AuthErrorCode } from "../../types/auth";
+import { getAuthErrorMessage } from "../../services/auth/authErrors";
+
+interface AccountDisabledScreenProps {
+  reason: AuthErrorCode;
+  onDismiss: () => void;
+}
+
+// Shown after a session is ended because the account was deactivated or
+// its contractor suspended, instead of silently dropping back to sign-in
+export default function AccountDisabledScreen({
+  reason,
+  onDismiss,
+}: AccountDisabledScreenProps) {
+  const theme = useTheme();
+
+  return (
+    <View style={{ padding: 20, justifyContent: "center", flex: 1 }}>
+      <Card>
+        <Card.Content style={{ alignItems: "center" }}>
+          <Icon source="account-cancel" size={48} color={theme.colors.error} />
+          <Text
+            variant="headlineMedium"
+            style={{ textAlign: "center", marginTop: 16, marginBottom: 8 }}
+          >
+            {reason === AuthErrorCode.CONTRACTOR_SUSPENDED
+              ? "Organization Suspended"
+              : "Account Disabled"}
+          </Text>
+          <Text
+            variant="bodyMedium"
+            style={{
+              textAlign: "center",
+              marginBottom: 24,
+              color: theme.colors.onSurfaceVariant,
+            }}
+          >
+            {getAuthErrorMessage(reason)} You have been signed out.
+          </Text>
+          <Button mode="contained" onPress={onDismiss}>
+            Back to Sign In
+          </Button>
+        </Card.Content>
+      </Card>
+    </View>
+  );
+}
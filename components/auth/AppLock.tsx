@@ -0,0 +1,255 @@
+import React, {
+  createContext,
+  useContext,
+  useEffect,
+  useRef,
+  useState,
+  ReactNode,
+} from "react";
+import { AppState, StyleSheet, View } from "react-native";
+import { Button, Text, useTheme } from "react-native-paper";
+import { MaterialIcons } from "@expo/vector-icons";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import * as LocalAuthentication from "expo-local-authentication";
+import { useAuth } from "./AuthContext";
+import {
+  APP_LOCK_BACKGROUNDED_AT_KEY,
+  APP_LOCK_INTERVAL_KEY,
+  DEFAULT_APP_LOCK_INTERVAL_MS,
+  parseLockInterval,
+  shouldLock,
+} from "../../services/auth/appLock";
+
+interface AppLockContextType {
+  // State
+  locked: boolean;
+  lockIntervalMs: number;
+
+  // Actions
+  setLockInterval: (intervalMs: number) => Promise<void>;
+  unlock: () => Promise<void>;
+}
+
+const AppLockContext = createContext<AppLockContextType | undefined>(undefined);
+
+interface AppLockProviderProps {
+  children: ReactNode;
+}
+
+// Covers the app with a lock screen once it has been in the background
+// longer than the configured interval, including across a cold start.
+// Unlocking needs the device's biometrics or PIN; signing out is always
+// available as the way out for someone who can't unlock.
+export function AppLockProvider({ children }: AppLockProviderProps) {
+  const theme = useTheme();
+  const { session, loading, logout } = useAuth();
+  const [locked, setLocked] = useState(false);
+  const [lockIntervalMs, setLockIntervalMs] = useState(
+    DEFAULT_APP_LOCK_INTERVAL_MS
+  );
+  const [unlocking, setUnlocking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const backgroundedAt = useRef<number | null>(null);
+  const intervalRef = useRef(DEFAULT_APP_LOCK_INTERVAL_MS);
+  const hasSession = useRef(false);
+  const checkedColdStart = useRef(false);
+
+  hasSession.current = !!session;
+
+  const recordBackgrounded = async (at: number | null) => {
+    backgroundedAt.current = at;
+    try {
+      if (at === null) {
+        await AsyncStorage.removeItem(APP_LOCK_BACKGROUNDED_AT_KEY);
+      } else {
+        await AsyncStorage.setItem(APP_LOCK_BACKGROUNDED_AT_KEY, String(at));
+      }
+    } catch (err) {
+      console.error("Failed to persist app lock state:", err);
+    }
+  };
+
+  // A session restored on cold start is subject to the same interval
+  useEffect(() => {
+    if (loading || checkedColdStart.current) {
+      return;
+    }
+    checkedColdStart.current = true;
+
+    const restore = async () => {
+      const [interval, storedAt] = await Promise.all([
+        AsyncStorage.getItem(APP_LOCK_INTERVAL_KEY),
+        AsyncStorage.getItem(APP_LOCK_BACKGROUNDED_AT_KEY),
+      ]);
+      intervalRef.current = parseLockInterval(interval);
+      setLockIntervalMs(intervalRef.current);
+
+      const at = storedAt ? Number(storedAt) : null;
+      if (hasSession.current && shouldLock(at, intervalRef.current)) {
+        setLocked(true);
+      }
+      await recordBackgrounded(null);
+    };
+
+    restore();
+  }, [loading]);
+
+  useEffect(() => {
+    const subscription = AppState.addEventListener("change", (state) => {
+      if (state === "background") {
+        recordBackgrounded(Date.now());
+      } else if (state === "active" && backgroundedAt.current !== null) {
+        if (
+          hasSession.current &&
+          shouldLock(backgroundedAt.current, intervalRef.current)
+        ) {
+          setLocked(true);
+        }
+        recordBackgrounded(null);
+      }
+    });
+
+    return () => subscription.remove();
+  }, []);
+
+  // Nothing to protect once signed out
+  useEffect(() => {
+    if (!session) {
+      setLocked(false);
+      setError(null);
+    }
+  }, [session]);
+
+  const unlock = async () => {
+    setUnlocking(true);
+    try {
+      const level = await LocalAuthentication.getEnrolledLevelAsync();
+      if (level === LocalAuthentication.SecurityLevel.NONE) {
+        setError(
+          "This device has no screen lock or biometrics set up. Sign out and sign back in with your password."
+        );
+        return;
+      }
+
+      const result = await LocalAuthentication.authenticateAsync({
+        promptMessage: "Unlock Inspectrix",
+      });
+      if (result.success) {
+        setLocked(false);
+        setError(null);
+      } else if (
+        "error" in result &&
+        result.error !== "user_cancel" &&
+        result.error !== "system_cancel"
+      ) {
+        setError("Unlock failed. Try again or sign out.");
+      }
+    } catch (err: any) {
+      setError(err.message || "Unlock failed");
+    } finally {
+      setUnlocking(false);
+    }
+  };
+
+  // Prompt straight away rather than making the user tap Unlock first
+  useEffect(() => {
+    if (locked) {
+      unlock();
+    }
+  }, [locked]);
+
+  const setLockInterval = async (intervalMs: number) => {
+    intervalRef.current = intervalMs;
+    setLockIntervalMs(intervalMs);
+    try {
+      await AsyncStorage.setItem(APP_LOCK_INTERVAL_KEY, String(intervalMs));
+    } catch (err) {
+      console.error("Failed to save app lock interval:", err);
+    }
+  };
+
+  const value: AppLockContextType = {
+    locked,
+    lockIntervalMs,
+    setLockInterval,
+    unlock,
+  };
+
+  return (
+    <AppLockContext.Provider value={value}>
+      <View style={styles.root}>
+        {children}
+        {locked && session && (
+          <View
+            style={[
+              StyleSheet.absoluteFill,
+              styles.lockScreen,
+              { backgroundColor: theme.colors.background },
+            ]}
+          >
+            <MaterialIcons
+              name="lock-outline"
+              size={64}
+              color={theme.colors.primary}
+            />
+            <Text variant="headlineSmall" style={styles.title}>
+              Inspectrix is locked
+            </Text>
+            <Text style={{ color: theme.colors.onSurfaceVariant }}>
+              Signed in as {session.user.firstName} {session.user.lastName}
+            </Text>
+            {error && (
+              <Text style={[styles.error, { color: theme.colors.error }]}>
+                {error}
+              </Text>
+            )}
+            <Button
+              mode="contained"
+              icon="fingerprint"
+              onPress={unlock}
+              loading={unlocking}
+              disabled={unlocking}
+              style={styles.button}
+            >
+              Unlock
+            </Button>
+            <Button mode="text" onPress={() => logout()} disabled={unlocking}>
+              Sign Out
+            </Button>
+          </View>
+        )}
+      </View>
+    </AppLockContext.Provider>
+  );
+}
+
+export function useAppLock() {
+  const context = useContext(AppLockContext);
+  if (context === undefined) {
+    throw new Error("useAppLock must be used within an AppLockProvider");
+  }
+  return context;
+}
+
+const styles = StyleSheet.create({
+  root: {
+    flex: 1,
+  },
+  lockScreen: {
+    justifyContent: "center",
+    alignItems: "center",
+    padding: 32,
+    gap: 8,
+  },
+  title: {
+    marginTop: 8,
+  },
+  error: {
+    textAlign: "center",
+    marginTop: 8,
+  },
+  button: {
+    marginTop: 16,
+    minWidth: 200,
+  },
+});
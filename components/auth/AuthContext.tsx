@@ -2,59 +2,133 @@ import React, {
   createContext,
   useContext,
   useEffect,
+  useMemo,
   useState,
   ReactNode,
 } from "react";
-import { IAuthService, AuthSession, User } from "../../types/auth";
+import { AppState } from "react-native";
+import {
+  IAuthService,
+  AuthErrorCode,
+  AuthSession,
+  LogoutOptions,
+  MfaChallenge,
+  RegisterData,
+  User,
+} from "../../types/auth";
+import { Contractor, IContractorService } from "../../types/contractor";
+import { IInvitationService } from "../../types/invitation";
+import { IUserAdminService } from "../../types/userAdmin";
 import { SupabaseAuthService } from "../../services/auth/SupabaseAuthService";
+import {
+  isAccessRevoked,
+  toAuthErrorCode,
+} from "../../services/auth/authErrors";
+import { hasCapability } from "../../services/auth/permissions";
+import { SupabaseContractorService } from "../../services/contractors/SupabaseContractorService";
+import { SupabaseInvitationService } from "../../services/invitations/SupabaseInvitationService";
+import { SupabaseUserAdminService } from "../../services/users/SupabaseUserAdminService";
 
-// Create service instance - easily swappable
-const authService: IAuthService = new SupabaseAuthService();
-
-interface RegisterData {
-  email: string;
-  password: string;
-  firstName: string;
-  lastName: string;
-  contractorId?: string;
-  role?: "manager" | "inspector";
-}
+// Create service instances - easily swappable. The auth and invitation
+// services can also be injected through AuthProvider's props (e.g. an
+// InMemoryAuthService).
+const defaultAuthService: IAuthService = new SupabaseAuthService();
+const defaultInvitationService: IInvitationService =
+  new SupabaseInvitationService();
+const userAdminService: IUserAdminService = new SupabaseUserAdminService();
+const contractorService: IContractorService = new SupabaseContractorService();
 
 interface AuthContextType {
   // State
   session: AuthSession | null;
-  user: User | null;
+  user: User | null; // Scoped to the impersonated contractor, if any
   loading: boolean;
+  impersonating: Contractor | null;
+  accessRevoked: AuthErrorCode | null; // Why the last session was ended
 
   // Actions
   login: (
     email: string,
     password: string
-  ) => Promise<{ success: boolean; error?: string }>;
-  register: (
-    data: RegisterData
-  ) => Promise<{ success: boolean; error?: string }>;
-  logout: () => Promise<void>;
+  ) => Promise<{
+    success: boolean;
+    error?: string;
+    errorCode?: AuthErrorCode;
+    mfaChallenge?: MfaChallenge;
+  }>;
+  verifyMfa: (
+    challenge: MfaChallenge,
+    code: string
+  ) => Promise<{
+    success: boolean;
+    error?: string;
+    errorCode?: AuthErrorCode;
+    mfaChallenge?: MfaChallenge;
+  }>;
+  redeemRecoveryCode: (code: string) => Promise<{
+    success: boolean;
+    error?: string;
+    errorCode?: AuthErrorCode;
+  }>;
+  register: (data: RegisterData) => Promise<{
+    success: boolean;
+    error?: string;
+    errorCode?: AuthErrorCode;
+    pendingConfirmation?: boolean;
+  }>;
+  completeAuthLink: (url: string) => Promise<{
+    success: boolean;
+    error?: string;
+    errorCode?: AuthErrorCode;
+    mfaChallenge?: MfaChallenge;
+  }>;
+  logout: (options?: LogoutOptions) => Promise<void>;
   refreshSession: () => Promise<void>;
+  updateProfile: (
+    updates: Pick<User, "firstName" | "lastName">
+  ) => Promise<{ success: boolean; error?: string }>;
+  changePassword: (
+    currentPassword: string,
+    newPassword: string
+  ) => Promise<{ success: boolean; error?: string; errorCode?: AuthErrorCode }>;
+  startImpersonation: (contractor: Contractor) => void;
+  stopImpersonation: () => void;
+  clearAccessRevoked: () => void;
 
   // Service access for advanced usage
   authService: IAuthService;
+  invitationService: IInvitationService;
+  userAdminService: IUserAdminService;
+  contractorService: IContractorService;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 interface AuthProviderProps {
   children: ReactNode;
+  authService?: IAuthService;
+  invitationService?: IInvitationService;
 }
 
-export function AuthProvider({ children }: AuthProviderProps) {
+export function AuthProvider({
+  children,
+  authService = defaultAuthService,
+  invitationService = defaultInvitationService,
+}: AuthProviderProps) {
   const [session, setSession] = useState<AuthSession | null>(null);
   const [loading, setLoading] = useState(true);
+  const [impersonating, setImpersonating] = useState<Contractor | null>(null);
+  const [accessRevoked, setAccessRevoked] = useState<AuthErrorCode | null>(
+    null
+  );
 
   useEffect(() => {
     // Set up auth state listener
-    const unsubscribe = authService.onAuthStateChange((newSession) => {
+    const unsubscribe = authService.onAuthStateChange((newSession, reason) => {
       setSession(newSession);
+      if (isAccessRevoked(reason)) {
+        setAccessRevoked(reason);
+      }
       setLoading(false);
     });
 
@@ -62,15 +136,17 @@ export function AuthProvider({ children }: AuthProviderProps) {
     initializeSession();
 
     return unsubscribe;
-  }, []);
+  }, [authService]);
 
   const initializeSession = async () => {
     try {
       const result = await authService.getCurrentSession();
       if (result.success && result.data) {
         setSession(result.data);
-      } else {
+      } else if (result.errorCode !== AuthErrorCode.NETWORK) {
+        // Offline, a session the auth listener already restored stands
         setSession(null);
+        revokeIfDisabled(result.errorCode);
       }
     } catch (error) {
       console.error("Failed to initialize session:", error);
@@ -80,6 +156,30 @@ export function AuthProvider({ children }: AuthProviderProps) {
     }
   };
 
+  const revokeIfDisabled = (errorCode?: AuthErrorCode) => {
+    if (isAccessRevoked(errorCode)) {
+      setSession(null);
+      setAccessRevoked(errorCode);
+    }
+  };
+
+  // Re-check the account whenever the app comes back to the foreground, so
+  // a deactivation doesn't wait for the next token refresh
+  useEffect(() => {
+    if (!session) {
+      return;
+    }
+
+    const subscription = AppState.addEventListener("change", async (state) => {
+      if (state === "active") {
+        const result = await authService.getCurrentSession();
+        revokeIfDisabled(result.errorCode);
+      }
+    });
+
+    return () => subscription.remove();
+  }, [authService, session?.user.id]);
+
   const login = async (email: string, password: string) => {
     setLoading(true);
     try {
@@ -89,10 +189,72 @@ export function AuthProvider({ children }: AuthProviderProps) {
         setSession(result.data);
         return { success: true };
       } else {
-        return { success: false, error: result.error };
+        return {
+          success: false,
+          error: result.error,
+          errorCode: result.errorCode,
+          mfaChallenge: result.mfaChallenge,
+        };
+      }
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || "Login failed",
+        errorCode: toAuthErrorCode(error),
+      };
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const verifyMfa = async (challenge: MfaChallenge, code: string) => {
+    setLoading(true);
+    try {
+      const result = await authService.verifyMfaChallenge(challenge, code);
+
+      if (result.success && result.data) {
+        setSession(result.data);
+        return { success: true };
+      } else {
+        return {
+          success: false,
+          error: result.error,
+          errorCode: result.errorCode,
+          mfaChallenge: result.mfaChallenge,
+        };
+      }
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || "Verification failed",
+        errorCode: toAuthErrorCode(error),
+      };
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const redeemRecoveryCode = async (code: string) => {
+    setLoading(true);
+    try {
+      const result = await authService.redeemRecoveryCode(code);
+
+      if (result.success && result.data) {
+        setSession(result.data);
+        return { success: true };
+      } else {
+        return {
+          success: false,
+          error: result.error,
+          errorCode: result.errorCode,
+        };
       }
     } catch (error: any) {
-      return { success: false, error: error.message || "Login failed" };
+      return {
+        success: false,
+        error: error.message || "Recovery failed",
+        errorCode: toAuthErrorCode(error),
+      };
     } finally {
       setLoading(false);
     }
@@ -107,19 +269,57 @@ export function AuthProvider({ children }: AuthProviderProps) {
         setSession(result.data);
         return { success: true };
       } else {
-        return { success: false, error: result.error };
+        return {
+          success: false,
+          error: result.error,
+          errorCode: result.errorCode,
+          pendingConfirmation:
+            result.errorCode === AuthErrorCode.EMAIL_CONFIRMATION_REQUIRED,
+        };
+      }
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || "Registration failed",
+        errorCode: toAuthErrorCode(error),
+      };
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Opens the session carried by an email confirmation or recovery link
+  const completeAuthLink = async (url: string) => {
+    setLoading(true);
+    try {
+      const result = await authService.completeAuthLink(url);
+
+      if (result.success && result.data) {
+        setSession(result.data);
+        return { success: true };
+      } else {
+        return {
+          success: false,
+          error: result.error,
+          errorCode: result.errorCode,
+          mfaChallenge: result.mfaChallenge,
+        };
       }
     } catch (error: any) {
-      return { success: false, error: error.message || "Registration failed" };
+      return {
+        success: false,
+        error: error.message || "Failed to open link",
+        errorCode: toAuthErrorCode(error),
+      };
     } finally {
       setLoading(false);
     }
   };
 
-  const logout = async () => {
+  const logout = async (options?: LogoutOptions) => {
     setLoading(true);
     try {
-      await authService.logout();
+      await authService.logout(options);
       setSession(null);
     } catch (error) {
       console.error("Logout error:", error);
@@ -133,21 +333,124 @@ export function AuthProvider({ children }: AuthProviderProps) {
       const result = await authService.refreshSession();
       if (result.success && result.data) {
         setSession(result.data);
+      } else {
+        revokeIfDisabled(result.errorCode);
       }
     } catch (error) {
       console.error("Session refresh error:", error);
     }
   };
 
+  const updateProfile = async (
+    updates: Pick<User, "firstName" | "lastName">
+  ) => {
+    try {
+      const result = await authService.updateProfile(updates);
+
+      if (result.success && result.data) {
+        const updated = result.data;
+        setSession((prev) => (prev ? { ...prev, user: updated } : prev));
+        return { success: true };
+      } else {
+        return { success: false, error: result.error };
+      }
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || "Profile update failed",
+      };
+    }
+  };
+
+  const changePassword = async (
+    currentPassword: string,
+    newPassword: string
+  ) => {
+    try {
+      const result = await authService.changePassword({
+        currentPassword,
+        newPassword,
+      });
+
+      if (!result.success) {
+        return {
+          success: false,
+          error: result.error,
+          errorCode: result.errorCode,
+        };
+      }
+
+      // Reload the profile so mustChangePassword reflects the cleared flag
+      const sessionResult = await authService.getCurrentSession();
+      if (sessionResult.success && sessionResult.data) {
+        setSession(sessionResult.data);
+      }
+      return { success: true };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || "Password change failed",
+        errorCode: toAuthErrorCode(error),
+      };
+    }
+  };
+
+  // Impersonation never outlives the super admin's session
+  useEffect(() => {
+    if (session?.user.role !== "super_admin") {
+      setImpersonating(null);
+    }
+  }, [session?.user.id, session?.user.role]);
+
+  const startImpersonation = (contractor: Contractor) => {
+    if (hasCapability(session?.user, "contractors.manage")) {
+      setImpersonating(contractor);
+    }
+  };
+
+  const stopImpersonation = () => setImpersonating(null);
+
+  const clearAccessRevoked = () => setAccessRevoked(null);
+
+  // While impersonating, every contractor-scoped context (reports,
+  // equipment, templates) loads the impersonated contractor's data. The
+  // role is untouched, so permissions stay those of the super admin.
+  const user = useMemo<User | null>(() => {
+    if (!session) {
+      return null;
+    }
+    if (!impersonating) {
+      return session.user;
+    }
+    return {
+      ...session.user,
+      contractorId: impersonating.id,
+      contractorName: impersonating.name,
+    };
+  }, [session, impersonating]);
+
   const value: AuthContextType = {
     session,
-    user: session?.user || null,
+    user,
     loading,
+    impersonating,
+    accessRevoked,
     login,
+    verifyMfa,
+    redeemRecoveryCode,
     register,
+    completeAuthLink,
     logout,
     refreshSession,
+    updateProfile,
+    changePassword,
+    startImpersonation,
+    stopImpersonation,
+    clearAccessRevoked,
     authService,
+    invitationService,
+    userAdminService,
+    contractorService,
   };
 
   return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
@@ -0,0 +1,102 @@
+import React, { ReactNode, useEffect, useRef } from "react";
+import {
+  router,
+  useGlobalSearchParams,
+  usePathname,
+  useSegments,
+} from "expo-router";
+import * as SplashScreen from "expo-splash-screen";
+import { useAuth } from "./AuthContext";
+import {
+  buildRedirectPath,
+  sanitizeRedirect,
+} from "../../services/auth/redirect";
+
+interface AuthGateProps {
+  children: ReactNode;
+}
+
+// Keeps signed-out users on /auth, users with a temporary password on
+// /change-password, managers whose contractor requires MFA on /mfa-setup
+// until they enroll, and everyone else off the auth screens. Email link
+// routes (/confirm-email, /reset-password) are left alone. The route
+// originally asked for rides along as ?redirect= so a deep link still opens
+// after login.
+export function AuthGate({ children }: AuthGateProps) {
+  const { session, loading } = useAuth();
+  const segments = useSegments();
+  const pathname = usePathname();
+  const params = useGlobalSearchParams();
+  const hadSession = useRef(false);
+
+  // Hold the splash screen until we know whether there is a session
+  useEffect(() => {
+    if (!loading) {
+      SplashScreen.hideAsync();
+    }
+  }, [loading]);
+
+  useEffect(() => {
+    if (loading) {
+      return;
+    }
+
+    const inAuthGroup = segments[0] === "auth";
+    const onPasswordScreen = segments[0] === "change-password";
+    const onMfaScreen = segments[0] === "mfa-setup";
+    // Email link screens open their own session and navigate on completion
+    const onEmailLink =
+      segments[0] === "confirm-email" || segments[0] === "reset-password";
+
+    if (onEmailLink) {
+      return;
+    }
+
+    if (!session && !inAuthGroup) {
+      // Only preserve the route on cold start; after a sign-out the next
+      // user shouldn't land on the previous user's screen
+      const redirect = hadSession.current
+        ? null
+        : buildRedirectPath(pathname, segments, params as any);
+      router.replace({
+        pathname: "/auth",
+        params: redirect ? { redirect } : {},
+      } as any);
+    } else if (session?.user.mustChangePassword && !onPasswordScreen) {
+      // Nothing else is reachable until the temporary password is replaced
+      const redirect = inAuthGroup
+        ? sanitizeRedirect(params.redirect)
+        : buildRedirectPath(pathname, segments, params as any);
+      router.replace({
+        pathname: "/change-password",
+        params: redirect ? { redirect } : {},
+      } as any);
+    } else if (
+      session?.user.mustEnrollMfa &&
+      !session.user.mustChangePassword &&
+      !onMfaScreen
+    ) {
+      const redirect = inAuthGroup
+        ? sanitizeRedirect(params.redirect)
+        : buildRedirectPath(pathname, segments, params as any);
+      router.replace({
+        pathname: "/mfa-setup",
+        params: redirect ? { redirect } : {},
+      } as any);
+    } else if (session && inAuthGroup) {
+      router.replace((sanitizeRedirect(params.redirect) || "/(tabs)") as any);
+    }
+
+    if (session) {
+      hadSession.current = true;
+    }
+  }, [
+    loading,
+    session,
+    session?.user.mustChangePassword,
+    session?.user.mustEnrollMfa,
+    segments.join("/"),
+  ]);
+
+  return <>{children}</>;
+}
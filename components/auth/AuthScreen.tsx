@@ -3,19 +3,36 @@ import { View, StyleSheet } from "react-native";
 import { StatusBar } from "expo-status-bar";
 import LoginScreen from "./LoginScreen";
 import RegisterScreen from "./RegisterScreen";
+import AccountDisabledScreen from "./AccountDisabledScreen";
+import { useAuth } from "./AuthContext";
 
 type AuthMode = "login" | "register";
 
-export const AuthScreen: React.FC = () => {
-  const [mode, setMode] = useState<AuthMode>("login");
+interface AuthScreenProps {
+  inviteToken?: string;
+}
+
+export const AuthScreen: React.FC<AuthScreenProps> = ({ inviteToken }) => {
+  const { accessRevoked, clearAccessRevoked } = useAuth();
+  const [mode, setMode] = useState<AuthMode>(
+    inviteToken ? "register" : "login"
+  );
 
   return (
     <View style={styles.container}>
       <StatusBar style="auto" />
-      {mode === "login" ? (
+      {accessRevoked ? (
+        <AccountDisabledScreen
+          reason={accessRevoked}
+          onDismiss={clearAccessRevoked}
+        />
+      ) : mode === "login" ? (
         <LoginScreen onSwitchToRegister={() => setMode("register")} />
       ) : (
-        <RegisterScreen onSwitchToLogin={() => setMode("login")} />
+        <RegisterScreen
+          inviteToken={inviteToken}
+          onSwitchToLogin={() => setMode("login")}
+        />
       )}
     </View>
   );
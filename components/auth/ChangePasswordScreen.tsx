@@ -0,0 +1,208 @@
+// components/auth/ChangePasswordScreen.tsx
+import React, { useState } from "react";
+import { View, ScrollView, Alert } from "react-native";
+import {
+  TextInput,
+  Button,
+  Text,
+  Card,
+  List,
+  ActivityIndicator,
+  useTheme,
+} from "react-native-paper";
+import { useAuth } from "./AuthContext";
+import {
+  PASSWORD_RULES,
+  checkPasswordStrength,
+} from "../../services/auth/passwordPolicy";
+import { getAuthErrorMessage } from "../../services/auth/authErrors";
+
+interface ChangePasswordScreenProps {
+  required?: boolean; // Set when an admin-issued temporary password is in use
+  recovery?: boolean; // Opened from a reset link; no current password asked
+  onComplete: () => void;
+}
+
+export default function ChangePasswordScreen({
+  required,
+  recovery,
+  onComplete,
+}: ChangePasswordScreenProps) {
+  const theme = useTheme();
+  const { user, changePassword, refreshSession, logout, authService } =
+    useAuth();
+  const [formData, setFormData] = useState({
+    currentPassword: "",
+    newPassword: "",
+    confirmPassword: "",
+  });
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+
+  const failing = new Set(
+    checkPasswordStrength(formData.newPassword, {
+      email: user?.email,
+      currentPassword: formData.currentPassword,
+    }).map((rule) => rule.id)
+  );
+
+  const validateForm = () => {
+    const newErrors: Record<string, string> = {};
+
+    if (!recovery && !formData.currentPassword) {
+      newErrors.currentPassword = "Current password is required";
+    }
+
+    if (!formData.newPassword) {
+      newErrors.newPassword = "New password is required";
+    } else if (failing.size > 0) {
+      newErrors.newPassword = "Password doesn't meet the requirements below";
+    }
+
+    if (formData.newPassword !== formData.confirmPassword) {
+      newErrors.confirmPassword = "Passwords do not match";
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSubmit = async () => {
+    if (!validateForm()) {
+      return;
+    }
+
+    setSaving(true);
+    const result = recovery
+      ? await authService.setNewPassword(formData.newPassword)
+      : await changePassword(formData.currentPassword, formData.newPassword);
+    if (recovery && result.success) {
+      // Picks up a cleared mustChangePassword flag
+      await refreshSession();
+    }
+    setSaving(false);
+
+    if (result.success) {
+      Alert.alert("Password Updated", "Your password has been changed.", [
+        { text: "OK", onPress: onComplete },
+      ]);
+    } else {
+      Alert.alert("Error", getAuthErrorMessage(result.errorCode, result.error));
+    }
+  };
+
+  const updateField = (field: keyof typeof formData, value: string) => {
+    setFormData((prev) => ({ ...prev, [field]: value }));
+    if (errors[field]) {
+      setErrors((prev) => ({ ...prev, [field]: "" }));
+    }
+  };
+
+  const renderInput = (field: keyof typeof formData, label: string) => (
+    <>
+      <TextInput
+        label={label}
+        value={formData[field]}
+        onChangeText={(value) => updateField(field, value)}
+        mode="outlined"
+        secureTextEntry
+        autoCapitalize="none"
+        style={{ marginBottom: 16 }}
+        error={!!errors[field]}
+        disabled={saving}
+      />
+      {errors[field] && (
+        <Text
+          variant="bodySmall"
+          style={{ color: theme.colors.error, marginTop: -8, marginBottom: 8 }}
+        >
+          {errors[field]}
+        </Text>
+      )}
+    </>
+  );
+
+  return (
+    <ScrollView
+      contentContainerStyle={{
+        padding: 20,
+        justifyContent: "center",
+        flexGrow: 1,
+      }}
+    >
+      <Card>
+        <Card.Content>
+          <Text
+            variant="headlineMedium"
+            style={{ textAlign: "center", marginBottom: 8 }}
+          >
+            {recovery ? "Set New Password" : "Change Password"}
+          </Text>
+          {recovery && (
+            <Text
+              style={{
+                textAlign: "center",
+                marginBottom: 24,
+                color: theme.colors.onSurfaceVariant,
+              }}
+            >
+              Choose a new password for {user?.email}.
+            </Text>
+          )}
+          {required && !recovery && (
+            <Text
+              style={{
+                textAlign: "center",
+                marginBottom: 24,
+                color: theme.colors.onSurfaceVariant,
+              }}
+            >
+              You signed in with a temporary password. Choose a new one to
+              continue.
+            </Text>
+          )}
+
+          {!recovery && renderInput("currentPassword", "Current Password")}
+          {renderInput("newPassword", "New Password")}
+          {renderInput("confirmPassword", "Confirm New Password")}
+
+          <View style={{ marginBottom: 16 }}>
+            {PASSWORD_RULES.map((rule) => {
+              const met = !!formData.newPassword && !failing.has(rule.id);
+              return (
+                <List.Item
+                  key={rule.id}
+                  title={rule.label}
+                  titleStyle={{ fontSize: 13 }}
+                  style={{ paddingVertical: 0 }}
+                  left={(props) => (
+                    <List.Icon
+                      {...props}
+                      icon={met ? "check-circle" : "circle-outline"}
+                      color={met ? theme.colors.tertiary : theme.colors.outline}
+                    />
+                  )}
+                />
+              );
+            })}
+          </View>
+
+          <Button
+            mode="contained"
+            onPress={handleSubmit}
+            style={{ marginBottom: 16 }}
+            disabled={saving}
+          >
+            {saving ? <ActivityIndicator color="white" /> : "Update Password"}
+          </Button>
+
+          {(required || recovery) && (
+            <Button mode="text" onPress={() => logout()} disabled={saving}>
+              Sign Out
+            </Button>
+          )}
+        </Card.Content>
+      </Card>
+    </ScrollView>
+  );
+}
@@ -0,0 +1,103 @@
+// components/auth/EmailLinkScreen.tsx
+import React, { useEffect, useRef, useState } from "react";
+import { View } from "react-native";
+import {
+  Button,
+  Text,
+  Card,
+  ActivityIndicator,
+  useTheme,
+} from "react-native-paper";
+import * as Linking from "expo-linking";
+import { router } from "expo-router";
+import { useAuth } from "./AuthContext";
+import MfaChallengeForm from "./MfaChallengeForm";
+import { MfaChallenge } from "../../types/auth";
+import { getAuthErrorMessage } from "../../services/auth/authErrors";
+
+interface EmailLinkScreenProps {
+  pendingMessage: string;
+  onComplete: () => void;
+}
+
+// Landing screen for inspectrix:// links from confirmation and recovery
+// emails. Reads the raw URL because the tokens may be in the fragment.
+export default function EmailLinkScreen({
+  pendingMessage,
+  onComplete,
+}: EmailLinkScreenProps) {
+  const theme = useTheme();
+  const { completeAuthLink } = useAuth();
+  const url = Linking.useURL();
+  const handledUrl = useRef<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [challenge, setChallenge] = useState<MfaChallenge | null>(null);
+
+  useEffect(() => {
+    // Link tokens are single use, so never submit the same URL twice
+    if (!url || handledUrl.current === url) {
+      return;
+    }
+    handledUrl.current = url;
+
+    completeAuthLink(url).then((result) => {
+      if (result.success) {
+        onComplete();
+      } else if (result.mfaChallenge) {
+        // The link is spent, so the second factor is asked for right here
+        setChallenge(result.mfaChallenge);
+      } else {
+        setError(getAuthErrorMessage(result.errorCode, result.error));
+      }
+    });
+  }, [url]);
+
+  if (challenge) {
+    return (
+      <MfaChallengeForm
+        challenge={challenge}
+        onVerified={onComplete}
+        onCancel={() => router.replace("/auth" as any)}
+      />
+    );
+  }
+
+  return (
+    <View style={{ padding: 20, justifyContent: "center", flex: 1 }}>
+      <Card>
+        <Card.Content style={{ alignItems: "center" }}>
+          {error ? (
+            <>
+              <Text
+                variant="headlineMedium"
+                style={{ textAlign: "center", marginBottom: 8 }}
+              >
+                Link Not Valid
+              </Text>
+              <Text
+                style={{
+                  textAlign: "center",
+                  marginBottom: 24,
+                  color: theme.colors.onSurfaceVariant,
+                }}
+              >
+                {error}
+              </Text>
+              <Button
+                mode="contained"
+                onPress={() => router.replace("/auth" as any)}
+              >
+                Back to Sign In
+              </Button>
+            </>
+          ) : (
+            <>
+              <ActivityIndicator style={{ marginBottom: 16 }} />
+              <Text style={{ textAlign: "center" }}>{pendingMessage}</Text>
+            </>
+          )}
+        </Card.Content>
+      </Card>
+    </View>
+  );
+}
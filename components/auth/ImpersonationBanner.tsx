@@ -0,0 +1,60 @@
+import React from "react";
+import { View, StyleSheet } from "react-native";
+import { Button, Text, useTheme } from "react-native-paper";
+import { router } from "expo-router";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { useAuth } from "./AuthContext";
+
+// Always-visible strip shown while a super admin is viewing the app as
+// another contractor, so support sessions can't be mistaken for real ones
+export function ImpersonationBanner() {
+  const theme = useTheme();
+  const insets = useSafeAreaInsets();
+  const { impersonating, stopImpersonation } = useAuth();
+
+  if (!impersonating) {
+    return null;
+  }
+
+  const handleExit = () => {
+    stopImpersonation();
+    router.replace("/contractors" as any);
+  };
+
+  return (
+    <View
+      style={[
+        styles.banner,
+        { paddingTop: insets.top, backgroundColor: theme.colors.error },
+      ]}
+    >
+      <Text
+        style={[styles.text, { color: theme.colors.onError }]}
+        numberOfLines={1}
+      >
+        Viewing as {impersonating.name}
+      </Text>
+      <Button
+        compact
+        mode="text"
+        textColor={theme.colors.onError}
+        onPress={handleExit}
+      >
+        Exit
+      </Button>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  banner: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: 16,
+  },
+  text: {
+    flex: 1,
+    fontWeight: "bold",
+  },
+});
@@ -9,16 +9,20 @@ import {
   ActivityIndicator,
 } from "react-native-paper";
 import { useAuth } from "./AuthContext";
+import MfaChallengeForm from "./MfaChallengeForm";
+import { AuthErrorCode, MfaChallenge } from "../../types/auth";
+import { getAuthErrorMessage } from "../../services/auth/authErrors";
 
 interface LoginScreenProps {
   onSwitchToRegister: () => void;
 }
 
 export default function LoginScreen({ onSwitchToRegister }: LoginScreenProps) {
-  const { login, loading } = useAuth();
+  const { login, loading, authService } = useAuth();
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
   const [errors, setErrors] = useState<Record<string, string>>({});
+  const [challenge, setChallenge] = useState<MfaChallenge | null>(null);
 
   const validateForm = () => {
     const newErrors: Record<string, string> = {};
@@ -44,18 +48,66 @@ export default function LoginScreen({ onSwitchToRegister }: LoginScreenProps) {
 
     const result = await login(email.trim(), password);
 
-    if (!result.success) {
-      Alert.alert("Login Error", result.error || "Login failed");
+    if (result.mfaChallenge) {
+      setChallenge(result.mfaChallenge);
+    } else if (result.errorCode === AuthErrorCode.EMAIL_NOT_CONFIRMED) {
+      Alert.alert("Login Error", getAuthErrorMessage(result.errorCode), [
+        { text: "OK", style: "cancel" },
+        {
+          text: "Resend Email",
+          onPress: () => authService.resendConfirmation(email.trim()),
+        },
+      ]);
+    } else if (!result.success) {
+      Alert.alert(
+        "Login Error",
+        getAuthErrorMessage(result.errorCode, result.error)
+      );
     }
     // Success is handled automatically by AuthContext
   };
 
+  // The emailed link opens /reset-password
+  const handleForgotPassword = async () => {
+    if (!/\S+@\S+\.\S+/.test(email)) {
+      setErrors({ email: "Enter your email to reset your password" });
+      return;
+    }
+
+    const result = await authService.resetPassword(email.trim());
+    if (result.success) {
+      Alert.alert(
+        "Check Your Email",
+        `If an account exists for ${email.trim()}, we sent a link to reset its password.`
+      );
+    } else {
+      Alert.alert("Error", getAuthErrorMessage(result.errorCode, result.error));
+    }
+  };
+
+  // Back to the sign-in form; the form has already dropped the session
+  const handleCancelChallenge = () => {
+    setChallenge(null);
+    setPassword("");
+  };
+
   const clearError = (field: string) => {
     if (errors[field]) {
       setErrors((prev) => ({ ...prev, [field]: "" }));
     }
   };
 
+  if (challenge) {
+    // Success is handled automatically by AuthContext
+    return (
+      <MfaChallengeForm
+        challenge={challenge}
+        onVerified={() => {}}
+        onCancel={handleCancelChallenge}
+      />
+    );
+  }
+
   return (
     <View style={{ padding: 20, justifyContent: "center", flex: 1 }}>
       <Card>
@@ -69,6 +121,7 @@ export default function LoginScreen({ onSwitchToRegister }: LoginScreenProps) {
 
           <TextInput
             label="Email"
+            testID="login-email"
             value={email}
             onChangeText={(value) => {
               setEmail(value);
@@ -89,6 +142,7 @@ export default function LoginScreen({ onSwitchToRegister }: LoginScreenProps) {
 
           <TextInput
             label="Password"
+            testID="login-password"
             value={password}
             onChangeText={(value) => {
               setPassword(value);
@@ -118,6 +172,10 @@ export default function LoginScreen({ onSwitchToRegister }: LoginScreenProps) {
             {loading ? <ActivityIndicator color="white" /> : "Sign In"}
           </Button>
 
+          <Button mode="text" onPress={handleForgotPassword} disabled={loading}>
+            Forgot Password?
+          </Button>
+
           <Button mode="text" onPress={onSwitchToRegister} disabled={loading}>
             Don't have an account? Sign Up
           </Button>
@@ -0,0 +1,137 @@
+// components/auth/MfaChallengeForm.tsx
+import React, { useState } from "react";
+import { View, Alert } from "react-native";
+import {
+  TextInput,
+  Button,
+  Text,
+  Card,
+  ActivityIndicator,
+} from "react-native-paper";
+import { useAuth } from "./AuthContext";
+import { MfaChallenge } from "../../types/auth";
+import { getAuthErrorMessage } from "../../services/auth/authErrors";
+
+interface MfaChallengeFormProps {
+  challenge: MfaChallenge;
+  onVerified: () => void;
+  onCancel: () => void;
+}
+
+// Second step of any sign-in that opened a password-only session for an
+// account with a verified TOTP factor: login, or an emailed link
+export default function MfaChallengeForm({
+  challenge: initialChallenge,
+  onVerified,
+  onCancel,
+}: MfaChallengeFormProps) {
+  const { verifyMfa, redeemRecoveryCode, logout, loading } = useAuth();
+  const [challenge, setChallenge] = useState(initialChallenge);
+  const [code, setCode] = useState("");
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+
+  const handleVerify = async () => {
+    if (!code.trim()) {
+      return;
+    }
+
+    if (useRecoveryCode) {
+      const result = await redeemRecoveryCode(code);
+      if (result.success) {
+        onVerified();
+      } else {
+        Alert.alert(
+          "Verification Error",
+          getAuthErrorMessage(result.errorCode, result.error)
+        );
+      }
+      return;
+    }
+
+    const result = await verifyMfa(challenge, code);
+    if (result.success) {
+      onVerified();
+      return;
+    }
+    // A renewed challenge replaces an expired one
+    if (result.mfaChallenge) {
+      setChallenge(result.mfaChallenge);
+    }
+    setCode("");
+    Alert.alert(
+      "Verification Error",
+      getAuthErrorMessage(result.errorCode, result.error)
+    );
+  };
+
+  // Drops the half-finished (password-only) session
+  const handleCancel = async () => {
+    setCode("");
+    setUseRecoveryCode(false);
+    await logout();
+    onCancel();
+  };
+
+  return (
+    <View style={{ padding: 20, justifyContent: "center", flex: 1 }}>
+      <Card>
+        <Card.Content>
+          <Text
+            variant="headlineMedium"
+            style={{ textAlign: "center", marginBottom: 8 }}
+          >
+            Two-Factor Verification
+          </Text>
+          <Text
+            variant="bodyMedium"
+            style={{ textAlign: "center", marginBottom: 24, opacity: 0.7 }}
+          >
+            {useRecoveryCode
+              ? "Enter one of the recovery codes you saved when you set up two-factor authentication."
+              : "Enter the 6-digit code from your authenticator app."}
+          </Text>
+
+          <TextInput
+            label={useRecoveryCode ? "Recovery Code" : "Verification Code"}
+            testID="mfa-code"
+            value={code}
+            onChangeText={setCode}
+            mode="outlined"
+            keyboardType={useRecoveryCode ? "default" : "number-pad"}
+            autoCapitalize="none"
+            autoComplete={useRecoveryCode ? "off" : "one-time-code"}
+            maxLength={useRecoveryCode ? 16 : 6}
+            style={{ marginBottom: 24 }}
+            disabled={loading}
+            autoFocus
+          />
+
+          <Button
+            mode="contained"
+            onPress={handleVerify}
+            style={{ marginBottom: 16 }}
+            disabled={loading || !code.trim()}
+          >
+            {loading ? <ActivityIndicator color="white" /> : "Verify"}
+          </Button>
+
+          <Button
+            mode="text"
+            onPress={() => {
+              setUseRecoveryCode(!useRecoveryCode);
+              setCode("");
+            }}
+            disabled={loading}
+          >
+            {useRecoveryCode
+              ? "Use authenticator code instead"
+              : "Lost your device? Use a recovery code"}
+          </Button>
+          <Button mode="text" onPress={handleCancel} disabled={loading}>
+            Cancel
+          </Button>
+        </Card.Content>
+      </Card>
+    </View>
+  );
+}
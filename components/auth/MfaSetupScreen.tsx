@@ -0,0 +1,252 @@
+// components/auth/MfaSetupScreen.tsx
+import React, { useEffect, useState } from "react";
+import { View, ScrollView, Alert, Share } from "react-native";
+import {
+  TextInput,
+  Button,
+  Text,
+  Card,
+  ActivityIndicator,
+  useTheme,
+} from "react-native-paper";
+import { SvgXml } from "react-native-svg";
+import { useAuth } from "./AuthContext";
+import { MfaEnrollment } from "../../types/auth";
+
+interface MfaSetupScreenProps {
+  required?: boolean; // Set when the contractor's policy forces enrollment
+  onComplete: () => void;
+}
+
+export default function MfaSetupScreen({
+  required,
+  onComplete,
+}: MfaSetupScreenProps) {
+  const theme = useTheme();
+  const { authService, refreshSession, logout } = useAuth();
+  const [enrollment, setEnrollment] = useState<MfaEnrollment | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const startEnrollment = async () => {
+    setError(null);
+    const result = await authService.enrollMfa();
+    if (result.success && result.data) {
+      setEnrollment(result.data);
+    } else {
+      setError(result.error || "Failed to start enrollment");
+    }
+  };
+
+  useEffect(() => {
+    startEnrollment();
+  }, []);
+
+  const handleVerify = async () => {
+    if (!enrollment) {
+      return;
+    }
+
+    setSaving(true);
+    const result = await authService.confirmMfaEnrollment(
+      enrollment.factorId,
+      code
+    );
+    setSaving(false);
+
+    if (result.success && result.data) {
+      setRecoveryCodes(result.data);
+    } else {
+      setCode("");
+      Alert.alert("Error", result.error || "Verification failed");
+    }
+  };
+
+  const handleShareCodes = () => {
+    Share.share({
+      message: `Inspectrix recovery codes (each works once):\n\n${recoveryCodes!.join(
+        "\n"
+      )}`,
+    });
+  };
+
+  const handleDone = async () => {
+    // Picks up the cleared mustEnrollMfa flag
+    await refreshSession();
+    onComplete();
+  };
+
+  const renderRecoveryCodes = () => (
+    <>
+      <Text
+        variant="headlineMedium"
+        style={{ textAlign: "center", marginBottom: 8 }}
+      >
+        Save Your Recovery Codes
+      </Text>
+      <Text
+        style={{
+          textAlign: "center",
+          marginBottom: 16,
+          color: theme.colors.onSurfaceVariant,
+        }}
+      >
+        If you lose your phone, each code lets you sign in once. They won't be
+        shown again.
+      </Text>
+      <View
+        style={{
+          flexDirection: "row",
+          flexWrap: "wrap",
+          justifyContent: "center",
+          marginBottom: 16,
+        }}
+      >
+        {recoveryCodes!.map((recoveryCode) => (
+          <Text
+            key={recoveryCode}
+            selectable
+            style={{
+              width: "50%",
+              textAlign: "center",
+              letterSpacing: 1,
+              paddingVertical: 4,
+            }}
+          >
+            {recoveryCode}
+          </Text>
+        ))}
+      </View>
+      <Button
+        mode="outlined"
+        icon="share-variant"
+        onPress={handleShareCodes}
+        style={{ marginBottom: 16 }}
+      >
+        Save Codes
+      </Button>
+      <Button mode="contained" onPress={handleDone}>
+        I've Saved These Codes
+      </Button>
+    </>
+  );
+
+  const renderEnrollment = () => (
+    <>
+      <Text
+        variant="headlineMedium"
+        style={{ textAlign: "center", marginBottom: 8 }}
+      >
+        Set Up Two-Factor
+      </Text>
+      <Text
+        style={{
+          textAlign: "center",
+          marginBottom: 24,
+          color: theme.colors.onSurfaceVariant,
+        }}
+      >
+        {required
+          ? "Your organization requires an authenticator app for your role. "
+          : ""}
+        Scan this code with an authenticator app such as Google Authenticator or
+        1Password, then enter the 6-digit code it shows.
+      </Text>
+
+      {error && (
+        <>
+          <Text
+            style={{
+              textAlign: "center",
+              marginBottom: 16,
+              color: theme.colors.error,
+            }}
+          >
+            {error}
+          </Text>
+          <Button mode="outlined" onPress={startEnrollment}>
+            Try Again
+          </Button>
+        </>
+      )}
+      {!enrollment && !error && <ActivityIndicator style={{ margin: 24 }} />}
+      {enrollment && (
+        <>
+          <View
+            style={{
+              alignItems: "center",
+              marginBottom: 16,
+              padding: 8,
+              backgroundColor: "#ffffff",
+            }}
+          >
+            <SvgXml xml={enrollment.qrCode} width={200} height={200} />
+          </View>
+          <Text
+            variant="bodySmall"
+            style={{
+              textAlign: "center",
+              color: theme.colors.onSurfaceVariant,
+            }}
+          >
+            Can't scan? Enter this key instead:
+          </Text>
+          <Text
+            selectable
+            style={{
+              textAlign: "center",
+              letterSpacing: 1,
+              marginBottom: 24,
+            }}
+          >
+            {enrollment.secret}
+          </Text>
+
+          <TextInput
+            label="Verification Code"
+            value={code}
+            onChangeText={setCode}
+            mode="outlined"
+            keyboardType="number-pad"
+            autoComplete="one-time-code"
+            maxLength={6}
+            style={{ marginBottom: 16 }}
+            disabled={saving}
+          />
+          <Button
+            mode="contained"
+            onPress={handleVerify}
+            style={{ marginBottom: 16 }}
+            disabled={saving || code.trim().length !== 6}
+          >
+            {saving ? <ActivityIndicator color="white" /> : "Verify and Enable"}
+          </Button>
+        </>
+      )}
+
+      {required && (
+        <Button mode="text" onPress={() => logout()} disabled={saving}>
+          Sign Out
+        </Button>
+      )}
+    </>
+  );
+
+  return (
+    <ScrollView
+      contentContainerStyle={{
+        padding: 20,
+        justifyContent: "center",
+        flexGrow: 1,
+      }}
+    >
+      <Card>
+        <Card.Content>
+          {recoveryCodes ? renderRecoveryCodes() : renderEnrollment()}
+        </Card.Content>
+      </Card>
+    </ScrollView>
+  );
+}
@@ -0,0 +1,45 @@
+import React, { ReactNode } from "react";
+import { Redirect } from "expo-router";
+import { useAuth } from "./AuthContext";
+import { hasCapability } from "../../services/auth/permissions";
+import { Capability } from "../../types/auth";
+
+export function usePermission(capability: Capability): boolean {
+  const { user } = useAuth();
+  return hasCapability(user, capability);
+}
+
+interface CanProps {
+  capability: Capability;
+  children: ReactNode;
+  fallback?: ReactNode;
+}
+
+// Renders children only when the signed-in user has the capability
+export function Can({ capability, children, fallback = null }: CanProps) {
+  const allowed = usePermission(capability);
+  return <>{allowed ? children : fallback}</>;
+}
+
+interface RequirePermissionProps {
+  capability: Capability;
+  children: ReactNode;
+}
+
+// Route guard for expo-router layouts: bounces to the home tab when the
+// user lacks the capability, so deep links can't reach the screen either
+export function RequirePermission({
+  capability,
+  children,
+}: RequirePermissionProps) {
+  const { loading } = useAuth();
+  const allowed = usePermission(capability);
+
+  if (loading) {
+    return null;
+  }
+  if (!allowed) {
+    return <Redirect href={"/(tabs)" as any} />;
+  }
+  return <>{children}</>;
+}
@@ -1,5 +1,5 @@
 // components/auth/RegisterScreen.tsx
-import React, { useState } from "react";
+import React, { useEffect, useState } from "react";
 import { View, ScrollView, Alert } from "react-native";
 import {
   TextInput,
@@ -9,15 +9,34 @@ import {
   ActivityIndicator,
 } from "react-native-paper";
 import { useAuth } from "./AuthContext";
+import { checkPasswordStrength } from "../../services/auth/passwordPolicy";
+import { getAuthErrorMessage } from "../../services/auth/authErrors";
+import { parseInvitationToken } from "../../services/invitations/invitationToken";
+import { InvitationPreview } from "../../types/invitation";
+import { AuthErrorCode } from "../../types/auth";
 
 interface RegisterScreenProps {
+  inviteToken?: string; // From an inspectrix://auth?invite=... link
   onSwitchToLogin: () => void;
 }
 
 export default function RegisterScreen({
+  inviteToken,
   onSwitchToLogin,
 }: RegisterScreenProps) {
-  const { register, loading } = useAuth();
+  const { register, loading, invitationService, authService } = useAuth();
+  const [inviteCode, setInviteCode] = useState(inviteToken || "");
+  const [invitation, setInvitation] = useState<{
+    token: string;
+    preview: InvitationPreview;
+  } | null>(null);
+  const [inviteError, setInviteError] = useState<string | null>(null);
+  const [checkingInvite, setCheckingInvite] = useState(false);
+  // Set once the account exists but the confirmation email is outstanding
+  const [confirmationSentTo, setConfirmationSentTo] = useState<string | null>(
+    null
+  );
+  const [resending, setResending] = useState(false);
   const [formData, setFormData] = useState({
     firstName: "",
     lastName: "",
@@ -27,6 +46,34 @@ export default function RegisterScreen({
   });
   const [errors, setErrors] = useState<Record<string, string>>({});
 
+  const checkInvitation = async (code: string) => {
+    const token = parseInvitationToken(code);
+    if (!token) {
+      setInviteError("Enter the invitation link or code you were sent");
+      return;
+    }
+
+    setCheckingInvite(true);
+    const result = await invitationService.previewInvitation(token);
+    setCheckingInvite(false);
+
+    if (result.success && result.data) {
+      setInvitation({ token, preview: result.data });
+      setInviteError(null);
+      // The account must be created for the invited address
+      setFormData((prev) => ({ ...prev, email: result.data!.email }));
+    } else {
+      setInviteError(result.error || "This invitation is not valid");
+    }
+  };
+
+  useEffect(() => {
+    if (inviteToken) {
+      setInviteCode(inviteToken);
+      checkInvitation(inviteToken);
+    }
+  }, [inviteToken]);
+
   const validateForm = () => {
     const newErrors: Record<string, string> = {};
 
@@ -44,10 +91,15 @@ export default function RegisterScreen({
       newErrors.email = "Email is invalid";
     }
 
+    const weaknesses = checkPasswordStrength(formData.password, {
+      email: formData.email,
+    });
     if (!formData.password) {
       newErrors.password = "Password is required";
-    } else if (formData.password.length < 8) {
-      newErrors.password = "Password must be at least 8 characters";
+    } else if (weaknesses.length > 0) {
+      newErrors.password = `Password needs: ${weaknesses
+        .map((rule) => rule.label.toLowerCase())
+        .join(", ")}`;
     }
 
     if (formData.password !== formData.confirmPassword) {
@@ -59,7 +111,7 @@ export default function RegisterScreen({
   };
 
   const handleRegister = async () => {
-    if (!validateForm()) {
+    if (!invitation || !validateForm()) {
       return;
     }
 
@@ -68,17 +120,39 @@ export default function RegisterScreen({
       password: formData.password,
       firstName: formData.firstName,
       lastName: formData.lastName,
-      role: "inspector", // Default role
+      invitationToken: invitation.token,
     });
 
-    if (result.success) {
+    if (result.pendingConfirmation) {
+      setConfirmationSentTo(formData.email.trim());
+    } else if (result.success) {
       Alert.alert(
         "Registration Successful!",
         "Welcome to Inspectrix! You can now start using the app.",
         [{ text: "OK" }]
       );
+    } else if (result.errorCode === AuthErrorCode.EMAIL_TAKEN) {
+      Alert.alert("Registration Error", getAuthErrorMessage(result.errorCode), [
+        { text: "Cancel", style: "cancel" },
+        { text: "Sign In", onPress: onSwitchToLogin },
+      ]);
+    } else {
+      Alert.alert(
+        "Registration Error",
+        getAuthErrorMessage(result.errorCode, result.error)
+      );
+    }
+  };
+
+  const handleResend = async () => {
+    setResending(true);
+    const result = await authService.resendConfirmation(confirmationSentTo!);
+    setResending(false);
+
+    if (result.success) {
+      Alert.alert("Email Sent", `We sent a new link to ${confirmationSentTo}.`);
     } else {
-      Alert.alert("Registration Error", result.error || "Registration failed");
+      Alert.alert("Error", getAuthErrorMessage(result.errorCode, result.error));
     }
   };
 
@@ -90,6 +164,44 @@ export default function RegisterScreen({
     }
   };
 
+  if (confirmationSentTo) {
+    return (
+      <ScrollView
+        contentContainerStyle={{
+          padding: 20,
+          justifyContent: "center",
+          flexGrow: 1,
+        }}
+      >
+        <Card>
+          <Card.Content>
+            <Text
+              variant="headlineMedium"
+              style={{ textAlign: "center", marginBottom: 8 }}
+            >
+              Check Your Email
+            </Text>
+            <Text style={{ textAlign: "center", marginBottom: 24 }}>
+              We sent a confirmation link to {confirmationSentTo}. Open it on
+              this device to finish creating your account.
+            </Text>
+            <Button
+              mode="outlined"
+              onPress={handleResend}
+              style={{ marginBottom: 16 }}
+              disabled={resending}
+            >
+              {resending ? <ActivityIndicator /> : "Resend Email"}
+            </Button>
+            <Button mode="text" onPress={onSwitchToLogin}>
+              Back to Sign In
+            </Button>
+          </Card.Content>
+        </Card>
+      </ScrollView>
+    );
+  }
+
   return (
     <ScrollView contentContainerStyle={{ padding: 20 }}>
       <Card>
@@ -101,96 +213,173 @@ export default function RegisterScreen({
             Create Account
           </Text>
 
-          <TextInput
-            label="First Name"
-            value={formData.firstName}
-            onChangeText={(value) => updateFormData("firstName", value)}
-            mode="outlined"
-            style={{ marginBottom: 16 }}
-            error={!!errors.firstName}
-            disabled={loading}
-          />
-          {errors.firstName && (
-            <Text variant="bodySmall" style={{ color: "red", marginBottom: 8 }}>
-              {errors.firstName}
-            </Text>
-          )}
+          {!invitation ? (
+            <>
+              <Text style={{ textAlign: "center", marginBottom: 16 }}>
+                Inspectrix accounts are by invitation. Open the link your
+                manager sent you, or paste it below.
+              </Text>
+              <TextInput
+                label="Invitation Link or Code"
+                testID="register-invite"
+                value={inviteCode}
+                onChangeText={(value) => {
+                  setInviteCode(value);
+                  setInviteError(null);
+                }}
+                mode="outlined"
+                autoCapitalize="none"
+                autoCorrect={false}
+                style={{ marginBottom: 16 }}
+                error={!!inviteError}
+                disabled={checkingInvite}
+              />
+              {inviteError && (
+                <Text
+                  variant="bodySmall"
+                  style={{ color: "red", marginBottom: 8 }}
+                >
+                  {inviteError}
+                </Text>
+              )}
+              <Button
+                mode="contained"
+                onPress={() => checkInvitation(inviteCode)}
+                style={{ marginBottom: 16 }}
+                disabled={checkingInvite || !inviteCode.trim()}
+              >
+                {checkingInvite ? (
+                  <ActivityIndicator color="white" />
+                ) : (
+                  "Continue"
+                )}
+              </Button>
+            </>
+          ) : (
+            <>
+              <Text style={{ textAlign: "center", marginBottom: 16 }}>
+                Joining {invitation.preview.contractorName} as{" "}
+                {invitation.preview.role === "manager"
+                  ? "a manager"
+                  : "an inspector"}
+              </Text>
 
-          <TextInput
-            label="Last Name"
-            value={formData.lastName}
-            onChangeText={(value) => updateFormData("lastName", value)}
-            mode="outlined"
-            style={{ marginBottom: 16 }}
-            error={!!errors.lastName}
-            disabled={loading}
-          />
-          {errors.lastName && (
-            <Text variant="bodySmall" style={{ color: "red", marginBottom: 8 }}>
-              {errors.lastName}
-            </Text>
-          )}
+              <TextInput
+                label="First Name"
+                testID="register-first-name"
+                value={formData.firstName}
+                onChangeText={(value) => updateFormData("firstName", value)}
+                mode="outlined"
+                style={{ marginBottom: 16 }}
+                error={!!errors.firstName}
+                disabled={loading}
+              />
+              {errors.firstName && (
+                <Text
+                  variant="bodySmall"
+                  style={{ color: "red", marginBottom: 8 }}
+                >
+                  {errors.firstName}
+                </Text>
+              )}
 
-          <TextInput
-            label="Email"
-            value={formData.email}
-            onChangeText={(value) => updateFormData("email", value)}
-            mode="outlined"
-            keyboardType="email-address"
-            autoCapitalize="none"
-            style={{ marginBottom: 16 }}
-            error={!!errors.email}
-            disabled={loading}
-          />
-          {errors.email && (
-            <Text variant="bodySmall" style={{ color: "red", marginBottom: 8 }}>
-              {errors.email}
-            </Text>
-          )}
+              <TextInput
+                label="Last Name"
+                testID="register-last-name"
+                value={formData.lastName}
+                onChangeText={(value) => updateFormData("lastName", value)}
+                mode="outlined"
+                style={{ marginBottom: 16 }}
+                error={!!errors.lastName}
+                disabled={loading}
+              />
+              {errors.lastName && (
+                <Text
+                  variant="bodySmall"
+                  style={{ color: "red", marginBottom: 8 }}
+                >
+                  {errors.lastName}
+                </Text>
+              )}
 
-          <TextInput
-            label="Password"
-            value={formData.password}
-            onChangeText={(value) => updateFormData("password", value)}
-            mode="outlined"
-            secureTextEntry
-            style={{ marginBottom: 16 }}
-            error={!!errors.password}
-            disabled={loading}
-          />
-          {errors.password && (
-            <Text variant="bodySmall" style={{ color: "red", marginBottom: 8 }}>
-              {errors.password}
-            </Text>
-          )}
+              <TextInput
+                label="Email"
+                testID="register-email"
+                value={formData.email}
+                onChangeText={(value) => updateFormData("email", value)}
+                mode="outlined"
+                keyboardType="email-address"
+                autoCapitalize="none"
+                style={{ marginBottom: 16 }}
+                error={!!errors.email}
+                disabled
+                right={<TextInput.Icon icon="lock" />}
+              />
+              {errors.email && (
+                <Text
+                  variant="bodySmall"
+                  style={{ color: "red", marginBottom: 8 }}
+                >
+                  {errors.email}
+                </Text>
+              )}
 
-          <TextInput
-            label="Confirm Password"
-            value={formData.confirmPassword}
-            onChangeText={(value) => updateFormData("confirmPassword", value)}
-            mode="outlined"
-            secureTextEntry
-            style={{ marginBottom: 24 }}
-            error={!!errors.confirmPassword}
-            disabled={loading}
-          />
-          {errors.confirmPassword && (
-            <Text
-              variant="bodySmall"
-              style={{ color: "red", marginBottom: 16 }}
-            >
-              {errors.confirmPassword}
-            </Text>
-          )}
+              <TextInput
+                label="Password"
+                testID="register-password"
+                value={formData.password}
+                onChangeText={(value) => updateFormData("password", value)}
+                mode="outlined"
+                secureTextEntry
+                style={{ marginBottom: 16 }}
+                error={!!errors.password}
+                disabled={loading}
+              />
+              {errors.password && (
+                <Text
+                  variant="bodySmall"
+                  style={{ color: "red", marginBottom: 8 }}
+                >
+                  {errors.password}
+                </Text>
+              )}
 
-          <Button
-            mode="contained"
-            onPress={handleRegister}
-            style={{ marginBottom: 16 }}
-            disabled={loading}
-          >
-            {loading ? <ActivityIndicator color="white" /> : "Create Account"}
-          </Button>
+              <TextInput
+                label="Confirm Password"
+                testID="register-confirm-password"
+                value={formData.confirmPassword}
+                onChangeText={(value) =>
+                  updateFormData("confirmPassword", value)
+                }
+                mode="outlined"
+                secureTextEntry
+                style={{ marginBottom: 24 }}
+                error={!!errors.confirmPassword}
+                disabled={loading}
+              />
+              {errors.confirmPassword && (
+                <Text
+                  variant="bodySmall"
+                  style={{ color: "red", marginBottom: 16 }}
+                >
+                  {errors.confirmPassword}
+                </Text>
+              )}
+
+              <Button
+                mode="contained"
+                onPress={handleRegister}
+                style={{ marginBottom: 16 }}
+                disabled={loading}
+              >
+                {loading ? (
+                  <ActivityIndicator color="white" />
+                ) : (
+                  "Create Account"
+                )}
+              </Button>
+            </>
+          )}
 
           <Button mode="text" onPress={onSwitchToLogin} disabled={loading}>
             Already have an account? Sign In
@@ -0,0 +1,77 @@
+import React from "react";
+import { Button } from "react-native";
+import { act, fireEvent, screen } from "@testing-library/react-native";
+import { useAuth } from "../AuthContext";
+import { renderWithAuth } from "../../../test/authHarness";
+import { AuthErrorCode } from "../../../types/auth";
+
+const USER = {
+  email: "inspector@example.com",
+  password: "Correct-Horse-42",
+  firstName: "Dana",
+};
+
+function LoginButton({ password }: { password: string }) {
+  const { login } = useAuth();
+  return <Button title="Log in" onPress={() => login(USER.email, password)} />;
+}
+
+function LogoutButton() {
+  const { logout } = useAuth();
+  return <Button title="Log out" onPress={() => logout()} />;
+}
+
+describe("AuthContext", () => {
+  it("starts signed out when there is no stored session", async () => {
+    renderWithAuth(<LogoutButton />, { users: [USER] });
+
+    expect(await screen.findByText("Signed out")).toBeTruthy();
+  });
+
+  it("signs in and out through the auth service", async () => {
+    renderWithAuth(
+      <>
+        <LoginButton password={USER.password} />
+        <LogoutButton />
+      </>,
+      { users: [USER] }
+    );
+    await screen.findByText("Signed out");
+
+    fireEvent.press(screen.getByText("Log in"));
+    expect(await screen.findByText("Signed in as Dana")).toBeTruthy();
+
+    fireEvent.press(screen.getByText("Log out"));
+    expect(await screen.findByText("Signed out")).toBeTruthy();
+  });
+
+  it("ends the session when the account is deactivated", async () => {
+    const { authService } = renderWithAuth(
+      <LoginButton password={USER.password} />,
+      { users: [{ ...USER, id: "user-1" }] }
+    );
+    await screen.findByText("Signed out");
+    fireEvent.press(screen.getByText("Log in"));
+    await screen.findByText("Signed in as Dana");
+
+    authService.setUserActive("user-1", false);
+    await act(() => authService.getCurrentSession());
+
+    expect(await screen.findByText("Signed out")).toBeTruthy();
+  });
+
+  it("reports invalid credentials without signing in", async () => {
+    const { authService } = renderWithAuth(<LogoutButton />, {
+      users: [USER],
+    });
+    await screen.findByText("Signed out");
+
+    const result = await authService.login({
+      email: USER.email,
+      password: "wrong",
+    });
+
+    expect(result.errorCode).toBe(AuthErrorCode.INVALID_CREDENTIALS);
+    expect(screen.getByText("Signed out")).toBeTruthy();
+  });
+});
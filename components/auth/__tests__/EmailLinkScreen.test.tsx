@@ -0,0 +1,68 @@
+import React from "react";
+import { act, fireEvent, screen, waitFor } from "@testing-library/react-native";
+import EmailLinkScreen from "../EmailLinkScreen";
+import { renderWithAuth } from "../../../test/authHarness";
+
+// Lets a test "open" an emailed link after the screen has mounted
+const mockLinking = {
+  listeners: new Set<(url: string) => void>(),
+};
+
+jest.mock("expo-linking", () => {
+  const React = require("react");
+  return {
+    useURL: () => {
+      const [url, setUrl] = React.useState(null);
+      React.useEffect(() => {
+        mockLinking.listeners.add(setUrl);
+        return () => mockLinking.listeners.delete(setUrl);
+      }, []);
+      return url;
+    },
+  };
+});
+
+function openLink(url: string) {
+  act(() => mockLinking.listeners.forEach((listener) => listener(url)));
+}
+
+const USER = {
+  email: "inspector@example.com",
+  password: "Correct-Horse-42",
+  firstName: "Dana",
+};
+
+describe("EmailLinkScreen", () => {
+  it("asks a two-factor user for their code before completing the link", async () => {
+    const onComplete = jest.fn();
+    const { authService } = renderWithAuth(
+      <EmailLinkScreen pendingMessage="Checking" onComplete={onComplete} />,
+      { users: [{ ...USER, mfaEnrolled: true }], totpCode: "654321" }
+    );
+    await screen.findByText("Signed out");
+
+    await authService.resetPassword(USER.email);
+    openLink(authService.sentAuthLinks[0]);
+
+    expect(await screen.findByText("Two-Factor Verification")).toBeTruthy();
+    expect(onComplete).not.toHaveBeenCalled();
+
+    fireEvent.changeText(screen.getByTestId("mfa-code"), "654321");
+    fireEvent.press(screen.getByText("Verify"));
+
+    expect(await screen.findByText("Signed in as Dana")).toBeTruthy();
+    await waitFor(() => expect(onComplete).toHaveBeenCalled());
+  });
+
+  it("reports a link that is invalid or already used", async () => {
+    renderWithAuth(
+      <EmailLinkScreen pendingMessage="Checking" onComplete={jest.fn()} />,
+      { users: [USER] }
+    );
+    await screen.findByText("Signed out");
+
+    openLink("inspectrix://reset-password?token_hash=spent&type=recovery");
+
+    expect(await screen.findByText("Link Not Valid")).toBeTruthy();
+  });
+});
@@ -0,0 +1,83 @@
+import React from "react";
+import { Alert } from "react-native";
+import { act, fireEvent, screen } from "@testing-library/react-native";
+import LoginScreen from "../LoginScreen";
+import { renderWithAuth } from "../../../test/authHarness";
+
+const USER = {
+  email: "inspector@example.com",
+  password: "Correct-Horse-42",
+  firstName: "Dana",
+};
+
+// Resolves once the login, and AuthContext's loading state, have settled
+async function fillAndSubmit(email: string, password: string) {
+  fireEvent.changeText(screen.getByTestId("login-email"), email);
+  fireEvent.changeText(screen.getByTestId("login-password"), password);
+  await act(async () => {
+    fireEvent.press(screen.getByText("Sign In"));
+  });
+}
+
+describe("LoginScreen", () => {
+  beforeEach(() => {
+    jest.spyOn(Alert, "alert").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("signs in with valid credentials", async () => {
+    renderWithAuth(<LoginScreen onSwitchToRegister={jest.fn()} />, {
+      users: [USER],
+    });
+    await screen.findByText("Signed out");
+
+    await fillAndSubmit(USER.email, USER.password);
+
+    expect(await screen.findByText("Signed in as Dana")).toBeTruthy();
+    expect(Alert.alert).not.toHaveBeenCalled();
+  });
+
+  it("shows a friendly error for a wrong password", async () => {
+    renderWithAuth(<LoginScreen onSwitchToRegister={jest.fn()} />, {
+      users: [USER],
+    });
+    await screen.findByText("Signed out");
+
+    await fillAndSubmit(USER.email, "not-the-password");
+
+    await screen.findByText("Signed out");
+    expect(Alert.alert).toHaveBeenCalledWith(
+      "Login Error",
+      expect.stringContaining("don't match")
+    );
+  });
+
+  it("validates the form before calling the service", async () => {
+    renderWithAuth(<LoginScreen onSwitchToRegister={jest.fn()} />);
+    await screen.findByText("Signed out");
+
+    await fillAndSubmit("not-an-email", "");
+
+    expect(await screen.findByText("Email is invalid")).toBeTruthy();
+    expect(screen.getByText("Password is required")).toBeTruthy();
+  });
+
+  it("asks for a TOTP code when the account has two-factor enabled", async () => {
+    renderWithAuth(<LoginScreen onSwitchToRegister={jest.fn()} />, {
+      users: [{ ...USER, mfaEnrolled: true }],
+      totpCode: "654321",
+    });
+    await screen.findByText("Signed out");
+
+    await fillAndSubmit(USER.email, USER.password);
+    expect(await screen.findByText("Two-Factor Verification")).toBeTruthy();
+
+    fireEvent.changeText(screen.getByTestId("mfa-code"), "654321");
+    fireEvent.press(screen.getByText("Verify"));
+
+    expect(await screen.findByText("Signed in as Dana")).toBeTruthy();
+  });
+});
@@ -0,0 +1,93 @@
+import React from "react";
+import { Alert } from "react-native";
+import { fireEvent, screen } from "@testing-library/react-native";
+import RegisterScreen from "../RegisterScreen";
+import {
+  INVITATION,
+  INVITE_TOKEN,
+  renderWithAuth,
+} from "../../../test/authHarness";
+
+function fillForm(password: string, confirmPassword = password) {
+  fireEvent.changeText(screen.getByTestId("register-first-name"), "Riley");
+  fireEvent.changeText(screen.getByTestId("register-last-name"), "Nguyen");
+  fireEvent.changeText(screen.getByTestId("register-password"), password);
+  fireEvent.changeText(
+    screen.getByTestId("register-confirm-password"),
+    confirmPassword
+  );
+  fireEvent.press(screen.getByRole("button", { name: "Create Account" }));
+}
+
+describe("RegisterScreen", () => {
+  beforeEach(() => {
+    jest.spyOn(Alert, "alert").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("creates an account from an invitation link", async () => {
+    renderWithAuth(
+      <RegisterScreen inviteToken={INVITE_TOKEN} onSwitchToLogin={jest.fn()} />
+    );
+
+    expect(await screen.findByText(/Joining Acme Lifting/)).toBeTruthy();
+    expect(screen.getByDisplayValue(INVITATION.email)).toBeTruthy();
+
+    fillForm("Strong-Pass-2024");
+
+    expect(await screen.findByText("Signed in as Riley")).toBeTruthy();
+    expect(Alert.alert).toHaveBeenCalledWith(
+      "Registration Successful!",
+      expect.any(String),
+      expect.any(Array)
+    );
+  });
+
+  it("asks for an invitation before showing the form", async () => {
+    renderWithAuth(<RegisterScreen onSwitchToLogin={jest.fn()} />);
+    await screen.findByText("Signed out");
+
+    fireEvent.changeText(
+      screen.getByTestId("register-invite"),
+      "cd".repeat(32)
+    );
+    fireEvent.press(screen.getByText("Continue"));
+
+    expect(
+      await screen.findByText("This invitation is not valid")
+    ).toBeTruthy();
+    expect(screen.queryByTestId("register-first-name")).toBeNull();
+  });
+
+  it("rejects a weak password without creating the account", async () => {
+    const { authService } = renderWithAuth(
+      <RegisterScreen inviteToken={INVITE_TOKEN} onSwitchToLogin={jest.fn()} />
+    );
+    await screen.findByText(/Joining Acme Lifting/);
+
+    fillForm("short");
+
+    expect(await screen.findByText(/Password needs:/)).toBeTruthy();
+    const login = await authService.login({
+      email: INVITATION.email,
+      password: "short",
+    });
+    expect(login.success).toBe(false);
+  });
+
+  it("waits for email confirmation when the backend requires it", async () => {
+    renderWithAuth(
+      <RegisterScreen inviteToken={INVITE_TOKEN} onSwitchToLogin={jest.fn()} />,
+      { requireEmailConfirmation: true }
+    );
+    await screen.findByText(/Joining Acme Lifting/);
+
+    fillForm("Strong-Pass-2024");
+
+    expect(await screen.findByText("Check Your Email")).toBeTruthy();
+    expect(screen.getByText("Signed out")).toBeTruthy();
+  });
+});
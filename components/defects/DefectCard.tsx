@@ -0,0 +1,178 @@
+import React, { ReactNode } from "react";
+import { View, StyleSheet } from "react-native";
+import {
+  Card,
+  Chip,
+  Paragraph,
+  Text,
+  Title,
+  useTheme,
+} from "react-native-paper";
+import { MaterialIcons } from "@expo/vector-icons";
+import { daysUntil, describeDue } from "../../services/schedule/dueDates";
+import { isOutstanding } from "../../services/defects/defectWorkflow";
+import { Defect, DefectSeverity, DefectStatus } from "../../types/defect";
+
+interface DefectCardProps {
+  defect: Defect;
+  showAsset?: boolean; // Off where the equipment is already on screen
+  onPress?: () => void;
+  children?: ReactNode; // Card actions
+}
+
+// Shared by the defects dashboard, report detail and equipment detail
+export function DefectCard({
+  defect,
+  showAsset = true,
+  onPress,
+  children,
+}: DefectCardProps) {
+  const theme = useTheme();
+  const outstanding = isOutstanding(defect);
+  const daysUntilDue = daysUntil(defect.dueDate);
+  const overdue = outstanding && daysUntilDue < 0;
+
+  const severityColors: Record<DefectSeverity, string> = {
+    Critical: theme.colors.error,
+    Major: theme.colors.secondary,
+    Minor: theme.colors.tertiary,
+  };
+
+  const statusColors: Record<DefectStatus, string> = {
+    Open: theme.colors.error,
+    "In Repair": theme.colors.primary,
+    Closed: theme.colors.tertiary,
+  };
+
+  const rows: { icon: keyof typeof MaterialIcons.glyphMap; text: string }[] =
+    [];
+  if (showAsset) {
+    rows.push({
+      icon: "precision-manufacturing",
+      text: `${defect.assetTag} · ${defect.equipmentType}`,
+    });
+    rows.push({
+      icon: "location-on",
+      text: defect.site
+        ? `${defect.site} - ${defect.location}`
+        : defect.location,
+    });
+  }
+  rows.push({ icon: "build", text: defect.recommendedAction });
+  if (defect.assigneeName) {
+    rows.push({ icon: "person", text: defect.assigneeName });
+  }
+
+  return (
+    <Card style={styles.card} onPress={onPress}>
+      <Card.Content>
+        <View style={styles.cardHeader}>
+          <View style={styles.titleSection}>
+            <Title style={styles.title}>{defect.title}</Title>
+            <Paragraph
+              style={[
+                styles.severity,
+                { color: severityColors[defect.severity] },
+              ]}
+            >
+              {defect.severity}
+            </Paragraph>
+          </View>
+          <Chip
+            mode="outlined"
+            textStyle={{ color: statusColors[defect.status], fontSize: 12 }}
+            style={{ borderColor: statusColors[defect.status] }}
+          >
+            {defect.status}
+          </Chip>
+        </View>
+        {defect.removeFromService && outstanding && (
+          <View style={styles.infoRow}>
+            <MaterialIcons name="block" size={16} color={theme.colors.error} />
+            <Text style={[styles.outOfService, { color: theme.colors.error }]}>
+              Removed from service
+            </Text>
+          </View>
+        )}
+        <Text
+          style={[
+            styles.dueText,
+            {
+              color: overdue ? theme.colors.error : theme.colors.onSurface,
+            },
+          ]}
+        >
+          {outstanding
+            ? `${describeDue({
+                daysUntilDue,
+              })} · ${defect.dueDate.toLocaleDateString()}`
+            : `Closed ${defect.closedAt?.toLocaleDateString() || ""}`}
+        </Text>
+        {rows.map((row) => (
+          <View key={row.icon} style={styles.infoRow}>
+            <MaterialIcons
+              name={row.icon}
+              size={16}
+              color={theme.colors.onSurfaceVariant}
+            />
+            <Text
+              style={[
+                styles.infoText,
+                { color: theme.colors.onSurfaceVariant },
+              ]}
+              numberOfLines={3}
+            >
+              {row.text}
+            </Text>
+          </View>
+        ))}
+      </Card.Content>
+      {children && <Card.Actions>{children}</Card.Actions>}
+    </Card>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    marginBottom: 12,
+    elevation: 2,
+  },
+  cardHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "flex-start",
+    marginBottom: 8,
+  },
+  titleSection: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: "bold",
+    marginBottom: 4,
+  },
+  severity: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  outOfService: {
+    fontSize: 13,
+    fontWeight: "600",
+    marginLeft: 8,
+  },
+  dueText: {
+    fontSize: 14,
+    fontWeight: "600",
+    marginBottom: 6,
+  },
+  infoRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginBottom: 6,
+  },
+  infoText: {
+    fontSize: 13,
+    marginLeft: 8,
+    flex: 1,
+  },
+});
@@ -0,0 +1,218 @@
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useState,
+  ReactNode,
+} from "react";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { Defect, DefectStatus, IDefectService } from "../../types/defect";
+import { ReportPhoto } from "../../types/photo";
+import { SupabaseDefectService } from "../../services/defects/SupabaseDefectService";
+import { SupabasePhotoService } from "../../services/photos/SupabasePhotoService";
+import { deleteLocalPhoto } from "../../services/photos/photoCapture";
+import { useAuth } from "../auth/AuthContext";
+
+// Create service instance - easily swappable
+const defectService: IDefectService = new SupabaseDefectService(
+  new SupabasePhotoService()
+);
+
+// Cached so out-of-service equipment is still flagged with no signal
+const CACHE_KEY_PREFIX = "@inspectrix/defects/";
+
+interface DefectContextType {
+  // State
+  defects: Defect[]; // Soonest due first
+  loading: boolean;
+  error: string | null;
+
+  // Actions
+  refreshDefects: () => Promise<void>;
+  findDefect: (id: string) => Defect | undefined;
+  assignDefect: (
+    id: string,
+    changes: { assigneeId?: string | null; dueDate?: Date }
+  ) => Promise<{ success: boolean; error?: string }>;
+  addRepairEvidence: (
+    id: string,
+    photos: ReportPhoto[],
+    repairNotes: string
+  ) => Promise<{ success: boolean; error?: string }>;
+  transitionDefect: (
+    id: string,
+    to: DefectStatus
+  ) => Promise<{ success: boolean; error?: string }>;
+
+  // Service access for advanced usage
+  defectService: IDefectService;
+}
+
+const DefectContext = createContext<DefectContextType | undefined>(undefined);
+
+interface DefectProviderProps {
+  children: ReactNode;
+}
+
+function reviveDefect(defect: Defect): Defect {
+  return {
+    ...defect,
+    dueDate: new Date(defect.dueDate),
+    closedAt: defect.closedAt ? new Date(defect.closedAt) : undefined,
+    createdAt: new Date(defect.createdAt),
+    updatedAt: new Date(defect.updatedAt),
+  };
+}
+
+export function DefectProvider({ children }: DefectProviderProps) {
+  const { user } = useAuth();
+  const [defects, setDefects] = useState<Defect[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const cacheKey = user ? `${CACHE_KEY_PREFIX}${user.id}` : null;
+
+  const storeDefects = async (next: Defect[]) => {
+    setDefects(next);
+    if (cacheKey) {
+      await AsyncStorage.setItem(cacheKey, JSON.stringify(next));
+    }
+  };
+
+  const refreshDefects = useCallback(async () => {
+    if (!user || !cacheKey) {
+      setDefects([]);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const cached = await AsyncStorage.getItem(cacheKey);
+      if (cached) {
+        setDefects((JSON.parse(cached) as Defect[]).map(reviveDefect));
+      }
+
+      const result = await defectService.listDefects(user.contractorId);
+      if (result.success && result.data) {
+        await storeDefects(result.data);
+        setError(null);
+      } else {
+        setError(result.error || "Failed to load defects");
+      }
+    } catch (error: any) {
+      setError(error.message || "Failed to load defects");
+    } finally {
+      setLoading(false);
+    }
+  }, [user?.id, user?.contractorId]);
+
+  useEffect(() => {
+    refreshDefects();
+  }, [refreshDefects]);
+
+  const findDefect = (id: string) => defects.find((defect) => defect.id === id);
+
+  const replaceDefect = (updated: Defect) =>
+    storeDefects(
+      defects.map((defect) => (defect.id === updated.id ? updated : defect))
+    );
+
+  const assignDefect = async (
+    id: string,
+    changes: { assigneeId?: string | null; dueDate?: Date }
+  ) => {
+    try {
+      const result = await defectService.assignDefect(id, changes, user);
+
+      if (result.success && result.data) {
+        await replaceDefect(result.data);
+        return { success: true };
+      } else {
+        return { success: false, error: result.error };
+      }
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || "Failed to assign defect",
+      };
+    }
+  };
+
+  const addRepairEvidence = async (
+    id: string,
+    photos: ReportPhoto[],
+    repairNotes: string
+  ) => {
+    try {
+      const result = await defectService.addRepairEvidence(
+        id,
+        photos,
+        repairNotes,
+        user
+      );
+
+      if (result.success && result.data) {
+        await replaceDefect(result.data);
+        for (const photo of photos) {
+          await deleteLocalPhoto(photo);
+        }
+        return { success: true };
+      } else {
+        return { success: false, error: result.error };
+      }
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || "Failed to save repair evidence",
+      };
+    }
+  };
+
+  const transitionDefect = async (id: string, to: DefectStatus) => {
+    const defect = findDefect(id);
+    if (!defect) {
+      return { success: false, error: "Defect not found" };
+    }
+
+    try {
+      const result = await defectService.transitionDefect(defect, to, user);
+
+      if (result.success && result.data) {
+        await replaceDefect(result.data);
+        return { success: true };
+      } else {
+        return { success: false, error: result.error };
+      }
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || "Failed to update defect",
+      };
+    }
+  };
+
+  const value: DefectContextType = {
+    defects,
+    loading,
+    error,
+    refreshDefects,
+    findDefect,
+    assignDefect,
+    addRepairEvidence,
+    transitionDefect,
+    defectService,
+  };
+
+  return (
+    <DefectContext.Provider value={value}>{children}</DefectContext.Provider>
+  );
+}
+
+export function useDefects() {
+  const context = useContext(DefectContext);
+  if (context === undefined) {
+    throw new Error("useDefects must be used within a DefectProvider");
+  }
+  return context;
+}
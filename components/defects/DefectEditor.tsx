@@ -0,0 +1,249 @@
+import React, { useEffect, useState } from "react";
+import { View, StyleSheet, ScrollView } from "react-native";
+import {
+  Modal,
+  Portal,
+  Button,
+  Chip,
+  SegmentedButtons,
+  Switch,
+  Text,
+  TextInput,
+  useTheme,
+} from "react-native-paper";
+import {
+  DEFECT_SEVERITIES,
+  getDefaultDueDate,
+} from "../../services/defects/defectWorkflow";
+import {
+  formatDateInput,
+  parseDateInput,
+} from "../../services/schedule/dueDates";
+import { DefectInput } from "../../types/defect";
+import { ReportPhoto } from "../../types/photo";
+
+interface DefectEditorProps {
+  defect: DefectInput | null; // Open while set
+  photos: ReportPhoto[]; // Report photos that can be attached as evidence
+  checklistLabel?: string; // The failed item the defect came from
+  onSave: (defect: DefectInput) => void;
+  onDismiss: () => void;
+}
+
+export function DefectEditor({
+  defect,
+  photos,
+  checklistLabel,
+  onSave,
+  onDismiss,
+}: DefectEditorProps) {
+  const theme = useTheme();
+  const [draft, setDraft] = useState<DefectInput | null>(defect);
+  const [dueDate, setDueDate] = useState("");
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    setDraft(defect);
+    setDueDate(defect ? formatDateInput(new Date(defect.dueDate)) : "");
+    setErrors({});
+  }, [defect]);
+
+  if (!draft) {
+    return null;
+  }
+
+  const update = <K extends keyof DefectInput>(
+    field: K,
+    value: DefectInput[K]
+  ) => {
+    setDraft((prev) => ({ ...prev, [field]: value }));
+    if (errors[field]) {
+      setErrors((prev) => ({ ...prev, [field]: "" }));
+    }
+  };
+
+  // Severity sets the default repair deadline
+  const updateSeverity = (severity: DefectInput["severity"]) => {
+    update("severity", severity);
+    setDueDate(formatDateInput(new Date(getDefaultDueDate(severity))));
+  };
+
+  const togglePhoto = (photoId: string) =>
+    update(
+      "beforePhotoIds",
+      draft.beforePhotoIds.includes(photoId)
+        ? draft.beforePhotoIds.filter((id) => id !== photoId)
+        : [...draft.beforePhotoIds, photoId]
+    );
+
+  const handleSave = () => {
+    const newErrors: Record<string, string> = {};
+    const due = parseDateInput(dueDate);
+    if (!draft.title.trim()) {
+      newErrors.title = "Describe the defect";
+    }
+    if (!draft.recommendedAction.trim()) {
+      newErrors.recommendedAction = "Recommended action is required";
+    }
+    if (!due) {
+      newErrors.dueDate = "Enter a date as YYYY-MM-DD";
+    }
+    setErrors(newErrors);
+    if (Object.keys(newErrors).length > 0) {
+      return;
+    }
+    onSave({ ...draft, dueDate: due!.getTime() });
+  };
+
+  const errorText = (field: string) =>
+    errors[field] ? (
+      <Text style={[styles.errorText, { color: theme.colors.error }]}>
+        {errors[field]}
+      </Text>
+    ) : null;
+
+  return (
+    <Portal>
+      <Modal
+        visible={!!defect}
+        onDismiss={onDismiss}
+        contentContainerStyle={[
+          styles.container,
+          { backgroundColor: theme.colors.surface },
+        ]}
+      >
+        <ScrollView contentContainerStyle={styles.content}>
+          <Text variant="titleMedium">Defect</Text>
+          {checklistLabel && (
+            <Text
+              variant="bodySmall"
+              style={{ color: theme.colors.onSurfaceVariant }}
+            >
+              Failed check: {checklistLabel}
+            </Text>
+          )}
+
+          <TextInput
+            label="Defect *"
+            value={draft.title}
+            onChangeText={(text) => update("title", text)}
+            mode="outlined"
+            error={!!errors.title}
+            placeholder="e.g., Hoist rope broken wires"
+          />
+          {errorText("title")}
+
+          <Text style={styles.fieldLabel}>Severity</Text>
+          <SegmentedButtons
+            value={draft.severity}
+            onValueChange={(value) =>
+              updateSeverity(value as DefectInput["severity"])
+            }
+            buttons={DEFECT_SEVERITIES.map((value) => ({
+              value,
+              label: value,
+            }))}
+          />
+
+          <View style={styles.switchRow}>
+            <Text style={styles.switchLabel}>Remove from service</Text>
+            <Switch
+              value={draft.removeFromService}
+              onValueChange={(value) => update("removeFromService", value)}
+              color={theme.colors.error}
+            />
+          </View>
+
+          <TextInput
+            label="Recommended Action *"
+            value={draft.recommendedAction}
+            onChangeText={(text) => update("recommendedAction", text)}
+            mode="outlined"
+            multiline
+            error={!!errors.recommendedAction}
+            placeholder="e.g., Replace hoist rope before next use"
+          />
+          {errorText("recommendedAction")}
+
+          <TextInput
+            label="Repair Due (YYYY-MM-DD) *"
+            value={dueDate}
+            onChangeText={(text) => {
+              setDueDate(text);
+              setErrors((prev) => ({ ...prev, dueDate: "" }));
+            }}
+            mode="outlined"
+            error={!!errors.dueDate}
+          />
+          {errorText("dueDate")}
+
+          {photos.length > 0 && (
+            <>
+              <Text style={styles.fieldLabel}>Evidence Photos</Text>
+              <View style={styles.photoChips}>
+                {photos.map((photo, index) => (
+                  <Chip
+                    key={photo.id}
+                    icon="camera"
+                    selected={draft.beforePhotoIds.includes(photo.id)}
+                    onPress={() => togglePhoto(photo.id)}
+                  >
+                    {photo.caption || `Photo ${index + 1}`}
+                  </Chip>
+                ))}
+              </View>
+            </>
+          )}
+
+          <View style={styles.actions}>
+            <Button mode="text" onPress={onDismiss}>
+              Cancel
+            </Button>
+            <Button mode="contained" onPress={handleSave}>
+              Save Defect
+            </Button>
+          </View>
+        </ScrollView>
+      </Modal>
+    </Portal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    margin: 16,
+    borderRadius: 8,
+    maxHeight: "90%",
+  },
+  content: {
+    padding: 16,
+    gap: 12,
+  },
+  fieldLabel: {
+    fontSize: 16,
+    fontWeight: "500",
+  },
+  errorText: {
+    fontSize: 12,
+    marginTop: -8,
+    marginLeft: 12,
+  },
+  switchRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+  switchLabel: {
+    fontSize: 16,
+  },
+  photoChips: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  actions: {
+    flexDirection: "row",
+    justifyContent: "flex-end",
+    gap: 8,
+  },
+});
@@ -0,0 +1,176 @@
+import React, { useState } from "react";
+import { View, StyleSheet } from "react-native";
+import { Button, Card, IconButton, Text, useTheme } from "react-native-paper";
+import * as Crypto from "expo-crypto";
+import { DefectEditor } from "./DefectEditor";
+import { getDefaultDueDate } from "../../services/defects/defectWorkflow";
+import { findFailedItems } from "../../services/templates/checklistValidation";
+import { DefectInput } from "../../types/defect";
+import { InspectionForm } from "../../types/report";
+import { ChecklistItem, ChecklistTemplate } from "../../types/template";
+
+interface DefectSectionProps {
+  form: InspectionForm;
+  template: ChecklistTemplate | null;
+  onChange: (defects: DefectInput[]) => void;
+  disabled?: boolean;
+}
+
+function newDefect(item?: ChecklistItem, comment?: string): DefectInput {
+  return {
+    id: Crypto.randomUUID(),
+    title: comment?.trim() || item?.label || "",
+    severity: "Major",
+    removeFromService: false,
+    recommendedAction: "",
+    dueDate: getDefaultDueDate("Major"),
+    checklistItemId: item?.id,
+    beforePhotoIds: [],
+  };
+}
+
+// Defects found on this inspection. Failed checklist items without a
+// defect yet are offered as shortcuts.
+export function DefectSection({
+  form,
+  template,
+  onChange,
+  disabled,
+}: DefectSectionProps) {
+  const theme = useTheme();
+  const [editing, setEditing] = useState<DefectInput | null>(null);
+  const defects = form.defects || [];
+
+  const allItems = template
+    ? template.sections.flatMap((section) => section.items)
+    : [];
+  const labelFor = (itemId?: string) =>
+    allItems.find((item) => item.id === itemId)?.label;
+  const unraised = template
+    ? findFailedItems(template, form).filter(
+        (item) => !defects.some((d) => d.checklistItemId === item.id)
+      )
+    : [];
+
+  // Evidence for a checklist item comes first in the picker
+  const photos = editing?.checklistItemId
+    ? [
+        ...form.photos.filter(
+          (p) => p.checklistItemId === editing.checklistItemId
+        ),
+        ...form.photos.filter(
+          (p) => p.checklistItemId !== editing.checklistItemId
+        ),
+      ]
+    : form.photos;
+
+  const handleSave = (defect: DefectInput) => {
+    const exists = defects.some((d) => d.id === defect.id);
+    onChange(
+      exists
+        ? defects.map((d) => (d.id === defect.id ? defect : d))
+        : [...defects, defect]
+    );
+    setEditing(null);
+  };
+
+  const remove = (id: string) => onChange(defects.filter((d) => d.id !== id));
+
+  const startFromItem = (item: ChecklistItem) => {
+    const defect = newDefect(item, form.checklist[item.id]?.comment);
+    setEditing({
+      ...defect,
+      beforePhotoIds: form.photos
+        .filter((p) => p.checklistItemId === item.id)
+        .map((p) => p.id),
+    });
+  };
+
+  return (
+    <View style={styles.container}>
+      {defects.map((defect) => (
+        <Card key={defect.id} mode="outlined">
+          <Card.Content style={styles.defect}>
+            <View style={styles.details}>
+              <Text variant="labelLarge">{defect.title}</Text>
+              <Text
+                variant="bodySmall"
+                style={{
+                  color:
+                    defect.severity === "Critical" || defect.removeFromService
+                      ? theme.colors.error
+                      : theme.colors.onSurfaceVariant,
+                }}
+              >
+                {defect.severity}
+                {defect.removeFromService ? " · Remove from service" : ""} · Due{" "}
+                {new Date(defect.dueDate).toLocaleDateString()}
+              </Text>
+              {labelFor(defect.checklistItemId) && (
+                <Text
+                  variant="bodySmall"
+                  style={{ color: theme.colors.onSurfaceVariant }}
+                >
+                  Failed check: {labelFor(defect.checklistItemId)}
+                </Text>
+              )}
+            </View>
+            <IconButton
+              icon="pencil"
+              onPress={() => setEditing(defect)}
+              disabled={disabled}
+            />
+            <IconButton
+              icon="close"
+              onPress={() => remove(defect.id)}
+              disabled={disabled}
+            />
+          </Card.Content>
+        </Card>
+      ))}
+
+      {unraised.map((item) => (
+        <Button
+          key={item.id}
+          mode="outlined"
+          icon="alert-outline"
+          textColor={theme.colors.error}
+          onPress={() => startFromItem(item)}
+          disabled={disabled}
+        >
+          {`Raise defect: ${item.label}`}
+        </Button>
+      ))}
+
+      <Button
+        mode="outlined"
+        icon="plus"
+        onPress={() => setEditing(newDefect())}
+        disabled={disabled}
+      >
+        Add Defect
+      </Button>
+
+      <DefectEditor
+        defect={editing}
+        photos={photos}
+        checklistLabel={labelFor(editing?.checklistItemId)}
+        onSave={handleSave}
+        onDismiss={() => setEditing(null)}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 8,
+  },
+  defect: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  details: {
+    flex: 1,
+  },
+});
@@ -0,0 +1,206 @@
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useState,
+  ReactNode,
+} from "react";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import {
+  Equipment,
+  EquipmentInput,
+  IEquipmentService,
+} from "../../types/equipment";
+import { SupabaseEquipmentService } from "../../services/equipment/SupabaseEquipmentService";
+import { useAuth } from "../auth/AuthContext";
+
+// Create service instance - easily swappable
+const equipmentService: IEquipmentService = new SupabaseEquipmentService();
+
+// The registry is cached so equipment can be picked on sites with no signal
+const CACHE_KEY_PREFIX = "@inspectrix/equipment/";
+
+interface EquipmentContextType {
+  // State
+  equipment: Equipment[];
+  loading: boolean;
+  error: string | null;
+
+  // Actions
+  refreshEquipment: () => Promise<void>;
+  searchEquipment: (query: string) => Equipment[];
+  createEquipment: (
+    input: EquipmentInput
+  ) => Promise<{ success: boolean; error?: string; data?: Equipment }>;
+  updateEquipment: (
+    id: string,
+    updates: Partial<EquipmentInput> & { isActive?: boolean }
+  ) => Promise<{ success: boolean; error?: string }>;
+
+  // Service access for advanced usage
+  equipmentService: IEquipmentService;
+}
+
+const EquipmentContext = createContext<EquipmentContextType | undefined>(
+  undefined
+);
+
+interface EquipmentProviderProps {
+  children: ReactNode;
+}
+
+function reviveEquipment(item: Equipment): Equipment {
+  return {
+    ...item,
+    lastInspection: item.lastInspection
+      ? new Date(item.lastInspection)
+      : undefined,
+    createdAt: new Date(item.createdAt),
+  };
+}
+
+export function EquipmentProvider({ children }: EquipmentProviderProps) {
+  const { user } = useAuth();
+  const [equipment, setEquipment] = useState<Equipment[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const cacheKey = user ? CACHE_KEY_PREFIX + user.contractorId : null;
+
+  const storeEquipment = async (next: Equipment[]) => {
+    setEquipment(next);
+    if (cacheKey) {
+      await AsyncStorage.setItem(cacheKey, JSON.stringify(next));
+    }
+  };
+
+  const refreshEquipment = useCallback(async () => {
+    if (!user || !cacheKey) {
+      setEquipment([]);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const cached = await AsyncStorage.getItem(cacheKey);
+      if (cached) {
+        setEquipment((JSON.parse(cached) as Equipment[]).map(reviveEquipment));
+      }
+
+      const result = await equipmentService.listEquipment(user.contractorId);
+      if (result.success && result.data) {
+        await storeEquipment(result.data);
+        setError(null);
+      } else {
+        setError(result.error || "Failed to load equipment");
+      }
+    } catch (error: any) {
+      setError(error.message || "Failed to load equipment");
+    } finally {
+      setLoading(false);
+    }
+  }, [user?.contractorId]);
+
+  useEffect(() => {
+    refreshEquipment();
+  }, [refreshEquipment]);
+
+  const searchEquipment = (query: string) => {
+    const terms = query.trim().toLowerCase().split(/\s+/).filter(Boolean);
+    if (terms.length === 0) {
+      return equipment;
+    }
+
+    return equipment.filter((item) => {
+      const haystack = [
+        item.assetTag,
+        item.equipmentType,
+        item.serialNumber,
+        item.manufacturer,
+        item.model,
+        item.site,
+        item.location,
+      ]
+        .filter(Boolean)
+        .join(" ")
+        .toLowerCase();
+      return terms.every((term) => haystack.includes(term));
+    });
+  };
+
+  const createEquipment = async (input: EquipmentInput) => {
+    if (!user) {
+      return { success: false, error: "You must be signed in" };
+    }
+
+    try {
+      const result = await equipmentService.createEquipment(
+        user.contractorId,
+        input,
+        user
+      );
+
+      if (result.success && result.data) {
+        await storeEquipment([...equipment, result.data]);
+        return { success: true, data: result.data };
+      } else {
+        return { success: false, error: result.error };
+      }
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || "Failed to register equipment",
+      };
+    }
+  };
+
+  const updateEquipment = async (
+    id: string,
+    updates: Partial<EquipmentInput> & { isActive?: boolean }
+  ) => {
+    try {
+      const result = await equipmentService.updateEquipment(id, updates, user);
+
+      if (result.success && result.data) {
+        const updated = result.data;
+        await storeEquipment(
+          equipment.map((item) => (item.id === id ? updated : item))
+        );
+        return { success: true };
+      } else {
+        return { success: false, error: result.error };
+      }
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || "Failed to update equipment",
+      };
+    }
+  };
+
+  const value: EquipmentContextType = {
+    equipment,
+    loading,
+    error,
+    refreshEquipment,
+    searchEquipment,
+    createEquipment,
+    updateEquipment,
+    equipmentService,
+  };
+
+  return (
+    <EquipmentContext.Provider value={value}>
+      {children}
+    </EquipmentContext.Provider>
+  );
+}
+
+export function useEquipment() {
+  const context = useContext(EquipmentContext);
+  if (context === undefined) {
+    throw new Error("useEquipment must be used within an EquipmentProvider");
+  }
+  return context;
+}
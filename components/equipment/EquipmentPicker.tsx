@@ -0,0 +1,118 @@
+import React, { useState } from "react";
+import { View, StyleSheet } from "react-native";
+import {
+  Button,
+  Card,
+  List,
+  Searchbar,
+  Text,
+  Title,
+  useTheme,
+} from "react-native-paper";
+import { router } from "expo-router";
+import { useEquipment } from "./EquipmentContext";
+import { EquipmentSummary } from "./EquipmentSummary";
+import { Equipment } from "../../types/equipment";
+
+interface EquipmentPickerProps {
+  selected?: Equipment;
+  onSelect: (equipment: Equipment | null) => void;
+  error?: string;
+  disabled?: boolean;
+}
+
+const MAX_RESULTS = 6;
+
+// Search-as-you-type selector over the contractor's equipment registry
+export function EquipmentPicker({
+  selected,
+  onSelect,
+  error,
+  disabled,
+}: EquipmentPickerProps) {
+  const theme = useTheme();
+  const { searchEquipment } = useEquipment();
+  const [query, setQuery] = useState("");
+
+  if (selected) {
+    return (
+      <Card mode="outlined">
+        <Card.Content>
+          <Title>{selected.assetTag}</Title>
+          <Text style={styles.equipmentType}>{selected.equipmentType}</Text>
+          <EquipmentSummary equipment={selected} />
+        </Card.Content>
+        <Card.Actions>
+          <Button onPress={() => onSelect(null)} disabled={disabled}>
+            Change
+          </Button>
+        </Card.Actions>
+      </Card>
+    );
+  }
+
+  const results = searchEquipment(query)
+    .filter((item) => item.isActive)
+    .slice(0, MAX_RESULTS);
+
+  return (
+    <View style={styles.container}>
+      <Searchbar
+        placeholder="Search equipment *"
+        value={query}
+        onChangeText={setQuery}
+        editable={!disabled}
+        style={error ? { borderColor: theme.colors.error, borderWidth: 1 } : {}}
+      />
+      {error && (
+        <Text style={[styles.errorText, { color: theme.colors.error }]}>
+          {error}
+        </Text>
+      )}
+      {results.map((item) => (
+        <List.Item
+          key={item.id}
+          title={`${item.assetTag} · ${item.equipmentType}`}
+          description={`${item.site} - ${item.location}`}
+          left={(props) => <List.Icon {...props} icon="crane" />}
+          onPress={() => onSelect(item)}
+          disabled={disabled}
+        />
+      ))}
+      {results.length === 0 && (
+        <Text
+          style={[styles.helperText, { color: theme.colors.onSurfaceVariant }]}
+        >
+          {query ? "No matching equipment." : "No equipment registered yet."}
+        </Text>
+      )}
+      <Button
+        mode="text"
+        icon="plus"
+        onPress={() => router.push("/equipment/new" as any)}
+        disabled={disabled}
+      >
+        Register New Equipment
+      </Button>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 4,
+  },
+  equipmentType: {
+    opacity: 0.7,
+    marginBottom: 8,
+  },
+  errorText: {
+    fontSize: 12,
+    marginLeft: 12,
+  },
+  helperText: {
+    fontSize: 13,
+    marginLeft: 12,
+    marginTop: 4,
+  },
+});
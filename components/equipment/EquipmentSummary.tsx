@@ -0,0 +1,72 @@
+import React from "react";
+import { View, StyleSheet } from "react-native";
+import { Text, useTheme } from "react-native-paper";
+import { MaterialIcons } from "@expo/vector-icons";
+import { Equipment } from "../../types/equipment";
+
+interface EquipmentSummaryProps {
+  equipment: Equipment;
+}
+
+export function formatCapacity(equipment: Equipment): string | null {
+  if (equipment.ratedCapacity === undefined) {
+    return null;
+  }
+  return `${equipment.ratedCapacity} ${equipment.capacityUnit || ""}`.trim();
+}
+
+// Key facts about an asset, shared by the registry and report screens
+export function EquipmentSummary({ equipment }: EquipmentSummaryProps) {
+  const theme = useTheme();
+  const capacity = formatCapacity(equipment);
+
+  const rows: { icon: keyof typeof MaterialIcons.glyphMap; text: string }[] = [
+    { icon: "location-on", text: `${equipment.site} - ${equipment.location}` },
+    {
+      icon: "precision-manufacturing",
+      text: [equipment.manufacturer, equipment.model].filter(Boolean).join(" "),
+    },
+    { icon: "tag", text: `S/N ${equipment.serialNumber}` },
+  ];
+  if (capacity) {
+    rows.push({ icon: "fitness-center", text: `Rated ${capacity}` });
+  }
+  rows.push({
+    icon: "history",
+    text: equipment.lastInspection
+      ? `Last inspection: ${equipment.lastInspection.toLocaleDateString()}`
+      : "Never inspected",
+  });
+
+  return (
+    <View>
+      {rows.map((row) => (
+        <View key={row.icon} style={styles.infoRow}>
+          <MaterialIcons
+            name={row.icon}
+            size={16}
+            color={theme.colors.onSurfaceVariant}
+          />
+          <Text
+            style={[styles.infoText, { color: theme.colors.onSurfaceVariant }]}
+          >
+            {row.text}
+          </Text>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  infoRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginBottom: 6,
+  },
+  infoText: {
+    fontSize: 13,
+    marginLeft: 8,
+    flex: 1,
+  },
+});
@@ -0,0 +1,149 @@
+import React, { ReactNode } from "react";
+import { View, StyleSheet } from "react-native";
+import {
+  Card,
+  Chip,
+  Paragraph,
+  Text,
+  Title,
+  useTheme,
+} from "react-native-paper";
+import { MaterialIcons } from "@expo/vector-icons";
+import {
+  daysUntil,
+  describeDue,
+  INSPECTION_CLASS_LABELS,
+} from "../../services/schedule/dueDates";
+import { InspectionJob, JobStatus } from "../../types/job";
+
+interface JobCardProps {
+  job: InspectionJob;
+  showAssignee?: boolean;
+  onPress?: () => void;
+  children?: ReactNode; // Card actions
+}
+
+const isOpen = (status: JobStatus) =>
+  status === "Assigned" || status === "In Progress";
+
+// Shared by the inspector's queue and the dispatch board
+export function JobCard({
+  job,
+  showAssignee,
+  onPress,
+  children,
+}: JobCardProps) {
+  const theme = useTheme();
+  const daysUntilDue = daysUntil(job.dueDate);
+  const overdue = isOpen(job.status) && daysUntilDue < 0;
+
+  const statusColors: Record<JobStatus, string> = {
+    Assigned: theme.colors.secondary,
+    "In Progress": theme.colors.primary,
+    Completed: theme.colors.tertiary,
+    Cancelled: theme.colors.onSurfaceVariant,
+  };
+
+  const rows: { icon: keyof typeof MaterialIcons.glyphMap; text: string }[] = [
+    { icon: "location-on", text: `${job.site} - ${job.location}` },
+  ];
+  if (showAssignee) {
+    rows.push({ icon: "person", text: job.assigneeName });
+  }
+  if (job.instructions) {
+    rows.push({ icon: "notes", text: job.instructions });
+  }
+
+  return (
+    <Card style={styles.card} onPress={onPress}>
+      <Card.Content>
+        <View style={styles.cardHeader}>
+          <View style={styles.titleSection}>
+            <Title style={styles.assetTag}>{job.assetTag}</Title>
+            <Paragraph style={styles.equipmentType}>
+              {job.equipmentType} ·{" "}
+              {INSPECTION_CLASS_LABELS[job.inspectionClass]}
+            </Paragraph>
+          </View>
+          <Chip
+            mode="outlined"
+            textStyle={{ color: statusColors[job.status], fontSize: 12 }}
+            style={{ borderColor: statusColors[job.status] }}
+          >
+            {job.status}
+          </Chip>
+        </View>
+        <Text
+          style={[
+            styles.dueText,
+            {
+              color: overdue ? theme.colors.error : theme.colors.onSurface,
+            },
+          ]}
+        >
+          {isOpen(job.status) ? `${describeDue({ daysUntilDue })} · ` : "Due "}
+          {job.dueDate.toLocaleDateString()}
+        </Text>
+        {rows.map((row) => (
+          <View key={row.icon} style={styles.infoRow}>
+            <MaterialIcons
+              name={row.icon}
+              size={16}
+              color={theme.colors.onSurfaceVariant}
+            />
+            <Text
+              style={[
+                styles.infoText,
+                { color: theme.colors.onSurfaceVariant },
+              ]}
+              numberOfLines={3}
+            >
+              {row.text}
+            </Text>
+          </View>
+        ))}
+      </Card.Content>
+      {children && <Card.Actions>{children}</Card.Actions>}
+    </Card>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    marginBottom: 12,
+    elevation: 2,
+  },
+  cardHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "flex-start",
+    marginBottom: 8,
+  },
+  titleSection: {
+    flex: 1,
+  },
+  assetTag: {
+    fontSize: 18,
+    fontWeight: "bold",
+    marginBottom: 4,
+  },
+  equipmentType: {
+    fontSize: 14,
+    opacity: 0.7,
+  },
+  dueText: {
+    fontSize: 14,
+    fontWeight: "600",
+    marginBottom: 6,
+  },
+  infoRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginBottom: 6,
+  },
+  infoText: {
+    fontSize: 13,
+    marginLeft: 8,
+    flex: 1,
+  },
+});
@@ -0,0 +1,237 @@
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useState,
+  ReactNode,
+} from "react";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import {
+  IJobService,
+  InspectionJob,
+  JobInput,
+  JobStatus,
+} from "../../types/job";
+import { SupabaseJobService } from "../../services/jobs/SupabaseJobService";
+import { hasCapability } from "../../services/auth/permissions";
+import { useAuth } from "../auth/AuthContext";
+
+// Create service instance - easily swappable
+const jobService: IJobService = new SupabaseJobService();
+
+// Cached so inspectors can see their queue on sites with no signal
+const CACHE_KEY_PREFIX = "@inspectrix/jobs/";
+
+interface JobContextType {
+  // State
+  jobs: InspectionJob[]; // Every job for dispatchers, otherwise only the user's
+  myJobs: InspectionJob[]; // Open jobs assigned to the current user
+  assignees: { id: string; name: string }[]; // Loaded for dispatchers only
+  loading: boolean;
+  error: string | null;
+
+  // Actions
+  refreshJobs: () => Promise<void>;
+  findJob: (id: string) => InspectionJob | undefined;
+  createJob: (
+    input: JobInput
+  ) => Promise<{ success: boolean; error?: string; data?: InspectionJob }>;
+  reassignJob: (
+    id: string,
+    assigneeId: string
+  ) => Promise<{ success: boolean; error?: string }>;
+  updateJobStatus: (
+    id: string,
+    status: JobStatus
+  ) => Promise<{ success: boolean; error?: string }>;
+
+  // Service access for advanced usage
+  jobService: IJobService;
+}
+
+const JobContext = createContext<JobContextType | undefined>(undefined);
+
+interface JobProviderProps {
+  children: ReactNode;
+}
+
+function reviveJob(job: InspectionJob): InspectionJob {
+  return {
+    ...job,
+    dueDate: new Date(job.dueDate),
+    createdAt: new Date(job.createdAt),
+    updatedAt: new Date(job.updatedAt),
+  };
+}
+
+export function JobProvider({ children }: JobProviderProps) {
+  const { user, userAdminService } = useAuth();
+  const [jobs, setJobs] = useState<InspectionJob[]>([]);
+  const [assignees, setAssignees] = useState<{ id: string; name: string }[]>(
+    []
+  );
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const cacheKey = user ? `${CACHE_KEY_PREFIX}${user.id}` : null;
+
+  const storeJobs = async (next: InspectionJob[]) => {
+    setJobs(next);
+    if (cacheKey) {
+      await AsyncStorage.setItem(cacheKey, JSON.stringify(next));
+    }
+  };
+
+  const refreshJobs = useCallback(async () => {
+    if (!user || !cacheKey) {
+      setJobs([]);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const cached = await AsyncStorage.getItem(cacheKey);
+      if (cached) {
+        setJobs((JSON.parse(cached) as InspectionJob[]).map(reviveJob));
+      }
+
+      const result = await jobService.listJobs(user.contractorId, user);
+      if (result.success && result.data) {
+        await storeJobs(result.data);
+        setError(null);
+      } else {
+        setError(result.error || "Failed to load jobs");
+      }
+    } catch (error: any) {
+      setError(error.message || "Failed to load jobs");
+    } finally {
+      setLoading(false);
+    }
+  }, [user?.id, user?.role, user?.contractorId]);
+
+  useEffect(() => {
+    refreshJobs();
+  }, [refreshJobs]);
+
+  // Anyone on the team who can write reports, the dispatcher included
+  useEffect(() => {
+    if (!user || !hasCapability(user, "jobs.dispatch")) {
+      setAssignees([]);
+      return;
+    }
+    userAdminService.listUsers(user.contractorId, user).then((result) => {
+      if (result.success && result.data) {
+        setAssignees(
+          result.data
+            .filter(
+              (member) =>
+                member.isActive && hasCapability(member, "reports.create")
+            )
+            .map((member) => ({
+              id: member.id,
+              name: `${member.firstName} ${member.lastName}`,
+            }))
+        );
+      }
+    });
+  }, [user?.id, user?.role, user?.contractorId]);
+
+  const myJobs = jobs.filter(
+    (job) =>
+      job.assigneeId === user?.id &&
+      (job.status === "Assigned" || job.status === "In Progress")
+  );
+
+  const findJob = (id: string) => jobs.find((job) => job.id === id);
+
+  const replaceJob = (updated: InspectionJob) =>
+    storeJobs(jobs.map((job) => (job.id === updated.id ? updated : job)));
+
+  const createJob = async (input: JobInput) => {
+    if (!user) {
+      return { success: false, error: "You must be signed in" };
+    }
+
+    try {
+      const result = await jobService.createJob(user.contractorId, input, user);
+
+      if (result.success && result.data) {
+        const created = result.data;
+        await storeJobs(
+          [...jobs, created].sort(
+            (a, b) => a.dueDate.getTime() - b.dueDate.getTime()
+          )
+        );
+        return { success: true, data: created };
+      } else {
+        return { success: false, error: result.error };
+      }
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || "Failed to create job",
+      };
+    }
+  };
+
+  const reassignJob = async (id: string, assigneeId: string) => {
+    try {
+      const result = await jobService.reassignJob(id, assigneeId, user);
+
+      if (result.success && result.data) {
+        await replaceJob(result.data);
+        return { success: true };
+      } else {
+        return { success: false, error: result.error };
+      }
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || "Failed to reassign job",
+      };
+    }
+  };
+
+  const updateJobStatus = async (id: string, status: JobStatus) => {
+    try {
+      const result = await jobService.updateJobStatus(id, status, user);
+
+      if (result.success && result.data) {
+        await replaceJob(result.data);
+        return { success: true };
+      } else {
+        return { success: false, error: result.error };
+      }
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || "Failed to update job",
+      };
+    }
+  };
+
+  const value: JobContextType = {
+    jobs,
+    myJobs,
+    assignees,
+    loading,
+    error,
+    refreshJobs,
+    findJob,
+    createJob,
+    reassignJob,
+    updateJobStatus,
+    jobService,
+  };
+
+  return <JobContext.Provider value={value}>{children}</JobContext.Provider>;
+}
+
+export function useJobs() {
+  const context = useContext(JobContext);
+  if (context === undefined) {
+    throw new Error("useJobs must be used within a JobProvider");
+  }
+  return context;
+}
@@ -0,0 +1,88 @@
+import React from "react";
+import { StyleSheet } from "react-native";
+import Svg, { Circle, Line, Polygon, Text as SvgText } from "react-native-svg";
+import {
+  ANNOTATION_STROKE_WIDTH,
+  annotationFontSize,
+  arrowHead,
+} from "../../services/photos/annotationGeometry";
+import { Annotation } from "../../types/photo";
+
+interface AnnotationOverlayProps {
+  annotations: Annotation[];
+  width: number;
+  height: number;
+}
+
+// Draws normalized annotations on top of a photo of the given size
+export function AnnotationOverlay({
+  annotations,
+  width,
+  height,
+}: AnnotationOverlayProps) {
+  return (
+    <Svg
+      width={width}
+      height={height}
+      style={StyleSheet.absoluteFill}
+      pointerEvents="none"
+    >
+      {annotations.map((annotation, index) => {
+        switch (annotation.kind) {
+          case "arrow": {
+            const x1 = annotation.from.x * width;
+            const y1 = annotation.from.y * height;
+            const x2 = annotation.to.x * width;
+            const y2 = annotation.to.y * height;
+            return [
+              <Line
+                key={`${index}-line`}
+                x1={x1}
+                y1={y1}
+                x2={x2}
+                y2={y2}
+                stroke={annotation.color}
+                strokeWidth={ANNOTATION_STROKE_WIDTH}
+                strokeLinecap="round"
+              />,
+              <Polygon
+                key={`${index}-head`}
+                points={arrowHead(x1, y1, x2, y2)}
+                fill={annotation.color}
+              />,
+            ];
+          }
+          case "circle":
+            return (
+              <Circle
+                key={index}
+                cx={annotation.center.x * width}
+                cy={annotation.center.y * height}
+                r={annotation.radius * width}
+                stroke={annotation.color}
+                strokeWidth={ANNOTATION_STROKE_WIDTH}
+                fill="none"
+              />
+            );
+          case "text":
+            return (
+              <SvgText
+                key={index}
+                x={annotation.at.x * width}
+                y={annotation.at.y * height}
+                fill={annotation.color}
+                stroke="#000000"
+                strokeWidth={0.5}
+                fontSize={annotationFontSize(width)}
+                fontWeight="bold"
+              >
+                {annotation.text}
+              </SvgText>
+            );
+          default:
+            return null;
+        }
+      })}
+    </Svg>
+  );
+}
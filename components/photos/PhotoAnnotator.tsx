@@ -0,0 +1,275 @@
+import React, { useMemo, useRef, useState } from "react";
+import {
+  View,
+  Image,
+  StyleSheet,
+  PanResponder,
+  LayoutChangeEvent,
+  GestureResponderEvent,
+} from "react-native";
+import {
+  Modal,
+  Portal,
+  Button,
+  TextInput,
+  SegmentedButtons,
+  IconButton,
+  Dialog,
+  useTheme,
+} from "react-native-paper";
+import { AnnotationOverlay } from "./AnnotationOverlay";
+import {
+  Annotation,
+  AnnotationPoint,
+  AnnotationTool,
+  ReportPhoto,
+} from "../../types/photo";
+
+interface PhotoAnnotatorProps {
+  photo: ReportPhoto | null;
+  onSave: (photo: ReportPhoto) => void;
+  onDismiss: () => void;
+}
+
+const MARKUP_COLORS = ["#ff1744", "#ffea00", "#ffffff"];
+
+const toolOptions = [
+  { value: "arrow", label: "Arrow", icon: "arrow-top-right" },
+  { value: "circle", label: "Circle", icon: "circle-outline" },
+  { value: "text", label: "Text", icon: "format-text" },
+];
+
+export function PhotoAnnotator({
+  photo,
+  onSave,
+  onDismiss,
+}: PhotoAnnotatorProps) {
+  const theme = useTheme();
+  const [annotations, setAnnotations] = useState<Annotation[]>([]);
+  const [caption, setCaption] = useState("");
+  const [tool, setTool] = useState<AnnotationTool>("arrow");
+  const [color, setColor] = useState(MARKUP_COLORS[0]);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+  const [draft, setDraft] = useState<Annotation | null>(null);
+  const [textAt, setTextAt] = useState<AnnotationPoint | null>(null);
+  const [textValue, setTextValue] = useState("");
+
+  // PanResponder handlers are created once, so read live values from a ref
+  const live = useRef({
+    tool,
+    color,
+    size,
+    start: null as AnnotationPoint | null,
+  });
+  live.current.tool = tool;
+  live.current.color = color;
+  live.current.size = size;
+
+  // Reset the editor whenever a different photo is opened
+  const [photoId, setPhotoId] = useState<string | null>(null);
+  if (photo && photo.id !== photoId) {
+    setPhotoId(photo.id);
+    setAnnotations(photo.annotations);
+    setCaption(photo.caption);
+    setDraft(null);
+  }
+
+  const toPoint = (event: GestureResponderEvent): AnnotationPoint => {
+    const { width, height } = live.current.size;
+    const { locationX, locationY } = event.nativeEvent;
+    return {
+      x: Math.min(Math.max(locationX / width, 0), 1),
+      y: Math.min(Math.max(locationY / height, 0), 1),
+    };
+  };
+
+  const buildShape = (
+    start: AnnotationPoint,
+    end: AnnotationPoint
+  ): Annotation | null => {
+    const { tool, color, size } = live.current;
+    if (tool === "arrow") {
+      return { kind: "arrow", from: start, to: end, color };
+    }
+    if (tool === "circle") {
+      const dx = (end.x - start.x) * size.width;
+      const dy = (end.y - start.y) * size.height;
+      const radius = Math.sqrt(dx * dx + dy * dy) / size.width;
+      return { kind: "circle", center: start, radius, color };
+    }
+    return null;
+  };
+
+  const panResponder = useMemo(
+    () =>
+      PanResponder.create({
+        onStartShouldSetPanResponder: () => true,
+        onMoveShouldSetPanResponder: () => true,
+        onPanResponderGrant: (event) => {
+          live.current.start = toPoint(event);
+        },
+        onPanResponderMove: (event) => {
+          const start = live.current.start;
+          if (start) {
+            setDraft(buildShape(start, toPoint(event)));
+          }
+        },
+        onPanResponderRelease: (event) => {
+          const start = live.current.start;
+          live.current.start = null;
+          setDraft(null);
+          if (!start) {
+            return;
+          }
+
+          if (live.current.tool === "text") {
+            setTextValue("");
+            setTextAt(start);
+            return;
+          }
+
+          const shape = buildShape(start, toPoint(event));
+          if (shape) {
+            setAnnotations((prev) => [...prev, shape]);
+          }
+        },
+      }),
+    []
+  );
+
+  const handleLayout = (event: LayoutChangeEvent) => {
+    const { width } = event.nativeEvent.layout;
+    if (photo) {
+      setSize({ width, height: (width * photo.height) / photo.width });
+    }
+  };
+
+  const addText = () => {
+    if (textAt && textValue.trim()) {
+      setAnnotations((prev) => [
+        ...prev,
+        { kind: "text", at: textAt, text: textValue.trim(), color },
+      ]);
+    }
+    setTextAt(null);
+  };
+
+  const handleSave = () => {
+    if (photo) {
+      onSave({ ...photo, annotations, caption: caption.trim() });
+    }
+  };
+
+  return (
+    <Portal>
+      <Modal
+        visible={!!photo}
+        onDismiss={onDismiss}
+        contentContainerStyle={[
+          styles.container,
+          { backgroundColor: theme.colors.surface },
+        ]}
+      >
+        <View onLayout={handleLayout}>
+          {photo && size.width > 0 && (
+            <View
+              style={{ width: size.width, height: size.height }}
+              {...panResponder.panHandlers}
+            >
+              <Image
+                source={{ uri: photo.localUri }}
+                style={{ width: size.width, height: size.height }}
+              />
+              <AnnotationOverlay
+                annotations={draft ? [...annotations, draft] : annotations}
+                width={size.width}
+                height={size.height}
+              />
+            </View>
+          )}
+        </View>
+
+        <SegmentedButtons
+          value={tool}
+          onValueChange={(value) => setTool(value as AnnotationTool)}
+          buttons={toolOptions}
+          style={styles.tools}
+        />
+
+        <View style={styles.toolbar}>
+          {MARKUP_COLORS.map((swatch) => (
+            <IconButton
+              key={swatch}
+              icon={swatch === color ? "checkbox-blank-circle" : "circle"}
+              iconColor={swatch}
+              containerColor={theme.colors.inverseSurface}
+              size={18}
+              onPress={() => setColor(swatch)}
+            />
+          ))}
+          <View style={styles.spacer} />
+          <IconButton
+            icon="undo"
+            disabled={annotations.length === 0}
+            onPress={() => setAnnotations((prev) => prev.slice(0, -1))}
+          />
+        </View>
+
+        <TextInput
+          label="Caption"
+          value={caption}
+          onChangeText={setCaption}
+          mode="outlined"
+          placeholder="e.g., Crack on hook throat, left side"
+        />
+
+        <View style={styles.actions}>
+          <Button onPress={onDismiss}>Cancel</Button>
+          <Button mode="contained" onPress={handleSave}>
+            Save
+          </Button>
+        </View>
+
+        <Dialog visible={!!textAt} onDismiss={() => setTextAt(null)}>
+          <Dialog.Title>Add Label</Dialog.Title>
+          <Dialog.Content>
+            <TextInput
+              value={textValue}
+              onChangeText={setTextValue}
+              mode="outlined"
+              autoFocus
+            />
+          </Dialog.Content>
+          <Dialog.Actions>
+            <Button onPress={() => setTextAt(null)}>Cancel</Button>
+            <Button onPress={addText}>Add</Button>
+          </Dialog.Actions>
+        </Dialog>
+      </Modal>
+    </Portal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    margin: 16,
+    padding: 16,
+    borderRadius: 8,
+    gap: 12,
+  },
+  tools: {
+    marginTop: 4,
+  },
+  toolbar: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  spacer: {
+    flex: 1,
+  },
+  actions: {
+    flexDirection: "row",
+    justifyContent: "flex-end",
+    gap: 8,
+  },
+});
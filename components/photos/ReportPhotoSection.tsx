@@ -0,0 +1,200 @@
+import React, { useEffect, useState } from "react";
+import { View, Image, StyleSheet, Alert, Pressable } from "react-native";
+import { Button, Text, IconButton, useTheme } from "react-native-paper";
+import { AnnotationOverlay } from "./AnnotationOverlay";
+import { PhotoAnnotator } from "./PhotoAnnotator";
+import {
+  capturePhoto,
+  deleteLocalPhoto,
+  PhotoSource,
+} from "../../services/photos/photoCapture";
+import { useReports } from "../reports/ReportContext";
+import { ReportPhoto } from "../../types/photo";
+
+interface ReportPhotoSectionProps {
+  photos: ReportPhoto[];
+  onChange: (photos: ReportPhoto[]) => void;
+  disabled?: boolean;
+}
+
+const THUMBNAIL_SIZE = 96;
+
+export function ReportPhotoSection({
+  photos,
+  onChange,
+  disabled,
+}: ReportPhotoSectionProps) {
+  const theme = useTheme();
+  const { photoService } = useReports();
+  const [editing, setEditing] = useState<ReportPhoto | null>(null);
+  const [signedUrls, setSignedUrls] = useState<Record<string, string>>({});
+
+  // Photos already on the server (a report being revised) have no local copy
+  const remotePaths = photos
+    .filter((photo) => !photo.localThumbnailUri && photo.thumbnailPath)
+    .map((photo) => photo.thumbnailPath!);
+
+  useEffect(() => {
+    if (remotePaths.length === 0) {
+      return;
+    }
+
+    let cancelled = false;
+    photoService.getPhotoUrls(remotePaths).then((result) => {
+      if (!cancelled && result.success && result.data) {
+        setSignedUrls(result.data);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [remotePaths.join("|")]);
+
+  const handleAdd = async (source: PhotoSource) => {
+    const result = await capturePhoto(source);
+
+    if (!result.success) {
+      Alert.alert("Photo Error", result.error || "Failed to capture photo");
+      return;
+    }
+
+    if (result.data) {
+      onChange([...photos, result.data]);
+      // Go straight to markup so the defect can be highlighted
+      setEditing(result.data);
+    }
+  };
+
+  const handleSave = (updated: ReportPhoto) => {
+    onChange(photos.map((p) => (p.id === updated.id ? updated : p)));
+    setEditing(null);
+  };
+
+  const handleRemove = (photo: ReportPhoto) => {
+    Alert.alert("Remove Photo", "Remove this photo from the report?", [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: "Remove",
+        style: "destructive",
+        onPress: () => {
+          onChange(photos.filter((p) => p.id !== photo.id));
+          deleteLocalPhoto(photo);
+        },
+      },
+    ]);
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.buttons}>
+        <Button
+          mode="outlined"
+          icon="camera"
+          onPress={() => handleAdd("camera")}
+          disabled={disabled}
+          style={styles.button}
+        >
+          Take Photo
+        </Button>
+        <Button
+          mode="outlined"
+          icon="image-multiple"
+          onPress={() => handleAdd("library")}
+          disabled={disabled}
+          style={styles.button}
+        >
+          Choose
+        </Button>
+      </View>
+
+      {photos.map((photo) => {
+        const size = {
+          width: THUMBNAIL_SIZE,
+          height: (THUMBNAIL_SIZE * photo.height) / photo.width,
+        };
+        const uri =
+          photo.localThumbnailUri ||
+          (photo.thumbnailPath && signedUrls[photo.thumbnailPath]);
+        // Markup is drawn over the local copy, so uploaded photos stay as
+        // they were signed
+        const uploaded = !photo.localUri && !!photo.storagePath;
+
+        return (
+          <View key={photo.id} style={styles.photoRow}>
+            <Pressable
+              onPress={() => setEditing(photo)}
+              disabled={disabled || uploaded}
+              style={[
+                styles.thumbnail,
+                size,
+                { backgroundColor: theme.colors.surfaceVariant },
+              ]}
+            >
+              {uri && <Image source={{ uri }} style={size} />}
+              <AnnotationOverlay annotations={photo.annotations} {...size} />
+            </Pressable>
+            <View style={styles.photoInfo}>
+              <Text numberOfLines={2}>
+                {photo.caption ||
+                  (uploaded
+                    ? "No caption"
+                    : "No caption - tap the photo to add one")}
+              </Text>
+              <Text
+                style={[
+                  styles.helperText,
+                  { color: theme.colors.onSurfaceVariant },
+                ]}
+              >
+                {photo.annotations.length} markup
+                {photo.annotations.length === 1 ? "" : "s"}
+              </Text>
+            </View>
+            <IconButton
+              icon="delete-outline"
+              disabled={disabled}
+              onPress={() => handleRemove(photo)}
+            />
+          </View>
+        );
+      })}
+
+      <PhotoAnnotator
+        photo={editing}
+        onSave={handleSave}
+        onDismiss={() => setEditing(null)}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 8,
+  },
+  buttons: {
+    flexDirection: "row",
+    gap: 8,
+    marginTop: 4,
+  },
+  button: {
+    flex: 1,
+  },
+  photoRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+  },
+  thumbnail: {
+    borderRadius: 4,
+    overflow: "hidden",
+  },
+  photoInfo: {
+    flex: 1,
+    gap: 4,
+  },
+  helperText: {
+    fontSize: 12,
+  },
+});
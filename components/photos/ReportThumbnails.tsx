@@ -0,0 +1,92 @@
+import React, { useEffect, useState } from "react";
+import { View, Image, StyleSheet } from "react-native";
+import { Text, useTheme } from "react-native-paper";
+import { AnnotationOverlay } from "./AnnotationOverlay";
+import { useReports } from "../reports/ReportContext";
+import { ReportPhoto } from "../../types/photo";
+
+interface ReportThumbnailsProps {
+  photos: ReportPhoto[];
+  max?: number;
+}
+
+const THUMBNAIL_HEIGHT = 56;
+
+// Compact strip of photo thumbnails for report cards
+export function ReportThumbnails({ photos, max = 4 }: ReportThumbnailsProps) {
+  const theme = useTheme();
+  const { photoService } = useReports();
+  const [signedUrls, setSignedUrls] = useState<Record<string, string>>({});
+
+  const visible = photos.slice(0, max);
+  const remotePaths = visible
+    .filter((photo) => !photo.localThumbnailUri && photo.thumbnailPath)
+    .map((photo) => photo.thumbnailPath!);
+
+  useEffect(() => {
+    if (remotePaths.length === 0) {
+      return;
+    }
+
+    let cancelled = false;
+    photoService.getPhotoUrls(remotePaths).then((result) => {
+      if (!cancelled && result.success && result.data) {
+        setSignedUrls(result.data);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [remotePaths.join("|")]);
+
+  if (visible.length === 0) {
+    return null;
+  }
+
+  return (
+    <View style={styles.container}>
+      {visible.map((photo) => {
+        const uri =
+          photo.localThumbnailUri ||
+          (photo.thumbnailPath && signedUrls[photo.thumbnailPath]);
+        const size = {
+          width: (THUMBNAIL_HEIGHT * photo.width) / photo.height,
+          height: THUMBNAIL_HEIGHT,
+        };
+
+        return (
+          <View
+            key={photo.id}
+            style={[
+              styles.thumbnail,
+              size,
+              { backgroundColor: theme.colors.surfaceVariant },
+            ]}
+          >
+            {uri && <Image source={{ uri }} style={size} />}
+            <AnnotationOverlay annotations={photo.annotations} {...size} />
+          </View>
+        );
+      })}
+      {photos.length > max && (
+        <Text style={{ color: theme.colors.onSurfaceVariant }}>
+          +{photos.length - max}
+        </Text>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    marginBottom: 12,
+  },
+  thumbnail: {
+    borderRadius: 4,
+    overflow: "hidden",
+  },
+});
@@ -0,0 +1,482 @@
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  ReactNode,
+} from "react";
+import NetInfo from "@react-native-community/netinfo";
+import {
+  IReportService,
+  InspectionForm,
+  InspectionReport,
+  OutboxEntry,
+  ReportDraft,
+  ReportFilters,
+  ReportStatus,
+} from "../../types/report";
+import { IPhotoService } from "../../types/photo";
+import { IDefectService } from "../../types/defect";
+import { SupabaseReportService } from "../../services/reports/SupabaseReportService";
+import { SupabasePhotoService } from "../../services/photos/SupabasePhotoService";
+import { SupabaseDefectService } from "../../services/defects/SupabaseDefectService";
+import { ReportOutbox } from "../../services/reports/ReportOutbox";
+import { ReportDraftStore } from "../../services/reports/ReportDraftStore";
+import { ReportFilterStore } from "../../services/reports/ReportFilterStore";
+import {
+  DEFAULT_REPORT_FILTERS,
+  matchesReportFilters,
+  REPORTS_PAGE_SIZE,
+} from "../../services/reports/reportFilters";
+import { checkPermission } from "../../services/auth/permissions";
+import { canReviseReport } from "../../services/reports/reportWorkflow";
+import { useAuth } from "../auth/AuthContext";
+
+// Create service instances - easily swappable
+const reportService: IReportService = new SupabaseReportService();
+const photoService: IPhotoService = new SupabasePhotoService();
+const defectService: IDefectService = new SupabaseDefectService(photoService);
+const outbox = new ReportOutbox(reportService, photoService, defectService);
+const draftStore = new ReportDraftStore();
+const filterStore = new ReportFilterStore();
+
+interface ReportContextType {
+  // State
+  reports: InspectionReport[]; // Local drafts and queued reports, then loaded pages
+  draft: ReportDraft | null;
+  filters: ReportFilters;
+  hasMoreReports: boolean;
+  loading: boolean;
+  loadingMore: boolean;
+  error: string | null;
+
+  // Actions
+  refreshReports: () => Promise<void>;
+  loadMoreReports: () => Promise<void>;
+  setFilters: (filters: ReportFilters) => void;
+  createReport: (
+    form: InspectionForm
+  ) => Promise<{ success: boolean; queued?: boolean; error?: string }>;
+  saveDraft: (form: InspectionForm) => Promise<void>;
+  clearDraft: () => Promise<void>;
+  reviseReport: (
+    report: InspectionReport
+  ) => Promise<{ success: boolean; error?: string }>;
+  syncOutbox: () => Promise<void>;
+  retryReport: (clientId: string) => Promise<void>;
+  discardReport: (clientId: string) => Promise<void>;
+  transitionReport: (
+    report: InspectionReport,
+    to: ReportStatus,
+    comment?: string
+  ) => Promise<{ success: boolean; error?: string }>;
+
+  // Service access for advanced usage
+  reportService: IReportService;
+  photoService: IPhotoService;
+}
+
+const ReportContext = createContext<ReportContextType | undefined>(undefined);
+
+interface ReportProviderProps {
+  children: ReactNode;
+}
+
+function outboxEntryToReport(entry: OutboxEntry): InspectionReport {
+  return {
+    ...entry.form,
+    id: entry.clientId,
+    clientId: entry.clientId,
+    syncState: entry.state,
+    syncError: entry.lastError,
+    contractorId: entry.contractorId,
+    inspectorId: entry.authorId,
+    inspectorName: entry.authorName,
+    status: "Submitted",
+    createdAt: new Date(entry.createdAt),
+    updatedAt: new Date(entry.createdAt),
+  };
+}
+
+export function ReportProvider({ children }: ReportProviderProps) {
+  const { user } = useAuth();
+  const [serverReports, setServerReports] = useState<InspectionReport[]>([]);
+  const [outboxEntries, setOutboxEntries] = useState<OutboxEntry[]>([]);
+  const [draft, setDraft] = useState<ReportDraft | null>(null);
+  // Null until the user's saved filters have been read
+  const [storedFilters, setStoredFilters] = useState<ReportFilters | null>(
+    null
+  );
+  const [hasMoreReports, setHasMoreReports] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const retryTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const filters = storedFilters || DEFAULT_REPORT_FILTERS;
+  const filtersRef = useRef(filters);
+  filtersRef.current = filters;
+
+  const syncOutbox = useCallback(async () => {
+    if (retryTimer.current) {
+      clearTimeout(retryTimer.current);
+      retryTimer.current = null;
+    }
+    // Queued reports upload as their author, so nothing syncs signed out
+    if (!user) {
+      return;
+    }
+
+    const { synced, entries } = await outbox.flush(user);
+    setOutboxEntries(entries);
+
+    if (synced.length > 0) {
+      // Swap the local placeholders for the server rows
+      setServerReports((prev) => [
+        ...synced.filter((r) => matchesReportFilters(r, filtersRef.current)),
+        ...prev.filter((r) => !synced.some((s) => s.id === r.id)),
+      ]);
+    }
+
+    const pending = entries.filter(
+      (entry) => entry.authorId === user.id && entry.state === "queued"
+    );
+    if (pending.length > 0) {
+      const nextAttemptAt = Math.min(...pending.map((e) => e.nextAttemptAt));
+      // Concurrent syncs share one flush, so another call may have set a
+      // timer while this one waited
+      if (retryTimer.current) {
+        clearTimeout(retryTimer.current);
+      }
+      retryTimer.current = setTimeout(
+        () => syncOutbox(),
+        Math.max(nextAttemptAt - Date.now(), 0)
+      );
+    }
+  }, [user?.id]);
+
+  const refreshReports = useCallback(async () => {
+    if (!user) {
+      setServerReports([]);
+      setHasMoreReports(false);
+      return;
+    }
+    if (!storedFilters) {
+      return;
+    }
+
+    setLoading(true);
+    try {
+      await syncOutbox();
+
+      const result = await reportService.listReports(
+        user.contractorId,
+        storedFilters,
+        { offset: 0, limit: REPORTS_PAGE_SIZE }
+      );
+      if (result.success && result.data) {
+        setServerReports(result.data.reports);
+        setHasMoreReports(result.data.hasMore);
+        setError(null);
+      } else {
+        setError(result.error || "Failed to load reports");
+      }
+    } catch (error: any) {
+      setError(error.message || "Failed to load reports");
+    } finally {
+      setLoading(false);
+    }
+  }, [user?.id, user?.contractorId, storedFilters, syncOutbox]);
+
+  const loadMoreReports = async () => {
+    if (!user || !hasMoreReports || loading || loadingMore) {
+      return;
+    }
+
+    setLoadingMore(true);
+    try {
+      const result = await reportService.listReports(
+        user.contractorId,
+        filters,
+        { offset: serverReports.length, limit: REPORTS_PAGE_SIZE }
+      );
+      if (result.success && result.data) {
+        const page = result.data.reports;
+        // Rows can shift between pages when reports are added meanwhile
+        setServerReports((prev) => [
+          ...prev,
+          ...page.filter((r) => !prev.some((p) => p.id === r.id)),
+        ]);
+        setHasMoreReports(result.data.hasMore);
+        setError(null);
+      } else {
+        setError(result.error || "Failed to load reports");
+      }
+    } catch (error: any) {
+      setError(error.message || "Failed to load reports");
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  useEffect(() => {
+    refreshReports();
+  }, [refreshReports]);
+
+  useEffect(() => {
+    if (!user) {
+      setDraft(null);
+      setStoredFilters(null);
+      return;
+    }
+    draftStore.load(user.id).then(setDraft);
+    setStoredFilters(null);
+    filterStore.load(user.id).then(setStoredFilters);
+  }, [user?.id]);
+
+  const setFilters = (next: ReportFilters) => {
+    setStoredFilters(next);
+    if (user) {
+      filterStore.save(user.id, next).catch((error) => {
+        console.error("Failed to save report filters:", error);
+      });
+    }
+  };
+
+  // Flush the outbox whenever connectivity comes back while signed in
+  useEffect(() => {
+    if (!user) {
+      return;
+    }
+
+    const unsubscribe = NetInfo.addEventListener((state) => {
+      if (state.isConnected && state.isInternetReachable !== false) {
+        syncOutbox();
+      }
+    });
+
+    return () => {
+      unsubscribe();
+      if (retryTimer.current) {
+        clearTimeout(retryTimer.current);
+        retryTimer.current = null;
+      }
+    };
+  }, [user?.id, syncOutbox]);
+
+  const reports = useMemo(() => {
+    if (!user) {
+      return [];
+    }
+
+    const local = outboxEntries
+      .filter(
+        (entry) =>
+          entry.authorId === user.id && entry.contractorId === user.contractorId
+      )
+      .map(outboxEntryToReport)
+      .filter((report) => matchesReportFilters(report, filters));
+    const localIds = new Set(local.map((report) => report.clientId));
+    // A queued revision stands in for the report it replaces
+    const revisedIds = new Set(local.map((report) => report.reportId));
+    const synced = serverReports.filter(
+      (report) =>
+        (!report.clientId || !localIds.has(report.clientId)) &&
+        !revisedIds.has(report.id)
+    );
+
+    const draftReports: InspectionReport[] = draft
+      ? [
+          {
+            ...draft.form,
+            photos: draft.form.photos || [],
+            checklist: draft.form.checklist || {},
+            id: `draft-${user.id}`,
+            syncState: "draft",
+            contractorId: user.contractorId,
+            inspectorId: user.id,
+            inspectorName: `${user.firstName} ${user.lastName}`,
+            status: "Draft",
+            createdAt: new Date(draft.updatedAt),
+            updatedAt: new Date(draft.updatedAt),
+          },
+        ]
+      : [];
+
+    return [
+      ...draftReports.filter((report) => matchesReportFilters(report, filters)),
+      ...local.reverse(),
+      ...synced,
+    ];
+  }, [user, serverReports, outboxEntries, draft, filters]);
+
+  const createReport = async (form: InspectionForm) => {
+    if (!user) {
+      return { success: false, error: "You must be signed in" };
+    }
+    // Checked before queueing, since the outbox may sync long after
+    const denied = checkPermission(
+      user,
+      form.reportId ? "reports.submit" : "reports.create"
+    );
+    if (denied) {
+      return denied;
+    }
+
+    try {
+      const entry = await outbox.enqueue(form, {
+        id: user.id,
+        name: `${user.firstName} ${user.lastName}`,
+        contractorId: user.contractorId,
+      });
+      setOutboxEntries((prev) => [...prev, entry]);
+      await clearDraft();
+
+      await syncOutbox();
+      const stillQueued = (await outbox.getEntries()).some(
+        (e) => e.clientId === entry.clientId
+      );
+
+      return { success: true, queued: stillQueued };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || "Failed to save report",
+      };
+    }
+  };
+
+  const saveDraft = async (form: InspectionForm) => {
+    if (!user) {
+      return;
+    }
+    try {
+      setDraft(await draftStore.save(user.id, form));
+    } catch (error) {
+      console.error("Failed to save report draft:", error);
+    }
+  };
+
+  const clearDraft = async () => {
+    if (!user) {
+      return;
+    }
+    setDraft(null);
+    await draftStore.clear(user.id);
+  };
+
+  // Opens a rejected report as the user's draft, to be edited, signed
+  // again and resubmitted from the report form
+  const reviseReport = async (report: InspectionReport) => {
+    if (!user) {
+      return { success: false, error: "You must be signed in" };
+    }
+    if (!canReviseReport(report, user)) {
+      return {
+        success: false,
+        error: "Only the report's inspector can revise it",
+      };
+    }
+
+    try {
+      const form: InspectionForm = {
+        reportId: report.id,
+        assetId: report.assetId,
+        equipmentId: report.equipmentId,
+        equipmentType: report.equipmentType,
+        location: report.location,
+        priority: report.priority,
+        inspectionClass: report.inspectionClass,
+        jobId: report.jobId,
+        description: report.description,
+        notes: report.notes,
+        photos: report.photos,
+        templateId: report.templateId,
+        templateVersion: report.templateVersion,
+        templateSnapshot: report.templateSnapshot,
+        checklist: report.checklist,
+        defects: report.defects,
+        signatures: report.signatures,
+      };
+      setDraft(await draftStore.save(user.id, form));
+      return { success: true };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || "Failed to open report for revision",
+      };
+    }
+  };
+
+  const retryReport = async (clientId: string) => {
+    setOutboxEntries(await outbox.retry(clientId));
+    await syncOutbox();
+  };
+
+  const discardReport = async (clientId: string) => {
+    setOutboxEntries(await outbox.discard(clientId));
+  };
+
+  const transitionReport = async (
+    report: InspectionReport,
+    to: ReportStatus,
+    comment?: string
+  ) => {
+    if (!user) {
+      return { success: false, error: "You must be signed in" };
+    }
+
+    const result = await reportService.transitionReport(
+      report,
+      to,
+      user,
+      comment
+    );
+    if (!result.success || !result.data) {
+      return { success: false, error: result.error };
+    }
+
+    const updated = result.data;
+    setServerReports((prev) =>
+      prev.map((r) => (r.id === updated.id ? updated : r))
+    );
+    return { success: true };
+  };
+
+  const value: ReportContextType = {
+    reports,
+    draft,
+    filters,
+    hasMoreReports,
+    loading,
+    loadingMore,
+    error,
+    refreshReports,
+    loadMoreReports,
+    setFilters,
+    createReport,
+    saveDraft,
+    clearDraft,
+    reviseReport,
+    syncOutbox,
+    retryReport,
+    discardReport,
+    transitionReport,
+    reportService,
+    photoService,
+  };
+
+  return (
+    <ReportContext.Provider value={value}>{children}</ReportContext.Provider>
+  );
+}
+
+export function useReports() {
+  const context = useContext(ReportContext);
+  if (context === undefined) {
+    throw new Error("useReports must be used within a ReportProvider");
+  }
+  return context;
+}
@@ -0,0 +1,246 @@
+// components/reports/ReportFilterBar.tsx
+import React, { useEffect, useState } from "react";
+import { View, ScrollView, StyleSheet } from "react-native";
+import { Chip, Menu, Searchbar } from "react-native-paper";
+import {
+  ReportFilters,
+  ReportPriority,
+  ReportSort,
+  ReportStatus,
+} from "../../types/report";
+import {
+  DATE_RANGE_OPTIONS,
+  DEFAULT_REPORT_FILTERS,
+  hasActiveFilters,
+  REPORT_SORT_LABELS,
+} from "../../services/reports/reportFilters";
+
+const STATUSES: ReportStatus[] = [
+  "Draft",
+  "In Progress",
+  "Submitted",
+  "Reviewed",
+  "Completed",
+];
+const PRIORITIES: ReportPriority[] = ["High", "Medium", "Low"];
+const SEARCH_DEBOUNCE_MS = 300;
+
+type OpenMenu = "sort" | "status" | "priority" | "inspector" | "date" | null;
+
+interface ReportFilterBarProps {
+  filters: ReportFilters;
+  onChange: (filters: ReportFilters) => void;
+  inspectors: { id: string; name: string }[];
+}
+
+function toggle<T>(values: T[], value: T): T[] {
+  return values.includes(value)
+    ? values.filter((v) => v !== value)
+    : [...values, value];
+}
+
+export function ReportFilterBar({
+  filters,
+  onChange,
+  inspectors,
+}: ReportFilterBarProps) {
+  const [search, setSearch] = useState(filters.search);
+  const [openMenu, setOpenMenu] = useState<OpenMenu>(null);
+
+  // Pick up filters restored from storage or cleared elsewhere
+  useEffect(() => {
+    setSearch(filters.search);
+  }, [filters.search]);
+
+  // Only query once typing pauses
+  useEffect(() => {
+    if (search === filters.search) {
+      return;
+    }
+    const timer = setTimeout(
+      () => onChange({ ...filters, search }),
+      SEARCH_DEBOUNCE_MS
+    );
+    return () => clearTimeout(timer);
+  }, [search]);
+
+  const update = (changes: Partial<ReportFilters>) =>
+    onChange({ ...filters, ...changes });
+
+  const inspectorName = inspectors.find(
+    (inspector) => inspector.id === filters.inspectorId
+  )?.name;
+  const dateLabel = DATE_RANGE_OPTIONS.find(
+    (option) => option.days === filters.createdWithinDays
+  )?.label;
+
+  const renderMenuChip = (
+    menu: Exclude<OpenMenu, null>,
+    label: string,
+    selected: boolean,
+    items: React.ReactNode
+  ) => (
+    <Menu
+      visible={openMenu === menu}
+      onDismiss={() => setOpenMenu(null)}
+      anchor={
+        <Chip
+          selected={selected}
+          icon={selected ? undefined : "chevron-down"}
+          onPress={() => setOpenMenu(menu)}
+          style={styles.chip}
+        >
+          {label}
+        </Chip>
+      }
+    >
+      {items}
+    </Menu>
+  );
+
+  return (
+    <View>
+      <Searchbar
+        placeholder="Search equipment, location, description..."
+        value={search}
+        onChangeText={setSearch}
+        style={styles.searchbar}
+      />
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        contentContainerStyle={styles.chipRow}
+        keyboardShouldPersistTaps="handled"
+      >
+        {renderMenuChip(
+          "sort",
+          `Sort: ${REPORT_SORT_LABELS[filters.sort]}`,
+          false,
+          (Object.keys(REPORT_SORT_LABELS) as ReportSort[]).map((sort) => (
+            <Menu.Item
+              key={sort}
+              title={REPORT_SORT_LABELS[sort]}
+              leadingIcon={filters.sort === sort ? "check" : undefined}
+              onPress={() => {
+                setOpenMenu(null);
+                update({ sort });
+              }}
+            />
+          ))
+        )}
+        {renderMenuChip(
+          "status",
+          filters.statuses.length === 1
+            ? filters.statuses[0]
+            : filters.statuses.length > 1
+            ? `Status (${filters.statuses.length})`
+            : "Status",
+          filters.statuses.length > 0,
+          // Multi-select: the menu stays open while toggling
+          STATUSES.map((status) => (
+            <Menu.Item
+              key={status}
+              title={status}
+              leadingIcon={
+                filters.statuses.includes(status)
+                  ? "checkbox-marked"
+                  : "checkbox-blank-outline"
+              }
+              onPress={() =>
+                update({ statuses: toggle(filters.statuses, status) })
+              }
+            />
+          ))
+        )}
+        {renderMenuChip(
+          "priority",
+          filters.priorities.length > 0
+            ? filters.priorities.join(", ")
+            : "Priority",
+          filters.priorities.length > 0,
+          PRIORITIES.map((priority) => (
+            <Menu.Item
+              key={priority}
+              title={priority}
+              leadingIcon={
+                filters.priorities.includes(priority)
+                  ? "checkbox-marked"
+                  : "checkbox-blank-outline"
+              }
+              onPress={() =>
+                update({ priorities: toggle(filters.priorities, priority) })
+              }
+            />
+          ))
+        )}
+        {renderMenuChip(
+          "inspector",
+          inspectorName || "Inspector",
+          !!filters.inspectorId,
+          [{ id: undefined, name: "Anyone" }, ...inspectors].map(
+            (inspector) => (
+              <Menu.Item
+                key={inspector.id || "any"}
+                title={inspector.name}
+                leadingIcon={
+                  filters.inspectorId === inspector.id ? "check" : undefined
+                }
+                onPress={() => {
+                  setOpenMenu(null);
+                  update({ inspectorId: inspector.id });
+                }}
+              />
+            )
+          )
+        )}
+        {renderMenuChip(
+          "date",
+          dateLabel || "Any date",
+          !!filters.createdWithinDays,
+          [{ days: undefined, label: "Any date" }, ...DATE_RANGE_OPTIONS].map(
+            (option) => (
+              <Menu.Item
+                key={option.label}
+                title={option.label}
+                leadingIcon={
+                  filters.createdWithinDays === option.days
+                    ? "check"
+                    : undefined
+                }
+                onPress={() => {
+                  setOpenMenu(null);
+                  update({ createdWithinDays: option.days });
+                }}
+              />
+            )
+          )
+        )}
+        {hasActiveFilters(filters) && (
+          <Chip
+            icon="close"
+            onPress={() =>
+              onChange({ ...DEFAULT_REPORT_FILTERS, sort: filters.sort })
+            }
+            style={styles.chip}
+          >
+            Clear
+          </Chip>
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  searchbar: {
+    margin: 16,
+    marginBottom: 8,
+  },
+  chipRow: {
+    paddingHorizontal: 16,
+    paddingBottom: 4,
+  },
+  chip: {
+    marginRight: 8,
+  },
+});
@@ -0,0 +1,217 @@
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useState,
+  ReactNode,
+} from "react";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import {
+  InspectionRecord,
+  IntervalRule,
+  IntervalRuleInput,
+  IScheduleService,
+  ScheduledInspection,
+} from "../../types/schedule";
+import { SupabaseScheduleService } from "../../services/schedule/SupabaseScheduleService";
+import { computeSchedule } from "../../services/schedule/dueDates";
+import { useAuth } from "../auth/AuthContext";
+import { useEquipment } from "../equipment/EquipmentContext";
+
+// Create service instance - easily swappable
+const scheduleService: IScheduleService = new SupabaseScheduleService();
+
+// Rules and history are cached so due dates still show on sites with no signal
+const CACHE_KEY_PREFIX = "@inspectrix/schedule/";
+
+interface CachedSchedule {
+  rules: IntervalRule[];
+  history: InspectionRecord[];
+}
+
+interface ScheduleContextType {
+  // State
+  schedule: ScheduledInspection[];
+  rules: IntervalRule[];
+  loading: boolean;
+  error: string | null;
+
+  // Actions
+  refreshSchedule: () => Promise<void>;
+  getAssetSchedule: (assetId: string) => ScheduledInspection[];
+  saveRule: (
+    rule: IntervalRuleInput & { id?: string }
+  ) => Promise<{ success: boolean; error?: string }>;
+  deleteRule: (id: string) => Promise<{ success: boolean; error?: string }>;
+
+  // Service access for advanced usage
+  scheduleService: IScheduleService;
+}
+
+const ScheduleContext = createContext<ScheduleContextType | undefined>(
+  undefined
+);
+
+interface ScheduleProviderProps {
+  children: ReactNode;
+}
+
+export function ScheduleProvider({ children }: ScheduleProviderProps) {
+  const { user } = useAuth();
+  const { equipment } = useEquipment();
+  const [rules, setRules] = useState<IntervalRule[]>([]);
+  const [history, setHistory] = useState<InspectionRecord[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const cacheKey = user ? CACHE_KEY_PREFIX + user.contractorId : null;
+
+  const storeSchedule = async (next: CachedSchedule) => {
+    setRules(next.rules);
+    setHistory(next.history);
+    if (cacheKey) {
+      await AsyncStorage.setItem(cacheKey, JSON.stringify(next));
+    }
+  };
+
+  const refreshSchedule = useCallback(async () => {
+    if (!user || !cacheKey) {
+      setRules([]);
+      setHistory([]);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const cached = await AsyncStorage.getItem(cacheKey);
+      if (cached) {
+        const parsed = JSON.parse(cached) as CachedSchedule;
+        setRules(parsed.rules);
+        setHistory(
+          parsed.history.map((record) => ({
+            ...record,
+            completedAt: new Date(record.completedAt),
+          }))
+        );
+      }
+
+      const [rulesResult, historyResult] = await Promise.all([
+        scheduleService.listRules(user.contractorId),
+        scheduleService.listInspectionHistory(user.contractorId),
+      ]);
+      if (
+        rulesResult.success &&
+        rulesResult.data &&
+        historyResult.success &&
+        historyResult.data
+      ) {
+        await storeSchedule({
+          rules: rulesResult.data,
+          history: historyResult.data,
+        });
+        setError(null);
+      } else {
+        setError(
+          rulesResult.error ||
+            historyResult.error ||
+            "Failed to load inspection schedule"
+        );
+      }
+    } catch (error: any) {
+      setError(error.message || "Failed to load inspection schedule");
+    } finally {
+      setLoading(false);
+    }
+  }, [user?.contractorId]);
+
+  useEffect(() => {
+    refreshSchedule();
+  }, [refreshSchedule]);
+
+  const schedule = useMemo(
+    () => computeSchedule(equipment, history, rules),
+    [equipment, history, rules]
+  );
+
+  const getAssetSchedule = (assetId: string) =>
+    schedule.filter((item) => item.assetId === assetId);
+
+  const saveRule = async (rule: IntervalRuleInput & { id?: string }) => {
+    if (!user) {
+      return { success: false, error: "You must be signed in" };
+    }
+
+    try {
+      const result = await scheduleService.saveRule(
+        user.contractorId,
+        rule,
+        user
+      );
+
+      if (result.success && result.data) {
+        const saved = result.data;
+        await storeSchedule({
+          rules: [...rules.filter((r) => r.id !== saved.id), saved],
+          history,
+        });
+        return { success: true };
+      } else {
+        return { success: false, error: result.error };
+      }
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || "Failed to save inspection interval",
+      };
+    }
+  };
+
+  const deleteRule = async (id: string) => {
+    try {
+      const result = await scheduleService.deleteRule(id, user);
+
+      if (result.success) {
+        await storeSchedule({
+          rules: rules.filter((rule) => rule.id !== id),
+          history,
+        });
+        return { success: true };
+      } else {
+        return { success: false, error: result.error };
+      }
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || "Failed to delete inspection interval",
+      };
+    }
+  };
+
+  const value: ScheduleContextType = {
+    schedule,
+    rules,
+    loading,
+    error,
+    refreshSchedule,
+    getAssetSchedule,
+    saveRule,
+    deleteRule,
+    scheduleService,
+  };
+
+  return (
+    <ScheduleContext.Provider value={value}>
+      {children}
+    </ScheduleContext.Provider>
+  );
+}
+
+export function useSchedule() {
+  const context = useContext(ScheduleContext);
+  if (context === undefined) {
+    throw new Error("useSchedule must be used within a ScheduleProvider");
+  }
+  return context;
+}
@@ -0,0 +1,231 @@
+import React, { useMemo, useRef, useState } from "react";
+import {
+  View,
+  StyleSheet,
+  PanResponder,
+  LayoutChangeEvent,
+  GestureResponderEvent,
+} from "react-native";
+import {
+  Modal,
+  Portal,
+  Button,
+  Text,
+  TextInput,
+  useTheme,
+} from "react-native-paper";
+import { captureRef } from "react-native-view-shot";
+import { SignatureView } from "./SignatureView";
+import { SIGNER_ROLE_LABELS } from "../../services/signatures/signatureGeometry";
+import {
+  SignaturePoint,
+  SignatureStroke,
+  SignerRole,
+} from "../../types/signature";
+
+export interface SignatureCapture {
+  signerName: string;
+  strokes: SignatureStroke[];
+  width: number;
+  height: number;
+  imageDataUri: string;
+}
+
+interface SignaturePadProps {
+  role: SignerRole | null; // Open while set
+  defaultName?: string;
+  nameEditable?: boolean;
+  onSave: (capture: SignatureCapture) => void;
+  onDismiss: () => void;
+}
+
+const PAD_ASPECT_RATIO = 0.4; // Height as a fraction of width
+
+export function SignaturePad({
+  role,
+  defaultName = "",
+  nameEditable = true,
+  onSave,
+  onDismiss,
+}: SignaturePadProps) {
+  const theme = useTheme();
+  const padRef = useRef<View>(null);
+  const [strokes, setStrokes] = useState<SignatureStroke[]>([]);
+  const [current, setCurrent] = useState<SignatureStroke | null>(null);
+  const [signerName, setSignerName] = useState(defaultName);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+  const [saving, setSaving] = useState(false);
+
+  // PanResponder handlers are created once, so read live values from a ref
+  const live = useRef({ size, stroke: null as SignatureStroke | null });
+  live.current.size = size;
+
+  // Start clean each time the pad is opened
+  const [openRole, setOpenRole] = useState<SignerRole | null>(null);
+  if (role !== openRole) {
+    setOpenRole(role);
+    setStrokes([]);
+    setCurrent(null);
+    setSignerName(defaultName);
+  }
+
+  const toPoint = (event: GestureResponderEvent): SignaturePoint => {
+    const { width, height } = live.current.size;
+    const { locationX, locationY } = event.nativeEvent;
+    return {
+      x: Math.min(Math.max(locationX / width, 0), 1),
+      y: Math.min(Math.max(locationY / height, 0), 1),
+    };
+  };
+
+  const panResponder = useMemo(
+    () =>
+      PanResponder.create({
+        onStartShouldSetPanResponder: () => true,
+        onMoveShouldSetPanResponder: () => true,
+        onPanResponderGrant: (event) => {
+          live.current.stroke = [toPoint(event)];
+          setCurrent(live.current.stroke);
+        },
+        onPanResponderMove: (event) => {
+          if (live.current.stroke) {
+            live.current.stroke = [...live.current.stroke, toPoint(event)];
+            setCurrent(live.current.stroke);
+          }
+        },
+        onPanResponderRelease: () => {
+          const stroke = live.current.stroke;
+          live.current.stroke = null;
+          setCurrent(null);
+          if (stroke) {
+            setStrokes((prev) => [...prev, stroke]);
+          }
+        },
+      }),
+    []
+  );
+
+  const handleLayout = (event: LayoutChangeEvent) => {
+    // Inside the 1px border
+    const width = event.nativeEvent.layout.width - 2;
+    setSize({ width, height: Math.round(width * PAD_ASPECT_RATIO) });
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const imageDataUri = await captureRef(padRef, {
+        format: "png",
+        result: "data-uri",
+      });
+      onSave({
+        signerName: signerName.trim(),
+        strokes,
+        width: size.width,
+        height: size.height,
+        imageDataUri,
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Portal>
+      <Modal
+        visible={!!role}
+        onDismiss={onDismiss}
+        contentContainerStyle={[
+          styles.container,
+          { backgroundColor: theme.colors.surface },
+        ]}
+      >
+        <Text variant="titleMedium">
+          {role ? `${SIGNER_ROLE_LABELS[role]} Signature` : ""}
+        </Text>
+
+        <TextInput
+          label="Name *"
+          value={signerName}
+          onChangeText={setSignerName}
+          mode="outlined"
+          disabled={!nameEditable || saving}
+        />
+
+        <View onLayout={handleLayout}>
+          {size.width > 0 && (
+            <View
+              style={[styles.padBorder, { borderColor: theme.colors.outline }]}
+            >
+              <View
+                ref={padRef}
+                collapsable={false}
+                style={[styles.pad, { width: size.width, height: size.height }]}
+                {...panResponder.panHandlers}
+              >
+                <SignatureView
+                  strokes={current ? [...strokes, current] : strokes}
+                  width={size.width}
+                  height={size.height}
+                />
+              </View>
+            </View>
+          )}
+        </View>
+        <Text
+          variant="bodySmall"
+          style={{ color: theme.colors.onSurfaceVariant }}
+        >
+          Sign inside the box. Changing the report afterwards clears this
+          signature.
+        </Text>
+
+        <View style={styles.actions}>
+          <Button
+            onPress={() => setStrokes([])}
+            disabled={strokes.length === 0 || saving}
+          >
+            Clear
+          </Button>
+          <View style={styles.spacer} />
+          <Button onPress={onDismiss} disabled={saving}>
+            Cancel
+          </Button>
+          <Button
+            mode="contained"
+            onPress={handleSave}
+            loading={saving}
+            disabled={strokes.length === 0 || !signerName.trim() || saving}
+          >
+            Sign
+          </Button>
+        </View>
+      </Modal>
+    </Portal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    margin: 16,
+    padding: 16,
+    borderRadius: 8,
+    gap: 12,
+  },
+  padBorder: {
+    borderWidth: 1,
+    borderRadius: 4,
+  },
+  pad: {
+    // The captured image needs an opaque background
+    backgroundColor: "#ffffff",
+  },
+  actions: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  spacer: {
+    flex: 1,
+  },
+});
@@ -0,0 +1,135 @@
+import React, { useState } from "react";
+import { View, StyleSheet } from "react-native";
+import { Button, Card, IconButton, Text, useTheme } from "react-native-paper";
+import * as Crypto from "expo-crypto";
+import { SignaturePad, SignatureCapture } from "./SignaturePad";
+import { SignatureView } from "./SignatureView";
+import { findSignature } from "../../services/signatures/reportSignatures";
+import { SIGNER_ROLE_LABELS } from "../../services/signatures/signatureGeometry";
+import { ReportSignature, SignerRole } from "../../types/signature";
+
+interface SignatureSectionProps {
+  signatures: ReportSignature[];
+  reportHash: string | null; // Null while the current content is hashed
+  inspector: { id: string; name: string };
+  onChange: (signatures: ReportSignature[]) => void;
+  disabled?: boolean;
+}
+
+const ROLES: SignerRole[] = ["inspector", "site_representative"];
+const PREVIEW_HEIGHT = 64;
+
+// Inspector sign-off plus an optional site representative, each bound to
+// the report content at the moment of signing
+export function SignatureSection({
+  signatures,
+  reportHash,
+  inspector,
+  onChange,
+  disabled,
+}: SignatureSectionProps) {
+  const theme = useTheme();
+  const [signing, setSigning] = useState<SignerRole | null>(null);
+
+  const handleSave = (capture: SignatureCapture) => {
+    if (!signing || !reportHash) {
+      return;
+    }
+    const signature: ReportSignature = {
+      id: Crypto.randomUUID(),
+      signerRole: signing,
+      signerName: capture.signerName,
+      signerUserId: signing === "inspector" ? inspector.id : undefined,
+      strokes: capture.strokes,
+      width: capture.width,
+      height: capture.height,
+      imageDataUri: capture.imageDataUri,
+      reportHash,
+      signedAt: Date.now(),
+    };
+    onChange([
+      ...signatures.filter((s) => s.signerRole !== signing),
+      signature,
+    ]);
+    setSigning(null);
+  };
+
+  const remove = (role: SignerRole) =>
+    onChange(signatures.filter((s) => s.signerRole !== role));
+
+  return (
+    <View style={styles.container}>
+      {ROLES.map((role) => {
+        const signature = reportHash
+          ? findSignature(signatures, role, reportHash)
+          : undefined;
+        const label = `${SIGNER_ROLE_LABELS[role]}${
+          role === "inspector" ? " *" : ""
+        }`;
+
+        if (!signature) {
+          return (
+            <Button
+              key={role}
+              mode="outlined"
+              icon="draw"
+              onPress={() => setSigning(role)}
+              disabled={disabled || !reportHash}
+            >
+              {`Sign as ${label}`}
+            </Button>
+          );
+        }
+
+        return (
+          <Card key={role} mode="outlined">
+            <Card.Content style={styles.signed}>
+              <SignatureView
+                strokes={signature.strokes}
+                width={(PREVIEW_HEIGHT * signature.width) / signature.height}
+                height={PREVIEW_HEIGHT}
+              />
+              <View style={styles.details}>
+                <Text variant="labelLarge">{signature.signerName}</Text>
+                <Text
+                  variant="bodySmall"
+                  style={{ color: theme.colors.onSurfaceVariant }}
+                >
+                  {SIGNER_ROLE_LABELS[role]} ·{" "}
+                  {new Date(signature.signedAt).toLocaleString()}
+                </Text>
+              </View>
+              <IconButton
+                icon="close"
+                onPress={() => remove(role)}
+                disabled={disabled}
+              />
+            </Card.Content>
+          </Card>
+        );
+      })}
+
+      <SignaturePad
+        role={signing}
+        defaultName={signing === "inspector" ? inspector.name : ""}
+        nameEditable={signing !== "inspector"}
+        onSave={handleSave}
+        onDismiss={() => setSigning(null)}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 8,
+  },
+  signed: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+  },
+  details: {
+    flex: 1,
+  },
+});
@@ -0,0 +1,38 @@
+import React from "react";
+import Svg, { Path } from "react-native-svg";
+import {
+  SIGNATURE_STROKE_WIDTH,
+  strokePath,
+} from "../../services/signatures/signatureGeometry";
+import { SignatureStroke } from "../../types/signature";
+
+interface SignatureViewProps {
+  strokes: SignatureStroke[];
+  width: number;
+  height: number;
+  color?: string;
+}
+
+// Draws normalized signature strokes at the given size
+export function SignatureView({
+  strokes,
+  width,
+  height,
+  color = "#000000",
+}: SignatureViewProps) {
+  return (
+    <Svg width={width} height={height}>
+      {strokes.map((stroke, index) => (
+        <Path
+          key={index}
+          d={strokePath(stroke, width, height)}
+          stroke={color}
+          strokeWidth={SIGNATURE_STROKE_WIDTH}
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          fill="none"
+        />
+      ))}
+    </Svg>
+  );
+}
@@ -0,0 +1,223 @@
+import React from "react";
+import { View, StyleSheet } from "react-native";
+import {
+  Text,
+  TextInput,
+  SegmentedButtons,
+  Divider,
+  useTheme,
+} from "react-native-paper";
+import { ReportPhotoSection } from "../photos/ReportPhotoSection";
+import { isOutOfTolerance } from "../../services/templates/checklistValidation";
+import { InspectionForm } from "../../types/report";
+import { ReportPhoto } from "../../types/photo";
+import {
+  ChecklistItem,
+  ChecklistResponse,
+  ChecklistTemplate,
+} from "../../types/template";
+
+interface ChecklistFormProps {
+  template: ChecklistTemplate;
+  form: InspectionForm;
+  errors: Record<string, string>;
+  disabled?: boolean;
+  onChangeResponse: (itemId: string, response: ChecklistResponse) => void;
+  onChangePhotos: (photos: ReportPhoto[]) => void;
+}
+
+const passFailOptions = [
+  { value: "pass", label: "Pass", icon: "check" },
+  { value: "fail", label: "Fail", icon: "close" },
+  { value: "na", label: "N/A", icon: "minus" },
+];
+
+function toleranceHint(item: ChecklistItem): string | null {
+  const unit = item.unit ? ` ${item.unit}` : "";
+  if (item.min !== undefined && item.max !== undefined) {
+    return `Allowed: ${item.min}–${item.max}${unit}`;
+  }
+  if (item.min !== undefined) {
+    return `Minimum: ${item.min}${unit}`;
+  }
+  if (item.max !== undefined) {
+    return `Maximum: ${item.max}${unit}`;
+  }
+  return null;
+}
+
+// Renders a report's checklist from its template
+export function ChecklistForm({
+  template,
+  form,
+  errors,
+  disabled,
+  onChangeResponse,
+  onChangePhotos,
+}: ChecklistFormProps) {
+  const theme = useTheme();
+
+  const renderItem = (item: ChecklistItem) => {
+    const response = form.checklist[item.id] || { itemId: item.id };
+    const update = (patch: Partial<ChecklistResponse>) =>
+      onChangeResponse(item.id, { ...response, ...patch });
+
+    switch (item.kind) {
+      case "pass_fail":
+        return (
+          <>
+            <SegmentedButtons
+              value={(response.value as string) || ""}
+              onValueChange={(value) => update({ value: value as any })}
+              buttons={passFailOptions.map((option) => ({
+                ...option,
+                disabled,
+              }))}
+            />
+            {response.value === "fail" && (
+              <TextInput
+                label="Failure details *"
+                value={response.comment || ""}
+                onChangeText={(comment) => update({ comment })}
+                mode="outlined"
+                multiline
+                disabled={disabled}
+                style={styles.input}
+              />
+            )}
+          </>
+        );
+
+      case "measurement": {
+        const hint = toleranceHint(item);
+        const outOfTolerance = isOutOfTolerance(item, response);
+        return (
+          <>
+            <TextInput
+              value={response.value === undefined ? "" : String(response.value)}
+              onChangeText={(value) => update({ value })}
+              mode="outlined"
+              keyboardType="decimal-pad"
+              right={
+                item.unit ? <TextInput.Affix text={item.unit} /> : undefined
+              }
+              disabled={disabled}
+              style={styles.input}
+            />
+            {hint && (
+              <Text
+                style={[
+                  styles.helperText,
+                  {
+                    color: outOfTolerance
+                      ? theme.colors.error
+                      : theme.colors.onSurfaceVariant,
+                  },
+                ]}
+              >
+                {outOfTolerance ? `Out of tolerance. ${hint}` : hint}
+              </Text>
+            )}
+          </>
+        );
+      }
+
+      case "text":
+        return (
+          <TextInput
+            value={(response.value as string) || ""}
+            onChangeText={(value) => update({ value })}
+            mode="outlined"
+            multiline
+            disabled={disabled}
+            style={styles.input}
+          />
+        );
+
+      case "photo":
+        return (
+          <ReportPhotoSection
+            photos={form.photos.filter((p) => p.checklistItemId === item.id)}
+            onChange={(photos) =>
+              onChangePhotos([
+                ...form.photos.filter((p) => p.checklistItemId !== item.id),
+                ...photos.map((p) => ({ ...p, checklistItemId: item.id })),
+              ])
+            }
+            disabled={disabled}
+          />
+        );
+
+      default:
+        return null;
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text variant="titleMedium">
+        {template.name} (v{template.version})
+      </Text>
+
+      {template.sections.map((section) => (
+        <View key={section.id} style={styles.section}>
+          <Text variant="titleSmall" style={{ color: theme.colors.primary }}>
+            {section.title}
+          </Text>
+          <Divider />
+
+          {section.items.map((item) => (
+            <View key={item.id} style={styles.item}>
+              <Text style={styles.itemLabel}>
+                {item.label}
+                {item.required ? " *" : ""}
+              </Text>
+              {item.guidance && (
+                <Text
+                  style={[
+                    styles.helperText,
+                    { color: theme.colors.onSurfaceVariant },
+                  ]}
+                >
+                  {item.guidance}
+                </Text>
+              )}
+              {renderItem(item)}
+              {errors[item.id] && (
+                <Text style={[styles.errorText, { color: theme.colors.error }]}>
+                  {errors[item.id]}
+                </Text>
+              )}
+            </View>
+          ))}
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 16,
+  },
+  section: {
+    gap: 12,
+  },
+  item: {
+    gap: 6,
+  },
+  itemLabel: {
+    fontSize: 15,
+    fontWeight: "500",
+  },
+  input: {
+    backgroundColor: "transparent",
+  },
+  helperText: {
+    fontSize: 12,
+  },
+  errorText: {
+    fontSize: 12,
+    marginLeft: 12,
+  },
+});
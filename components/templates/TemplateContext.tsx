@@ -0,0 +1,161 @@
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useState,
+  ReactNode,
+} from "react";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { ChecklistTemplate, ITemplateService } from "../../types/template";
+import { SupabaseTemplateService } from "../../services/templates/SupabaseTemplateService";
+import { findTemplateForEquipmentType } from "../../services/templates/checklistValidation";
+import { useAuth } from "../auth/AuthContext";
+
+// Create service instance - easily swappable
+const templateService: ITemplateService = new SupabaseTemplateService();
+
+// Templates are cached so checklists still render on sites with no signal
+const CACHE_KEY_PREFIX = "@inspectrix/templates/";
+
+interface TemplateContextType {
+  // State
+  templates: ChecklistTemplate[];
+  loading: boolean;
+
+  // Actions
+  refreshTemplates: () => Promise<void>;
+  findTemplate: (equipmentType: string) => ChecklistTemplate | null;
+  saveTemplate: (
+    template: Parameters<ITemplateService["saveTemplate"]>[0]
+  ) => Promise<{ success: boolean; error?: string; id?: string }>;
+  deleteTemplate: (id: string) => Promise<{ success: boolean; error?: string }>;
+
+  // Service access for advanced usage
+  templateService: ITemplateService;
+}
+
+const TemplateContext = createContext<TemplateContextType | undefined>(
+  undefined
+);
+
+interface TemplateProviderProps {
+  children: ReactNode;
+}
+
+export function TemplateProvider({ children }: TemplateProviderProps) {
+  const { user } = useAuth();
+  const [templates, setTemplates] = useState<ChecklistTemplate[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const cacheKey = user ? CACHE_KEY_PREFIX + user.contractorId : null;
+
+  const storeTemplates = async (next: ChecklistTemplate[]) => {
+    setTemplates(next);
+    if (cacheKey) {
+      await AsyncStorage.setItem(cacheKey, JSON.stringify(next));
+    }
+  };
+
+  const refreshTemplates = useCallback(async () => {
+    if (!user || !cacheKey) {
+      setTemplates([]);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const cached = await AsyncStorage.getItem(cacheKey);
+      if (cached) {
+        setTemplates(
+          (JSON.parse(cached) as ChecklistTemplate[]).map((t) => ({
+            ...t,
+            updatedAt: new Date(t.updatedAt),
+          }))
+        );
+      }
+
+      const result = await templateService.listTemplates(user.contractorId);
+      if (result.success && result.data) {
+        await storeTemplates(result.data);
+      }
+    } catch (error) {
+      console.error("Failed to load templates:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user?.contractorId]);
+
+  useEffect(() => {
+    refreshTemplates();
+  }, [refreshTemplates]);
+
+  const findTemplate = (equipmentType: string) =>
+    findTemplateForEquipmentType(templates, equipmentType);
+
+  const saveTemplate: TemplateContextType["saveTemplate"] = async (
+    template
+  ) => {
+    try {
+      const result = await templateService.saveTemplate(template, user);
+
+      if (result.success && result.data) {
+        const saved = result.data;
+        await storeTemplates([
+          ...templates.filter((t) => t.id !== saved.id),
+          saved,
+        ]);
+        return { success: true, id: saved.id };
+      } else {
+        return { success: false, error: result.error };
+      }
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || "Failed to save template",
+      };
+    }
+  };
+
+  const deleteTemplate = async (id: string) => {
+    try {
+      const result = await templateService.deleteTemplate(id, user);
+
+      if (result.success) {
+        await storeTemplates(templates.filter((t) => t.id !== id));
+        return { success: true };
+      } else {
+        return { success: false, error: result.error };
+      }
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || "Failed to delete template",
+      };
+    }
+  };
+
+  const value: TemplateContextType = {
+    templates,
+    loading,
+    refreshTemplates,
+    findTemplate,
+    saveTemplate,
+    deleteTemplate,
+    templateService,
+  };
+
+  return (
+    <TemplateContext.Provider value={value}>
+      {children}
+    </TemplateContext.Provider>
+  );
+}
+
+export function useTemplates() {
+  const context = useContext(TemplateContext);
+  if (context === undefined) {
+    throw new Error("useTemplates must be used within a TemplateProvider");
+  }
+  return context;
+}
@@ -0,0 +1,22 @@
+// jest.setup.ts
+// lib/supabase creates its client at import time. Tests never reach the
+// network, but the client still needs a URL and key to construct.
+process.env.EXPO_PUBLIC_SUPABASE_URL = "http://localhost:54321";
+process.env.EXPO_PUBLIC_SUPABASE_ANON_KEY = "test-anon-key";
+
+jest.mock("@react-native-async-storage/async-storage", () =>
+  require("@react-native-async-storage/async-storage/jest/async-storage-mock")
+);
+
+// The expo-crypto mock returns undefined; report signatures need real hashes
+jest.mock("expo-crypto", () => {
+  const crypto = require("crypto");
+  return {
+    CryptoDigestAlgorithm: { SHA256: "SHA-256" },
+    digestStringAsync: async (_algorithm: string, data: string) =>
+      crypto.createHash("sha256").update(data).digest("hex"),
+    randomUUID: () => crypto.randomUUID(),
+    getRandomBytes: (count: number) =>
+      new Uint8Array(crypto.randomBytes(count)),
+  };
+});
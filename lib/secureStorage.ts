@@ -0,0 +1,112 @@
+// lib/secureStorage.ts
+import { Platform } from "react-native";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import * as SecureStore from "expo-secure-store";
+
+// SecureStore warns above 2048 bytes per value and some Android keystores
+// reject larger ones outright. Supabase sessions (JWT + refresh token + user
+// metadata) regularly exceed that, so values are split across several keys.
+const CHUNK_SIZE = 1800;
+
+const options: SecureStore.SecureStoreOptions = {
+  keychainAccessible: SecureStore.WHEN_UNLOCKED_THIS_DEVICE_ONLY,
+};
+
+// SecureStore keys may only contain alphanumerics, ".", "-" and "_"
+function safeKey(key: string): string {
+  return key.replace(/[^A-Za-z0-9._-]/g, "_");
+}
+
+function countKey(key: string): string {
+  return `${safeKey(key)}.count`;
+}
+
+function chunkKey(key: string, index: number): string {
+  return `${safeKey(key)}.${index}`;
+}
+
+async function readChunkCount(key: string): Promise<number> {
+  const raw = await SecureStore.getItemAsync(countKey(key), options);
+  const count = raw ? parseInt(raw, 10) : 0;
+  return Number.isFinite(count) ? count : 0;
+}
+
+async function removeChunks(key: string, from: number, to: number) {
+  for (let index = from; index < to; index++) {
+    await SecureStore.deleteItemAsync(chunkKey(key, index), options);
+  }
+}
+
+/**
+ * Storage adapter for supabase-js that keeps the session in the device
+ * keychain/keystore instead of plain AsyncStorage. Sessions written by
+ * earlier builds are moved across on first read. SecureStore has no web
+ * implementation, so web keeps using AsyncStorage.
+ */
+export const SecureStorageAdapter = {
+  async getItem(key: string): Promise<string | null> {
+    if (Platform.OS === "web") {
+      return AsyncStorage.getItem(key);
+    }
+
+    const count = await readChunkCount(key);
+    if (count === 0) {
+      return migrateFromAsyncStorage(key);
+    }
+
+    const chunks: string[] = [];
+    for (let index = 0; index < count; index++) {
+      const chunk = await SecureStore.getItemAsync(
+        chunkKey(key, index),
+        options
+      );
+      if (chunk === null) {
+        // Partial write (app killed mid-save); treat as signed out
+        await SecureStorageAdapter.removeItem(key);
+        return null;
+      }
+      chunks.push(chunk);
+    }
+    return chunks.join("");
+  },
+
+  async setItem(key: string, value: string): Promise<void> {
+    if (Platform.OS === "web") {
+      return AsyncStorage.setItem(key, value);
+    }
+
+    const previousCount = await readChunkCount(key);
+    const count = Math.max(Math.ceil(value.length / CHUNK_SIZE), 1);
+
+    for (let index = 0; index < count; index++) {
+      await SecureStore.setItemAsync(
+        chunkKey(key, index),
+        value.slice(index * CHUNK_SIZE, (index + 1) * CHUNK_SIZE),
+        options
+      );
+    }
+    await SecureStore.setItemAsync(countKey(key), String(count), options);
+    await removeChunks(key, count, previousCount);
+  },
+
+  async removeItem(key: string): Promise<void> {
+    if (Platform.OS === "web") {
+      return AsyncStorage.removeItem(key);
+    }
+
+    const count = await readChunkCount(key);
+    await SecureStore.deleteItemAsync(countKey(key), options);
+    await removeChunks(key, 0, count);
+  },
+};
+
+async function migrateFromAsyncStorage(key: string): Promise<string | null> {
+  const legacy = await AsyncStorage.getItem(key);
+  if (legacy === null) {
+    return null;
+  }
+
+  await SecureStorageAdapter.setItem(key, legacy);
+  await AsyncStorage.removeItem(key);
+  return legacy;
+}
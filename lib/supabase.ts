@@ -1,6 +1,6 @@
 import "react-native-url-polyfill/auto";
 import { createClient } from "@supabase/supabase-js";
-import AsyncStorage from "@react-native-async-storage/async-storage";
+import { SecureStorageAdapter } from "./secureStorage";
 
 // TODO: Replace these with your actual Supabase credentials
 const supabaseUrl = process.env.EXPO_PUBLIC_SUPABASE_URL;
@@ -8,9 +8,11 @@ const supabaseAnonKey = process.env.EXPO_PUBLIC_SUPABASE_ANON_KEY;
 
 export const supabase = createClient(supabaseUrl, supabaseAnonKey, {
   auth: {
-    storage: AsyncStorage,
+    storage: SecureStorageAdapter,
     autoRefreshToken: true,
     persistSession: true,
+    // Email links are completed by the /confirm-email and /reset-password
+    // routes (see services/auth/authLinks.ts)
     detectSessionInUrl: false,
   },
 });
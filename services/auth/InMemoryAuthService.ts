@@ -0,0 +1,759 @@
+// services/auth/InMemoryAuthService.ts
+// Network-free IAuthService for tests, Storybook-style previews and offline
+// demos. Behaves like SupabaseAuthService (same error codes, same event
+// timing) but keeps users and the session in memory.
+import {
+  IAuthService,
+  AuthResult,
+  LoginCredentials,
+  RegisterData,
+  AuthSession,
+  User,
+  PasswordChangeData,
+  LogoutOptions,
+  MfaChallenge,
+  MfaEnrollment,
+  MfaStatus,
+  AuthErrorCode,
+} from "../../types/auth";
+import { checkPasswordStrength } from "./passwordPolicy";
+import {
+  EMAIL_CONFIRMATION_PATH,
+  parseAuthLink,
+  PASSWORD_RESET_PATH,
+} from "./authLinks";
+
+const DEFAULT_SESSION_TTL_MS = 60 * 60 * 1000;
+const CHALLENGE_TTL_MS = 5 * 60 * 1000;
+const DEFAULT_TOTP_CODE = "123456";
+
+export interface InMemoryUserSeed extends Partial<User> {
+  email: string;
+  password: string;
+  mfaEnrolled?: boolean;
+}
+
+export interface InMemoryInvitation {
+  email: string;
+  contractorId: string;
+  contractorName: string;
+  role: User["role"];
+}
+
+export interface InMemoryAuthOptions {
+  users?: InMemoryUserSeed[];
+  invitations?: Record<string, InMemoryInvitation>; // Keyed by raw token
+  requireManagerMfa?: boolean;
+  suspendedContractorIds?: string[];
+  requireEmailConfirmation?: boolean; // register() then waits for the link
+  sessionTtlMs?: number;
+  totpCode?: string; // The one code the fake authenticator accepts
+  now?: () => number; // Injectable clock for expiry tests
+}
+
+interface UserRecord {
+  user: User;
+  password: string;
+  emailConfirmed: boolean;
+  mfaEnrolled: boolean;
+  recoveryCodes: string[];
+}
+
+interface SessionRecord {
+  userId: string;
+  accessToken: string;
+  refreshToken: string;
+  expiresAt: number;
+  mfaVerified: boolean;
+}
+
+export class InMemoryAuthService implements IAuthService {
+  private users = new Map<string, UserRecord>();
+  private invitations: Record<string, InMemoryInvitation>;
+  private session: SessionRecord | null = null;
+  private challenge: MfaChallenge | null = null;
+  private pendingFactorId: string | null = null;
+  private listeners = new Set<
+    (session: AuthSession | null, reason?: AuthErrorCode) => void
+  >();
+  private sequence = 0;
+  private requireManagerMfa: boolean;
+  private suspendedContractorIds: Set<string>;
+  private requireEmailConfirmation: boolean;
+  private linkTokens = new Map<string, { userId: string; type: string }>();
+  private sessionTtlMs: number;
+  private totpCode: string;
+  private now: () => number;
+
+  // Emails passed to resetPassword, for assertions
+  readonly passwordResetRequests: string[] = [];
+  // Confirmation and recovery links that would have been emailed, newest
+  // last; pass one to completeAuthLink to "click" it
+  readonly sentAuthLinks: string[] = [];
+
+  constructor(options: InMemoryAuthOptions = {}) {
+    this.invitations = { ...(options.invitations || {}) };
+    this.requireManagerMfa = !!options.requireManagerMfa;
+    this.suspendedContractorIds = new Set(options.suspendedContractorIds);
+    this.requireEmailConfirmation = !!options.requireEmailConfirmation;
+    this.sessionTtlMs = options.sessionTtlMs ?? DEFAULT_SESSION_TTL_MS;
+    this.totpCode = options.totpCode ?? DEFAULT_TOTP_CODE;
+    this.now = options.now ?? (() => Date.now());
+    (options.users || []).forEach((seed) => this.addUser(seed));
+  }
+
+  // Test helpers
+  addUser(seed: InMemoryUserSeed): User {
+    const { password, mfaEnrolled, ...fields } = seed;
+    const user: User = {
+      id: fields.id || this.nextId("user"),
+      firstName: "Test",
+      lastName: "User",
+      role: "inspector",
+      contractorId: "contractor-1",
+      contractorName: "Test Contractor",
+      isActive: true,
+      mustChangePassword: false,
+      createdAt: new Date(this.now()),
+      ...fields,
+      email: fields.email.trim().toLowerCase(),
+    };
+    this.users.set(user.id, {
+      user,
+      password,
+      emailConfirmed: true,
+      mfaEnrolled: !!mfaEnrolled,
+      recoveryCodes: [],
+    });
+    return user;
+  }
+
+  // Mid-session changes take effect on the next getCurrentSession or refresh
+  setUserActive(userId: string, isActive: boolean): void {
+    const record = this.users.get(userId);
+    if (record) {
+      record.user.isActive = isActive;
+    }
+  }
+
+  setContractorSuspended(contractorId: string, suspended: boolean): void {
+    if (suspended) {
+      this.suspendedContractorIds.add(contractorId);
+    } else {
+      this.suspendedContractorIds.delete(contractorId);
+    }
+  }
+
+  expireSession(): void {
+    if (this.session) {
+      this.session.expiresAt = this.now() - 1;
+    }
+  }
+
+  async login(credentials: LoginCredentials): Promise<AuthResult<AuthSession>> {
+    const record = this.findByEmail(credentials.email);
+    if (!record || record.password !== credentials.password) {
+      return {
+        success: false,
+        error: "Invalid login credentials",
+        errorCode: AuthErrorCode.INVALID_CREDENTIALS,
+      };
+    }
+
+    if (!record.emailConfirmed) {
+      return {
+        success: false,
+        error: "Email not confirmed",
+        errorCode: AuthErrorCode.EMAIL_NOT_CONFIRMED,
+      };
+    }
+
+    const access = this.checkAccountAccess(record.user);
+    if (!access.success) {
+      return access;
+    }
+
+    this.session = this.createSession(record.user.id, !record.mfaEnrolled);
+
+    if (record.mfaEnrolled) {
+      return this.startMfaChallenge(record);
+    }
+
+    record.user.lastLogin = new Date(this.now());
+    return this.emitCurrentSession();
+  }
+
+  async register(data: RegisterData): Promise<AuthResult<AuthSession>> {
+    const invitation = this.invitations[data.invitationToken.trim()];
+    if (!invitation) {
+      return {
+        success: false,
+        error: "This invitation is invalid, expired or has been revoked",
+        errorCode: AuthErrorCode.INVALID_INVITATION,
+      };
+    }
+    if (
+      invitation.email.toLowerCase() !== data.email.trim().toLowerCase() ||
+      this.findByEmail(data.email)
+    ) {
+      return {
+        success: false,
+        error: "An account with this email already exists",
+        errorCode: AuthErrorCode.EMAIL_TAKEN,
+      };
+    }
+
+    const failing = checkPasswordStrength(data.password, { email: data.email });
+    if (failing.length > 0) {
+      return {
+        success: false,
+        error: `Password must meet all requirements: ${failing
+          .map((rule) => rule.label.toLowerCase())
+          .join(", ")}`,
+        errorCode: AuthErrorCode.WEAK_PASSWORD,
+      };
+    }
+
+    const user = this.addUser({
+      email: data.email,
+      password: data.password,
+      firstName: data.firstName,
+      lastName: data.lastName,
+      role: invitation.role,
+      contractorId: invitation.contractorId,
+      contractorName: invitation.contractorName,
+      lastLogin: new Date(this.now()),
+    });
+    delete this.invitations[data.invitationToken.trim()];
+
+    if (this.requireEmailConfirmation) {
+      this.users.get(user.id)!.emailConfirmed = false;
+      this.sendAuthLink(user.id, "signup");
+      return {
+        success: false,
+        error: "Check your email to confirm your account, then sign in.",
+        errorCode: AuthErrorCode.EMAIL_CONFIRMATION_REQUIRED,
+      };
+    }
+
+    this.session = this.createSession(user.id, true);
+    return this.emitCurrentSession();
+  }
+
+  async logout(options: LogoutOptions = {}): Promise<AuthResult<void>> {
+    // There's only ever one in-memory device, so allDevices changes nothing
+    this.session = null;
+    this.challenge = null;
+    this.emit(null);
+    return { success: true };
+  }
+
+  async getCurrentSession(): Promise<AuthResult<AuthSession>> {
+    if (!this.session) {
+      return {
+        success: false,
+        error: "No active session",
+        errorCode: AuthErrorCode.NOT_AUTHENTICATED,
+      };
+    }
+    if (this.session.expiresAt <= this.now()) {
+      this.session = null;
+      this.emit(null);
+      return {
+        success: false,
+        error: "Session expired",
+        errorCode: AuthErrorCode.SESSION_EXPIRED,
+      };
+    }
+    if (!this.session.mfaVerified) {
+      return {
+        success: false,
+        error: "Two-factor verification required",
+        errorCode: AuthErrorCode.MFA_REQUIRED,
+      };
+    }
+
+    const record = this.users.get(this.session.userId);
+    if (!record) {
+      return {
+        success: false,
+        error: "Failed to load user profile",
+        errorCode: AuthErrorCode.PROFILE_MISSING,
+      };
+    }
+
+    const access = this.checkAccountAccess(record.user);
+    if (!access.success) {
+      this.session = null;
+      this.emit(null, access.errorCode);
+      return access;
+    }
+
+    return {
+      success: true,
+      data: this.toAuthSession(this.session, record),
+    };
+  }
+
+  async refreshSession(): Promise<AuthResult<AuthSession>> {
+    if (!this.session) {
+      return {
+        success: false,
+        error: "Failed to refresh session",
+        errorCode: AuthErrorCode.SESSION_EXPIRED,
+      };
+    }
+
+    // Refresh tokens outlive access tokens, so an expired session refreshes
+    this.session = this.createSession(
+      this.session.userId,
+      this.session.mfaVerified
+    );
+    return this.emitCurrentSession();
+  }
+
+  async changePassword(data: PasswordChangeData): Promise<AuthResult<void>> {
+    const record = this.currentRecord();
+    if (!record) {
+      return {
+        success: false,
+        error: "No authenticated user",
+        errorCode: AuthErrorCode.NOT_AUTHENTICATED,
+      };
+    }
+
+    const failing = checkPasswordStrength(data.newPassword, {
+      email: record.user.email,
+      currentPassword: data.currentPassword,
+    });
+    if (failing.length > 0) {
+      return {
+        success: false,
+        error: `New password must meet all requirements: ${failing
+          .map((rule) => rule.label.toLowerCase())
+          .join(", ")}`,
+        errorCode: AuthErrorCode.WEAK_PASSWORD,
+      };
+    }
+    if (record.password !== data.currentPassword) {
+      return {
+        success: false,
+        error: "Current password is incorrect",
+        errorCode: AuthErrorCode.INVALID_CURRENT_PASSWORD,
+      };
+    }
+
+    record.password = data.newPassword;
+    record.user.mustChangePassword = false;
+    return { success: true };
+  }
+
+  async resetPassword(email: string): Promise<AuthResult<void>> {
+    // Like Supabase, succeed whether or not the address exists
+    this.passwordResetRequests.push(email.trim().toLowerCase());
+    const record = this.findByEmail(email);
+    if (record) {
+      this.sendAuthLink(record.user.id, "recovery");
+    }
+    return { success: true };
+  }
+
+  async setNewPassword(newPassword: string): Promise<AuthResult<void>> {
+    const record = this.currentRecord();
+    if (!record) {
+      return {
+        success: false,
+        error: "No authenticated user",
+        errorCode: AuthErrorCode.NOT_AUTHENTICATED,
+      };
+    }
+
+    const failing = checkPasswordStrength(newPassword, {
+      email: record.user.email,
+    });
+    if (failing.length > 0) {
+      return {
+        success: false,
+        error: `New password must meet all requirements: ${failing
+          .map((rule) => rule.label.toLowerCase())
+          .join(", ")}`,
+        errorCode: AuthErrorCode.WEAK_PASSWORD,
+      };
+    }
+
+    record.password = newPassword;
+    record.user.mustChangePassword = false;
+    return { success: true };
+  }
+
+  async completeAuthLink(url: string): Promise<AuthResult<AuthSession>> {
+    const { tokenHash } = parseAuthLink(url);
+    const link = tokenHash && this.linkTokens.get(tokenHash);
+    const record = link && this.users.get(link.userId);
+    if (!link || !record) {
+      return {
+        success: false,
+        error: "Email link is invalid or has expired",
+        errorCode: AuthErrorCode.INVALID_AUTH_LINK,
+      };
+    }
+
+    // Links are single use
+    this.linkTokens.delete(tokenHash);
+    record.emailConfirmed = true;
+
+    const access = this.checkAccountAccess(record.user);
+    if (!access.success) {
+      return access;
+    }
+
+    this.session = this.createSession(record.user.id, !record.mfaEnrolled);
+    if (record.mfaEnrolled) {
+      return this.startMfaChallenge(record);
+    }
+
+    record.user.lastLogin = new Date(this.now());
+    return this.emitCurrentSession();
+  }
+
+  async resendConfirmation(email: string): Promise<AuthResult<void>> {
+    const record = this.findByEmail(email);
+    if (record && !record.emailConfirmed) {
+      this.sendAuthLink(record.user.id, "signup");
+    }
+    return { success: true };
+  }
+
+  async verifyMfaChallenge(
+    challenge: MfaChallenge,
+    code: string
+  ): Promise<AuthResult<AuthSession>> {
+    const record = this.session && this.users.get(this.session.userId);
+    if (!record || !this.challenge) {
+      return {
+        success: false,
+        error: "No two-factor verification in progress",
+        errorCode: AuthErrorCode.INVALID_MFA_CODE,
+      };
+    }
+
+    if (this.challenge.expiresAt.getTime() < this.now()) {
+      const renewed = this.startMfaChallenge(record);
+      if (!renewed.mfaChallenge) {
+        return renewed;
+      }
+      challenge = renewed.mfaChallenge;
+    }
+
+    if (
+      challenge.challengeId !== this.challenge.challengeId ||
+      code.trim() !== this.totpCode
+    ) {
+      return {
+        success: false,
+        error: "Invalid verification code",
+        errorCode: AuthErrorCode.INVALID_MFA_CODE,
+        mfaChallenge: this.challenge,
+      };
+    }
+
+    this.challenge = null;
+    this.session = this.createSession(record.user.id, true);
+    record.user.lastLogin = new Date(this.now());
+    return this.emitCurrentSession();
+  }
+
+  async redeemRecoveryCode(code: string): Promise<AuthResult<AuthSession>> {
+    const record = this.session && this.users.get(this.session.userId);
+    const normalized = code.replace(/[^0-9a-f]/gi, "").toLowerCase();
+    const index = record
+      ? record.recoveryCodes.findIndex(
+          (candidate) => candidate.replace(/-/g, "") === normalized
+        )
+      : -1;
+
+    if (!record || index === -1) {
+      return {
+        success: false,
+        error: "Invalid or already used recovery code",
+        errorCode: AuthErrorCode.INVALID_RECOVERY_CODE,
+      };
+    }
+
+    // Same as the database function: burn the code and drop the factor
+    record.recoveryCodes.splice(index, 1);
+    record.mfaEnrolled = false;
+    this.challenge = null;
+    this.session = this.createSession(record.user.id, true);
+    record.user.lastLogin = new Date(this.now());
+    return this.emitCurrentSession();
+  }
+
+  async getMfaStatus(): Promise<AuthResult<MfaStatus>> {
+    const record = this.currentRecord();
+    if (!record) {
+      return {
+        success: false,
+        error: "No authenticated user",
+        errorCode: AuthErrorCode.NOT_AUTHENTICATED,
+      };
+    }
+
+    return {
+      success: true,
+      data: {
+        enrolled: record.mfaEnrolled,
+        required: this.isMfaRequired(record.user),
+      },
+    };
+  }
+
+  async enrollMfa(): Promise<AuthResult<MfaEnrollment>> {
+    if (!this.currentRecord()) {
+      return {
+        success: false,
+        error: "No authenticated user",
+        errorCode: AuthErrorCode.NOT_AUTHENTICATED,
+      };
+    }
+
+    this.pendingFactorId = this.nextId("factor");
+    return {
+      success: true,
+      data: {
+        factorId: this.pendingFactorId,
+        qrCode:
+          '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 1 1"><rect width="1" height="1" /></svg>',
+        secret: "JBSWY3DPEHPK3PXP",
+      },
+    };
+  }
+
+  async confirmMfaEnrollment(
+    factorId: string,
+    code: string
+  ): Promise<AuthResult<string[]>> {
+    const record = this.currentRecord();
+    if (!record || factorId !== this.pendingFactorId) {
+      return {
+        success: false,
+        error: "No enrollment in progress",
+        errorCode: AuthErrorCode.UNKNOWN,
+      };
+    }
+    if (code.trim() !== this.totpCode) {
+      return {
+        success: false,
+        error: "Invalid verification code",
+        errorCode: AuthErrorCode.INVALID_MFA_CODE,
+      };
+    }
+
+    this.pendingFactorId = null;
+    record.mfaEnrolled = true;
+    // Predictable but unique codes in the real xxxxx-xxxxx format
+    record.recoveryCodes = Array.from({ length: 10 }, () => {
+      const hex = (++this.sequence).toString(16).padStart(10, "0");
+      return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+    });
+    return {
+      success: true,
+      data: [...record.recoveryCodes],
+    };
+  }
+
+  async disableMfa(): Promise<AuthResult<void>> {
+    const record = this.currentRecord();
+    if (!record) {
+      return {
+        success: false,
+        error: "No authenticated user",
+        errorCode: AuthErrorCode.NOT_AUTHENTICATED,
+      };
+    }
+    if (this.isMfaRequired(record.user)) {
+      return {
+        success: false,
+        error: "Your organization requires two-factor authentication",
+        errorCode: AuthErrorCode.MFA_REQUIRED_BY_POLICY,
+      };
+    }
+
+    record.mfaEnrolled = false;
+    record.recoveryCodes = [];
+    return { success: true };
+  }
+
+  async getCurrentUser(): Promise<AuthResult<User>> {
+    const record = this.currentRecord();
+    if (!record) {
+      return {
+        success: false,
+        error: "No authenticated user",
+        errorCode: AuthErrorCode.NOT_AUTHENTICATED,
+      };
+    }
+
+    return {
+      success: true,
+      data: this.toUser(record),
+    };
+  }
+
+  async updateProfile(updates: Partial<User>): Promise<AuthResult<User>> {
+    const record = this.currentRecord();
+    if (!record) {
+      return {
+        success: false,
+        error: "No authenticated user",
+        errorCode: AuthErrorCode.NOT_AUTHENTICATED,
+      };
+    }
+
+    // Same whitelist as the Supabase implementation
+    if (updates.firstName !== undefined) {
+      record.user.firstName = updates.firstName;
+    }
+    if (updates.lastName !== undefined) {
+      record.user.lastName = updates.lastName;
+    }
+
+    return {
+      success: true,
+      data: this.toUser(record),
+    };
+  }
+
+  onAuthStateChange(
+    callback: (session: AuthSession | null, reason?: AuthErrorCode) => void
+  ): () => void {
+    this.listeners.add(callback);
+    return () => {
+      this.listeners.delete(callback);
+    };
+  }
+
+  async isAuthenticated(): Promise<boolean> {
+    const session = await this.getCurrentSession();
+    return session.success;
+  }
+
+  async getAuthHeaders(): Promise<Record<string, string>> {
+    const session = await this.getCurrentSession();
+    if (session.success && session.data) {
+      return {
+        Authorization: `Bearer ${session.data.accessToken}`,
+      };
+    }
+    return {};
+  }
+
+  // Private helper methods
+  private nextId(prefix: string): string {
+    this.sequence++;
+    return `${prefix}-${this.sequence}`;
+  }
+
+  private findByEmail(email: string): UserRecord | undefined {
+    const normalized = email.trim().toLowerCase();
+    return Array.from(this.users.values()).find(
+      (record) => record.user.email === normalized
+    );
+  }
+
+  // The signed-in user, once any second factor has been verified
+  private currentRecord(): UserRecord | null {
+    if (
+      !this.session ||
+      !this.session.mfaVerified ||
+      this.session.expiresAt <= this.now()
+    ) {
+      return null;
+    }
+    return this.users.get(this.session.userId) || null;
+  }
+
+  private sendAuthLink(userId: string, type: "signup" | "recovery") {
+    const token = this.nextId("link");
+    this.linkTokens.set(token, { userId, type });
+    const path =
+      type === "signup" ? EMAIL_CONFIRMATION_PATH : PASSWORD_RESET_PATH;
+    this.sentAuthLinks.push(`${path}?token_hash=${token}&type=${type}`);
+  }
+
+  private createSession(userId: string, mfaVerified: boolean): SessionRecord {
+    return {
+      userId,
+      accessToken: this.nextId("access"),
+      refreshToken: this.nextId("refresh"),
+      expiresAt: this.now() + this.sessionTtlMs,
+      mfaVerified,
+    };
+  }
+
+  private checkAccountAccess(user: User): AuthResult<AuthSession> {
+    if (!user.isActive) {
+      return {
+        success: false,
+        error: "This account has been deactivated",
+        errorCode: AuthErrorCode.ACCOUNT_INACTIVE,
+      };
+    }
+    if (
+      user.role !== "super_admin" &&
+      this.suspendedContractorIds.has(user.contractorId)
+    ) {
+      return {
+        success: false,
+        error:
+          "Your organization's account is suspended. Contact Inspectrix support.",
+        errorCode: AuthErrorCode.CONTRACTOR_SUSPENDED,
+      };
+    }
+    return { success: true };
+  }
+
+  private isMfaRequired(user: User): boolean {
+    return user.role === "manager" && this.requireManagerMfa;
+  }
+
+  private toUser(record: UserRecord): User {
+    return {
+      ...record.user,
+      mustEnrollMfa: this.isMfaRequired(record.user) && !record.mfaEnrolled,
+    };
+  }
+
+  private toAuthSession(session: SessionRecord, record: UserRecord) {
+    return {
+      user: this.toUser(record),
+      accessToken: session.accessToken,
+      refreshToken: session.refreshToken,
+      expiresAt: new Date(session.expiresAt),
+    };
+  }
+
+  private startMfaChallenge(record: UserRecord): AuthResult<AuthSession> {
+    this.challenge = {
+      factorId: `factor-${record.user.id}`,
+      challengeId: this.nextId("challenge"),
+      expiresAt: new Date(this.now() + CHALLENGE_TTL_MS),
+    };
+    return {
+      success: false,
+      error: "Enter the code from your authenticator app",
+      errorCode: AuthErrorCode.MFA_REQUIRED,
+      mfaChallenge: this.challenge,
+    };
+  }
+
+  private async emitCurrentSession(): Promise<AuthResult<AuthSession>> {
+    const result = await this.getCurrentSession();
+    this.emit(result.success ? result.data! : null);
+    return result;
+  }
+
+  private emit(session: AuthSession | null, reason?: AuthErrorCode) {
+    this.listeners.forEach((listener) => listener(session, reason));
+  }
+}
@@ -0,0 +1,43 @@
+// services/auth/ProfileCache.ts
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { User } from "../../types/auth";
+
+const PROFILE_KEY = "@inspectrix/auth/profile";
+
+// The signed-in user's profile as last loaded from the server, so a stored
+// session still opens offline when user_profiles can't be reached
+export class ProfileCache {
+  async load(userId: string): Promise<User | null> {
+    try {
+      const raw = await AsyncStorage.getItem(PROFILE_KEY);
+      if (!raw) {
+        return null;
+      }
+      const user = JSON.parse(raw) as User;
+      // Another account's profile never stands in for this one
+      if (user.id !== userId) {
+        return null;
+      }
+      return {
+        ...user,
+        lastLogin: user.lastLogin ? new Date(user.lastLogin) : undefined,
+        createdAt: new Date(user.createdAt),
+      };
+    } catch (error) {
+      console.error("Failed to read cached profile:", error);
+      return null;
+    }
+  }
+
+  async save(user: User): Promise<void> {
+    try {
+      await AsyncStorage.setItem(PROFILE_KEY, JSON.stringify(user));
+    } catch (error) {
+      console.error("Failed to cache profile:", error);
+    }
+  }
+
+  async clear(): Promise<void> {
+    await AsyncStorage.removeItem(PROFILE_KEY);
+  }
+}
@@ -8,9 +8,39 @@ import {
   AuthSession,
   User,
   PasswordChangeData,
+  LogoutOptions,
+  MfaChallenge,
+  MfaEnrollment,
+  MfaStatus,
+  AuthErrorCode,
 } from "../../types/auth";
+import {
+  AuthResponse,
+  EmailOtpType,
+  Session,
+  User as SupabaseUser,
+} from "@supabase/supabase-js";
+import { isAccessRevoked, toAuthErrorCode } from "./authErrors";
+import {
+  buildAuthLinkUrl,
+  EMAIL_CONFIRMATION_PATH,
+  parseAuthLink,
+  PASSWORD_RESET_PATH,
+} from "./authLinks";
+import { checkPasswordStrength } from "./passwordPolicy";
+import {
+  generateRecoveryCodes,
+  hashRecoveryCode,
+  hasVerifiedTotp,
+  isMfaRequiredFor,
+  needsMfaChallenge,
+} from "./mfa";
+import { hashInvitationToken } from "../invitations/invitationToken";
+import { ProfileCache } from "./ProfileCache";
 
 export class SupabaseAuthService implements IAuthService {
+  private profileCache = new ProfileCache();
+
   async login(credentials: LoginCredentials): Promise<AuthResult<AuthSession>> {
     try {
       const { data: authData, error: authError } =
@@ -23,7 +53,7 @@ export class SupabaseAuthService implements IAuthService {
         return {
           success: false,
           error: authError.message,
-          errorCode: authError.name,
+          errorCode: toAuthErrorCode(authError),
         };
       }
 
@@ -31,47 +61,36 @@ export class SupabaseAuthService implements IAuthService {
         return {
           success: false,
           error: "Authentication failed",
+          errorCode: AuthErrorCode.UNKNOWN,
         };
       }
 
-      // Get user profile with contractor info
-      const userResult = await this.getUserProfile(authData.user.id);
-      if (!userResult.success || !userResult.data) {
-        return {
-          success: false,
-          error: "Failed to load user profile",
-        };
-      }
-
-      const session: AuthSession = {
-        user: userResult.data,
-        accessToken: authData.session.access_token,
-        refreshToken: authData.session.refresh_token,
-        expiresAt: new Date(authData.session.expires_at! * 1000),
-      };
-
-      return {
-        success: true,
-        data: session,
-      };
+      return this.completeSignIn(authData.user, authData.session);
     } catch (error: any) {
       return {
         success: false,
         error: error.message || "Login failed",
+        errorCode: toAuthErrorCode(error),
       };
     }
   }
 
   async register(data: RegisterData): Promise<AuthResult<AuthSession>> {
     try {
-      // Step 1: Create auth user
+      const tokenHash = await hashInvitationToken(data.invitationToken);
+
+      // Step 1: Create auth user. The invitation hash rides along in the
+      // metadata so the profile can still be created on first sign-in if
+      // the project requires email confirmation first.
       const { data: authData, error: authError } = await supabase.auth.signUp({
         email: data.email,
         password: data.password,
         options: {
+          emailRedirectTo: buildAuthLinkUrl(EMAIL_CONFIRMATION_PATH),
           data: {
             first_name: data.firstName,
             last_name: data.lastName,
+            invitation_token_hash: tokenHash,
           },
         },
       });
@@ -80,7 +99,7 @@ export class SupabaseAuthService implements IAuthService {
         return {
           success: false,
           error: authError.message,
-          errorCode: authError.name,
+          errorCode: toAuthErrorCode(authError),
         };
       }
 
@@ -88,31 +107,29 @@ export class SupabaseAuthService implements IAuthService {
         return {
           success: false,
           error: "Failed to create user account",
+          errorCode: AuthErrorCode.UNKNOWN,
         };
       }
 
-      // Step 2: Create user profile
-      // For now, default to Jim's contractor for testing
-      // TODO: Implement invitation-based contractor assignment
-      const contractorId =
-        data.contractorId || (await this.getDefaultContractorId());
-
-      const { error: profileError } = await supabase
-        .from("user_profiles")
-        .insert({
-          id: authData.user.id,
-          contractor_id: contractorId,
-          email: data.email,
-          first_name: data.firstName,
-          last_name: data.lastName,
-          role: data.role || "inspector",
-          must_change_password: false,
-        });
+      if (!authData.session) {
+        return {
+          success: false,
+          error: "Check your email to confirm your account, then sign in.",
+          errorCode: AuthErrorCode.EMAIL_CONFIRMATION_REQUIRED,
+        };
+      }
 
-      if (profileError) {
+      // Step 2: Create user profile from the invitation
+      const profileResult = await this.acceptInvitation(
+        tokenHash,
+        data.firstName,
+        data.lastName
+      );
+      if (!profileResult.success) {
         return {
           success: false,
-          error: `Profile creation failed: ${profileError.message}`,
+          error: profileResult.error,
+          errorCode: profileResult.errorCode,
         };
       }
 
@@ -122,13 +139,17 @@ export class SupabaseAuthService implements IAuthService {
         return {
           success: false,
           error: "Failed to load user profile after registration",
+          errorCode: userResult.errorCode || AuthErrorCode.PROFILE_MISSING,
         };
       }
 
       const session: AuthSession = {
         user: userResult.data,
-        accessToken: authData.session?.access_token || "",
-        refreshToken: authData.session?.refresh_token,
+        accessToken: authData.session.access_token,
+        refreshToken: authData.session.refresh_token,
+        expiresAt: authData.session.expires_at
+          ? new Date(authData.session.expires_at * 1000)
+          : undefined,
       };
 
       return {
@@ -139,26 +160,33 @@ export class SupabaseAuthService implements IAuthService {
       return {
         success: false,
         error: error.message || "Registration failed",
+        errorCode: toAuthErrorCode(error),
       };
     }
   }
 
-  async logout(): Promise<AuthResult<void>> {
+  async logout(options: LogoutOptions = {}): Promise<AuthResult<void>> {
     try {
-      const { error } = await supabase.auth.signOut();
+      // supabase-js defaults to "global", which would sign out every device
+      const { error } = await supabase.auth.signOut({
+        scope: options.allDevices ? "global" : "local",
+      });
 
       if (error) {
         return {
           success: false,
           error: error.message,
+          errorCode: toAuthErrorCode(error),
         };
       }
 
+      await this.profileCache.clear();
       return { success: true };
     } catch (error: any) {
       return {
         success: false,
         error: error.message || "Logout failed",
+        errorCode: toAuthErrorCode(error),
       };
     }
   }
@@ -174,6 +202,7 @@ export class SupabaseAuthService implements IAuthService {
         return {
           success: false,
           error: error.message,
+          errorCode: toAuthErrorCode(error),
         };
       }
 
@@ -181,14 +210,37 @@ export class SupabaseAuthService implements IAuthService {
         return {
           success: false,
           error: "No active session",
+          errorCode: AuthErrorCode.NOT_AUTHENTICATED,
+        };
+      }
+
+      if (needsMfaChallenge(session)) {
+        return {
+          success: false,
+          error: "Two-factor verification required",
+          errorCode: AuthErrorCode.MFA_REQUIRED,
         };
       }
 
-      const userResult = await this.getUserProfile(session.user.id);
+      const userResult = await this.getUserProfile(
+        session.user.id,
+        session.user
+      );
       if (!userResult.success || !userResult.data) {
         return {
           success: false,
           error: "Failed to load user profile",
+          errorCode: userResult.errorCode || AuthErrorCode.PROFILE_MISSING,
+        };
+      }
+
+      const access = await this.checkAccountAccess(userResult.data);
+      if (!access.success) {
+        await this.signOutIfRevoked(access.errorCode);
+        return {
+          success: false,
+          error: access.error,
+          errorCode: access.errorCode,
         };
       }
 
@@ -207,6 +259,7 @@ export class SupabaseAuthService implements IAuthService {
       return {
         success: false,
         error: error.message || "Failed to get session",
+        errorCode: toAuthErrorCode(error),
       };
     }
   }
@@ -222,6 +275,7 @@ export class SupabaseAuthService implements IAuthService {
         return {
           success: false,
           error: error?.message || "Failed to refresh session",
+          errorCode: toAuthErrorCode(error),
         };
       }
 
@@ -230,40 +284,89 @@ export class SupabaseAuthService implements IAuthService {
       return {
         success: false,
         error: error.message || "Session refresh failed",
+        errorCode: toAuthErrorCode(error),
       };
     }
   }
 
   async changePassword(data: PasswordChangeData): Promise<AuthResult<void>> {
     try {
-      const { error } = await supabase.auth.updateUser({
-        password: data.newPassword,
+      const {
+        data: { user },
+        error: userError,
+      } = await supabase.auth.getUser();
+
+      if (userError || !user?.email) {
+        return {
+          success: false,
+          error: userError?.message || "No authenticated user",
+          errorCode: userError
+            ? toAuthErrorCode(userError)
+            : AuthErrorCode.NOT_AUTHENTICATED,
+        };
+      }
+
+      const weaknesses = checkPasswordStrength(data.newPassword, {
+        email: user.email,
+        currentPassword: data.currentPassword,
       });
+      if (weaknesses.length > 0) {
+        return {
+          success: false,
+          error: `Password requirements not met: ${weaknesses
+            .map((rule) => rule.label.toLowerCase())
+            .join(", ")}`,
+          errorCode: AuthErrorCode.WEAK_PASSWORD,
+        };
+      }
 
-      if (error) {
+      // Supabase lets a signed-in session set a new password without the
+      // old one, so confirm it ourselves before going any further. Checking
+      // on the database keeps the current session; signing in again would
+      // replace an MFA-verified session with a password-only one.
+      const { data: matches, error: verifyError } = await supabase.rpc(
+        "verify_password",
+        { p_password: data.currentPassword }
+      );
+
+      if (verifyError) {
         return {
           success: false,
-          error: error.message,
+          error: verifyError.message,
+          errorCode: toAuthErrorCode(verifyError),
         };
       }
 
-      return { success: true };
+      if (!matches) {
+        return {
+          success: false,
+          error: "Current password is incorrect",
+          errorCode: AuthErrorCode.INVALID_CURRENT_PASSWORD,
+        };
+      }
+
+      return this.applyNewPassword(user.id, data.newPassword);
     } catch (error: any) {
       return {
         success: false,
         error: error.message || "Password change failed",
+        errorCode: toAuthErrorCode(error),
       };
     }
   }
 
   async resetPassword(email: string): Promise<AuthResult<void>> {
     try {
-      const { error } = await supabase.auth.resetPasswordForEmail(email);
+      const { error } = await supabase.auth.resetPasswordForEmail(
+        email.trim(),
+        { redirectTo: buildAuthLinkUrl(PASSWORD_RESET_PATH) }
+      );
 
       if (error) {
         return {
           success: false,
           error: error.message,
+          errorCode: toAuthErrorCode(error),
         };
       }
 
@@ -272,6 +375,404 @@ export class SupabaseAuthService implements IAuthService {
       return {
         success: false,
         error: error.message || "Password reset failed",
+        errorCode: toAuthErrorCode(error),
+      };
+    }
+  }
+  async setNewPassword(newPassword: string): Promise<AuthResult<void>> {
+    try {
+      const {
+        data: { user },
+        error: userError,
+      } = await supabase.auth.getUser();
+
+      if (userError || !user?.email) {
+        return {
+          success: false,
+          error: userError?.message || "No authenticated user",
+          errorCode: userError
+            ? toAuthErrorCode(userError)
+            : AuthErrorCode.NOT_AUTHENTICATED,
+        };
+      }
+
+      const weaknesses = checkPasswordStrength(newPassword, {
+        email: user.email,
+      });
+      if (weaknesses.length > 0) {
+        return {
+          success: false,
+          error: `Password requirements not met: ${weaknesses
+            .map((rule) => rule.label.toLowerCase())
+            .join(", ")}`,
+          errorCode: AuthErrorCode.WEAK_PASSWORD,
+        };
+      }
+
+      // The recovery link already proved control of the mailbox, so no
+      // current password is asked for
+      return this.applyNewPassword(user.id, newPassword);
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || "Password reset failed",
+        errorCode: toAuthErrorCode(error),
+      };
+    }
+  }
+
+  async completeAuthLink(url: string): Promise<AuthResult<AuthSession>> {
+    try {
+      const link = parseAuthLink(url);
+
+      if (link.errorCode || link.errorDescription) {
+        const errorCode = toAuthErrorCode({ code: link.errorCode });
+        return {
+          success: false,
+          error: link.errorDescription || "Invalid link",
+          errorCode:
+            errorCode === AuthErrorCode.UNKNOWN
+              ? AuthErrorCode.INVALID_AUTH_LINK
+              : errorCode,
+        };
+      }
+
+      let response: AuthResponse;
+      if (link.code) {
+        response = await supabase.auth.exchangeCodeForSession(link.code);
+      } else if (link.tokenHash && link.type) {
+        response = await supabase.auth.verifyOtp({
+          token_hash: link.tokenHash,
+          type: link.type as EmailOtpType,
+        });
+      } else if (link.accessToken && link.refreshToken) {
+        response = await supabase.auth.setSession({
+          access_token: link.accessToken,
+          refresh_token: link.refreshToken,
+        });
+      } else {
+        return {
+          success: false,
+          error: "Link has no token",
+          errorCode: AuthErrorCode.INVALID_AUTH_LINK,
+        };
+      }
+
+      const { data, error } = response;
+      if (error || !data.user || !data.session) {
+        const errorCode = toAuthErrorCode(error);
+        return {
+          success: false,
+          error: error?.message || "Invalid link",
+          errorCode:
+            errorCode === AuthErrorCode.UNKNOWN
+              ? AuthErrorCode.INVALID_AUTH_LINK
+              : errorCode,
+        };
+      }
+
+      return this.completeSignIn(data.user, data.session);
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || "Failed to open link",
+        errorCode: toAuthErrorCode(error),
+      };
+    }
+  }
+
+  async resendConfirmation(email: string): Promise<AuthResult<void>> {
+    try {
+      const { error } = await supabase.auth.resend({
+        type: "signup",
+        email: email.trim(),
+        options: {
+          emailRedirectTo: buildAuthLinkUrl(EMAIL_CONFIRMATION_PATH),
+        },
+      });
+
+      if (error) {
+        return {
+          success: false,
+          error: error.message,
+          errorCode: toAuthErrorCode(error),
+        };
+      }
+
+      return { success: true };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || "Failed to resend confirmation",
+        errorCode: toAuthErrorCode(error),
+      };
+    }
+  }
+
+  async verifyMfaChallenge(
+    challenge: MfaChallenge,
+    code: string
+  ): Promise<AuthResult<AuthSession>> {
+    try {
+      if (challenge.expiresAt.getTime() < Date.now()) {
+        // Challenges are short-lived; issue a fresh one for the same factor
+        const renewed = await this.startMfaChallenge();
+        if (!renewed.mfaChallenge) {
+          return renewed;
+        }
+        challenge = renewed.mfaChallenge;
+      }
+
+      const { error } = await supabase.auth.mfa.verify({
+        factorId: challenge.factorId,
+        challengeId: challenge.challengeId,
+        code: code.trim(),
+      });
+
+      if (error) {
+        return {
+          success: false,
+          error: "Invalid verification code",
+          errorCode: AuthErrorCode.INVALID_MFA_CODE,
+          mfaChallenge: challenge,
+        };
+      }
+
+      // The session is now aal2
+      const result = await this.getCurrentSession();
+      if (result.success && result.data) {
+        await this.recordLogin(result.data.user.id);
+      }
+      return result;
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || "Verification failed",
+        errorCode: toAuthErrorCode(error),
+      };
+    }
+  }
+
+  async redeemRecoveryCode(code: string): Promise<AuthResult<AuthSession>> {
+    try {
+      // The database function marks the code used and removes the user's
+      // factors, leaving a plain password session. Contractors that require
+      // MFA then send the user straight back through enrollment.
+      const { data: redeemed, error } = await supabase.rpc(
+        "redeem_mfa_recovery_code",
+        { p_code_hash: await hashRecoveryCode(code) }
+      );
+
+      if (error) {
+        return {
+          success: false,
+          error: error.message,
+          errorCode: toAuthErrorCode(error),
+        };
+      }
+
+      if (!redeemed) {
+        return {
+          success: false,
+          error: "Invalid or already used recovery code",
+          errorCode: AuthErrorCode.INVALID_RECOVERY_CODE,
+        };
+      }
+
+      // Pick up the factor removal in the session's user object
+      await supabase.auth.refreshSession();
+      const result = await this.getCurrentSession();
+      if (result.success && result.data) {
+        await this.recordLogin(result.data.user.id);
+      }
+      return result;
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || "Recovery failed",
+        errorCode: toAuthErrorCode(error),
+      };
+    }
+  }
+
+  async getMfaStatus(): Promise<AuthResult<MfaStatus>> {
+    try {
+      const [factors, currentUser] = await Promise.all([
+        supabase.auth.mfa.listFactors(),
+        this.getCurrentUser(),
+      ]);
+
+      if (factors.error) {
+        return {
+          success: false,
+          error: factors.error.message,
+          errorCode: toAuthErrorCode(factors.error),
+        };
+      }
+      if (!currentUser.success || !currentUser.data) {
+        return {
+          success: false,
+          error: currentUser.error || "No authenticated user",
+          errorCode: currentUser.errorCode,
+        };
+      }
+
+      return {
+        success: true,
+        data: {
+          enrolled: factors.data.totp.length > 0,
+          required: await this.isMfaRequired(currentUser.data),
+        },
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || "Failed to load two-factor status",
+        errorCode: toAuthErrorCode(error),
+      };
+    }
+  }
+
+  async enrollMfa(): Promise<AuthResult<MfaEnrollment>> {
+    try {
+      // Abandoned enrollments would otherwise collide on the friendly name
+      const { data: factors } = await supabase.auth.mfa.listFactors();
+      for (const factor of factors?.all || []) {
+        if (factor.factor_type === "totp" && factor.status === "unverified") {
+          await supabase.auth.mfa.unenroll({ factorId: factor.id });
+        }
+      }
+
+      const { data, error } = await supabase.auth.mfa.enroll({
+        factorType: "totp",
+        friendlyName: "Authenticator app",
+      });
+
+      if (error || !data) {
+        return {
+          success: false,
+          error: error?.message || "Failed to start enrollment",
+          errorCode: toAuthErrorCode(error),
+        };
+      }
+
+      return {
+        success: true,
+        data: {
+          factorId: data.id,
+          // Older GoTrue versions return a data: URL rather than bare SVG
+          qrCode: data.totp.qr_code.replace(/^data:image\/svg\+xml;utf-8,/, ""),
+          secret: data.totp.secret,
+        },
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || "Failed to start enrollment",
+        errorCode: toAuthErrorCode(error),
+      };
+    }
+  }
+
+  async confirmMfaEnrollment(
+    factorId: string,
+    code: string
+  ): Promise<AuthResult<string[]>> {
+    try {
+      const { error } = await supabase.auth.mfa.challengeAndVerify({
+        factorId,
+        code: code.trim(),
+      });
+
+      if (error) {
+        return {
+          success: false,
+          error: "Invalid verification code",
+          errorCode: AuthErrorCode.INVALID_MFA_CODE,
+        };
+      }
+
+      const codes = generateRecoveryCodes();
+      const { error: storeError } = await supabase.rpc(
+        "replace_mfa_recovery_codes",
+        {
+          p_code_hashes: await Promise.all(codes.map(hashRecoveryCode)),
+        }
+      );
+
+      if (storeError) {
+        return {
+          success: false,
+          error: `Two-factor is on, but saving recovery codes failed: ${storeError.message}`,
+          errorCode: toAuthErrorCode(storeError),
+        };
+      }
+
+      return {
+        success: true,
+        data: codes,
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || "Enrollment failed",
+        errorCode: toAuthErrorCode(error),
+      };
+    }
+  }
+
+  async disableMfa(): Promise<AuthResult<void>> {
+    try {
+      const currentUser = await this.getCurrentUser();
+      if (!currentUser.success || !currentUser.data) {
+        return {
+          success: false,
+          error: "No authenticated user",
+          errorCode: AuthErrorCode.NOT_AUTHENTICATED,
+        };
+      }
+
+      if (await this.isMfaRequired(currentUser.data)) {
+        return {
+          success: false,
+          error: "Your organization requires two-factor authentication",
+          errorCode: AuthErrorCode.MFA_REQUIRED_BY_POLICY,
+        };
+      }
+
+      const { data: factors, error: listError } =
+        await supabase.auth.mfa.listFactors();
+      if (listError) {
+        return {
+          success: false,
+          error: listError.message,
+          errorCode: toAuthErrorCode(listError),
+        };
+      }
+
+      for (const factor of factors.all) {
+        const { error } = await supabase.auth.mfa.unenroll({
+          factorId: factor.id,
+        });
+        if (error) {
+          return {
+            success: false,
+            error: error.message,
+            errorCode: toAuthErrorCode(error),
+          };
+        }
+      }
+
+      await supabase.rpc("replace_mfa_recovery_codes", { p_code_hashes: [] });
+      // Drop back to an aal1 token now that no factor backs aal2
+      await supabase.auth.refreshSession();
+
+      return { success: true };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || "Failed to disable two-factor",
+        errorCode: toAuthErrorCode(error),
       };
     }
   }
@@ -287,14 +788,18 @@ export class SupabaseAuthService implements IAuthService {
         return {
           success: false,
           error: error?.message || "No authenticated user",
+          errorCode: error
+            ? toAuthErrorCode(error)
+            : AuthErrorCode.NOT_AUTHENTICATED,
         };
       }
 
-      return this.getUserProfile(user.id);
+      return this.getUserProfile(user.id, user);
     } catch (error: any) {
       return {
         success: false,
         error: error.message || "Failed to get current user",
+        errorCode: toAuthErrorCode(error),
       };
     }
   }
@@ -306,6 +811,7 @@ export class SupabaseAuthService implements IAuthService {
         return {
           success: false,
           error: "No authenticated user",
+          errorCode: AuthErrorCode.NOT_AUTHENTICATED,
         };
       }
 
@@ -330,6 +836,7 @@ export class SupabaseAuthService implements IAuthService {
         return {
           success: false,
           error: error.message,
+          errorCode: toAuthErrorCode(error),
         };
       }
 
@@ -338,19 +845,28 @@ export class SupabaseAuthService implements IAuthService {
       return {
         success: false,
         error: error.message || "Profile update failed",
+        errorCode: toAuthErrorCode(error),
       };
     }
   }
 
   onAuthStateChange(
-    callback: (session: AuthSession | null) => void
+    callback: (session: AuthSession | null, reason?: AuthErrorCode) => void
   ): () => void {
     const {
       data: { subscription },
     } = supabase.auth.onAuthStateChange(async (event, session) => {
-      if (session?.user) {
-        const userResult = await this.getUserProfile(session.user.id);
-        if (userResult.success && userResult.data) {
+      // Mid-login sessions stay invisible until the second factor is in
+      if (session?.user && !needsMfaChallenge(session)) {
+        const userResult = await this.getUserProfile(
+          session.user.id,
+          session.user
+        );
+        const access =
+          userResult.success && userResult.data
+            ? await this.checkAccountAccess(userResult.data)
+            : null;
+        if (userResult.success && userResult.data && access?.success) {
           const authSession: AuthSession = {
             user: userResult.data,
             accessToken: session.access_token,
@@ -360,6 +876,11 @@ export class SupabaseAuthService implements IAuthService {
               : undefined,
           };
           callback(authSession);
+        } else if (access && isAccessRevoked(access.errorCode)) {
+          // Deactivated or suspended since the last refresh. Signing out
+          // from inside this listener would wait on the auth lock it holds.
+          setTimeout(() => supabase.auth.signOut({ scope: "local" }), 0);
+          callback(null, access.errorCode);
         } else {
           callback(null);
         }
@@ -387,7 +908,10 @@ export class SupabaseAuthService implements IAuthService {
   }
 
   // Private helper methods
-  private async getUserProfile(userId: string): Promise<AuthResult<User>> {
+  private async getUserProfile(
+    userId: string,
+    authUser?: { factors?: { factor_type: string; status: string }[] }
+  ): Promise<AuthResult<User>> {
     try {
       const { data, error } = await supabase
         .from("user_profiles")
@@ -396,7 +920,8 @@ export class SupabaseAuthService implements IAuthService {
           *,
           contractors:contractor_id (
             id,
-            name
+            name,
+            require_manager_mfa
           )
         `
         )
@@ -404,12 +929,27 @@ export class SupabaseAuthService implements IAuthService {
         .single();
 
       if (error || !data) {
+        // Offline: fall back to the profile from the last successful load so
+        // a stored session isn't treated as signed out
+        if (toAuthErrorCode(error) === AuthErrorCode.NETWORK) {
+          const cached = await this.profileCache.load(userId);
+          if (cached) {
+            return { success: true, data: cached };
+          }
+        }
         return {
           success: false,
           error: error?.message || "User profile not found",
+          errorCode: error
+            ? toAuthErrorCode(error)
+            : AuthErrorCode.PROFILE_MISSING,
         };
       }
 
+      // Factors live on the auth user, not the profile row
+      const factorSource =
+        authUser || (await supabase.auth.getSession()).data.session?.user;
+
       const user: User = {
         id: data.id,
         email: data.email,
@@ -420,9 +960,15 @@ export class SupabaseAuthService implements IAuthService {
         contractorName: data.contractors?.name || "Unknown",
         isActive: data.is_active,
         mustChangePassword: data.must_change_password,
+        mustEnrollMfa:
+          isMfaRequiredFor(
+            data.role,
+            !!data.contractors?.require_manager_mfa
+          ) && !hasVerifiedTotp(factorSource),
         lastLogin: data.last_login ? new Date(data.last_login) : undefined,
         createdAt: new Date(data.created_at),
       };
+      await this.profileCache.save(user);
 
       return {
         success: true,
@@ -432,19 +978,256 @@ export class SupabaseAuthService implements IAuthService {
       return {
         success: false,
         error: error.message || "Failed to get user profile",
+        errorCode: toAuthErrorCode(error),
       };
     }
   }
 
-  private async getDefaultContractorId(): Promise<string> {
-    // For testing, return Jim's contractor ID
-    // TODO: Remove this and implement proper invitation system
+  // Shared tail of every sign-in path: loads the profile (creating it for
+  // invitees who had to confirm their email first), checks the account
+  // and asks for the second factor if one is enrolled
+  private async completeSignIn(
+    authUser: SupabaseUser,
+    authSession: Session
+  ): Promise<AuthResult<AuthSession>> {
+    // Get user profile with contractor info. Invitees who had to confirm
+    // their email first get their profile created here.
+    let userResult = await this.getUserProfile(authUser.id, authUser);
+    const pendingInvitation = authUser.user_metadata?.invitation_token_hash;
+    if (!userResult.success && pendingInvitation) {
+      const accepted = await this.acceptInvitation(
+        pendingInvitation,
+        authUser.user_metadata.first_name,
+        authUser.user_metadata.last_name
+      );
+      if (!accepted.success) {
+        return {
+          success: false,
+          error: accepted.error,
+          errorCode: accepted.errorCode,
+        };
+      }
+      userResult = await this.getUserProfile(authUser.id, authUser);
+    }
+    if (!userResult.success || !userResult.data) {
+      return {
+        success: false,
+        error: "Failed to load user profile",
+        errorCode: userResult.errorCode || AuthErrorCode.PROFILE_MISSING,
+      };
+    }
+
+    const access = await this.checkAccountAccess(userResult.data);
+    if (!access.success) {
+      await this.signOutIfRevoked(access.errorCode);
+      return {
+        success: false,
+        error: access.error,
+        errorCode: access.errorCode,
+      };
+    }
+
+    // Password alone isn't enough once a TOTP factor is verified; the
+    // caller finishes with verifyMfaChallenge
+    if (needsMfaChallenge(authSession)) {
+      return this.startMfaChallenge();
+    }
+
+    await this.recordLogin(userResult.data.id);
+
+    const session: AuthSession = {
+      user: userResult.data,
+      accessToken: authSession.access_token,
+      refreshToken: authSession.refresh_token,
+      expiresAt: new Date(authSession.expires_at! * 1000),
+    };
+
+    return {
+      success: true,
+      data: session,
+    };
+  }
+
+  // Deactivated users and users of a suspended contractor can't sign in.
+  // Super admins are exempt from suspension so the console stays reachable.
+  private async checkAccountAccess(user: User): Promise<AuthResult<void>> {
+    if (!user.isActive) {
+      return {
+        success: false,
+        error: "This account has been deactivated",
+        errorCode: AuthErrorCode.ACCOUNT_INACTIVE,
+      };
+    }
+
+    if (user.role === "super_admin") {
+      return { success: true };
+    }
+
+    const { data, error } = await supabase
+      .from("contractors")
+      .select("is_suspended")
+      .eq("id", user.contractorId)
+      .single();
+
+    // Suspension can't be checked offline. Let the stored session through;
+    // the next check once back online still ends it.
+    if (toAuthErrorCode(error) === AuthErrorCode.NETWORK) {
+      return { success: true };
+    }
+
+    if (error) {
+      return {
+        success: false,
+        error: error.message,
+        errorCode: toAuthErrorCode(error),
+      };
+    }
+
+    if (data?.is_suspended) {
+      return {
+        success: false,
+        error:
+          "Your organization's account is suspended. Contact Inspectrix support.",
+        errorCode: AuthErrorCode.CONTRACTOR_SUSPENDED,
+      };
+    }
+
+    return { success: true };
+  }
+
+  // Only a deactivated account or suspended contractor ends the session,
+  // and only on this device. A check that merely failed leaves it alone.
+  private async signOutIfRevoked(errorCode?: AuthErrorCode): Promise<void> {
+    if (isAccessRevoked(errorCode)) {
+      await supabase.auth.signOut({ scope: "local" });
+    }
+  }
+
+  // Sets the password and clears any pending temporary-password flag
+  private async applyNewPassword(
+    userId: string,
+    newPassword: string
+  ): Promise<AuthResult<void>> {
+    const { error } = await supabase.auth.updateUser({
+      password: newPassword,
+    });
+
+    if (error) {
+      return {
+        success: false,
+        error: error.message,
+        errorCode: toAuthErrorCode(error),
+      };
+    }
+
+    const { error: profileError } = await supabase
+      .from("user_profiles")
+      .update({
+        must_change_password: false,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", userId);
+
+    if (profileError) {
+      return {
+        success: false,
+        error: profileError.message,
+        errorCode: toAuthErrorCode(profileError),
+      };
+    }
+
+    return { success: true };
+  }
+
+  // Best effort; a failed write shouldn't block the sign-in
+  private async recordLogin(userId: string): Promise<void> {
+    const { error } = await supabase
+      .from("user_profiles")
+      .update({ last_login: new Date().toISOString() })
+      .eq("id", userId);
+
+    if (error) {
+      console.warn("Failed to record last login:", error.message);
+    }
+  }
+
+  private async startMfaChallenge(): Promise<AuthResult<AuthSession>> {
+    const { data: factors, error: listError } =
+      await supabase.auth.mfa.listFactors();
+    const factor = factors?.totp[0];
+    if (listError || !factor) {
+      return {
+        success: false,
+        error: listError?.message || "No verified two-factor method found",
+        errorCode: toAuthErrorCode(listError),
+      };
+    }
+
+    const { data, error } = await supabase.auth.mfa.challenge({
+      factorId: factor.id,
+    });
+    if (error || !data) {
+      return {
+        success: false,
+        error: error?.message || "Failed to start two-factor verification",
+        errorCode: toAuthErrorCode(error),
+      };
+    }
+
+    return {
+      success: false,
+      error: "Enter the code from your authenticator app",
+      errorCode: AuthErrorCode.MFA_REQUIRED,
+      mfaChallenge: {
+        factorId: factor.id,
+        challengeId: data.id,
+        expiresAt: new Date(data.expires_at * 1000),
+      },
+    };
+  }
+
+  private async isMfaRequired(user: User): Promise<boolean> {
+    if (user.role !== "manager") {
+      return false;
+    }
+
     const { data } = await supabase
       .from("contractors")
-      .select("id")
-      .eq("name", "Jims Crane Inspection")
+      .select("require_manager_mfa")
+      .eq("id", user.contractorId)
       .single();
 
-    return data?.id || "";
+    return isMfaRequiredFor(user.role, !!data?.require_manager_mfa);
+  }
+
+  // Creates the signed-in user's profile with the contractor and role from
+  // their invitation. The database function checks the token hash, expiry
+  // and that the invite was issued to this user's email.
+  private async acceptInvitation(
+    tokenHash: string,
+    firstName: string,
+    lastName: string
+  ): Promise<AuthResult<void>> {
+    const { error } = await supabase.rpc("accept_invitation", {
+      p_token_hash: tokenHash,
+      p_first_name: firstName,
+      p_last_name: lastName,
+    });
+
+    if (error) {
+      // The function raises a plain exception for bad, expired or
+      // mismatched tokens, which carries no provider code
+      const errorCode = toAuthErrorCode(error);
+      return {
+        success: false,
+        error: `Profile creation failed: ${error.message}`,
+        errorCode:
+          errorCode === AuthErrorCode.UNKNOWN
+            ? AuthErrorCode.INVALID_INVITATION
+            : errorCode,
+      };
+    }
+
+    return { success: true };
   }
 }
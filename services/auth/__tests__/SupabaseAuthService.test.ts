@@ -0,0 +1,112 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { SupabaseAuthService } from "../SupabaseAuthService";
+import { supabase } from "../../../lib/supabase";
+import { fakeSupabase } from "../../../test/fakeSupabase";
+import { AuthErrorCode } from "../../../types/auth";
+
+jest.mock("../../../lib/supabase", () => {
+  const { fakeSupabase } = require("../../../test/fakeSupabase");
+  fakeSupabase.auth = {
+    getSession: jest.fn(),
+    signOut: jest.fn(async () => ({ error: null })),
+  };
+  return { supabase: fakeSupabase };
+});
+
+const auth = (supabase as any).auth;
+
+const SESSION = {
+  user: { id: "inspector-1", factors: [] },
+  access_token: "access-token",
+  refresh_token: "refresh-token",
+  expires_at: Math.floor(Date.UTC(2026, 9, 20) / 1000),
+};
+
+const OFFLINE = { message: "TypeError: Network request failed" };
+
+describe("SupabaseAuthService", () => {
+  let service: SupabaseAuthService;
+
+  beforeEach(async () => {
+    fakeSupabase.reset();
+    await AsyncStorage.clear();
+    auth.getSession.mockResolvedValue({
+      data: { session: SESSION },
+      error: null,
+    });
+    auth.signOut.mockClear();
+    fakeSupabase.rows("user_profiles").push({
+      id: "inspector-1",
+      email: "inspector@example.com",
+      first_name: "Riley",
+      last_name: "Chen",
+      role: "inspector",
+      contractor_id: "contractor-1",
+      is_active: true,
+      must_change_password: false,
+      created_at: "2026-01-05T00:00:00.000Z",
+    });
+    fakeSupabase
+      .rows("contractors")
+      .push({ id: "contractor-1", is_suspended: false });
+    service = new SupabaseAuthService();
+  });
+
+  it("keeps the stored session offline using the last loaded profile", async () => {
+    const online = await service.getCurrentSession();
+    expect(online.success).toBe(true);
+
+    fakeSupabase.failures["user_profiles.select"] = OFFLINE;
+    fakeSupabase.failures["contractors.select"] = OFFLINE;
+    const offline = await service.getCurrentSession();
+
+    expect(offline.success).toBe(true);
+    expect(offline.data?.user.firstName).toBe("Riley");
+    expect(offline.data?.user.createdAt).toEqual(online.data?.user.createdAt);
+    expect(auth.signOut).not.toHaveBeenCalled();
+  });
+
+  it("reports a network error when no profile was ever loaded", async () => {
+    fakeSupabase.failures["user_profiles.select"] = OFFLINE;
+
+    const result = await service.getCurrentSession();
+
+    expect(result.success).toBe(false);
+    expect(result.errorCode).toBe(AuthErrorCode.NETWORK);
+    expect(auth.signOut).not.toHaveBeenCalled();
+  });
+
+  it("doesn't reuse another user's cached profile", async () => {
+    await service.getCurrentSession();
+    auth.getSession.mockResolvedValue({
+      data: { session: { ...SESSION, user: { id: "inspector-2" } } },
+      error: null,
+    });
+    fakeSupabase.failures["user_profiles.select"] = OFFLINE;
+
+    const result = await service.getCurrentSession();
+
+    expect(result.success).toBe(false);
+  });
+
+  it("signs a suspended contractor's user out of this device only", async () => {
+    fakeSupabase.rows("contractors")[0].is_suspended = true;
+
+    const result = await service.getCurrentSession();
+
+    expect(result.errorCode).toBe(AuthErrorCode.CONTRACTOR_SUSPENDED);
+    expect(auth.signOut).toHaveBeenCalledWith({ scope: "local" });
+  });
+
+  it("doesn't sign out when the suspension check itself fails", async () => {
+    fakeSupabase.failures["contractors.select"] = {
+      code: "57014",
+      message: "canceling statement due to statement timeout",
+    };
+
+    const result = await service.getCurrentSession();
+
+    expect(result.success).toBe(false);
+    expect(auth.signOut).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,110 @@
+import {
+  getAuthErrorMessage,
+  isAccessRevoked,
+  toAuthErrorCode,
+} from "../authErrors";
+import { AuthErrorCode } from "../../../types/auth";
+
+describe("toAuthErrorCode", () => {
+  it("maps provider codes onto the app's taxonomy", () => {
+    expect(toAuthErrorCode({ code: "invalid_credentials" })).toBe(
+      AuthErrorCode.INVALID_CREDENTIALS
+    );
+    expect(toAuthErrorCode({ code: "user_banned" })).toBe(
+      AuthErrorCode.ACCOUNT_INACTIVE
+    );
+    expect(toAuthErrorCode({ code: "refresh_token_not_found" })).toBe(
+      AuthErrorCode.SESSION_EXPIRED
+    );
+    expect(toAuthErrorCode({ code: "mfa_challenge_expired" })).toBe(
+      AuthErrorCode.INVALID_MFA_CODE
+    );
+    expect(toAuthErrorCode({ code: "otp_expired" })).toBe(
+      AuthErrorCode.INVALID_AUTH_LINK
+    );
+    expect(toAuthErrorCode({ code: "PGRST116" })).toBe(
+      AuthErrorCode.PROFILE_MISSING
+    );
+  });
+
+  it("prefers the code over the status and message", () => {
+    expect(
+      toAuthErrorCode({
+        code: "weak_password",
+        status: 429,
+        message: "Invalid login credentials",
+      })
+    ).toBe(AuthErrorCode.WEAK_PASSWORD);
+  });
+
+  it("treats HTTP 429 as rate limiting", () => {
+    expect(toAuthErrorCode({ code: "something_new", status: 429 })).toBe(
+      AuthErrorCode.RATE_LIMITED
+    );
+  });
+
+  it("recognises network failures", () => {
+    expect(toAuthErrorCode({ name: "AuthRetryableFetchError" })).toBe(
+      AuthErrorCode.NETWORK
+    );
+    expect(toAuthErrorCode(new TypeError("Network request failed"))).toBe(
+      AuthErrorCode.NETWORK
+    );
+    expect(toAuthErrorCode({ message: "Failed to fetch" })).toBe(
+      AuthErrorCode.NETWORK
+    );
+  });
+
+  it("falls back to messages from servers that send no code", () => {
+    expect(toAuthErrorCode({ message: "Invalid login credentials" })).toBe(
+      AuthErrorCode.INVALID_CREDENTIALS
+    );
+    expect(toAuthErrorCode({ message: "Email not confirmed" })).toBe(
+      AuthErrorCode.EMAIL_NOT_CONFIRMED
+    );
+  });
+
+  it("leaves anything else unknown", () => {
+    expect(toAuthErrorCode({ message: "Database on fire" })).toBe(
+      AuthErrorCode.UNKNOWN
+    );
+    expect(toAuthErrorCode(null)).toBe(AuthErrorCode.UNKNOWN);
+    expect(toAuthErrorCode(undefined)).toBe(AuthErrorCode.UNKNOWN);
+  });
+});
+
+describe("isAccessRevoked", () => {
+  it("only ends the session for deactivated users and suspended contractors", () => {
+    expect(isAccessRevoked(AuthErrorCode.ACCOUNT_INACTIVE)).toBe(true);
+    expect(isAccessRevoked(AuthErrorCode.CONTRACTOR_SUSPENDED)).toBe(true);
+    expect(isAccessRevoked(AuthErrorCode.SESSION_EXPIRED)).toBe(false);
+    expect(isAccessRevoked(undefined)).toBe(false);
+  });
+});
+
+describe("getAuthErrorMessage", () => {
+  it("has a message for every error code", () => {
+    for (const code of Object.values(AuthErrorCode)) {
+      expect(getAuthErrorMessage(code, "fallback")).toBeTruthy();
+    }
+  });
+
+  it("shows the caller's fallback only when the error is unknown", () => {
+    expect(getAuthErrorMessage(AuthErrorCode.UNKNOWN, "Raw message")).toBe(
+      "Raw message"
+    );
+    expect(getAuthErrorMessage(undefined, "Raw message")).toBe("Raw message");
+    expect(getAuthErrorMessage(undefined)).toBe(
+      "Something went wrong. Please try again."
+    );
+    expect(
+      getAuthErrorMessage(AuthErrorCode.INVALID_CREDENTIALS, "Raw message")
+    ).not.toBe("Raw message");
+  });
+
+  it("falls back to English for other locales", () => {
+    expect(getAuthErrorMessage(AuthErrorCode.NETWORK, undefined, "fr-CA")).toBe(
+      getAuthErrorMessage(AuthErrorCode.NETWORK)
+    );
+  });
+});
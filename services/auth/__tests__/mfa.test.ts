@@ -0,0 +1,108 @@
+import {
+  generateRecoveryCodes,
+  hashRecoveryCode,
+  hasVerifiedTotp,
+  isMfaRequiredFor,
+  needsMfaChallenge,
+} from "../mfa";
+
+// Unsigned, base64url-encoded like a real Supabase access token
+function accessToken(claims: Record<string, any>): string {
+  const encode = (value: object) =>
+    Buffer.from(JSON.stringify(value)).toString("base64url");
+  return `${encode({ alg: "HS256" })}.${encode(claims)}.signature`;
+}
+
+const VERIFIED = { factor_type: "totp", status: "verified" };
+
+describe("hasVerifiedTotp", () => {
+  it("only counts a verified TOTP factor", () => {
+    expect(hasVerifiedTotp({ factors: [VERIFIED] })).toBe(true);
+    expect(
+      hasVerifiedTotp({ factors: [{ ...VERIFIED, status: "unverified" }] })
+    ).toBe(false);
+    expect(
+      hasVerifiedTotp({ factors: [{ ...VERIFIED, factor_type: "phone" }] })
+    ).toBe(false);
+    expect(hasVerifiedTotp({})).toBe(false);
+    expect(hasVerifiedTotp(null)).toBe(false);
+  });
+});
+
+describe("isMfaRequiredFor", () => {
+  it("applies the contractor's policy to managers only", () => {
+    expect(isMfaRequiredFor("manager", true)).toBe(true);
+    expect(isMfaRequiredFor("manager", false)).toBe(false);
+    expect(isMfaRequiredFor("inspector", true)).toBe(false);
+    expect(isMfaRequiredFor("super_admin", true)).toBe(false);
+  });
+});
+
+describe("needsMfaChallenge", () => {
+  it("asks for a code while an enrolled user's session is aal1", () => {
+    const session = {
+      access_token: accessToken({ sub: "user-1", aal: "aal1" }),
+      user: { factors: [VERIFIED] },
+    };
+
+    expect(needsMfaChallenge(session)).toBe(true);
+  });
+
+  it("lets an aal2 session through", () => {
+    const session = {
+      access_token: accessToken({ sub: "user-1", aal: "aal2" }),
+      user: { factors: [VERIFIED] },
+    };
+
+    expect(needsMfaChallenge(session)).toBe(false);
+  });
+
+  it("decodes base64url payloads that need padding", () => {
+    // Payload characters that encode to "-" and "_", at every padding length
+    for (const name of ["~?~", "~?~~", "~?~~~"]) {
+      const session = {
+        access_token: accessToken({ name, aal: "aal2" }),
+        user: { factors: [VERIFIED] },
+      };
+      expect(session.access_token.split(".")[1]).toMatch(/[-_]/);
+      expect(needsMfaChallenge(session)).toBe(false);
+    }
+  });
+
+  it("treats an unreadable token as not yet verified", () => {
+    const session = {
+      access_token: "not-a-jwt",
+      user: { factors: [VERIFIED] },
+    };
+
+    expect(needsMfaChallenge(session)).toBe(true);
+  });
+
+  it("never challenges a user without a factor", () => {
+    const session = {
+      access_token: accessToken({ aal: "aal1" }),
+      user: { factors: [] },
+    };
+
+    expect(needsMfaChallenge(session)).toBe(false);
+  });
+});
+
+describe("recovery codes", () => {
+  it("generates ten distinct codes formatted for writing down", () => {
+    const codes = generateRecoveryCodes();
+
+    expect(codes).toHaveLength(10);
+    expect(new Set(codes).size).toBe(10);
+    codes.forEach((code) => expect(code).toMatch(/^[0-9a-f]{5}-[0-9a-f]{5}$/));
+  });
+
+  it("hashes a code the same however it is typed", async () => {
+    const hash = await hashRecoveryCode("a1b2c-3d4e5");
+
+    expect(hash).toMatch(/^[0-9a-f]{64}$/);
+    expect(await hashRecoveryCode(" A1B2C 3D4E5 ")).toBe(hash);
+    expect(await hashRecoveryCode("a1b2c3d4e5")).toBe(hash);
+    expect(await hashRecoveryCode("a1b2c-3d4e6")).not.toBe(hash);
+  });
+});
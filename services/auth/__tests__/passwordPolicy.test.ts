@@ -0,0 +1,48 @@
+import {
+  checkPasswordStrength,
+  PASSWORD_MIN_LENGTH,
+  PASSWORD_RULES,
+} from "../passwordPolicy";
+
+const failed = (password: string, context = {}) =>
+  checkPasswordStrength(password, context).map((rule) => rule.id);
+
+describe("checkPasswordStrength", () => {
+  it("accepts a password that meets every rule", () => {
+    expect(failed("Correct-Horse-42")).toEqual([]);
+  });
+
+  it("requires the minimum length, both cases and a number", () => {
+    expect(failed("Ab1".padEnd(PASSWORD_MIN_LENGTH - 1, "x"))).toEqual([
+      "length",
+    ]);
+    expect(failed("correct-horse-42")).toEqual(["uppercase"]);
+    expect(failed("CORRECT-HORSE-42")).toEqual(["lowercase"]);
+    expect(failed("Correct-Horse-Battery")).toEqual(["number"]);
+    expect(failed("")).toEqual(["length", "lowercase", "uppercase", "number"]);
+  });
+
+  it("rejects a password containing the email name, ignoring case", () => {
+    const context = { email: "Riley.Chen@example.com" };
+
+    expect(failed("My-riley.chen-42", context)).toEqual(["personal"]);
+    expect(failed("Correct-Horse-42", context)).toEqual([]);
+  });
+
+  it("ignores email names too short to matter", () => {
+    expect(failed("Correct-Horse-42", { email: "co@example.com" })).toEqual([]);
+  });
+
+  it("rejects reusing the current password", () => {
+    const context = { currentPassword: "Correct-Horse-42" };
+
+    expect(failed("Correct-Horse-42", context)).toEqual(["reused"]);
+    expect(failed("Correct-Horse-43", context)).toEqual([]);
+  });
+
+  it("reports failures with the labels shown in the checklist", () => {
+    expect(checkPasswordStrength("correct-horse-42")).toEqual([
+      PASSWORD_RULES.find((rule) => rule.id === "uppercase"),
+    ]);
+  });
+});
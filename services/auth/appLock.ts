@@ -0,0 +1,36 @@
+// services/auth/appLock.ts
+// Settings and timing rules for the biometric/device-PIN app lock
+
+export const APP_LOCK_INTERVAL_KEY = "@inspectrix/app-lock/interval";
+export const APP_LOCK_BACKGROUNDED_AT_KEY =
+  "@inspectrix/app-lock/backgrounded-at";
+
+export const APP_LOCK_INTERVAL_OPTIONS = [
+  { value: 0, label: "Immediately" },
+  { value: 60 * 1000, label: "1 min" },
+  { value: 5 * 60 * 1000, label: "5 min" },
+  { value: 15 * 60 * 1000, label: "15 min" },
+];
+
+export const DEFAULT_APP_LOCK_INTERVAL_MS = 5 * 60 * 1000;
+
+export function parseLockInterval(raw: string | null): number {
+  const value = raw === null ? NaN : Number(raw);
+  return APP_LOCK_INTERVAL_OPTIONS.some((option) => option.value === value)
+    ? value
+    : DEFAULT_APP_LOCK_INTERVAL_MS;
+}
+
+// True once the app has been in the background for at least the interval.
+// A clock that moved backwards also locks, rather than extending the window.
+export function shouldLock(
+  backgroundedAt: number | null,
+  intervalMs: number,
+  now: number = Date.now()
+): boolean {
+  if (backgroundedAt === null) {
+    return false;
+  }
+  const elapsed = now - backgroundedAt;
+  return elapsed < 0 || elapsed >= intervalMs;
+}
@@ -0,0 +1,136 @@
+// services/auth/authErrors.ts
+import { AuthErrorCode } from "../../types/auth";
+
+// Minimal shape shared by supabase-js AuthError, PostgrestError and fetch
+// failures
+interface ProviderError {
+  name?: string;
+  message?: string;
+  code?: string;
+  status?: number;
+}
+
+const PROVIDER_CODES: Record<string, AuthErrorCode> = {
+  invalid_credentials: AuthErrorCode.INVALID_CREDENTIALS,
+  email_not_confirmed: AuthErrorCode.EMAIL_NOT_CONFIRMED,
+  provider_email_needs_verification: AuthErrorCode.EMAIL_NOT_CONFIRMED,
+  email_exists: AuthErrorCode.EMAIL_TAKEN,
+  user_already_exists: AuthErrorCode.EMAIL_TAKEN,
+  user_banned: AuthErrorCode.ACCOUNT_INACTIVE,
+  weak_password: AuthErrorCode.WEAK_PASSWORD,
+  same_password: AuthErrorCode.WEAK_PASSWORD,
+  session_expired: AuthErrorCode.SESSION_EXPIRED,
+  session_not_found: AuthErrorCode.SESSION_EXPIRED,
+  refresh_token_not_found: AuthErrorCode.SESSION_EXPIRED,
+  refresh_token_already_used: AuthErrorCode.SESSION_EXPIRED,
+  mfa_verification_failed: AuthErrorCode.INVALID_MFA_CODE,
+  mfa_challenge_expired: AuthErrorCode.INVALID_MFA_CODE,
+  insufficient_aal: AuthErrorCode.MFA_REQUIRED,
+  over_request_rate_limit: AuthErrorCode.RATE_LIMITED,
+  over_email_send_rate_limit: AuthErrorCode.RATE_LIMITED,
+  request_timeout: AuthErrorCode.NETWORK,
+  otp_expired: AuthErrorCode.INVALID_AUTH_LINK,
+  flow_state_expired: AuthErrorCode.INVALID_AUTH_LINK,
+  flow_state_not_found: AuthErrorCode.INVALID_AUTH_LINK,
+  bad_code_verifier: AuthErrorCode.INVALID_AUTH_LINK,
+  PGRST116: AuthErrorCode.PROFILE_MISSING, // .single() matched no row
+};
+
+// Failures that end the session for good rather than asking to sign in again
+const ACCESS_REVOKED_CODES = [
+  AuthErrorCode.ACCOUNT_INACTIVE,
+  AuthErrorCode.CONTRACTOR_SUSPENDED,
+];
+
+export function isAccessRevoked(code: AuthErrorCode | undefined): boolean {
+  return !!code && ACCESS_REVOKED_CODES.includes(code);
+}
+
+// Maps a provider error onto the app's taxonomy. Older GoTrue servers
+// don't send a code, so a few well-known messages are matched as well.
+export function toAuthErrorCode(
+  error: ProviderError | null | undefined
+): AuthErrorCode {
+  if (!error) {
+    return AuthErrorCode.UNKNOWN;
+  }
+  if (error.code && PROVIDER_CODES[error.code]) {
+    return PROVIDER_CODES[error.code];
+  }
+  if (error.status === 429) {
+    return AuthErrorCode.RATE_LIMITED;
+  }
+  if (
+    error.name === "AuthRetryableFetchError" ||
+    /network request failed|failed to fetch|network error/i.test(
+      error.message || ""
+    )
+  ) {
+    return AuthErrorCode.NETWORK;
+  }
+  if (/invalid login credentials/i.test(error.message || "")) {
+    return AuthErrorCode.INVALID_CREDENTIALS;
+  }
+  if (/email not confirmed/i.test(error.message || "")) {
+    return AuthErrorCode.EMAIL_NOT_CONFIRMED;
+  }
+  return AuthErrorCode.UNKNOWN;
+}
+
+type MessageCatalog = Record<AuthErrorCode, string>;
+
+const en: MessageCatalog = {
+  [AuthErrorCode.INVALID_CREDENTIALS]:
+    "That email and password don't match. Check for typos or reset your password.",
+  [AuthErrorCode.EMAIL_NOT_CONFIRMED]:
+    "Please confirm your email address first. Check your inbox for the confirmation link.",
+  [AuthErrorCode.EMAIL_CONFIRMATION_REQUIRED]:
+    "Check your email to confirm your address, then sign in.",
+  [AuthErrorCode.EMAIL_TAKEN]:
+    "An account with this email already exists. Try signing in instead.",
+  [AuthErrorCode.ACCOUNT_INACTIVE]:
+    "Your account has been deactivated. Contact your manager to restore access.",
+  [AuthErrorCode.CONTRACTOR_SUSPENDED]:
+    "Your organization's account is suspended. Contact Inspectrix support.",
+  [AuthErrorCode.PROFILE_MISSING]:
+    "Your account isn't linked to an organization yet. Ask your manager for a new invitation.",
+  [AuthErrorCode.INVALID_INVITATION]:
+    "This invitation is invalid, expired or has been revoked. Ask your manager for a new one.",
+  [AuthErrorCode.INVALID_AUTH_LINK]:
+    "This link is invalid or has expired. Request a new one and open the latest email.",
+  [AuthErrorCode.NOT_AUTHENTICATED]: "Please sign in to continue.",
+  [AuthErrorCode.SESSION_EXPIRED]:
+    "Your session has expired. Please sign in again.",
+  [AuthErrorCode.WEAK_PASSWORD]:
+    "Choose a stronger password that meets all of the listed requirements.",
+  [AuthErrorCode.INVALID_CURRENT_PASSWORD]:
+    "Your current password is incorrect.",
+  [AuthErrorCode.MFA_REQUIRED]:
+    "Enter the code from your authenticator app to continue.",
+  [AuthErrorCode.INVALID_MFA_CODE]:
+    "That code didn't work. Wait for a new code in your authenticator app and try again.",
+  [AuthErrorCode.INVALID_RECOVERY_CODE]:
+    "That recovery code is invalid or has already been used.",
+  [AuthErrorCode.MFA_REQUIRED_BY_POLICY]:
+    "Your organization requires two-factor authentication for your role.",
+  [AuthErrorCode.NETWORK]:
+    "Can't reach the server. Check your connection and try again.",
+  [AuthErrorCode.RATE_LIMITED]:
+    "Too many attempts. Wait a few minutes before trying again.",
+  [AuthErrorCode.UNKNOWN]: "Something went wrong. Please try again.",
+};
+
+// Add a catalog per supported language; anything missing falls back to en
+const catalogs: Record<string, Partial<MessageCatalog>> = { en };
+
+export function getAuthErrorMessage(
+  code: AuthErrorCode | undefined,
+  fallback?: string,
+  locale: string = "en"
+): string {
+  if (!code || code === AuthErrorCode.UNKNOWN) {
+    return fallback || en[AuthErrorCode.UNKNOWN];
+  }
+  const language = locale.split("-")[0];
+  return catalogs[language]?.[code] || en[code];
+}
@@ -0,0 +1,51 @@
+// services/auth/authLinks.ts
+import * as Linking from "expo-linking";
+
+// Routes that receive the links Supabase emails out
+export const EMAIL_CONFIRMATION_PATH = "/confirm-email";
+export const PASSWORD_RESET_PATH = "/reset-password";
+
+// inspectrix://confirm-email, inspectrix://reset-password
+export function buildAuthLinkUrl(path: string): string {
+  return Linking.createURL(path);
+}
+
+export interface AuthLinkParams {
+  code?: string; // PKCE flow
+  tokenHash?: string; // Email templates using {{ .TokenHash }}
+  type?: string; // "signup", "recovery", ...
+  accessToken?: string; // Implicit flow
+  refreshToken?: string;
+  errorCode?: string;
+  errorDescription?: string;
+}
+
+// Depending on the flow, Supabase puts the result in the query string or
+// the fragment. Expo Router drops the fragment, so this reads the raw URL.
+export function parseAuthLink(url: string): AuthLinkParams {
+  const params: Record<string, string> = {};
+  const [withoutHash, hash = ""] = url.split("#");
+  const query = withoutHash.split("?")[1] || "";
+
+  [query, hash].forEach((part) =>
+    part
+      .split("&")
+      .filter(Boolean)
+      .forEach((pair) => {
+        const [key, value = ""] = pair.split("=");
+        params[decodeURIComponent(key)] = decodeURIComponent(
+          value.replace(/\+/g, " ")
+        );
+      })
+  );
+
+  return {
+    code: params.code,
+    tokenHash: params.token_hash,
+    type: params.type,
+    accessToken: params.access_token,
+    refreshToken: params.refresh_token,
+    errorCode: params.error_code,
+    errorDescription: params.error_description,
+  };
+}
@@ -0,0 +1,72 @@
+// services/auth/mfa.ts
+import * as Crypto from "expo-crypto";
+import { User } from "../../types/auth";
+
+const RECOVERY_CODE_COUNT = 10;
+const RECOVERY_CODE_BYTES = 5; // 10 hex chars, shown as xxxxx-xxxxx
+
+// Minimal shape of the supabase-js session/user this module reads
+interface AuthUserLike {
+  factors?: { factor_type: string; status: string }[];
+}
+
+interface SessionLike {
+  access_token: string;
+  user: AuthUserLike;
+}
+
+export function hasVerifiedTotp(authUser?: AuthUserLike | null): boolean {
+  return !!authUser?.factors?.some(
+    (factor) => factor.factor_type === "totp" && factor.status === "verified"
+  );
+}
+
+export function isMfaRequiredFor(
+  role: User["role"],
+  requireManagerMfa: boolean
+): boolean {
+  return role === "manager" && requireManagerMfa;
+}
+
+// Reads the assurance level straight from the access token. Unlike
+// supabase.auth.mfa.getAuthenticatorAssuranceLevel this never touches the
+// auth lock, so it's safe inside onAuthStateChange callbacks.
+function tokenAssuranceLevel(accessToken: string): string | null {
+  try {
+    const payload = accessToken
+      .split(".")[1]
+      .replace(/-/g, "+")
+      .replace(/_/g, "/");
+    const padded = payload + "=".repeat((4 - (payload.length % 4)) % 4);
+    return JSON.parse(atob(padded)).aal || null;
+  } catch (error) {
+    return null;
+  }
+}
+
+// A password-only (aal1) session for a user with a verified factor is
+// only halfway through login
+export function needsMfaChallenge(session: SessionLike): boolean {
+  return (
+    hasVerifiedTotp(session.user) &&
+    tokenAssuranceLevel(session.access_token) !== "aal2"
+  );
+}
+
+export function generateRecoveryCodes(): string[] {
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const hex = Array.from(Crypto.getRandomBytes(RECOVERY_CODE_BYTES))
+      .map((byte) => byte.toString(16).padStart(2, "0"))
+      .join("");
+    return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+  });
+}
+
+// Codes are stored hashed, like invitation tokens. Dashes, spaces and case
+// are ignored so a code typed off paper still matches.
+export function hashRecoveryCode(code: string): Promise<string> {
+  return Crypto.digestStringAsync(
+    Crypto.CryptoDigestAlgorithm.SHA256,
+    code.replace(/[^0-9a-f]/gi, "").toLowerCase()
+  );
+}
@@ -0,0 +1,67 @@
+// services/auth/passwordPolicy.ts
+
+export const PASSWORD_MIN_LENGTH = 10;
+
+export interface PasswordRule {
+  id: "length" | "lowercase" | "uppercase" | "number" | "personal" | "reused";
+  label: string;
+}
+
+interface PasswordContext {
+  email?: string;
+  currentPassword?: string;
+}
+
+const RULES: (PasswordRule & {
+  test: (password: string, context: PasswordContext) => boolean;
+})[] = [
+  {
+    id: "length",
+    label: `At least ${PASSWORD_MIN_LENGTH} characters`,
+    test: (password) => password.length >= PASSWORD_MIN_LENGTH,
+  },
+  {
+    id: "lowercase",
+    label: "A lowercase letter",
+    test: (password) => /[a-z]/.test(password),
+  },
+  {
+    id: "uppercase",
+    label: "An uppercase letter",
+    test: (password) => /[A-Z]/.test(password),
+  },
+  {
+    id: "number",
+    label: "A number",
+    test: (password) => /\d/.test(password),
+  },
+  {
+    id: "personal",
+    label: "Doesn't contain your email name",
+    test: (password, { email }) => {
+      const name = email?.split("@")[0].toLowerCase();
+      return !name || name.length < 3 || !password.toLowerCase().includes(name);
+    },
+  },
+  {
+    id: "reused",
+    label: "Different from your current password",
+    test: (password, { currentPassword }) =>
+      !currentPassword || password !== currentPassword,
+  },
+];
+
+export const PASSWORD_RULES: PasswordRule[] = RULES.map(({ id, label }) => ({
+  id,
+  label,
+}));
+
+// Returns the rules the password fails; an empty list means it's acceptable
+export function checkPasswordStrength(
+  password: string,
+  context: PasswordContext = {}
+): PasswordRule[] {
+  return RULES.filter((rule) => !rule.test(password, context)).map(
+    ({ id, label }) => ({ id, label })
+  );
+}
@@ -0,0 +1,74 @@
+// services/auth/permissions.ts
+// Single source of truth for what each role may do. The UI uses these to
+// hide actions; services call checkPermission() so the rules hold even if a
+// screen forgets to.
+import { Capability, User } from "../../types/auth";
+
+export const ROLE_CAPABILITIES: Record<User["role"], Capability[]> = {
+  inspector: ["reports.create", "reports.submit", "equipment.register"],
+  manager: [
+    "reports.create",
+    "reports.submit",
+    "reports.review",
+    "reports.approve",
+    "templates.manage",
+    "equipment.register",
+    "equipment.manage",
+    "users.manage",
+    "jobs.dispatch",
+    "defects.manage",
+  ],
+  super_admin: [
+    "reports.review",
+    "reports.approve",
+    "templates.manage",
+    "equipment.register",
+    "equipment.manage",
+    "users.manage",
+    "jobs.dispatch",
+    "defects.manage",
+    "contractors.manage",
+  ],
+};
+
+export function hasCapability(
+  user: Pick<User, "role"> | null | undefined,
+  capability: Capability
+): boolean {
+  return !!user && ROLE_CAPABILITIES[user.role].includes(capability);
+}
+
+// Super admins work across contractors; everyone else stays inside their own
+export function canAccessContractor(
+  user: Pick<User, "role" | "contractorId"> | null | undefined,
+  contractorId: string
+): boolean {
+  return (
+    !!user &&
+    (user.role === "super_admin" || user.contractorId === contractorId)
+  );
+}
+
+// Returns a failed result to hand straight back to the caller, or null when
+// the actor is allowed to go ahead
+export function checkPermission(
+  actor: Pick<User, "role" | "contractorId"> | null | undefined,
+  capability: Capability,
+  contractorId?: string
+): { success: false; error: string; errorCode: string } | null {
+  if (!hasCapability(actor, capability)) {
+    return {
+      success: false,
+      error: "You don't have permission to do that",
+      errorCode: "forbidden",
+    };
+  }
+  if (contractorId !== undefined && !canAccessContractor(actor, contractorId)) {
+    return {
+      success: false,
+      error: "This record belongs to another contractor",
+      errorCode: "forbidden",
+    };
+  }
+  return null;
+}
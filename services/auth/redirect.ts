@@ -0,0 +1,49 @@
+// services/auth/redirect.ts
+// Helpers for carrying the originally requested route (e.g. from an
+// inspectrix:// deep link) through the sign-in screen.
+
+type SearchParams = Record<string, string | string[] | undefined>;
+
+// Rebuilds the current href from expo-router's pathname, segments and
+// global params. Dynamic segment values are already in the pathname, so
+// only the remaining params go into the query string.
+export function buildRedirectPath(
+  pathname: string,
+  segments: string[],
+  params: SearchParams
+): string | null {
+  if (!pathname || pathname === "/") {
+    return null;
+  }
+
+  const routeParams = new Set(
+    segments
+      .map((segment) => segment.match(/^\[(?:\.\.\.)?(.+)\]$/)?.[1])
+      .filter(Boolean)
+  );
+  const query = Object.entries(params)
+    .filter(([key, value]) => !routeParams.has(key) && value !== undefined)
+    .map(([key, value]) =>
+      (Array.isArray(value) ? value : [value])
+        .map((v) => `${encodeURIComponent(key)}=${encodeURIComponent(v!)}`)
+        .join("&")
+    )
+    .join("&");
+
+  return query ? `${pathname}?${query}` : pathname;
+}
+
+// Only in-app paths are honoured, so a crafted link can't bounce the user
+// to another site after signing in
+export function sanitizeRedirect(value: unknown): string | null {
+  const redirect = Array.isArray(value) ? value[0] : value;
+  if (
+    typeof redirect !== "string" ||
+    !redirect.startsWith("/") ||
+    redirect.startsWith("//") ||
+    redirect.startsWith("/auth")
+  ) {
+    return null;
+  }
+  return redirect;
+}
@@ -0,0 +1,262 @@
+// services/contractors/SupabaseContractorService.ts
+import { supabase } from "../../lib/supabase";
+import { checkPermission } from "../auth/permissions";
+import { User } from "../../types/auth";
+import { ReportResult } from "../../types/report";
+import {
+  Contractor,
+  ContractorInput,
+  ContractorSummary,
+  IContractorService,
+} from "../../types/contractor";
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+export class SupabaseContractorService implements IContractorService {
+  async listContractors(
+    actor: User
+  ): Promise<ReportResult<ContractorSummary[]>> {
+    try {
+      const denied = checkPermission(actor, "contractors.manage");
+      if (denied) {
+        return denied;
+      }
+
+      // Embedded count aggregates keep this to a single round trip
+      const { data, error } = await supabase
+        .from("contractors")
+        .select("*, user_profiles(count), inspection_reports(count)")
+        .order("name", { ascending: true });
+
+      if (error) {
+        return {
+          success: false,
+          error: error.message,
+          errorCode: error.code,
+        };
+      }
+
+      return {
+        success: true,
+        data: (data || []).map((row: any) => ({
+          ...this.mapContractor(row),
+          userCount: row.user_profiles?.[0]?.count || 0,
+          reportCount: row.inspection_reports?.[0]?.count || 0,
+        })),
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || "Failed to load contractors",
+      };
+    }
+  }
+
+  async getContractor(id: string): Promise<ReportResult<Contractor>> {
+    try {
+      const { data, error } = await supabase
+        .from("contractors")
+        .select("*")
+        .eq("id", id)
+        .single();
+
+      if (error || !data) {
+        return {
+          success: false,
+          error: error?.message || "Contractor not found",
+          errorCode: error?.code,
+        };
+      }
+
+      return {
+        success: true,
+        data: this.mapContractor(data),
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || "Failed to load contractor",
+      };
+    }
+  }
+
+  async createContractor(
+    input: ContractorInput,
+    actor: User
+  ): Promise<ReportResult<Contractor>> {
+    return this.writeContractor(null, input, actor);
+  }
+
+  async updateContractor(
+    id: string,
+    input: ContractorInput,
+    actor: User
+  ): Promise<ReportResult<Contractor>> {
+    return this.writeContractor(id, input, actor);
+  }
+
+  async setSuspended(
+    id: string,
+    suspended: boolean,
+    actor: User
+  ): Promise<ReportResult<Contractor>> {
+    try {
+      const denied = checkPermission(actor, "contractors.manage");
+      if (denied) {
+        return denied;
+      }
+
+      if (suspended && id === actor.contractorId) {
+        return {
+          success: false,
+          error: "You can't suspend your own organization",
+          errorCode: "forbidden",
+        };
+      }
+
+      const { data, error } = await supabase
+        .from("contractors")
+        .update({
+          is_suspended: suspended,
+          suspended_at: suspended ? new Date().toISOString() : null,
+        })
+        .eq("id", id)
+        .select("*")
+        .single();
+
+      if (error || !data) {
+        return {
+          success: false,
+          error: error?.message || "Failed to update contractor",
+          errorCode: error?.code,
+        };
+      }
+
+      return {
+        success: true,
+        data: this.mapContractor(data),
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || "Failed to update contractor",
+      };
+    }
+  }
+
+  async setMfaPolicy(
+    id: string,
+    requireManagerMfa: boolean,
+    actor: User
+  ): Promise<ReportResult<Contractor>> {
+    try {
+      const denied = checkPermission(actor, "users.manage", id);
+      if (denied) {
+        return denied;
+      }
+
+      const { data, error } = await supabase
+        .from("contractors")
+        .update({ require_manager_mfa: requireManagerMfa })
+        .eq("id", id)
+        .select("*")
+        .single();
+
+      if (error || !data) {
+        return {
+          success: false,
+          error: error?.message || "Failed to update security policy",
+          errorCode: error?.code,
+        };
+      }
+
+      return {
+        success: true,
+        data: this.mapContractor(data),
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || "Failed to update security policy",
+      };
+    }
+  }
+
+  // Private helper methods
+  private async writeContractor(
+    id: string | null,
+    input: ContractorInput,
+    actor: User
+  ): Promise<ReportResult<Contractor>> {
+    const failureMessage = id
+      ? "Failed to update contractor"
+      : "Failed to create contractor";
+
+    try {
+      const denied = checkPermission(actor, "contractors.manage");
+      if (denied) {
+        return denied;
+      }
+
+      if (!input.name.trim()) {
+        return {
+          success: false,
+          error: "Name is required",
+          errorCode: "invalid_input",
+        };
+      }
+      if (input.brandColor && !HEX_COLOR.test(input.brandColor)) {
+        return {
+          success: false,
+          error: "Brand color must be a hex value like #1976d2",
+          errorCode: "invalid_input",
+        };
+      }
+
+      const row = {
+        name: input.name.trim(),
+        brand_color: input.brandColor || null,
+        logo_url: input.logoUrl?.trim() || null,
+      };
+      const query = id
+        ? supabase.from("contractors").update(row).eq("id", id)
+        : supabase.from("contractors").insert({ ...row, is_suspended: false });
+
+      const { data, error } = await query.select("*").single();
+
+      if (error || !data) {
+        return {
+          success: false,
+          error:
+            error?.code === "23505"
+              ? `A contractor named ${row.name} already exists`
+              : error?.message || failureMessage,
+          errorCode: error?.code,
+        };
+      }
+
+      return {
+        success: true,
+        data: this.mapContractor(data),
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || failureMessage,
+      };
+    }
+  }
+
+  private mapContractor(data: any): Contractor {
+    return {
+      id: data.id,
+      name: data.name,
+      brandColor: data.brand_color || undefined,
+      logoUrl: data.logo_url || undefined,
+      isSuspended: !!data.is_suspended,
+      suspendedAt: data.suspended_at ? new Date(data.suspended_at) : undefined,
+      requireManagerMfa: !!data.require_manager_mfa,
+      createdAt: new Date(data.created_at),
+    };
+  }
+}
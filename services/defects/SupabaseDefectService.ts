@@ -0,0 +1,387 @@
+// services/defects/SupabaseDefectService.ts
+import { supabase } from "../../lib/supabase";
+import { checkPermission, hasCapability } from "../auth/permissions";
+import { User } from "../../types/auth";
+import { ReportResult } from "../../types/report";
+import { IPhotoService, ReportPhoto } from "../../types/photo";
+import {
+  Defect,
+  DefectInput,
+  DefectSource,
+  DefectStatus,
+  IDefectService,
+} from "../../types/defect";
+import { getAvailableDefectTransitions } from "./defectWorkflow";
+
+const DEFECT_SELECT = `
+  *,
+  asset:asset_id (
+    asset_tag,
+    equipment_type,
+    site,
+    location
+  ),
+  report:report_id (
+    equipment_id,
+    equipment_type,
+    location
+  ),
+  assignee:assignee_id (
+    first_name,
+    last_name
+  ),
+  reporter:reported_by (
+    first_name,
+    last_name
+  ),
+  closer:closed_by (
+    first_name,
+    last_name
+  )
+`;
+
+export class SupabaseDefectService implements IDefectService {
+  constructor(private photoService: IPhotoService) {}
+
+  async listDefects(
+    contractorId: string,
+    filter: { assetId?: string; reportId?: string } = {}
+  ): Promise<ReportResult<Defect[]>> {
+    try {
+      let query = supabase
+        .from("defects")
+        .select(DEFECT_SELECT)
+        .eq("contractor_id", contractorId)
+        .order("due_date", { ascending: true });
+      if (filter.assetId) {
+        query = query.eq("asset_id", filter.assetId);
+      }
+      if (filter.reportId) {
+        query = query.eq("report_id", filter.reportId);
+      }
+
+      const { data, error } = await query;
+
+      if (error) {
+        return {
+          success: false,
+          error: error.message,
+          errorCode: error.code,
+        };
+      }
+
+      return {
+        success: true,
+        data: (data || []).map((row) => this.mapDefect(row)),
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || "Failed to load defects",
+      };
+    }
+  }
+
+  // Safe to repeat: rows are keyed by the device-generated IDs, and
+  // existing rows are left alone so later progress isn't overwritten
+  async recordDefects(
+    source: DefectSource,
+    defects: DefectInput[],
+    photos: ReportPhoto[],
+    author: Pick<User, "id" | "contractorId">
+  ): Promise<ReportResult<void>> {
+    try {
+      if (defects.length === 0) {
+        return { success: true };
+      }
+
+      const rows = defects.map((defect) => ({
+        id: defect.id,
+        contractor_id: source.contractorId,
+        report_id: source.reportId,
+        asset_id: source.assetId || null,
+        title: defect.title.trim(),
+        severity: defect.severity,
+        remove_from_service: defect.removeFromService,
+        recommended_action: defect.recommendedAction.trim(),
+        checklist_item_id: defect.checklistItemId || null,
+        due_date: new Date(defect.dueDate).toISOString(),
+        status: "Open",
+        before_photos: photos.filter((photo) =>
+          defect.beforePhotoIds.includes(photo.id)
+        ),
+        after_photos: [],
+        reported_by: author.id,
+      }));
+
+      const { error } = await supabase
+        .from("defects")
+        .upsert(rows, { onConflict: "id", ignoreDuplicates: true });
+
+      if (error) {
+        return {
+          success: false,
+          error: error.message,
+          errorCode: error.code,
+        };
+      }
+
+      return { success: true };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || "Failed to record defects",
+      };
+    }
+  }
+
+  async assignDefect(
+    id: string,
+    changes: { assigneeId?: string | null; dueDate?: Date },
+    actor: User
+  ): Promise<ReportResult<Defect>> {
+    try {
+      const existing = await this.getDefect(id);
+      if (!existing.success || !existing.data) {
+        return existing;
+      }
+      const denied = checkPermission(
+        actor,
+        "defects.manage",
+        existing.data.contractorId
+      );
+      if (denied) {
+        return denied;
+      }
+
+      const updateData: Record<string, any> = {};
+      if (changes.assigneeId !== undefined) {
+        updateData.assignee_id = changes.assigneeId;
+      }
+      if (changes.dueDate) {
+        updateData.due_date = changes.dueDate.toISOString();
+      }
+
+      return this.updateDefect(id, updateData, "Failed to assign defect");
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || "Failed to assign defect",
+      };
+    }
+  }
+
+  async addRepairEvidence(
+    id: string,
+    photos: ReportPhoto[],
+    repairNotes: string,
+    actor: User
+  ): Promise<ReportResult<Defect>> {
+    try {
+      const existing = await this.getDefect(id);
+      if (!existing.success || !existing.data) {
+        return existing;
+      }
+      const defect = existing.data;
+
+      const isAssignee = defect.assigneeId === actor.id;
+      if (!isAssignee) {
+        const denied = checkPermission(
+          actor,
+          "defects.manage",
+          defect.contractorId
+        );
+        if (denied) {
+          return denied;
+        }
+      }
+      if (defect.status !== "In Repair") {
+        return {
+          success: false,
+          error:
+            "Repair evidence can only be added while the defect is in repair",
+          errorCode: "invalid_transition",
+        };
+      }
+
+      const uploaded: ReportPhoto[] = [];
+      for (const photo of photos) {
+        const result = await this.photoService.uploadPhotoFiles(
+          photo,
+          `${defect.contractorId}/defects/${defect.id}`
+        );
+        if (!result.success || !result.data) {
+          return { ...result, data: undefined };
+        }
+        uploaded.push(result.data);
+      }
+
+      return this.updateDefect(
+        id,
+        {
+          after_photos: [...defect.afterPhotos, ...uploaded],
+          repair_notes: repairNotes.trim() || null,
+        },
+        "Failed to save repair evidence"
+      );
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || "Failed to save repair evidence",
+      };
+    }
+  }
+
+  async transitionDefect(
+    defect: Defect,
+    to: DefectStatus,
+    actor: User
+  ): Promise<ReportResult<Defect>> {
+    try {
+      const transition = getAvailableDefectTransitions(defect, actor).find(
+        (t) => t.to === to
+      );
+      if (!transition) {
+        return hasCapability(actor, "defects.manage")
+          ? {
+              success: false,
+              error: `Cannot move a defect from ${defect.status} to ${to}`,
+              errorCode: "invalid_transition",
+            }
+          : {
+              success: false,
+              error: "You don't have permission to do that",
+              errorCode: "forbidden",
+            };
+      }
+      if (transition.requiresEvidence && defect.afterPhotos.length === 0) {
+        return {
+          success: false,
+          error: "Add a photo of the completed repair before closing",
+          errorCode: "evidence_required",
+        };
+      }
+
+      const closing = to === "Closed";
+      // Guard on the current status so two people can't act on the same
+      // defect at once
+      const { data, error } = await supabase
+        .from("defects")
+        .update({
+          status: to,
+          closed_by: closing ? actor.id : null,
+          closed_at: closing ? new Date().toISOString() : null,
+          updated_at: new Date().toISOString(),
+        })
+        .eq("id", defect.id)
+        .eq("status", defect.status)
+        .select(DEFECT_SELECT)
+        .maybeSingle();
+
+      if (error) {
+        return {
+          success: false,
+          error: error.message,
+          errorCode: error.code,
+        };
+      }
+
+      if (!data) {
+        return {
+          success: false,
+          error: "This defect was changed by someone else",
+          errorCode: "status_conflict",
+        };
+      }
+
+      return {
+        success: true,
+        data: this.mapDefect(data),
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || "Failed to update defect",
+      };
+    }
+  }
+
+  // Private helper methods
+
+  private async getDefect(id: string): Promise<ReportResult<Defect>> {
+    const { data, error } = await supabase
+      .from("defects")
+      .select(DEFECT_SELECT)
+      .eq("id", id)
+      .single();
+
+    if (error || !data) {
+      return {
+        success: false,
+        error: error?.message || "Defect not found",
+        errorCode: error?.code,
+      };
+    }
+
+    return { success: true, data: this.mapDefect(data) };
+  }
+
+  private async updateDefect(
+    id: string,
+    changes: Record<string, any>,
+    fallbackError: string
+  ): Promise<ReportResult<Defect>> {
+    const { data, error } = await supabase
+      .from("defects")
+      .update({ ...changes, updated_at: new Date().toISOString() })
+      .eq("id", id)
+      .select(DEFECT_SELECT)
+      .single();
+
+    if (error || !data) {
+      return {
+        success: false,
+        error: error?.message || fallbackError,
+        errorCode: error?.code,
+      };
+    }
+
+    return { success: true, data: this.mapDefect(data) };
+  }
+
+  private mapDefect(data: any): Defect {
+    const fullName = (person: any) =>
+      person ? `${person.first_name} ${person.last_name}`.trim() : undefined;
+
+    return {
+      id: data.id,
+      contractorId: data.contractor_id,
+      reportId: data.report_id,
+      assetId: data.asset_id || undefined,
+      assetTag: data.asset?.asset_tag || data.report?.equipment_id || "",
+      equipmentType:
+        data.asset?.equipment_type || data.report?.equipment_type || "",
+      site: data.asset?.site || "",
+      location: data.asset?.location || data.report?.location || "",
+      title: data.title,
+      severity: data.severity,
+      removeFromService: !!data.remove_from_service,
+      recommendedAction: data.recommended_action || "",
+      checklistItemId: data.checklist_item_id || undefined,
+      status: data.status,
+      assigneeId: data.assignee_id || undefined,
+      assigneeName: fullName(data.assignee),
+      dueDate: new Date(data.due_date),
+      beforePhotos: data.before_photos || [],
+      afterPhotos: data.after_photos || [],
+      repairNotes: data.repair_notes || "",
+      reportedBy: data.reported_by,
+      reportedByName: fullName(data.reporter) || "Unknown",
+      closedBy: data.closed_by || undefined,
+      closedByName: fullName(data.closer),
+      closedAt: data.closed_at ? new Date(data.closed_at) : undefined,
+      createdAt: new Date(data.created_at),
+      updatedAt: new Date(data.updated_at || data.created_at),
+    };
+  }
+}
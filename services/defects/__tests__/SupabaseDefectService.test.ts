@@ -0,0 +1,114 @@
+import { SupabaseDefectService } from "../SupabaseDefectService";
+import { fakeSupabase } from "../../../test/fakeSupabase";
+import { IPhotoService, ReportPhoto } from "../../../types/photo";
+import { User } from "../../../types/auth";
+
+jest.mock("../../../lib/supabase", () => ({
+  supabase: require("../../../test/fakeSupabase").fakeSupabase,
+}));
+
+const MANAGER = {
+  id: "manager-1",
+  role: "manager",
+  contractorId: "contractor-1",
+} as User;
+const INSPECTOR = {
+  id: "inspector-1",
+  role: "inspector",
+  contractorId: "contractor-1",
+} as User;
+
+const AFTER_PHOTO: ReportPhoto = {
+  id: "photo-after",
+  caption: "New rope fitted",
+  width: 1600,
+  height: 1200,
+  annotations: [],
+  createdAt: Date.UTC(2026, 9, 20),
+  localUri: "file:///photos/photo-after.jpg",
+};
+
+describe("SupabaseDefectService", () => {
+  const photoService = {
+    uploadPhotoFiles: jest.fn(async (photo: ReportPhoto, folder: string) => ({
+      success: true,
+      data: { ...photo, storagePath: `${folder}/${photo.id}.jpg` },
+    })),
+  };
+  const service = new SupabaseDefectService(
+    photoService as unknown as IPhotoService
+  );
+
+  beforeEach(() => {
+    fakeSupabase.reset();
+    fakeSupabase.rows("defects").push({
+      id: "defect-1",
+      contractor_id: "contractor-1",
+      report_id: "report-1",
+      asset_id: "asset-1",
+      title: "Broken hoist rope wires",
+      severity: "Critical",
+      remove_from_service: true,
+      status: "Open",
+      assignee_id: INSPECTOR.id,
+      due_date: new Date(Date.UTC(2026, 9, 20)).toISOString(),
+      before_photos: [],
+      after_photos: [],
+      reported_by: INSPECTOR.id,
+      created_at: new Date(Date.UTC(2026, 9, 19)).toISOString(),
+    });
+  });
+
+  const load = async () => {
+    const result = await service.listDefects("contractor-1", {});
+    return result.data![0];
+  };
+
+  it("lets the assignee start the repair but not close it", async () => {
+    const started = await service.transitionDefect(
+      await load(),
+      "In Repair",
+      INSPECTOR
+    );
+    expect(started.data!.status).toBe("In Repair");
+
+    const closed = await service.transitionDefect(
+      started.data!,
+      "Closed",
+      INSPECTOR
+    );
+    expect(closed.errorCode).toBe("forbidden");
+  });
+
+  it("won't close a repair without evidence", async () => {
+    const started = await service.transitionDefect(
+      await load(),
+      "In Repair",
+      MANAGER
+    );
+
+    const early = await service.transitionDefect(
+      started.data!,
+      "Closed",
+      MANAGER
+    );
+    expect(early.errorCode).toBe("evidence_required");
+
+    // The assignee adds the evidence; the manager verifies it
+    const evidence = await service.addRepairEvidence(
+      "defect-1",
+      [AFTER_PHOTO],
+      "Rope replaced",
+      INSPECTOR
+    );
+    const closed = await service.transitionDefect(
+      evidence.data!,
+      "Closed",
+      MANAGER
+    );
+    expect(closed.data).toMatchObject({
+      status: "Closed",
+      closedBy: MANAGER.id,
+    });
+  });
+});
@@ -0,0 +1,121 @@
+import {
+  getAvailableDefectTransitions,
+  getDefaultDueDate,
+  isOutOfService,
+} from "../defectWorkflow";
+import { Defect, DefectStatus } from "../../../types/defect";
+import { User } from "../../../types/auth";
+
+const MANAGER = {
+  id: "manager-1",
+  role: "manager",
+  contractorId: "contractor-1",
+} as User;
+const INSPECTOR = {
+  id: "inspector-1",
+  role: "inspector",
+  contractorId: "contractor-1",
+} as User;
+
+function defect(status: DefectStatus, overrides: Partial<Defect> = {}): Defect {
+  return {
+    id: "defect-1",
+    contractorId: "contractor-1",
+    reportId: "report-1",
+    assetId: "asset-1",
+    assetTag: "CR-101",
+    equipmentType: "Overhead Crane",
+    site: "Plant A",
+    location: "Bay 2",
+    title: "Broken hoist rope wires",
+    severity: "Critical",
+    removeFromService: true,
+    recommendedAction: "Replace the hoist rope",
+    status,
+    dueDate: new Date(),
+    beforePhotos: [],
+    afterPhotos: [],
+    repairNotes: "",
+    reportedBy: INSPECTOR.id,
+    reportedByName: "Riley Chen",
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+const actions = (d: Defect, actor: User) =>
+  getAvailableDefectTransitions(d, actor).map((t) => t.action);
+
+describe("getAvailableDefectTransitions", () => {
+  it("lets the assignee start the repair and nothing else", () => {
+    const assigned = { assigneeId: INSPECTOR.id };
+
+    expect(actions(defect("Open", assigned), INSPECTOR)).toEqual([
+      "Start Repair",
+    ]);
+    expect(actions(defect("In Repair", assigned), INSPECTOR)).toEqual([]);
+    expect(actions(defect("Closed", assigned), INSPECTOR)).toEqual([]);
+  });
+
+  it("gives other inspectors no actions", () => {
+    const assigned = { assigneeId: "inspector-2" };
+
+    expect(actions(defect("Open", assigned), INSPECTOR)).toEqual([]);
+    expect(actions(defect("Open"), INSPECTOR)).toEqual([]);
+  });
+
+  it("lets managers verify, send back and reopen", () => {
+    expect(actions(defect("Open"), MANAGER)).toEqual(["Start Repair"]);
+    expect(actions(defect("In Repair"), MANAGER)).toEqual([
+      "Verify & Close",
+      "Send Back",
+    ]);
+    expect(actions(defect("Closed"), MANAGER)).toEqual(["Reopen"]);
+  });
+
+  it("only closes with evidence of the repair", () => {
+    const close = getAvailableDefectTransitions(
+      defect("In Repair"),
+      MANAGER
+    ).find((t) => t.to === "Closed");
+
+    expect(close?.requiresEvidence).toBe(true);
+  });
+
+  it("stays inside the actor's contractor", () => {
+    const elsewhere = defect("Open", {
+      contractorId: "contractor-2",
+      assigneeId: INSPECTOR.id,
+    });
+
+    expect(actions(elsewhere, MANAGER)).toEqual([]);
+    expect(actions(elsewhere, INSPECTOR)).toEqual([]);
+  });
+});
+
+describe("isOutOfService", () => {
+  it("holds equipment with an outstanding remove-from-service defect", () => {
+    expect(isOutOfService("asset-1", [defect("Open")])).toBe(true);
+    expect(isOutOfService("asset-1", [defect("In Repair")])).toBe(true);
+  });
+
+  it("releases it once the defect is closed or doesn't require removal", () => {
+    expect(isOutOfService("asset-1", [defect("Closed")])).toBe(false);
+    expect(
+      isOutOfService("asset-1", [defect("Open", { removeFromService: false })])
+    ).toBe(false);
+    expect(isOutOfService("asset-2", [defect("Open")])).toBe(false);
+  });
+});
+
+describe("getDefaultDueDate", () => {
+  it("allows more time for less severe defects", () => {
+    const now = Date.UTC(2026, 9, 19);
+    const day = 24 * 60 * 60 * 1000;
+
+    expect(getDefaultDueDate("Critical", now)).toBe(now + day);
+    expect(getDefaultDueDate("Major", now)).toBe(now + 14 * day);
+    expect(getDefaultDueDate("Minor", now)).toBe(now + 60 * day);
+  });
+});
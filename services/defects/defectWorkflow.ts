@@ -0,0 +1,96 @@
+// services/defects/defectWorkflow.ts
+import { User } from "../../types/auth";
+import { Defect, DefectSeverity, DefectTransition } from "../../types/defect";
+import { canAccessContractor, hasCapability } from "../auth/permissions";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFECT_SEVERITIES: DefectSeverity[] = [
+  "Critical",
+  "Major",
+  "Minor",
+];
+
+// Default time allowed for the repair, from when the defect is found
+export const DEFECT_DUE_DAYS: Record<DefectSeverity, number> = {
+  Critical: 1,
+  Major: 14,
+  Minor: 60,
+};
+
+// Every allowed move through the defect lifecycle. Anything not listed here
+// is rejected, both in the UI and in the defect service.
+export const DEFECT_TRANSITIONS: DefectTransition[] = [
+  {
+    from: "Open",
+    to: "In Repair",
+    action: "Start Repair",
+    capability: "defects.manage",
+    allowAssignee: true,
+    requiresEvidence: false,
+  },
+  {
+    from: "In Repair",
+    to: "Closed",
+    action: "Verify & Close",
+    capability: "defects.manage",
+    allowAssignee: false,
+    requiresEvidence: true,
+  },
+  {
+    from: "In Repair",
+    to: "Open",
+    action: "Send Back",
+    capability: "defects.manage",
+    allowAssignee: false,
+    requiresEvidence: false,
+  },
+  {
+    from: "Closed",
+    to: "Open",
+    action: "Reopen",
+    capability: "defects.manage",
+    allowAssignee: false,
+    requiresEvidence: false,
+  },
+];
+
+type WorkflowDefect = Pick<Defect, "status" | "assigneeId" | "contractorId">;
+
+export function getAvailableDefectTransitions(
+  defect: WorkflowDefect,
+  actor: User
+): DefectTransition[] {
+  if (!canAccessContractor(actor, defect.contractorId)) {
+    return [];
+  }
+
+  return DEFECT_TRANSITIONS.filter(
+    (t) =>
+      t.from === defect.status &&
+      (hasCapability(actor, t.capability) ||
+        (t.allowAssignee && defect.assigneeId === actor.id))
+  );
+}
+
+export function getDefaultDueDate(
+  severity: DefectSeverity,
+  now: number = Date.now()
+): number {
+  return now + DEFECT_DUE_DAYS[severity] * DAY_MS;
+}
+
+// Anything not yet verified closed still needs attention
+export function isOutstanding(defect: Pick<Defect, "status">): boolean {
+  return defect.status !== "Closed";
+}
+
+// Registered equipment with an outstanding remove-from-service defect
+export function isOutOfService(assetId: string, defects: Defect[]): boolean {
+  return defects.some(
+    (defect) =>
+      defect.assetId === assetId &&
+      defect.removeFromService &&
+      isOutstanding(defect)
+  );
+}
@@ -0,0 +1,252 @@
+// services/equipment/SupabaseEquipmentService.ts
+import { supabase } from "../../lib/supabase";
+import { checkPermission } from "../auth/permissions";
+import { User } from "../../types/auth";
+import { ReportResult } from "../../types/report";
+import {
+  Equipment,
+  EquipmentInput,
+  IEquipmentService,
+} from "../../types/equipment";
+
+const EQUIPMENT_COLUMNS: Record<keyof EquipmentInput, string> = {
+  assetTag: "asset_tag",
+  equipmentType: "equipment_type",
+  serialNumber: "serial_number",
+  manufacturer: "manufacturer",
+  model: "model",
+  ratedCapacity: "rated_capacity",
+  capacityUnit: "capacity_unit",
+  site: "site",
+  location: "location",
+};
+
+export class SupabaseEquipmentService implements IEquipmentService {
+  async listEquipment(
+    contractorId: string
+  ): Promise<ReportResult<Equipment[]>> {
+    try {
+      const { data, error } = await supabase
+        .from("equipment")
+        .select("*")
+        .eq("contractor_id", contractorId)
+        .order("asset_tag", { ascending: true });
+
+      if (error) {
+        return {
+          success: false,
+          error: error.message,
+          errorCode: error.code,
+        };
+      }
+
+      const lastInspections = await this.getLastInspections(contractorId);
+
+      return {
+        success: true,
+        data: (data || []).map((row) =>
+          this.mapEquipment(row, lastInspections[row.id])
+        ),
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || "Failed to load equipment",
+      };
+    }
+  }
+
+  async getEquipment(id: string): Promise<ReportResult<Equipment>> {
+    try {
+      const { data, error } = await supabase
+        .from("equipment")
+        .select("*")
+        .eq("id", id)
+        .single();
+
+      if (error || !data) {
+        return {
+          success: false,
+          error: error?.message || "Equipment not found",
+          errorCode: error?.code,
+        };
+      }
+
+      const lastInspections = await this.getLastInspections(
+        data.contractor_id,
+        id
+      );
+
+      return {
+        success: true,
+        data: this.mapEquipment(data, lastInspections[id]),
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || "Failed to load equipment",
+      };
+    }
+  }
+
+  async createEquipment(
+    contractorId: string,
+    input: EquipmentInput,
+    actor: User
+  ): Promise<ReportResult<Equipment>> {
+    try {
+      const denied = checkPermission(actor, "equipment.register", contractorId);
+      if (denied) {
+        return denied;
+      }
+
+      const { data, error } = await supabase
+        .from("equipment")
+        .insert({
+          contractor_id: contractorId,
+          ...this.toRow(input),
+          is_active: true,
+        })
+        .select("*")
+        .single();
+
+      if (error || !data) {
+        return {
+          success: false,
+          error:
+            error?.code === "23505"
+              ? `Asset ${input.assetTag} is already registered`
+              : error?.message || "Failed to register equipment",
+          errorCode: error?.code,
+        };
+      }
+
+      return {
+        success: true,
+        data: this.mapEquipment(data),
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || "Failed to register equipment",
+      };
+    }
+  }
+
+  async updateEquipment(
+    id: string,
+    updates: Partial<EquipmentInput> & { isActive?: boolean },
+    actor: User
+  ): Promise<ReportResult<Equipment>> {
+    try {
+      const existing = await this.getEquipment(id);
+      if (!existing.success || !existing.data) {
+        return existing;
+      }
+      const denied = checkPermission(
+        actor,
+        "equipment.manage",
+        existing.data.contractorId
+      );
+      if (denied) {
+        return denied;
+      }
+
+      const { isActive, ...input } = updates;
+      const updateData: Record<string, any> = {
+        ...this.toRow(input),
+        updated_at: new Date().toISOString(),
+      };
+      if (isActive !== undefined) {
+        updateData.is_active = isActive;
+      }
+
+      const { error } = await supabase
+        .from("equipment")
+        .update(updateData)
+        .eq("id", id);
+
+      if (error) {
+        return {
+          success: false,
+          error: error.message,
+          errorCode: error.code,
+        };
+      }
+
+      return this.getEquipment(id);
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || "Failed to update equipment",
+      };
+    }
+  }
+
+  // Private helper methods
+
+  // Latest completed report per asset; nothing else counts as an inspection
+  private async getLastInspections(
+    contractorId: string,
+    assetId?: string
+  ): Promise<Record<string, Date>> {
+    let query = supabase
+      .from("inspection_reports")
+      .select("asset_id, created_at")
+      .eq("contractor_id", contractorId)
+      .eq("status", "Completed")
+      .not("asset_id", "is", null)
+      .order("created_at", { ascending: false });
+
+    if (assetId) {
+      query = query.eq("asset_id", assetId).limit(1);
+    }
+
+    const { data, error } = await query;
+    if (error) {
+      console.error("Failed to load last inspections:", error);
+      return {};
+    }
+
+    const latest: Record<string, Date> = {};
+    for (const row of data || []) {
+      if (!latest[row.asset_id]) {
+        latest[row.asset_id] = new Date(row.created_at);
+      }
+    }
+    return latest;
+  }
+
+  private toRow(input: Partial<EquipmentInput>) {
+    const row: Record<string, any> = {};
+
+    for (const [field, column] of Object.entries(EQUIPMENT_COLUMNS)) {
+      const value = input[field as keyof EquipmentInput];
+      if (value !== undefined) {
+        row[column] = typeof value === "string" ? value.trim() || null : value;
+      }
+    }
+
+    return row;
+  }
+
+  private mapEquipment(data: any, lastInspection?: Date): Equipment {
+    return {
+      id: data.id,
+      contractorId: data.contractor_id,
+      assetTag: data.asset_tag,
+      equipmentType: data.equipment_type,
+      serialNumber: data.serial_number,
+      manufacturer: data.manufacturer,
+      model: data.model || undefined,
+      ratedCapacity:
+        data.rated_capacity === null ? undefined : Number(data.rated_capacity),
+      capacityUnit: data.capacity_unit || undefined,
+      site: data.site,
+      location: data.location,
+      isActive: data.is_active,
+      lastInspection,
+      createdAt: new Date(data.created_at),
+    };
+  }
+}
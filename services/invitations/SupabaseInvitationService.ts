@@ -0,0 +1,222 @@
+// services/invitations/SupabaseInvitationService.ts
+import { supabase } from "../../lib/supabase";
+import { checkPermission } from "../auth/permissions";
+import {
+  buildInvitationLink,
+  generateInvitationToken,
+  hashInvitationToken,
+} from "./invitationToken";
+import { User } from "../../types/auth";
+import { ReportResult } from "../../types/report";
+import {
+  IInvitationService,
+  Invitation,
+  InvitationInput,
+  InvitationPreview,
+  IssuedInvitation,
+} from "../../types/invitation";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class SupabaseInvitationService implements IInvitationService {
+  async createInvitation(
+    input: InvitationInput,
+    actor: User
+  ): Promise<ReportResult<IssuedInvitation>> {
+    try {
+      const denied = checkPermission(actor, "users.manage");
+      if (denied) {
+        return denied;
+      }
+
+      const email = input.email.trim().toLowerCase();
+      if (!/\S+@\S+\.\S+/.test(email)) {
+        return {
+          success: false,
+          error: "Email is invalid",
+          errorCode: "invalid_email",
+        };
+      }
+
+      const token = generateInvitationToken();
+      const { data, error } = await supabase
+        .from("invitations")
+        .insert({
+          contractor_id: actor.contractorId,
+          email,
+          role: input.role,
+          token_hash: await hashInvitationToken(token),
+          invited_by: actor.id,
+          expires_at: new Date(
+            Date.now() + input.expiresInDays * DAY_MS
+          ).toISOString(),
+        })
+        .select("*")
+        .single();
+
+      if (error || !data) {
+        return {
+          success: false,
+          error:
+            error?.code === "23505"
+              ? `An invitation is already pending for ${email}`
+              : error?.message || "Failed to create invitation",
+          errorCode: error?.code,
+        };
+      }
+
+      return {
+        success: true,
+        data: {
+          invitation: this.mapInvitation(data),
+          token,
+          link: buildInvitationLink(token),
+        },
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || "Failed to create invitation",
+      };
+    }
+  }
+
+  async listInvitations(
+    contractorId: string
+  ): Promise<ReportResult<Invitation[]>> {
+    try {
+      const { data, error } = await supabase
+        .from("invitations")
+        .select("*")
+        .eq("contractor_id", contractorId)
+        .order("created_at", { ascending: false });
+
+      if (error) {
+        return {
+          success: false,
+          error: error.message,
+          errorCode: error.code,
+        };
+      }
+
+      return {
+        success: true,
+        data: (data || []).map((row) => this.mapInvitation(row)),
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || "Failed to load invitations",
+      };
+    }
+  }
+
+  async revokeInvitation(id: string, actor: User): Promise<ReportResult<void>> {
+    try {
+      const denied = checkPermission(actor, "users.manage");
+      if (denied) {
+        return denied;
+      }
+
+      let query = supabase
+        .from("invitations")
+        .update({ revoked_at: new Date().toISOString() })
+        .eq("id", id)
+        .is("accepted_at", null);
+      if (actor.role !== "super_admin") {
+        query = query.eq("contractor_id", actor.contractorId);
+      }
+      const { error } = await query;
+
+      if (error) {
+        return {
+          success: false,
+          error: error.message,
+          errorCode: error.code,
+        };
+      }
+
+      return { success: true };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || "Failed to revoke invitation",
+      };
+    }
+  }
+
+  async previewInvitation(
+    token: string
+  ): Promise<ReportResult<InvitationPreview>> {
+    try {
+      // Invitees aren't signed in, so the lookup goes through a security
+      // definer function keyed on the token hash rather than the table
+      const { data, error } = await supabase
+        .rpc("get_invitation", {
+          p_token_hash: await hashInvitationToken(token),
+        })
+        .maybeSingle();
+
+      if (error) {
+        return {
+          success: false,
+          error: error.message,
+          errorCode: error.code,
+        };
+      }
+
+      const row: any = data;
+      if (!row || row.revoked_at) {
+        return {
+          success: false,
+          error: "This invitation is not valid",
+          errorCode: "invalid_invitation",
+        };
+      }
+      if (row.accepted_at) {
+        return {
+          success: false,
+          error: "This invitation has already been used",
+          errorCode: "invitation_used",
+        };
+      }
+      if (new Date(row.expires_at).getTime() < Date.now()) {
+        return {
+          success: false,
+          error: "This invitation has expired. Ask your manager for a new one.",
+          errorCode: "invitation_expired",
+        };
+      }
+
+      return {
+        success: true,
+        data: {
+          email: row.email,
+          role: row.role,
+          contractorName: row.contractor_name,
+          expiresAt: new Date(row.expires_at),
+        },
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || "Failed to load invitation",
+      };
+    }
+  }
+
+  // Private helper methods
+  private mapInvitation(data: any): Invitation {
+    return {
+      id: data.id,
+      contractorId: data.contractor_id,
+      email: data.email,
+      role: data.role,
+      invitedBy: data.invited_by,
+      expiresAt: new Date(data.expires_at),
+      acceptedAt: data.accepted_at ? new Date(data.accepted_at) : undefined,
+      revokedAt: data.revoked_at ? new Date(data.revoked_at) : undefined,
+      createdAt: new Date(data.created_at),
+    };
+  }
+}
@@ -0,0 +1,57 @@
+import {
+  generateInvitationToken,
+  hashInvitationToken,
+  parseInvitationToken,
+} from "../invitationToken";
+
+describe("invitation tokens", () => {
+  it("generates 256-bit hex tokens that don't repeat", () => {
+    const first = generateInvitationToken();
+    const second = generateInvitationToken();
+
+    expect(first).toMatch(/^[0-9a-f]{64}$/);
+    expect(second).not.toBe(first);
+  });
+
+  it("stores a SHA-256 hash rather than the token", async () => {
+    const token = generateInvitationToken();
+    const hash = await hashInvitationToken(token);
+
+    expect(hash).toMatch(/^[0-9a-f]{64}$/);
+    expect(hash).not.toBe(token);
+    expect(await hashInvitationToken(token)).toBe(hash);
+    expect(await hashInvitationToken("abc")).toBe(
+      "ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad"
+    );
+  });
+
+  it("hashes a token the same however it was pasted", async () => {
+    const token = generateInvitationToken();
+
+    expect(await hashInvitationToken(` ${token.toUpperCase()}\n`)).toBe(
+      await hashInvitationToken(token)
+    );
+    expect(await hashInvitationToken(generateInvitationToken())).not.toBe(
+      await hashInvitationToken(token)
+    );
+  });
+
+  it("reads the token from a bare value or an invite link", () => {
+    const token = generateInvitationToken();
+
+    expect(parseInvitationToken(` ${token.toUpperCase()} `)).toBe(token);
+    expect(parseInvitationToken(`inspectrix://auth?invite=${token}`)).toBe(
+      token
+    );
+    expect(
+      parseInvitationToken(`https://example.com/auth?ref=mail&invite=${token}`)
+    ).toBe(token);
+  });
+
+  it("rejects anything that isn't a token", () => {
+    expect(parseInvitationToken("")).toBeNull();
+    expect(parseInvitationToken("not-a-token")).toBeNull();
+    expect(parseInvitationToken("abc123")).toBeNull();
+    expect(parseInvitationToken("inspectrix://auth?invite=")).toBeNull();
+  });
+});
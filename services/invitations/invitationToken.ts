@@ -0,0 +1,34 @@
+// services/invitations/invitationToken.ts
+import * as Crypto from "expo-crypto";
+import * as Linking from "expo-linking";
+
+const TOKEN_BYTES = 32;
+
+// 256 random bits, URL-safe. The token travels only in the invite link; the
+// database keeps its SHA-256 hash, so a leaked table can't be replayed.
+export function generateInvitationToken(): string {
+  return Array.from(Crypto.getRandomBytes(TOKEN_BYTES))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+export function hashInvitationToken(token: string): Promise<string> {
+  return Crypto.digestStringAsync(
+    Crypto.CryptoDigestAlgorithm.SHA256,
+    token.trim().toLowerCase()
+  );
+}
+
+// inspectrix://auth?invite=<token>
+export function buildInvitationLink(token: string): string {
+  return Linking.createURL("/auth", { queryParams: { invite: token } });
+}
+
+// Accepts either a bare token or a pasted invite link
+export function parseInvitationToken(value: string): string | null {
+  const trimmed = value.trim();
+  const match =
+    trimmed.match(/[?&]invite=([0-9a-f]+)/i) ||
+    trimmed.match(/^([0-9a-f]{64})$/i);
+  return match ? match[1].toLowerCase() : null;
+}
@@ -0,0 +1,320 @@
+// services/jobs/SupabaseJobService.ts
+import { supabase } from "../../lib/supabase";
+import { checkPermission, hasCapability } from "../auth/permissions";
+import { User } from "../../types/auth";
+import { ReportResult } from "../../types/report";
+import {
+  IJobService,
+  InspectionJob,
+  JobInput,
+  JobStatus,
+} from "../../types/job";
+
+const JOB_SELECT = `
+  *,
+  asset:asset_id (
+    asset_tag,
+    equipment_type,
+    site,
+    location
+  ),
+  assignee:assignee_id (
+    first_name,
+    last_name
+  ),
+  creator:created_by (
+    first_name,
+    last_name
+  )
+`;
+
+// Which statuses an assignee may move their own job to; dispatchers may
+// also cancel or reopen
+const ASSIGNEE_TRANSITIONS: Record<JobStatus, JobStatus[]> = {
+  Assigned: ["In Progress"],
+  "In Progress": ["Assigned"],
+  Completed: [],
+  Cancelled: [],
+};
+
+export class SupabaseJobService implements IJobService {
+  async listJobs(
+    contractorId: string,
+    actor: User
+  ): Promise<ReportResult<InspectionJob[]>> {
+    try {
+      let query = supabase
+        .from("inspection_jobs")
+        .select(JOB_SELECT)
+        .eq("contractor_id", contractorId)
+        .order("due_date", { ascending: true });
+      if (!hasCapability(actor, "jobs.dispatch")) {
+        query = query.eq("assignee_id", actor.id);
+      }
+
+      const { data, error } = await query;
+
+      if (error) {
+        return {
+          success: false,
+          error: error.message,
+          errorCode: error.code,
+        };
+      }
+
+      return {
+        success: true,
+        data: (data || []).map((row) => this.mapJob(row)),
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || "Failed to load jobs",
+      };
+    }
+  }
+
+  async createJob(
+    contractorId: string,
+    input: JobInput,
+    actor: User
+  ): Promise<ReportResult<InspectionJob>> {
+    try {
+      const denied = checkPermission(actor, "jobs.dispatch", contractorId);
+      if (denied) {
+        return denied;
+      }
+
+      const assigneeError = await this.checkAssignee(
+        contractorId,
+        input.assigneeId
+      );
+      if (assigneeError) {
+        return assigneeError;
+      }
+
+      const { data, error } = await supabase
+        .from("inspection_jobs")
+        .insert({
+          contractor_id: contractorId,
+          asset_id: input.assetId,
+          inspection_class: input.inspectionClass,
+          due_date: input.dueDate.toISOString(),
+          instructions: input.instructions.trim() || null,
+          assignee_id: input.assigneeId,
+          created_by: actor.id,
+          status: "Assigned",
+        })
+        .select(JOB_SELECT)
+        .single();
+
+      if (error || !data) {
+        return {
+          success: false,
+          error: error?.message || "Failed to create job",
+          errorCode: error?.code,
+        };
+      }
+
+      return {
+        success: true,
+        data: this.mapJob(data),
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || "Failed to create job",
+      };
+    }
+  }
+
+  async reassignJob(
+    id: string,
+    assigneeId: string,
+    actor: User
+  ): Promise<ReportResult<InspectionJob>> {
+    try {
+      const existing = await this.getJob(id);
+      if (!existing.success || !existing.data) {
+        return existing;
+      }
+      const job = existing.data;
+
+      const denied = checkPermission(actor, "jobs.dispatch", job.contractorId);
+      if (denied) {
+        return denied;
+      }
+      if (job.status === "Completed" || job.status === "Cancelled") {
+        return {
+          success: false,
+          error: `This job is already ${job.status.toLowerCase()}`,
+          errorCode: "job_closed",
+        };
+      }
+
+      const assigneeError = await this.checkAssignee(
+        job.contractorId,
+        assigneeId
+      );
+      if (assigneeError) {
+        return assigneeError;
+      }
+
+      // The new inspector starts from scratch
+      return this.updateJob(id, {
+        assignee_id: assigneeId,
+        status: "Assigned",
+      });
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || "Failed to reassign job",
+      };
+    }
+  }
+
+  async updateJobStatus(
+    id: string,
+    status: JobStatus,
+    actor: User
+  ): Promise<ReportResult<InspectionJob>> {
+    try {
+      const existing = await this.getJob(id);
+      if (!existing.success || !existing.data) {
+        return existing;
+      }
+      const job = existing.data;
+
+      const canDispatch = !checkPermission(
+        actor,
+        "jobs.dispatch",
+        job.contractorId
+      );
+      const isAssignee =
+        job.assigneeId === actor.id &&
+        ASSIGNEE_TRANSITIONS[job.status].includes(status);
+      if (!canDispatch && !isAssignee) {
+        return {
+          success: false,
+          error: "You don't have permission to do that",
+          errorCode: "forbidden",
+        };
+      }
+      // Jobs complete when their report is submitted, never by hand
+      if (status === "Completed" || job.status === "Completed") {
+        return {
+          success: false,
+          error: "Completed jobs can't be changed",
+          errorCode: "job_closed",
+        };
+      }
+
+      return this.updateJob(id, { status });
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || "Failed to update job",
+      };
+    }
+  }
+
+  // Private helper methods
+
+  private async getJob(id: string): Promise<ReportResult<InspectionJob>> {
+    const { data, error } = await supabase
+      .from("inspection_jobs")
+      .select(JOB_SELECT)
+      .eq("id", id)
+      .single();
+
+    if (error || !data) {
+      return {
+        success: false,
+        error: error?.message || "Job not found",
+        errorCode: error?.code,
+      };
+    }
+
+    return { success: true, data: this.mapJob(data) };
+  }
+
+  private async updateJob(
+    id: string,
+    changes: Record<string, any>
+  ): Promise<ReportResult<InspectionJob>> {
+    const { data, error } = await supabase
+      .from("inspection_jobs")
+      .update({ ...changes, updated_at: new Date().toISOString() })
+      .eq("id", id)
+      .select(JOB_SELECT)
+      .single();
+
+    if (error || !data) {
+      return {
+        success: false,
+        error: error?.message || "Failed to update job",
+        errorCode: error?.code,
+      };
+    }
+
+    return { success: true, data: this.mapJob(data) };
+  }
+
+  // Jobs only go to active inspectors and managers of the same contractor
+  private async checkAssignee(
+    contractorId: string,
+    assigneeId: string
+  ): Promise<ReportResult<never> | null> {
+    const { data, error } = await supabase
+      .from("user_profiles")
+      .select("contractor_id, role, is_active")
+      .eq("id", assigneeId)
+      .single();
+
+    if (error || !data) {
+      return {
+        success: false,
+        error: error?.message || "Assignee not found",
+        errorCode: error?.code,
+      };
+    }
+    if (
+      data.contractor_id !== contractorId ||
+      !data.is_active ||
+      !hasCapability({ role: data.role }, "reports.create")
+    ) {
+      return {
+        success: false,
+        error: "Jobs can only be assigned to active inspectors on your team",
+        errorCode: "invalid_assignee",
+      };
+    }
+    return null;
+  }
+
+  private mapJob(data: any): InspectionJob {
+    const fullName = (person: any) =>
+      person ? `${person.first_name} ${person.last_name}`.trim() : "Unknown";
+
+    return {
+      id: data.id,
+      contractorId: data.contractor_id,
+      assetId: data.asset_id,
+      assetTag: data.asset?.asset_tag || "",
+      equipmentType: data.asset?.equipment_type || "",
+      site: data.asset?.site || "",
+      location: data.asset?.location || "",
+      inspectionClass: data.inspection_class,
+      dueDate: new Date(data.due_date),
+      instructions: data.instructions || "",
+      assigneeId: data.assignee_id,
+      assigneeName: fullName(data.assignee),
+      createdBy: data.created_by,
+      createdByName: fullName(data.creator),
+      status: data.status,
+      reportId: data.report_id || undefined,
+      createdAt: new Date(data.created_at),
+      updatedAt: new Date(data.updated_at || data.created_at),
+    };
+  }
+}
@@ -0,0 +1,180 @@
+// services/photos/SupabasePhotoService.ts
+import { supabase } from "../../lib/supabase";
+import { ReportResult } from "../../types/report";
+import { IPhotoService, ReportPhoto } from "../../types/photo";
+
+// Private bucket; storage policies only allow access to objects whose first
+// path segment matches the caller's contractor_id.
+const PHOTO_BUCKET = "report-photos";
+const SIGNED_URL_TTL_SECONDS = 60 * 60;
+
+export class SupabasePhotoService implements IPhotoService {
+  async uploadPhoto(
+    photo: ReportPhoto,
+    reportId: string,
+    contractorId: string
+  ): Promise<ReportResult<ReportPhoto>> {
+    try {
+      const files = await this.uploadPhotoFiles(
+        photo,
+        `${contractorId}/${reportId}`
+      );
+      if (!files.success || !files.data) {
+        return files;
+      }
+      const { storagePath, thumbnailPath } = files.data;
+
+      const { error } = await supabase.from("report_photos").upsert({
+        id: photo.id,
+        report_id: reportId,
+        contractor_id: contractorId,
+        storage_path: storagePath,
+        thumbnail_path: thumbnailPath,
+        caption: photo.caption,
+        annotations: photo.annotations,
+        checklist_item_id: photo.checklistItemId || null,
+        width: photo.width,
+        height: photo.height,
+        created_at: new Date(photo.createdAt).toISOString(),
+      });
+
+      if (error) {
+        return {
+          success: false,
+          error: error.message,
+          errorCode: error.code,
+        };
+      }
+
+      return {
+        success: true,
+        data: { ...photo, storagePath, thumbnailPath },
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || "Photo upload failed",
+      };
+    }
+  }
+
+  async uploadPhotoFiles(
+    photo: ReportPhoto,
+    folder: string
+  ): Promise<ReportResult<ReportPhoto>> {
+    try {
+      if (!photo.localUri || !photo.localThumbnailUri) {
+        return {
+          success: false,
+          error: "Photo file is missing from this device",
+        };
+      }
+
+      const storagePath = `${folder}/${photo.id}.jpg`;
+      const thumbnailPath = `${folder}/${photo.id}-thumb.jpg`;
+
+      for (const [path, uri] of [
+        [storagePath, photo.localUri],
+        [thumbnailPath, photo.localThumbnailUri],
+      ]) {
+        const body = await (await fetch(uri)).arrayBuffer();
+        const { error } = await supabase.storage
+          .from(PHOTO_BUCKET)
+          .upload(path, body, { contentType: "image/jpeg", upsert: true });
+
+        if (error) {
+          return {
+            success: false,
+            error: error.message,
+          };
+        }
+      }
+
+      return {
+        success: true,
+        data: { ...photo, storagePath, thumbnailPath },
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || "Photo upload failed",
+      };
+    }
+  }
+
+  async removePhoto(photo: ReportPhoto): Promise<ReportResult<void>> {
+    try {
+      const paths = [photo.storagePath, photo.thumbnailPath].filter(Boolean);
+      if (paths.length > 0) {
+        const { error } = await supabase.storage
+          .from(PHOTO_BUCKET)
+          .remove(paths);
+
+        if (error) {
+          return {
+            success: false,
+            error: error.message,
+          };
+        }
+      }
+
+      const { error } = await supabase
+        .from("report_photos")
+        .delete()
+        .eq("id", photo.id);
+
+      if (error) {
+        return {
+          success: false,
+          error: error.message,
+          errorCode: error.code,
+        };
+      }
+
+      return { success: true };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || "Failed to remove photo",
+      };
+    }
+  }
+
+  async getPhotoUrls(
+    paths: string[]
+  ): Promise<ReportResult<Record<string, string>>> {
+    try {
+      if (paths.length === 0) {
+        return { success: true, data: {} };
+      }
+
+      const { data, error } = await supabase.storage
+        .from(PHOTO_BUCKET)
+        .createSignedUrls(paths, SIGNED_URL_TTL_SECONDS);
+
+      if (error) {
+        return {
+          success: false,
+          error: error.message,
+        };
+      }
+
+      const urls: Record<string, string> = {};
+      for (const item of data || []) {
+        if (item.path && item.signedUrl) {
+          urls[item.path] = item.signedUrl;
+        }
+      }
+
+      return {
+        success: true,
+        data: urls,
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || "Failed to load photos",
+      };
+    }
+  }
+}
@@ -0,0 +1,30 @@
+// services/photos/annotationGeometry.ts
+// Shared by the on-screen overlay and the PDF renderer, so keep this free
+// of React Native imports.
+
+export const ANNOTATION_STROKE_WIDTH = 4;
+const ARROW_HEAD_LENGTH = 18;
+
+// Polygon points for an arrow head at (x2, y2) pointing away from (x1, y1)
+export function arrowHead(
+  x1: number,
+  y1: number,
+  x2: number,
+  y2: number
+): string {
+  const angle = Math.atan2(y2 - y1, x2 - x1);
+  const spread = Math.PI / 7;
+  const left = {
+    x: x2 - ARROW_HEAD_LENGTH * Math.cos(angle - spread),
+    y: y2 - ARROW_HEAD_LENGTH * Math.sin(angle - spread),
+  };
+  const right = {
+    x: x2 - ARROW_HEAD_LENGTH * Math.cos(angle + spread),
+    y: y2 - ARROW_HEAD_LENGTH * Math.sin(angle + spread),
+  };
+  return `${x2},${y2} ${left.x},${left.y} ${right.x},${right.y}`;
+}
+
+export function annotationFontSize(width: number): number {
+  return Math.max(14, width / 22);
+}
@@ -0,0 +1,134 @@
+// services/photos/photoCapture.ts
+import * as ImagePicker from "expo-image-picker";
+import { ImageManipulator, SaveFormat } from "expo-image-manipulator";
+import * as FileSystem from "expo-file-system";
+import * as Crypto from "expo-crypto";
+import { ReportResult } from "../../types/report";
+import { ReportPhoto } from "../../types/photo";
+
+const MAX_PHOTO_DIMENSION = 1600;
+const THUMBNAIL_DIMENSION = 320;
+const PHOTO_QUALITY = 0.7;
+
+// Picker output lives in the cache directory, which the OS may purge before
+// an offline report gets a chance to sync.
+const PHOTO_DIRECTORY = `${FileSystem.documentDirectory}report-photos/`;
+
+export type PhotoSource = "camera" | "library";
+
+async function ensurePermission(source: PhotoSource): Promise<boolean> {
+  const response =
+    source === "camera"
+      ? await ImagePicker.requestCameraPermissionsAsync()
+      : await ImagePicker.requestMediaLibraryPermissionsAsync();
+  return response.granted;
+}
+
+async function resizeAndSave(
+  uri: string,
+  width: number,
+  height: number,
+  maxDimension: number,
+  destination: string
+) {
+  const context = ImageManipulator.manipulate(uri);
+  if (Math.max(width, height) > maxDimension) {
+    context.resize(
+      width >= height ? { width: maxDimension } : { height: maxDimension }
+    );
+  }
+
+  const image = await context.renderAsync();
+  const result = await image.saveAsync({
+    compress: PHOTO_QUALITY,
+    format: SaveFormat.JPEG,
+  });
+
+  await FileSystem.moveAsync({ from: result.uri, to: destination });
+  return { uri: destination, width: result.width, height: result.height };
+}
+
+/**
+ * Capture or pick a photo, then store a compressed copy and a thumbnail in
+ * the app's document directory ready for annotation and upload.
+ */
+export async function capturePhoto(
+  source: PhotoSource
+): Promise<ReportResult<ReportPhoto | null>> {
+  try {
+    if (!(await ensurePermission(source))) {
+      return {
+        success: false,
+        error:
+          source === "camera"
+            ? "Camera permission is required to take photos"
+            : "Photo library permission is required to attach photos",
+        errorCode: "permission_denied",
+      };
+    }
+
+    const options: ImagePicker.ImagePickerOptions = {
+      mediaTypes: ["images"],
+      quality: 1,
+      exif: false,
+    };
+    const picked =
+      source === "camera"
+        ? await ImagePicker.launchCameraAsync(options)
+        : await ImagePicker.launchImageLibraryAsync(options);
+
+    if (picked.canceled || !picked.assets?.length) {
+      return { success: true, data: null };
+    }
+
+    const asset = picked.assets[0];
+    const id = Crypto.randomUUID();
+
+    await FileSystem.makeDirectoryAsync(PHOTO_DIRECTORY, {
+      intermediates: true,
+    });
+
+    const photo = await resizeAndSave(
+      asset.uri,
+      asset.width,
+      asset.height,
+      MAX_PHOTO_DIMENSION,
+      `${PHOTO_DIRECTORY}${id}.jpg`
+    );
+    const thumbnail = await resizeAndSave(
+      photo.uri,
+      photo.width,
+      photo.height,
+      THUMBNAIL_DIMENSION,
+      `${PHOTO_DIRECTORY}${id}-thumb.jpg`
+    );
+
+    return {
+      success: true,
+      data: {
+        id,
+        caption: "",
+        width: photo.width,
+        height: photo.height,
+        annotations: [],
+        createdAt: Date.now(),
+        localUri: photo.uri,
+        localThumbnailUri: thumbnail.uri,
+      },
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error.message || "Failed to capture photo",
+    };
+  }
+}
+
+// Remove the on-device copies once they are no longer needed
+export async function deleteLocalPhoto(photo: ReportPhoto): Promise<void> {
+  for (const uri of [photo.localUri, photo.localThumbnailUri]) {
+    if (uri) {
+      await FileSystem.deleteAsync(uri, { idempotent: true });
+    }
+  }
+}
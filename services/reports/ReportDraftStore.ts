@@ -0,0 +1,31 @@
+// services/reports/ReportDraftStore.ts
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { InspectionForm, ReportDraft } from "../../types/report";
+
+const DRAFT_KEY_PREFIX = "@inspectrix/report-draft/";
+
+// One in-progress draft per user, kept on the device until submitted
+export class ReportDraftStore {
+  async load(userId: string): Promise<ReportDraft | null> {
+    try {
+      const raw = await AsyncStorage.getItem(DRAFT_KEY_PREFIX + userId);
+      return raw ? (JSON.parse(raw) as ReportDraft) : null;
+    } catch (error) {
+      console.error("Failed to read report draft:", error);
+      return null;
+    }
+  }
+
+  async save(userId: string, form: InspectionForm): Promise<ReportDraft> {
+    const draft: ReportDraft = { form, updatedAt: Date.now() };
+    await AsyncStorage.setItem(
+      DRAFT_KEY_PREFIX + userId,
+      JSON.stringify(draft)
+    );
+    return draft;
+  }
+
+  async clear(userId: string): Promise<void> {
+    await AsyncStorage.removeItem(DRAFT_KEY_PREFIX + userId);
+  }
+}
@@ -0,0 +1,30 @@
+// services/reports/ReportFilterStore.ts
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { ReportFilters } from "../../types/report";
+import { DEFAULT_REPORT_FILTERS } from "./reportFilters";
+
+const FILTERS_KEY_PREFIX = "@inspectrix/report-filters/";
+
+// The Reports list's search, filters and sort, remembered per user
+export class ReportFilterStore {
+  async load(userId: string): Promise<ReportFilters> {
+    try {
+      const raw = await AsyncStorage.getItem(FILTERS_KEY_PREFIX + userId);
+      // Spread over the defaults so filters saved by an older build still
+      // have every field
+      return raw
+        ? { ...DEFAULT_REPORT_FILTERS, ...JSON.parse(raw) }
+        : DEFAULT_REPORT_FILTERS;
+    } catch (error) {
+      console.error("Failed to read report filters:", error);
+      return DEFAULT_REPORT_FILTERS;
+    }
+  }
+
+  async save(userId: string, filters: ReportFilters): Promise<void> {
+    await AsyncStorage.setItem(
+      FILTERS_KEY_PREFIX + userId,
+      JSON.stringify(filters)
+    );
+  }
+}
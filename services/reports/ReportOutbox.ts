@@ -0,0 +1,369 @@
+// services/reports/ReportOutbox.ts
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import * as Crypto from "expo-crypto";
+import {
+  IReportService,
+  InspectionForm,
+  InspectionReport,
+  OutboxEntry,
+  ReportResult,
+} from "../../types/report";
+import { IPhotoService, ReportPhoto } from "../../types/photo";
+import { IDefectService } from "../../types/defect";
+import { User } from "../../types/auth";
+import { deleteLocalPhoto } from "../photos/photoCapture";
+
+const OUTBOX_KEY = "@inspectrix/report-outbox";
+
+const BASE_RETRY_DELAY_MS = 5 * 1000;
+const MAX_RETRY_DELAY_MS = 15 * 60 * 1000;
+
+// Postgres/PostgREST codes that mean the server rejected the data itself,
+// and the report service's own refusals. Retrying these won't help, so the
+// entry is parked as a conflict instead.
+const UNIQUE_VIOLATION = "23505";
+const NON_RETRYABLE_CODE = /^(22|23|42|PGRST)/;
+const REFUSED_CODES = [
+  "forbidden",
+  "not_found",
+  "status_conflict",
+  "invalid_transition",
+];
+
+// Returned for an entry the user discarded while it was uploading
+const DISCARDED = "discarded";
+
+const DISCARDED_RESULT: ReportResult<InspectionReport> = {
+  success: false,
+  error: "Discarded",
+  errorCode: DISCARDED,
+};
+
+export interface OutboxFlushResult {
+  synced: InspectionReport[];
+  entries: OutboxEntry[];
+}
+
+function isRetryable(errorCode?: string): boolean {
+  return (
+    !NON_RETRYABLE_CODE.test(errorCode || "") &&
+    !REFUSED_CODES.includes(errorCode || "")
+  );
+}
+
+export function getRetryDelay(attempts: number): number {
+  return Math.min(
+    BASE_RETRY_DELAY_MS * Math.pow(2, Math.max(attempts - 1, 0)),
+    MAX_RETRY_DELAY_MS
+  );
+}
+
+/**
+ * Durable queue of reports waiting to reach the server. Entries are written
+ * to AsyncStorage before any network call so nothing is lost if the app is
+ * killed on a site with no signal. An entry only leaves the queue once the
+ * report row, all of its photos and its defects have been uploaded.
+ */
+export class ReportOutbox {
+  private flushing = new Map<string, Promise<OutboxFlushResult>>();
+
+  constructor(
+    private reportService: IReportService,
+    private photoService: IPhotoService,
+    private defectService: IDefectService
+  ) {}
+
+  async getEntries(): Promise<OutboxEntry[]> {
+    try {
+      const raw = await AsyncStorage.getItem(OUTBOX_KEY);
+      return raw ? (JSON.parse(raw) as OutboxEntry[]) : [];
+    } catch (error) {
+      console.error("Failed to read report outbox:", error);
+      return [];
+    }
+  }
+
+  async enqueue(
+    form: InspectionForm,
+    author: { id: string; name: string; contractorId: string }
+  ): Promise<OutboxEntry> {
+    const now = Date.now();
+    const entry: OutboxEntry = {
+      clientId: Crypto.randomUUID(),
+      form,
+      authorId: author.id,
+      authorName: author.name,
+      contractorId: author.contractorId,
+      state: "queued",
+      attempts: 0,
+      nextAttemptAt: now,
+      createdAt: now,
+    };
+
+    const entries = await this.getEntries();
+    await this.saveEntries([...entries, entry]);
+    return entry;
+  }
+
+  async retry(clientId: string): Promise<OutboxEntry[]> {
+    const entries = (await this.getEntries()).map((entry) =>
+      entry.clientId === clientId
+        ? {
+            ...entry,
+            state: "queued" as const,
+            nextAttemptAt: Date.now(),
+          }
+        : entry
+    );
+    await this.saveEntries(entries);
+    return entries;
+  }
+
+  async discard(clientId: string): Promise<OutboxEntry[]> {
+    const all = await this.getEntries();
+    const entries = all.filter((entry) => entry.clientId !== clientId);
+    await this.saveEntries(entries);
+
+    const discarded = all.find((entry) => entry.clientId === clientId);
+    for (const photo of discarded?.form.photos || []) {
+      await deleteLocalPhoto(photo);
+    }
+
+    return entries;
+  }
+
+  // Uploads the signed-in author's due entries; other users' reports wait
+  // for them to sign in. Concurrent callers share the flush already in
+  // progress.
+  flush(author: Pick<User, "id" | "role">): Promise<OutboxFlushResult> {
+    let flushing = this.flushing.get(author.id);
+    if (!flushing) {
+      flushing = this.runFlush(author).finally(() => {
+        this.flushing.delete(author.id);
+      });
+      this.flushing.set(author.id, flushing);
+    }
+    return flushing;
+  }
+
+  // Private helper methods
+  private async runFlush(
+    author: Pick<User, "id" | "role">
+  ): Promise<OutboxFlushResult> {
+    const synced: InspectionReport[] = [];
+    // Outcome per attempted entry: its new state, or null once uploaded
+    const attempted = new Map<string, OutboxEntry | null>();
+
+    for (const entry of await this.getEntries()) {
+      if (
+        entry.authorId !== author.id ||
+        entry.state !== "queued" ||
+        entry.nextAttemptAt > Date.now()
+      ) {
+        continue;
+      }
+
+      const { result: report, entry: progress } = await this.upload(
+        entry,
+        author.role
+      );
+      if (report.errorCode === DISCARDED) {
+        attempted.set(entry.clientId, null);
+        continue;
+      }
+      if (report.success && report.data) {
+        synced.push(report.data);
+        attempted.set(entry.clientId, null);
+        for (const photo of entry.form.photos) {
+          await deleteLocalPhoto(photo);
+        }
+        continue;
+      }
+
+      const attempts = entry.attempts + 1;
+      const retryable = isRetryable(report.errorCode);
+
+      attempted.set(entry.clientId, {
+        ...progress,
+        attempts,
+        state: retryable ? "queued" : "conflict",
+        nextAttemptAt: Date.now() + getRetryDelay(attempts),
+        lastError: report.error,
+      });
+    }
+
+    // Apply the outcomes to the queue as it is now, not as it was when the
+    // flush started, so entries enqueued, retried or discarded meanwhile
+    // keep those changes
+    const entries: OutboxEntry[] = [];
+    for (const entry of await this.getEntries()) {
+      if (!attempted.has(entry.clientId)) {
+        entries.push(entry);
+      } else if (attempted.get(entry.clientId)) {
+        entries.push(attempted.get(entry.clientId)!);
+      }
+    }
+
+    await this.saveEntries(entries);
+    return { synced, entries };
+  }
+
+  private async upload(
+    entry: OutboxEntry,
+    role: User["role"]
+  ): Promise<{ result: ReportResult<InspectionReport>; entry: OutboxEntry }> {
+    const author = {
+      id: entry.authorId,
+      role,
+      contractorId: entry.contractorId,
+    };
+    let reportId = entry.serverReportId;
+
+    if (await this.isDiscarded(entry)) {
+      return { result: DISCARDED_RESULT, entry };
+    }
+    if (!reportId) {
+      const saved = entry.form.reportId
+        ? await this.reviseReport(entry, author)
+        : await this.createReport(entry, author);
+      if (!saved.success || !saved.data) {
+        return { result: saved, entry };
+      }
+      reportId = saved.data.id;
+      entry = { ...entry, serverReportId: reportId };
+    }
+
+    // Keep per-photo progress so a retry only re-sends what failed
+    const photos: ReportPhoto[] = [];
+    for (const [index, photo] of entry.form.photos.entries()) {
+      if (photo.storagePath) {
+        photos.push(photo);
+        continue;
+      }
+      // Photo uploads are slow, so a discard can land between them
+      if (await this.isDiscarded(entry)) {
+        return { result: DISCARDED_RESULT, entry };
+      }
+
+      const uploaded = await this.photoService.uploadPhoto(
+        photo,
+        reportId,
+        entry.contractorId
+      );
+      if (!uploaded.success || !uploaded.data) {
+        const pending = entry.form.photos.slice(index);
+        return {
+          result: { ...uploaded, data: undefined },
+          entry: {
+            ...entry,
+            form: { ...entry.form, photos: [...photos, ...pending] },
+          },
+        };
+      }
+      photos.push(uploaded.data);
+    }
+
+    // Defects reference the uploaded photos, so they go last
+    if (entry.form.defects?.length) {
+      if (await this.isDiscarded(entry)) {
+        return { result: DISCARDED_RESULT, entry };
+      }
+      const recorded = await this.defectService.recordDefects(
+        {
+          reportId,
+          contractorId: entry.contractorId,
+          assetId: entry.form.assetId,
+        },
+        entry.form.defects,
+        photos,
+        { id: entry.authorId, contractorId: entry.contractorId }
+      );
+      if (!recorded.success) {
+        return {
+          result: { ...recorded, data: undefined },
+          entry: { ...entry, form: { ...entry.form, photos } },
+        };
+      }
+    }
+
+    entry = { ...entry, form: { ...entry.form, photos } };
+    const report = await this.reportService.getReport(reportId);
+
+    // A revision goes back to the reviewer only once all of it has arrived
+    if (
+      entry.form.reportId &&
+      report.success &&
+      report.data?.status === "In Progress"
+    ) {
+      return {
+        result: await this.reportService.transitionReport(
+          report.data,
+          "Submitted",
+          author
+        ),
+        entry,
+      };
+    }
+
+    return { result: report, entry };
+  }
+
+  private async createReport(
+    entry: OutboxEntry,
+    author: Pick<User, "id" | "role" | "contractorId">
+  ): Promise<ReportResult<InspectionReport>> {
+    const result = await this.reportService.createReport(
+      entry.form,
+      author,
+      entry.clientId
+    );
+
+    // A previous attempt reached the server but the response was lost.
+    // Reconcile against the row that already carries our client ID.
+    if (!result.success && result.errorCode === UNIQUE_VIOLATION) {
+      return this.reportService.getReportByClientId(entry.clientId);
+    }
+
+    return result;
+  }
+
+  // Saves the new content, then drops the server's copies of any photos the
+  // inspector removed so the stored report matches what they signed
+  private async reviseReport(
+    entry: OutboxEntry,
+    author: Pick<User, "id" | "role" | "contractorId">
+  ): Promise<ReportResult<InspectionReport>> {
+    const revised = await this.reportService.reviseReport(
+      entry.form.reportId!,
+      entry.form,
+      author
+    );
+    if (!revised.success || !revised.data) {
+      return revised;
+    }
+
+    const kept = new Set(entry.form.photos.map((photo) => photo.id));
+    for (const photo of revised.data.photos) {
+      if (kept.has(photo.id)) {
+        continue;
+      }
+      const removed = await this.photoService.removePhoto(photo);
+      if (!removed.success) {
+        return { ...removed, data: undefined };
+      }
+    }
+
+    return revised;
+  }
+
+  // Discarding only edits the stored queue, so an upload in progress
+  // checks it before each step that sends more to the server
+  private async isDiscarded(entry: OutboxEntry): Promise<boolean> {
+    const entries = await this.getEntries();
+    return !entries.some((e) => e.clientId === entry.clientId);
+  }
+
+  private async saveEntries(entries: OutboxEntry[]): Promise<void> {
+    await AsyncStorage.setItem(OUTBOX_KEY, JSON.stringify(entries));
+  }
+}
@@ -0,0 +1,569 @@
+// services/reports/SupabaseReportService.ts
+import { supabase } from "../../lib/supabase";
+import { User } from "../../types/auth";
+import {
+  IReportService,
+  ReportResult,
+  InspectionForm,
+  InspectionReport,
+  ReportStatus,
+  ReportStatusEvent,
+  ReportFilters,
+  ReportPage,
+} from "../../types/report";
+import { checkPermission } from "../auth/permissions";
+import {
+  countPendingPhotos,
+  findTransition,
+  STATUS_TRANSITIONS,
+} from "./reportWorkflow";
+import { getCreatedSince } from "./reportFilters";
+import {
+  findSignature,
+  hashReportContent,
+} from "../signatures/reportSignatures";
+
+const SEARCH_COLUMNS = [
+  "equipment_id",
+  "equipment_type",
+  "location",
+  "description",
+];
+
+const REPORT_SELECT = `
+  *,
+  inspector:inspector_id (
+    first_name,
+    last_name
+  ),
+  photos:report_photos (
+    id,
+    caption,
+    width,
+    height,
+    annotations,
+    checklist_item_id,
+    storage_path,
+    thumbnail_path,
+    created_at
+  )
+`;
+
+export class SupabaseReportService implements IReportService {
+  async createReport(
+    form: InspectionForm,
+    author: Pick<User, "id" | "role" | "contractorId">,
+    clientId?: string
+  ): Promise<ReportResult<InspectionReport>> {
+    try {
+      const denied = checkPermission(author, "reports.create");
+      if (denied) {
+        return denied;
+      }
+
+      const { data, error } = await supabase
+        .from("inspection_reports")
+        .insert({
+          ...this.toContentRow(form),
+          client_id: clientId || null,
+          contractor_id: author.contractorId,
+          inspector_id: author.id,
+          job_id: form.jobId || null,
+          status: "Submitted",
+        })
+        .select(REPORT_SELECT)
+        .single();
+
+      if (error || !data) {
+        return {
+          success: false,
+          error: error?.message || "Failed to create report",
+          errorCode: error?.code,
+        };
+      }
+
+      if (form.jobId) {
+        await this.completeJob(form.jobId, data.id, author.id);
+      }
+
+      return {
+        success: true,
+        data: this.mapReport(data),
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || "Failed to create report",
+      };
+    }
+  }
+
+  async reviseReport(
+    reportId: string,
+    form: InspectionForm,
+    author: Pick<User, "id" | "role" | "contractorId">
+  ): Promise<ReportResult<InspectionReport>> {
+    try {
+      const denied = checkPermission(author, "reports.submit");
+      if (denied) {
+        return denied;
+      }
+
+      // Only the inspector's own report, and only while it is back with
+      // them, so a revision can't rewrite something already under review
+      const { data, error } = await supabase
+        .from("inspection_reports")
+        .update(this.toContentRow(form))
+        .eq("id", reportId)
+        .eq("inspector_id", author.id)
+        .eq("status", "In Progress")
+        .select(REPORT_SELECT)
+        .maybeSingle();
+
+      if (error) {
+        return {
+          success: false,
+          error: error.message,
+          errorCode: error.code,
+        };
+      }
+
+      if (!data) {
+        return {
+          success: false,
+          error: "This report is no longer waiting for revision",
+          errorCode: "status_conflict",
+        };
+      }
+
+      return {
+        success: true,
+        data: this.mapReport(data),
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || "Failed to revise report",
+      };
+    }
+  }
+
+  async getReport(id: string): Promise<ReportResult<InspectionReport>> {
+    try {
+      const { data, error } = await supabase
+        .from("inspection_reports")
+        .select(REPORT_SELECT)
+        .eq("id", id)
+        .single();
+
+      if (error || !data) {
+        return {
+          success: false,
+          error: error?.message || "Report not found",
+          errorCode: error?.code,
+        };
+      }
+
+      return {
+        success: true,
+        data: this.mapReport(data),
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || "Failed to load report",
+      };
+    }
+  }
+
+  async getReportByClientId(
+    clientId: string
+  ): Promise<ReportResult<InspectionReport>> {
+    try {
+      const { data, error } = await supabase
+        .from("inspection_reports")
+        .select(REPORT_SELECT)
+        .eq("client_id", clientId)
+        .maybeSingle();
+
+      if (error || !data) {
+        return {
+          success: false,
+          error: error?.message || "Report not found",
+          errorCode: error?.code || "not_found",
+        };
+      }
+
+      return {
+        success: true,
+        data: this.mapReport(data),
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || "Failed to load report",
+      };
+    }
+  }
+
+  async listReports(
+    contractorId: string,
+    filters: ReportFilters,
+    page: { offset: number; limit: number }
+  ): Promise<ReportResult<ReportPage>> {
+    try {
+      let query = supabase
+        .from("inspection_reports")
+        .select(REPORT_SELECT)
+        .eq("contractor_id", contractorId);
+
+      const term = this.sanitizeSearchTerm(filters.search);
+      if (term) {
+        query = query.or(
+          SEARCH_COLUMNS.map((column) => `${column}.ilike.%${term}%`).join(",")
+        );
+      }
+      if (filters.statuses.length > 0) {
+        query = query.in("status", filters.statuses);
+      }
+      if (filters.priorities.length > 0) {
+        query = query.in("priority", filters.priorities);
+      }
+      if (filters.inspectorId) {
+        query = query.eq("inspector_id", filters.inspectorId);
+      }
+      const createdSince = getCreatedSince(filters);
+      if (createdSince) {
+        query = query.gte("created_at", createdSince.toISOString());
+      }
+
+      switch (filters.sort) {
+        case "oldest":
+          query = query.order("created_at", { ascending: true });
+          break;
+        case "priority":
+          // priority_rank is a generated column (High 3, Medium 2, Low 1)
+          query = query
+            .order("priority_rank", { ascending: false })
+            .order("created_at", { ascending: false });
+          break;
+        case "overdue":
+          // awaiting_since is a generated column: updated_at (stamped by
+          // each transition) until the report is Completed, then null.
+          // Reports that have waited longest for their next step come
+          // first and completed ones sink to the bottom; narrowing by
+          // status is left to the status filter.
+          query = query
+            .order("awaiting_since", { ascending: true, nullsFirst: false })
+            .order("created_at", { ascending: false });
+          break;
+        default:
+          query = query.order("created_at", { ascending: false });
+      }
+
+      // Ask for one extra row to learn whether another page exists
+      const { data, error } = await query.range(
+        page.offset,
+        page.offset + page.limit
+      );
+
+      if (error) {
+        return {
+          success: false,
+          error: error.message,
+          errorCode: error.code,
+        };
+      }
+
+      const rows = data || [];
+      return {
+        success: true,
+        data: {
+          reports: rows.slice(0, page.limit).map((row) => this.mapReport(row)),
+          hasMore: rows.length > page.limit,
+        },
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || "Failed to load reports",
+      };
+    }
+  }
+
+  async listReportsForAsset(
+    assetId: string
+  ): Promise<ReportResult<InspectionReport[]>> {
+    try {
+      const { data, error } = await supabase
+        .from("inspection_reports")
+        .select(REPORT_SELECT)
+        .eq("asset_id", assetId)
+        .order("created_at", { ascending: false });
+
+      if (error) {
+        return {
+          success: false,
+          error: error.message,
+          errorCode: error.code,
+        };
+      }
+
+      return {
+        success: true,
+        data: (data || []).map((row) => this.mapReport(row)),
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || "Failed to load inspection history",
+      };
+    }
+  }
+
+  async transitionReport(
+    report: InspectionReport,
+    to: ReportStatus,
+    actor: Pick<User, "id" | "role" | "contractorId">,
+    comment?: string
+  ): Promise<ReportResult<InspectionReport>> {
+    try {
+      const transition = findTransition(report, to, actor);
+      if (!transition) {
+        const rule = STATUS_TRANSITIONS.find(
+          (t) => t.from === report.status && t.to === to
+        );
+        if (rule) {
+          return (
+            checkPermission(actor, rule.capability, report.contractorId) || {
+              success: false,
+              error: "Only the report's inspector can submit it",
+              errorCode: "forbidden",
+            }
+          );
+        }
+        return {
+          success: false,
+          error: `Cannot move a ${report.status} report to ${to}`,
+          errorCode: "invalid_transition",
+        };
+      }
+      if (transition.requiresComment && !comment?.trim()) {
+        return {
+          success: false,
+          error: "A comment is required for this action",
+          errorCode: "comment_required",
+        };
+      }
+      // Reviewing a partial report would also fail the signature check
+      // below with a misleading error
+      const pendingPhotos = countPendingPhotos(report);
+      if (transition.capability !== "reports.submit" && pendingPhotos > 0) {
+        return {
+          success: false,
+          error: `${pendingPhotos} photo${
+            pendingPhotos === 1 ? " is" : "s are"
+          } still uploading from the inspector's device. Try again once they arrive.`,
+          errorCode: "photos_pending",
+        };
+      }
+      // A certificate can't be issued without the inspector's sign-off on
+      // the content being approved
+      if (to === "Completed") {
+        const reportHash = await hashReportContent(report);
+        if (!findSignature(report.signatures, "inspector", reportHash)) {
+          return {
+            success: false,
+            error:
+              "The inspector's signature is missing or no longer matches this report",
+            errorCode: "signature_required",
+          };
+        }
+      }
+
+      // The database function updates the status and records the event in
+      // one transaction, so the history can't miss a change. It only applies
+      // while the report is still in the status we saw, so two reviewers
+      // can't both apply a transition. The caller is recorded as the actor.
+      const { data: applied, error } = await supabase.rpc("transition_report", {
+        p_report_id: report.id,
+        p_from_status: report.status,
+        p_to_status: to,
+        p_comment: comment?.trim() || null,
+      });
+
+      if (error) {
+        return {
+          success: false,
+          error: error.message,
+          errorCode: error.code,
+        };
+      }
+
+      if (!applied) {
+        return {
+          success: false,
+          error: "This report's status was changed by someone else",
+          errorCode: "status_conflict",
+        };
+      }
+
+      return this.getReport(report.id);
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || "Failed to update report status",
+      };
+    }
+  }
+
+  async getStatusHistory(
+    reportId: string
+  ): Promise<ReportResult<ReportStatusEvent[]>> {
+    try {
+      const { data, error } = await supabase
+        .from("report_status_events")
+        .select(
+          `
+          *,
+          actor:actor_id (
+            first_name,
+            last_name
+          )
+        `
+        )
+        .eq("report_id", reportId)
+        .order("created_at", { ascending: true });
+
+      if (error) {
+        return {
+          success: false,
+          error: error.message,
+          errorCode: error.code,
+        };
+      }
+
+      return {
+        success: true,
+        data: (data || []).map((row) => this.mapStatusEvent(row)),
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || "Failed to load status history",
+      };
+    }
+  }
+
+  // Private helper methods
+
+  // The columns an inspector fills in, shared by new and revised reports
+  private toContentRow(form: InspectionForm): Record<string, any> {
+    return {
+      asset_id: form.assetId || null,
+      equipment_id: form.equipmentId.trim(),
+      equipment_type: form.equipmentType.trim(),
+      location: form.location.trim(),
+      priority: form.priority,
+      inspection_class: form.inspectionClass || null,
+      description: form.description.trim(),
+      notes: form.notes.trim() || null,
+      template_id: form.templateId || null,
+      template_version: form.templateVersion || null,
+      template_snapshot: form.templateSnapshot || null,
+      checklist: form.checklist,
+      photo_count: form.photos.length,
+      signatures: form.signatures || [],
+      defects: form.defects || [],
+    };
+  }
+
+  // Best effort: the report is already saved, and the manager can still see
+  // it against the asset if the job isn't updated
+  private async completeJob(
+    jobId: string,
+    reportId: string,
+    authorId: string
+  ): Promise<void> {
+    const { error } = await supabase
+      .from("inspection_jobs")
+      .update({
+        status: "Completed",
+        report_id: reportId,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", jobId)
+      .eq("assignee_id", authorId)
+      .neq("status", "Cancelled");
+
+    if (error) {
+      console.warn("Failed to complete inspection job:", error.message);
+    }
+  }
+
+  private mapReport(data: any): InspectionReport {
+    const inspectorName = data.inspector
+      ? `${data.inspector.first_name} ${data.inspector.last_name}`.trim()
+      : "Unknown";
+
+    return {
+      id: data.id,
+      clientId: data.client_id || undefined,
+      photoCount: data.photo_count ?? undefined,
+      assetId: data.asset_id || undefined,
+      syncState: "synced",
+      contractorId: data.contractor_id,
+      inspectorId: data.inspector_id,
+      inspectorName,
+      equipmentId: data.equipment_id,
+      equipmentType: data.equipment_type,
+      location: data.location,
+      priority: data.priority,
+      inspectionClass: data.inspection_class || undefined,
+      jobId: data.job_id || undefined,
+      status: data.status,
+      description: data.description,
+      notes: data.notes || "",
+      templateId: data.template_id || undefined,
+      templateVersion: data.template_version || undefined,
+      templateSnapshot: data.template_snapshot || undefined,
+      checklist: data.checklist || {},
+      signatures: data.signatures || [],
+      defects: data.defects || [],
+      photos: (data.photos || []).map((photo: any) => ({
+        id: photo.id,
+        caption: photo.caption || "",
+        width: photo.width,
+        height: photo.height,
+        annotations: photo.annotations || [],
+        checklistItemId: photo.checklist_item_id || undefined,
+        storagePath: photo.storage_path,
+        thumbnailPath: photo.thumbnail_path,
+        createdAt: new Date(photo.created_at).getTime(),
+      })),
+      createdAt: new Date(data.created_at),
+      updatedAt: new Date(data.updated_at || data.created_at),
+    };
+  }
+
+  private mapStatusEvent(data: any): ReportStatusEvent {
+    return {
+      id: data.id,
+      reportId: data.report_id,
+      fromStatus: data.from_status,
+      toStatus: data.to_status,
+      actorId: data.actor_id,
+      actorName: data.actor
+        ? `${data.actor.first_name} ${data.actor.last_name}`.trim()
+        : "Unknown",
+      comment: data.comment || undefined,
+      createdAt: new Date(data.created_at),
+    };
+  }
+
+  // PostgREST's or() syntax treats commas, parentheses and quotes
+  // specially, and % / * are wildcards
+  private sanitizeSearchTerm(search: string): string {
+    return search.replace(/[,()"'%*\\]/g, " ").trim();
+  }
+}
@@ -0,0 +1,245 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { ReportOutbox } from "../ReportOutbox";
+import { IReportService, InspectionForm } from "../../../types/report";
+import { IPhotoService, ReportPhoto } from "../../../types/photo";
+import { IDefectService } from "../../../types/defect";
+
+const FORM: InspectionForm = {
+  equipmentId: "CR-101",
+  equipmentType: "Overhead Crane",
+  location: "Plant A - Bay 2",
+  priority: "Medium",
+  inspectionClass: "periodic",
+  description: "Annual inspection",
+  notes: "",
+  photos: [],
+  checklist: {},
+};
+
+// Already on the server, as in a report opened for revision
+const PHOTO: ReportPhoto = {
+  id: "photo-1",
+  caption: "",
+  width: 1600,
+  height: 1200,
+  annotations: [],
+  createdAt: Date.UTC(2026, 9, 19),
+  storagePath: "c-1/report-9/photo-1.jpg",
+};
+
+const RILEY = {
+  id: "inspector-1",
+  name: "Riley Chen",
+  role: "inspector" as const,
+  contractorId: "c-1",
+};
+const SAM = {
+  id: "inspector-2",
+  name: "Sam Ortiz",
+  role: "inspector" as const,
+  contractorId: "c-1",
+};
+
+describe("ReportOutbox", () => {
+  let reportService: jest.Mocked<
+    Pick<
+      IReportService,
+      | "createReport"
+      | "reviseReport"
+      | "getReport"
+      | "getReportByClientId"
+      | "transitionReport"
+    >
+  >;
+  let photoService: jest.Mocked<
+    Pick<IPhotoService, "uploadPhoto" | "removePhoto">
+  >;
+  let outbox: ReportOutbox;
+
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    reportService = {
+      createReport: jest.fn(async (_form, _author, clientId) => ({
+        success: true,
+        data: { id: `report-${clientId}` } as any,
+      })),
+      getReport: jest.fn(async (id) => ({
+        success: true,
+        data: { id, clientId: id.replace("report-", "") } as any,
+      })),
+      getReportByClientId: jest.fn(),
+      reviseReport: jest.fn(),
+      transitionReport: jest.fn(),
+    };
+    photoService = {
+      uploadPhoto: jest.fn(async (photo, reportId, _contractorId) => ({
+        success: true,
+        data: { ...photo, storagePath: `${reportId}/${photo.id}.jpg` },
+      })),
+      removePhoto: jest.fn(async (_photo) => ({ success: true })),
+    };
+    outbox = new ReportOutbox(
+      reportService as unknown as IReportService,
+      photoService as unknown as IPhotoService,
+      {} as IDefectService
+    );
+  });
+
+  it("only uploads the signed-in author's entries", async () => {
+    const mine = await outbox.enqueue(FORM, RILEY);
+    const theirs = await outbox.enqueue(FORM, SAM);
+
+    const { synced, entries } = await outbox.flush(RILEY);
+
+    expect(synced.map((report) => report.clientId)).toEqual([mine.clientId]);
+    expect(entries.map((entry) => entry.clientId)).toEqual([theirs.clientId]);
+    expect(reportService.createReport).toHaveBeenCalledTimes(1);
+    expect(reportService.createReport.mock.calls[0][1]).toEqual({
+      id: RILEY.id,
+      role: RILEY.role,
+      contractorId: RILEY.contractorId,
+    });
+  });
+
+  it("resubmits a revision once its content has been replaced", async () => {
+    const kept = { ...PHOTO, id: "photo-kept" };
+    const dropped = { ...PHOTO, id: "photo-dropped" };
+    const rejected = {
+      id: "report-9",
+      status: "In Progress",
+      photos: [kept, dropped],
+    } as any;
+    reportService.reviseReport.mockResolvedValue({
+      success: true,
+      data: rejected,
+    });
+    reportService.getReport.mockResolvedValue({
+      success: true,
+      data: rejected,
+    });
+    reportService.transitionReport.mockResolvedValue({
+      success: true,
+      data: { ...rejected, status: "Submitted" },
+    });
+
+    await outbox.enqueue(
+      { ...FORM, reportId: "report-9", photos: [kept] },
+      RILEY
+    );
+    const { synced, entries } = await outbox.flush(RILEY);
+
+    expect(reportService.createReport).not.toHaveBeenCalled();
+    expect(reportService.reviseReport.mock.calls[0][0]).toBe("report-9");
+    expect(photoService.removePhoto).toHaveBeenCalledTimes(1);
+    expect(photoService.removePhoto).toHaveBeenCalledWith(dropped);
+    expect(reportService.transitionReport).toHaveBeenCalledWith(
+      rejected,
+      "Submitted",
+      { id: RILEY.id, role: RILEY.role, contractorId: RILEY.contractorId }
+    );
+    expect(synced.map((report) => report.status)).toEqual(["Submitted"]);
+    expect(entries).toEqual([]);
+  });
+
+  it.each([
+    ["a permission refusal", "forbidden"],
+    ["a status that moved on", "status_conflict"],
+  ])("parks %s as a conflict", async (_, errorCode) => {
+    reportService.createReport.mockResolvedValueOnce({
+      success: false,
+      error: "Refused",
+      errorCode,
+    });
+    await outbox.enqueue(FORM, RILEY);
+
+    const { entries } = await outbox.flush(RILEY);
+
+    expect(entries[0].state).toBe("conflict");
+  });
+
+  it("parks a duplicate it can't find again as a conflict", async () => {
+    reportService.createReport.mockResolvedValueOnce({
+      success: false,
+      error: "duplicate key value",
+      errorCode: "23505",
+    });
+    reportService.getReportByClientId.mockResolvedValueOnce({
+      success: false,
+      error: "Report not found",
+      errorCode: "not_found",
+    });
+    await outbox.enqueue(FORM, RILEY);
+
+    const { entries } = await outbox.flush(RILEY);
+
+    expect(entries[0].state).toBe("conflict");
+  });
+
+  describe("changes made while a flush is running", () => {
+    let release: () => void;
+
+    // Holds the next upload until release() so the test can act mid-flush
+    const holdNextUpload = () => {
+      const gate = new Promise<void>((resolve) => (release = resolve));
+      reportService.createReport.mockImplementationOnce(
+        async (_form, _author, clientId) => {
+          await gate;
+          return { success: true, data: { id: `report-${clientId}` } as any };
+        }
+      );
+    };
+
+    it("keeps a discard", async () => {
+      await outbox.enqueue(FORM, RILEY);
+      const theirs = await outbox.enqueue(FORM, SAM);
+      holdNextUpload();
+
+      const flushing = outbox.flush(RILEY);
+      await outbox.discard(theirs.clientId);
+      release();
+      const { entries } = await flushing;
+
+      expect(entries).toEqual([]);
+      expect(await outbox.getEntries()).toEqual([]);
+    });
+
+    it("stops uploading an entry discarded mid-flush", async () => {
+      const photo = { ...PHOTO, storagePath: undefined };
+      const mine = await outbox.enqueue({ ...FORM, photos: [photo] }, RILEY);
+      holdNextUpload();
+
+      const flushing = outbox.flush(RILEY);
+      await outbox.discard(mine.clientId);
+      release();
+      const { synced, entries } = await flushing;
+
+      expect(photoService.uploadPhoto).not.toHaveBeenCalled();
+      expect(synced).toEqual([]);
+      expect(entries).toEqual([]);
+    });
+
+    it("keeps a retry", async () => {
+      reportService.createReport.mockResolvedValueOnce({
+        success: false,
+        error: "null value in column",
+        errorCode: "23502",
+      });
+      const rejected = await outbox.enqueue(FORM, RILEY);
+      await outbox.flush(RILEY);
+      expect((await outbox.getEntries())[0].state).toBe("conflict");
+
+      await outbox.enqueue(FORM, RILEY);
+      holdNextUpload();
+      const flushing = outbox.flush(RILEY);
+      await outbox.retry(rejected.clientId);
+      release();
+      const { entries } = await flushing;
+
+      expect(entries).toHaveLength(1);
+      expect(entries[0]).toMatchObject({
+        clientId: rejected.clientId,
+        state: "queued",
+      });
+    });
+  });
+});
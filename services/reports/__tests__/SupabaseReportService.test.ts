@@ -0,0 +1,324 @@
+import { SupabaseReportService } from "../SupabaseReportService";
+import { SupabasePhotoService } from "../../photos/SupabasePhotoService";
+import { signedContent } from "../../signatures/reportSignatures";
+import { fakeSupabase } from "../../../test/fakeSupabase";
+import { InspectionForm } from "../../../types/report";
+import { ReportPhoto } from "../../../types/photo";
+import { User } from "../../../types/auth";
+
+jest.mock("../../../lib/supabase", () => ({
+  supabase: require("../../../test/fakeSupabase").fakeSupabase,
+}));
+
+const AUTHOR = {
+  id: "inspector-1",
+  role: "inspector" as const,
+  contractorId: "contractor-1",
+};
+
+const MANAGER: User = {
+  id: "manager-1",
+  email: "manager@example.com",
+  firstName: "Morgan",
+  lastName: "Lee",
+  role: "manager",
+  contractorId: "contractor-1",
+  contractorName: "Acme Lifting",
+  isActive: true,
+  mustChangePassword: false,
+  createdAt: new Date(),
+};
+
+const EVIDENCE: ReportPhoto = {
+  id: "photo-1",
+  caption: "Rope at the drum",
+  width: 1600,
+  height: 1200,
+  annotations: [
+    {
+      kind: "circle",
+      color: "#ff0000",
+      center: { x: 0.5, y: 0.5 },
+      radius: 0.1,
+    },
+  ],
+  checklistItemId: "rope",
+  createdAt: Date.UTC(2026, 9, 19),
+  localUri: "file:///photos/photo-1.jpg",
+  localThumbnailUri: "file:///photos/photo-1-thumb.jpg",
+};
+
+const FORM: InspectionForm = {
+  assetId: "asset-1",
+  equipmentId: " CR-101 ",
+  equipmentType: "Overhead Crane",
+  location: "Plant A - Bay 2",
+  priority: "High",
+  inspectionClass: "periodic",
+  description: "Hoist rope has broken wires near the drum.",
+  notes: "  ",
+  photos: [],
+  templateId: "template-1",
+  templateVersion: 3,
+  checklist: {
+    rope: { itemId: "rope", value: "fail", comment: "Broken wires" },
+    load: { itemId: "load", value: 5000 },
+  },
+  defects: [
+    {
+      id: "defect-1",
+      title: "Broken hoist rope wires",
+      severity: "Critical",
+      removeFromService: true,
+      recommendedAction: "Replace the hoist rope",
+      dueDate: Date.UTC(2026, 9, 20),
+      checklistItemId: "rope",
+      beforePhotoIds: [],
+    },
+  ],
+  signatures: [],
+};
+
+describe("SupabaseReportService", () => {
+  const service = new SupabaseReportService();
+
+  beforeEach(() => {
+    fakeSupabase.reset();
+    // Stands in for the database function: the guarded status update and
+    // its event happen together or not at all
+    fakeSupabase.rpcHandlers.transition_report = (args) => {
+      const row = fakeSupabase
+        .rows("inspection_reports")
+        .find(
+          (r) => r.id === args.p_report_id && r.status === args.p_from_status
+        );
+      if (!row) {
+        return { data: false };
+      }
+      row.status = args.p_to_status;
+      fakeSupabase.rows("report_status_events").push({
+        report_id: args.p_report_id,
+        from_status: args.p_from_status,
+        to_status: args.p_to_status,
+        actor_id: MANAGER.id,
+        comment: args.p_comment,
+      });
+      return { data: true };
+    };
+  });
+
+  it("stores exactly the content the inspector signed", async () => {
+    const created = await service.createReport(FORM, AUTHOR);
+    expect(created.success).toBe(true);
+
+    const fetched = await service.getReport(created.data!.id);
+
+    expect(signedContent(created.data!)).toBe(signedContent(FORM));
+    expect(signedContent(fetched.data!)).toBe(signedContent(FORM));
+  });
+
+  const photoService = new SupabasePhotoService();
+  jest
+    .spyOn(photoService, "uploadPhotoFiles")
+    .mockImplementation(async (photo, folder) => ({
+      success: true,
+      data: {
+        ...photo,
+        storagePath: `${folder}/${photo.id}.jpg`,
+        thumbnailPath: `${folder}/${photo.id}-thumb.jpg`,
+      },
+    }));
+
+  it("keeps the checklist item each photo is evidence for", async () => {
+    const form = { ...FORM, photos: [EVIDENCE] };
+
+    const created = await service.createReport(form, AUTHOR);
+    await photoService.uploadPhoto(
+      EVIDENCE,
+      created.data!.id,
+      AUTHOR.contractorId
+    );
+    const fetched = await service.getReport(created.data!.id);
+
+    expect(fetched.data!.photos[0].checklistItemId).toBe("rope");
+    expect(signedContent(fetched.data!)).toBe(signedContent(form));
+  });
+
+  it("keeps the template revision the report was filled against", async () => {
+    const snapshot = {
+      id: "template-1",
+      equipmentType: "Overhead Crane",
+      name: "Crane Periodic",
+      version: 3,
+      sections: [
+        {
+          id: "hoist",
+          title: "Hoist",
+          items: [
+            {
+              id: "rope",
+              label: "Wire rope",
+              kind: "pass_fail" as const,
+              required: true,
+            },
+          ],
+        },
+      ],
+    };
+
+    const created = await service.createReport(
+      { ...FORM, templateSnapshot: snapshot },
+      AUTHOR
+    );
+    const fetched = await service.getReport(created.data!.id);
+
+    expect(fetched.data!.templateSnapshot).toEqual(snapshot);
+    expect(signedContent(fetched.data!)).toBe(signedContent(FORM));
+  });
+
+  it("hashes the same when photos upload out of order", async () => {
+    const second: ReportPhoto = {
+      ...EVIDENCE,
+      id: "photo-2",
+      caption: "Hook latch",
+      checklistItemId: undefined,
+    };
+    const form = { ...FORM, photos: [EVIDENCE, second] };
+
+    const created = await service.createReport(form, AUTHOR);
+    for (const photo of [second, EVIDENCE]) {
+      await photoService.uploadPhoto(
+        photo,
+        created.data!.id,
+        AUTHOR.contractorId
+      );
+    }
+    const fetched = await service.getReport(created.data!.id);
+
+    expect(fetched.data!.photos.map((photo) => photo.id)).toEqual([
+      "photo-2",
+      "photo-1",
+    ]);
+    expect(signedContent(fetched.data!)).toBe(signedContent(form));
+  });
+
+  it("holds review until every signed photo has uploaded", async () => {
+    const form = { ...FORM, photos: [EVIDENCE] };
+    const created = await service.createReport(form, AUTHOR);
+
+    const early = await service.transitionReport(
+      created.data!,
+      "Reviewed",
+      MANAGER
+    );
+    expect(early.errorCode).toBe("photos_pending");
+
+    await photoService.uploadPhoto(
+      EVIDENCE,
+      created.data!.id,
+      AUTHOR.contractorId
+    );
+    const fetched = await service.getReport(created.data!.id);
+    const reviewed = await service.transitionReport(
+      fetched.data!,
+      "Reviewed",
+      MANAGER
+    );
+    expect(reviewed.success).toBe(true);
+  });
+
+  it("records each transition once and refuses a stale status", async () => {
+    const created = await service.createReport(FORM, AUTHOR);
+
+    const reviewed = await service.transitionReport(
+      created.data!,
+      "Reviewed",
+      MANAGER,
+      "  Looks right  "
+    );
+    const stale = await service.transitionReport(
+      created.data!,
+      "Reviewed",
+      MANAGER
+    );
+
+    expect(reviewed.data!.status).toBe("Reviewed");
+    expect(stale.errorCode).toBe("status_conflict");
+    expect(fakeSupabase.rows("report_status_events")).toEqual([
+      expect.objectContaining({
+        from_status: created.data!.status,
+        to_status: "Reviewed",
+        comment: "Looks right",
+      }),
+    ]);
+  });
+
+  it("only creates reports for roles that file them", async () => {
+    const created = await service.createReport(FORM, {
+      ...MANAGER,
+      role: "super_admin",
+    });
+
+    expect(created.errorCode).toBe("forbidden");
+    expect(fakeSupabase.rows("inspection_reports")).toEqual([]);
+  });
+
+  describe("a report sent back by its reviewer", () => {
+    const rejectReport = async () => {
+      const created = await service.createReport(FORM, AUTHOR);
+      const rejected = await service.transitionReport(
+        created.data!,
+        "In Progress",
+        MANAGER,
+        "Photograph the drum"
+      );
+      return rejected.data!;
+    };
+
+    it("lets its inspector replace the content and resubmit", async () => {
+      const rejected = await rejectReport();
+      const revision = { ...FORM, notes: "Drum photographed" };
+
+      const revised = await service.reviseReport(rejected.id, revision, AUTHOR);
+      expect(revised.data!.status).toBe("In Progress");
+      expect(signedContent(revised.data!)).toBe(signedContent(revision));
+
+      const resubmitted = await service.transitionReport(
+        revised.data!,
+        "Submitted",
+        AUTHOR
+      );
+      expect(resubmitted.data!.status).toBe("Submitted");
+    });
+
+    it("can't be revised or resubmitted by anyone else", async () => {
+      const rejected = await rejectReport();
+      const colleague = { ...AUTHOR, id: "inspector-2" };
+
+      const revised = await service.reviseReport(
+        rejected.id,
+        { ...FORM, notes: "Not mine" },
+        colleague
+      );
+      const submitted = await service.transitionReport(
+        rejected,
+        "Submitted",
+        MANAGER
+      );
+
+      expect(revised.errorCode).toBe("status_conflict");
+      expect(submitted.errorCode).toBe("forbidden");
+      const fetched = await service.getReport(rejected.id);
+      expect(fetched.data!.notes).toBe("");
+    });
+
+    it("can't be revised once it is back under review", async () => {
+      const rejected = await rejectReport();
+      await service.transitionReport(rejected, "Submitted", AUTHOR);
+
+      const revised = await service.reviseReport(rejected.id, FORM, AUTHOR);
+
+      expect(revised.errorCode).toBe("status_conflict");
+    });
+  });
+});
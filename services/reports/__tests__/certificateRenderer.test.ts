@@ -0,0 +1,136 @@
+import { renderCertificateHtml } from "../certificateRenderer";
+import { CertificateData, InspectionReport } from "../../../types/report";
+import { ReportPhoto } from "../../../types/photo";
+import { ReportSignature } from "../../../types/signature";
+import { TemplateSnapshot } from "../../../types/template";
+
+const PHOTO: ReportPhoto = {
+  id: "photo-1",
+  caption: "Rope at the drum",
+  width: 1600,
+  height: 1200,
+  annotations: [],
+  createdAt: Date.UTC(2026, 9, 19),
+  storagePath: "contractor-1/report-1/photo-1.jpg",
+};
+
+const REPORT: InspectionReport = {
+  id: "4f9c2a1e-0000-0000-0000-000000000000",
+  syncState: "synced",
+  contractorId: "contractor-1",
+  inspectorId: "inspector-1",
+  inspectorName: "Riley Chen",
+  status: "Completed",
+  equipmentId: "CR-101",
+  equipmentType: "Overhead Crane",
+  location: "Plant A - Bay 2",
+  priority: "High",
+  description: "Hoist rope has broken wires near the drum.",
+  notes: "",
+  photos: [PHOTO],
+  templateId: "template-1",
+  templateVersion: 2,
+  checklist: {
+    rope: { itemId: "rope", value: "fail", comment: "Broken wires" },
+    hook: { itemId: "hook", value: "pass" },
+  },
+  createdAt: new Date(Date.UTC(2026, 9, 19)),
+  updatedAt: new Date(Date.UTC(2026, 9, 19)),
+};
+
+const TEMPLATE: TemplateSnapshot = {
+  id: "template-1",
+  equipmentType: "Overhead Crane",
+  name: "Crane Periodic",
+  version: 2,
+  sections: [
+    {
+      id: "hoist",
+      title: "Hoist",
+      items: [
+        { id: "rope", label: "Wire rope", kind: "pass_fail", required: true },
+        { id: "hook", label: "Hook latch", kind: "pass_fail", required: true },
+      ],
+    },
+  ],
+};
+
+const SIGNATURE: ReportSignature = {
+  id: "signature-1",
+  signerRole: "inspector",
+  signerName: "Riley Chen",
+  strokes: [],
+  width: 300,
+  height: 100,
+  imageDataUri: "data:image/png;base64,current",
+  reportHash: "hash-current",
+  signedAt: Date.UTC(2026, 9, 19),
+};
+
+function certificate(overrides: Partial<CertificateData> = {}) {
+  return renderCertificateHtml({
+    report: REPORT,
+    contractorName: "Acme Lifting",
+    template: TEMPLATE,
+    photoUrls: { [PHOTO.storagePath!]: "https://cdn.example.com/photo-1" },
+    signatures: [SIGNATURE],
+    reportHash: "hash-current",
+    issuedAt: new Date(Date.UTC(2026, 9, 20)),
+    ...overrides,
+  });
+}
+
+describe("renderCertificateHtml", () => {
+  it("escapes text from the report and contractor", () => {
+    const html = certificate({
+      report: { ...REPORT, description: `<script>alert("x")</script>` },
+      contractorName: "Lift & Hoist <Co>",
+    });
+
+    expect(html).not.toContain("<script>");
+    expect(html).toContain("&lt;script&gt;alert(&quot;x&quot;)&lt;/script&gt;");
+    expect(html).toContain("Lift &amp; Hoist &lt;Co&gt;");
+  });
+
+  it("leaves out photos it has no URL for", () => {
+    const second = { ...PHOTO, id: "photo-2", storagePath: "missing.jpg" };
+    const html = certificate({
+      report: { ...REPORT, photos: [PHOTO, second] },
+    });
+
+    expect(html.match(/<figure>/g)).toHaveLength(1);
+    expect(certificate({ photoUrls: {} })).not.toContain("<h2>Photos</h2>");
+  });
+
+  it("marks failed checklist items under the report's template revision", () => {
+    const html = certificate();
+
+    expect(html).toContain("Crane Periodic (v2)");
+    expect(html).toMatch(
+      /<td class="fail">Fail<\/td>\s*<td>Broken wires<\/td>/
+    );
+    expect(html).toMatch(/<td class="">Pass<\/td>/);
+  });
+
+  it("drops signatures made against other content", () => {
+    const stale = {
+      ...SIGNATURE,
+      id: "signature-2",
+      signerRole: "site_representative" as const,
+      signerName: "Sam Ortiz",
+      imageDataUri: "data:image/png;base64,stale",
+      reportHash: "hash-before-edit",
+    };
+    const html = certificate({ signatures: [SIGNATURE, stale] });
+
+    expect(html).toContain("data:image/png;base64,current");
+    expect(html).not.toContain("data:image/png;base64,stale");
+    expect(html).not.toContain("Sam Ortiz");
+  });
+
+  it("flags a report that isn't completed", () => {
+    const html = certificate({ report: { ...REPORT, status: "Reviewed" } });
+
+    expect(html).toContain("NOT CERTIFIED");
+  });
+});
@@ -0,0 +1,118 @@
+import {
+  canReviseReport,
+  countPendingPhotos,
+  getAvailableTransitions,
+} from "../reportWorkflow";
+import { InspectionReport, ReportStatus } from "../../../types/report";
+import { User } from "../../../types/auth";
+
+const INSPECTOR = {
+  id: "inspector-1",
+  role: "inspector" as const,
+  contractorId: "contractor-1",
+};
+const MANAGER = {
+  id: "manager-1",
+  role: "manager" as const,
+  contractorId: "contractor-1",
+};
+const SUPER_ADMIN = {
+  id: "admin-1",
+  role: "super_admin" as const,
+  contractorId: "contractor-0",
+};
+
+function report(
+  status: ReportStatus,
+  overrides: Partial<InspectionReport> = {}
+): InspectionReport {
+  return {
+    id: "report-1",
+    syncState: "synced",
+    contractorId: "contractor-1",
+    inspectorId: INSPECTOR.id,
+    inspectorName: "Riley Chen",
+    status,
+    equipmentId: "CR-101",
+    equipmentType: "Overhead Crane",
+    location: "Plant A - Bay 2",
+    priority: "Medium",
+    description: "",
+    notes: "",
+    photos: [],
+    checklist: {},
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+const actions = (
+  r: InspectionReport,
+  actor: Pick<User, "id" | "role" | "contractorId">
+) => getAvailableTransitions(r, actor).map((t) => `${t.action} -> ${t.to}`);
+
+describe("getAvailableTransitions", () => {
+  it("lets managers review, reject and approve", () => {
+    expect(actions(report("Submitted"), MANAGER)).toEqual([
+      "Mark Reviewed -> Reviewed",
+      "Reject -> In Progress",
+    ]);
+    expect(actions(report("Reviewed"), MANAGER)).toEqual([
+      "Reject -> In Progress",
+      "Approve -> Completed",
+    ]);
+    expect(actions(report("Completed"), MANAGER)).toEqual([]);
+  });
+
+  it("leaves inspectors nothing to do while their report is under review", () => {
+    expect(actions(report("Submitted"), INSPECTOR)).toEqual([]);
+    expect(actions(report("Reviewed"), INSPECTOR)).toEqual([]);
+  });
+
+  it("limits resubmitting to the report's own inspector", () => {
+    const rejected = report("In Progress");
+
+    expect(actions(rejected, INSPECTOR)).toEqual([
+      "Submit for Review -> Submitted",
+    ]);
+    expect(actions(rejected, MANAGER)).toEqual([]);
+    expect(actions(rejected, { ...INSPECTOR, id: "inspector-2" })).toEqual([]);
+  });
+
+  it("has no transitions out of a local draft", () => {
+    expect(actions(report("Draft"), INSPECTOR)).toEqual([]);
+  });
+
+  it("stays inside the actor's contractor unless they are a super admin", () => {
+    const elsewhere = report("Submitted", { contractorId: "contractor-2" });
+
+    expect(actions(elsewhere, MANAGER)).toEqual([]);
+    expect(actions(elsewhere, SUPER_ADMIN)).toEqual([
+      "Mark Reviewed -> Reviewed",
+      "Reject -> In Progress",
+    ]);
+  });
+});
+
+describe("canReviseReport", () => {
+  it("opens a rejected report to its inspector only", () => {
+    expect(canReviseReport(report("In Progress"), INSPECTOR)).toBe(true);
+    expect(canReviseReport(report("In Progress"), MANAGER)).toBe(false);
+    expect(canReviseReport(report("Submitted"), INSPECTOR)).toBe(false);
+    expect(canReviseReport(report("In Progress"), null)).toBe(false);
+  });
+
+  it("waits for a queued copy to sync", () => {
+    const queued = report("In Progress", { syncState: "queued" });
+
+    expect(canReviseReport(queued, INSPECTOR)).toBe(false);
+  });
+});
+
+describe("countPendingPhotos", () => {
+  it("counts photos the inspector attached that haven't arrived", () => {
+    expect(countPendingPhotos({ photos: [], photoCount: 3 })).toBe(3);
+    expect(countPendingPhotos({ photos: [], photoCount: undefined })).toBe(0);
+  });
+});
@@ -0,0 +1,51 @@
+// services/reports/certificateExport.ts
+import * as Print from "expo-print";
+import * as Sharing from "expo-sharing";
+import { CertificateData, ReportResult } from "../../types/report";
+import {
+  certificateNumber,
+  renderCertificateHtml,
+} from "./certificateRenderer";
+
+// Renders the certificate to a PDF on the device and opens the share sheet
+export async function shareCertificate(
+  data: CertificateData
+): Promise<ReportResult<string>> {
+  try {
+    if (data.report.status !== "Completed") {
+      return {
+        success: false,
+        error: "Only completed reports can be certified",
+        errorCode: "not_completed",
+      };
+    }
+
+    const { uri } = await Print.printToFileAsync({
+      html: renderCertificateHtml(data),
+    });
+
+    if (!(await Sharing.isAvailableAsync())) {
+      return {
+        success: false,
+        error: "Sharing is not available on this device",
+        errorCode: "sharing_unavailable",
+      };
+    }
+
+    await Sharing.shareAsync(uri, {
+      mimeType: "application/pdf",
+      UTI: "com.adobe.pdf",
+      dialogTitle: `Certificate ${certificateNumber(data)}`,
+    });
+
+    return {
+      success: true,
+      data: uri,
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error.message || "Failed to generate certificate",
+    };
+  }
+}
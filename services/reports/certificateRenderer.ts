@@ -0,0 +1,325 @@
+// services/reports/certificateRenderer.ts
+// Pure report-to-HTML rendering for inspection certificates. No React
+// Native or Expo imports, so it runs (and can be tested) under plain Node.
+import { CertificateData } from "../../types/report";
+import { Annotation, ReportPhoto } from "../../types/photo";
+import { TemplateSnapshot } from "../../types/template";
+import { ReportSignature } from "../../types/signature";
+import { formatChecklistResponse } from "../templates/checklistValidation";
+import {
+  ANNOTATION_STROKE_WIDTH,
+  annotationFontSize,
+  arrowHead,
+} from "../photos/annotationGeometry";
+import { SIGNER_ROLE_LABELS } from "../signatures/signatureGeometry";
+
+const DEFAULT_BRAND_COLOR = "#1976d2";
+const FAIL_COLOR = "#d32f2f";
+const PHOTO_WIDTH = 320;
+const SIGNATURE_HEIGHT = 60;
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+// Dates render as YYYY-MM-DD (UTC) so output doesn't depend on device locale
+export function formatCertificateDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+export function certificateNumber(data: CertificateData): string {
+  return `${data.report.equipmentId}-${data.report.id
+    .replace(/-/g, "")
+    .slice(0, 8)
+    .toUpperCase()}`;
+}
+
+function row(label: string, value?: string | null): string {
+  if (!value) {
+    return "";
+  }
+  return `<tr><th>${escapeHtml(label)}</th><td>${escapeHtml(value)}</td></tr>`;
+}
+
+function renderEquipment(data: CertificateData): string {
+  const { report, equipment } = data;
+  const capacity =
+    equipment?.ratedCapacity !== undefined
+      ? `${equipment.ratedCapacity} ${equipment.capacityUnit || ""}`.trim()
+      : null;
+
+  return `
+    <h2>Equipment</h2>
+    <table class="details">
+      ${row("Asset ID", report.equipmentId)}
+      ${row("Type", report.equipmentType)}
+      ${row("Manufacturer", equipment?.manufacturer)}
+      ${row("Model", equipment?.model)}
+      ${row("Serial Number", equipment?.serialNumber)}
+      ${row("Rated Capacity", capacity)}
+      ${row("Site", equipment?.site)}
+      ${row("Location", report.location)}
+    </table>`;
+}
+
+function renderChecklist(
+  data: CertificateData,
+  template: TemplateSnapshot
+): string {
+  const sections = template.sections
+    .map((section) => {
+      const items = section.items
+        .map((item) => {
+          const response = data.report.checklist[item.id];
+          const failed = response?.value === "fail";
+          return `
+            <tr>
+              <td>${escapeHtml(item.label)}</td>
+              <td class="${failed ? "fail" : ""}">${escapeHtml(
+            formatChecklistResponse(item, response)
+          )}</td>
+              <td>${escapeHtml(response?.comment || "")}</td>
+            </tr>`;
+        })
+        .join("");
+      return `
+        <tr class="section"><td colspan="3">${escapeHtml(
+          section.title
+        )}</td></tr>
+        ${items}`;
+    })
+    .join("");
+
+  return `
+    <h2>${escapeHtml(template.name)} (v${template.version})</h2>
+    <table class="checklist">
+      <tr><th>Item</th><th>Result</th><th>Comment</th></tr>
+      ${sections}
+    </table>`;
+}
+
+// The defects as recorded and signed on the report, not their repair status
+function renderDefects(data: CertificateData): string {
+  const defects = data.report.defects || [];
+  if (defects.length === 0) {
+    return "";
+  }
+
+  return `
+    <h2>Defects</h2>
+    <table class="checklist">
+      <tr><th>Defect</th><th>Severity</th><th>Recommended Action</th><th>Repair By</th></tr>
+      ${defects
+        .map(
+          (defect) => `
+            <tr>
+              <td>${escapeHtml(defect.title)}${
+            defect.removeFromService
+              ? `<br /><span class="fail">REMOVE FROM SERVICE</span>`
+              : ""
+          }</td>
+              <td class="${
+                defect.severity === "Critical" ? "fail" : ""
+              }">${escapeHtml(defect.severity)}</td>
+              <td>${escapeHtml(defect.recommendedAction)}</td>
+              <td>${formatCertificateDate(new Date(defect.dueDate))}</td>
+            </tr>`
+        )
+        .join("")}
+    </table>`;
+}
+
+function renderAnnotation(
+  annotation: Annotation,
+  width: number,
+  height: number
+): string {
+  switch (annotation.kind) {
+    case "arrow": {
+      const x1 = annotation.from.x * width;
+      const y1 = annotation.from.y * height;
+      const x2 = annotation.to.x * width;
+      const y2 = annotation.to.y * height;
+      return `<line x1="${x1}" y1="${y1}" x2="${x2}" y2="${y2}" stroke="${escapeHtml(
+        annotation.color
+      )}" stroke-width="${ANNOTATION_STROKE_WIDTH}" stroke-linecap="round" /><polygon points="${arrowHead(
+        x1,
+        y1,
+        x2,
+        y2
+      )}" fill="${escapeHtml(annotation.color)}" />`;
+    }
+    case "circle":
+      return `<circle cx="${annotation.center.x * width}" cy="${
+        annotation.center.y * height
+      }" r="${annotation.radius * width}" stroke="${escapeHtml(
+        annotation.color
+      )}" stroke-width="${ANNOTATION_STROKE_WIDTH}" fill="none" />`;
+    case "text":
+      return `<text x="${annotation.at.x * width}" y="${
+        annotation.at.y * height
+      }" fill="${escapeHtml(
+        annotation.color
+      )}" stroke="#000000" stroke-width="0.5" font-size="${annotationFontSize(
+        width
+      )}" font-weight="bold">${escapeHtml(annotation.text)}</text>`;
+    default:
+      return "";
+  }
+}
+
+function renderPhoto(photo: ReportPhoto, url: string): string {
+  const width = PHOTO_WIDTH;
+  const height = Math.round((PHOTO_WIDTH * photo.height) / photo.width);
+
+  return `
+    <figure>
+      <div class="photo" style="width:${width}px;height:${height}px">
+        <img src="${escapeHtml(url)}" width="${width}" height="${height}" />
+        <svg width="${width}" height="${height}">${photo.annotations
+    .map((annotation) => renderAnnotation(annotation, width, height))
+    .join("")}</svg>
+      </div>
+      ${
+        photo.caption
+          ? `<figcaption>${escapeHtml(photo.caption)}</figcaption>`
+          : ""
+      }
+    </figure>`;
+}
+
+function renderPhotos(data: CertificateData): string {
+  const photos = data.report.photos.filter(
+    (photo) => photo.storagePath && data.photoUrls[photo.storagePath]
+  );
+  if (photos.length === 0) {
+    return "";
+  }
+
+  return `
+    <h2>Photos</h2>
+    <div class="photos">
+      ${photos
+        .map((photo) => renderPhoto(photo, data.photoUrls[photo.storagePath!]))
+        .join("")}
+    </div>`;
+}
+
+function renderSignature(signature?: ReportSignature): string {
+  if (!signature) {
+    return `<div class="signature"></div>`;
+  }
+  const width = Math.round(
+    (SIGNATURE_HEIGHT * signature.width) / signature.height
+  );
+  return `<div class="signature"><img src="${escapeHtml(
+    signature.imageDataUri
+  )}" width="${width}" height="${SIGNATURE_HEIGHT}" /></div>
+        Signed: ${escapeHtml(signature.signerName)}, ${escapeHtml(
+    SIGNER_ROLE_LABELS[signature.signerRole]
+  )}<br />
+        ${escapeHtml(new Date(signature.signedAt).toISOString())}`;
+}
+
+export function renderCertificateHtml(data: CertificateData): string {
+  const { report } = data;
+  const certified = report.status === "Completed";
+  const brandColor = data.branding?.brandColor || DEFAULT_BRAND_COLOR;
+  // Same rule as isSignatureValid, kept inline so this module stays free of
+  // Expo imports: a signature made before the last edit doesn't count
+  const signatures = data.signatures.filter(
+    (signature) => signature.reportHash === data.reportHash
+  );
+  const siteSignature = signatures.find(
+    (s) => s.signerRole === "site_representative"
+  );
+
+  return `<!DOCTYPE html>
+<html>
+  <head>
+    <meta charset="utf-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1" />
+    <title>Inspection Certificate ${escapeHtml(certificateNumber(data))}</title>
+    <style>
+      body { font-family: -apple-system, Helvetica, Arial, sans-serif; color: #212121; margin: 32px; font-size: 12px; }
+      header { border-bottom: 4px solid ${brandColor}; padding-bottom: 12px; margin-bottom: 16px; }
+      header .contractor { font-size: 20px; font-weight: bold; color: ${brandColor}; }
+      header .logo { max-height: 48px; margin-bottom: 8px; }
+      header h1 { font-size: 24px; margin: 4px 0; }
+      .banner { background: #ffebee; color: ${FAIL_COLOR}; padding: 8px; font-weight: bold; margin-bottom: 16px; }
+      h2 { font-size: 15px; color: ${brandColor}; margin: 20px 0 8px; }
+      table { width: 100%; border-collapse: collapse; }
+      th, td { text-align: left; padding: 4px 6px; border-bottom: 1px solid #e0e0e0; vertical-align: top; }
+      table.details th { width: 30%; color: #757575; font-weight: normal; }
+      tr.section td { background: #e3f2fd; font-weight: bold; }
+      td.fail, span.fail { color: ${FAIL_COLOR}; font-weight: bold; }
+      .photos { display: flex; flex-wrap: wrap; gap: 12px; }
+      figure { margin: 0; page-break-inside: avoid; }
+      .photo { position: relative; }
+      .photo img, .photo svg { position: absolute; top: 0; left: 0; }
+      figcaption { color: #757575; margin-top: 4px; }
+      .signoff { display: flex; gap: 32px; margin-top: 32px; page-break-inside: avoid; }
+      .signoff > div { flex: 1; }
+      .signoff .signature { height: ${SIGNATURE_HEIGHT}px; border-bottom: 1px solid #212121; margin-bottom: 4px; }
+    </style>
+  </head>
+  <body>
+    <header>
+      ${
+        data.branding?.logoUrl
+          ? `<img class="logo" src="${escapeHtml(data.branding.logoUrl)}" />`
+          : ""
+      }
+      <div class="contractor">${escapeHtml(data.contractorName)}</div>
+      <h1>Inspection Certificate</h1>
+      <div>Certificate No. ${escapeHtml(
+        certificateNumber(data)
+      )} &middot; Issued ${formatCertificateDate(data.issuedAt)}</div>
+    </header>
+    ${
+      certified
+        ? ""
+        : `<div class="banner">NOT CERTIFIED &mdash; report status is ${escapeHtml(
+            report.status
+          )}</div>`
+    }
+    ${renderEquipment(data)}
+    <h2>Inspection</h2>
+    <table class="details">
+      ${row("Inspector", report.inspectorName)}
+      ${row("Inspected", formatCertificateDate(report.createdAt))}
+      ${row("Priority", report.priority)}
+      ${row("Status", report.status)}
+      ${row("Findings", report.description)}
+      ${row("Notes", report.notes)}
+    </table>
+    ${data.template ? renderChecklist(data, data.template) : ""}
+    ${renderDefects(data)}
+    ${renderPhotos(data)}
+    <section class="signoff">
+      <div>
+        ${renderSignature(signatures.find((s) => s.signerRole === "inspector"))}
+        Inspector: ${escapeHtml(report.inspectorName)}<br />
+        Date: ${formatCertificateDate(report.createdAt)}
+      </div>
+      ${
+        siteSignature
+          ? `<div>
+        ${renderSignature(siteSignature)}
+      </div>`
+          : ""
+      }
+      <div>
+        <div class="signature"></div>
+        Approved by: ${escapeHtml(data.approvedBy || "")}<br />
+        Date: ${data.completedAt ? formatCertificateDate(data.completedAt) : ""}
+      </div>
+    </section>
+  </body>
+</html>`;
+}
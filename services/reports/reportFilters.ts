@@ -0,0 +1,96 @@
+// services/reports/reportFilters.ts
+import {
+  InspectionReport,
+  ReportFilters,
+  ReportPriority,
+  ReportSort,
+} from "../../types/report";
+
+export const DEFAULT_REPORT_FILTERS: ReportFilters = {
+  search: "",
+  statuses: [],
+  priorities: [],
+  sort: "newest",
+};
+
+export const REPORT_SORT_LABELS: Record<ReportSort, string> = {
+  newest: "Newest",
+  oldest: "Oldest",
+  priority: "Priority",
+  overdue: "Overdue",
+};
+
+export const DATE_RANGE_OPTIONS = [
+  { days: 7, label: "Last 7 days" },
+  { days: 30, label: "Last 30 days" },
+  { days: 90, label: "Last 90 days" },
+];
+
+export const PRIORITY_RANK: Record<ReportPriority, number> = {
+  High: 3,
+  Medium: 2,
+  Low: 1,
+};
+
+export const REPORTS_PAGE_SIZE = 20;
+
+// Whether anything narrows the list (the sort order doesn't count)
+export function hasActiveFilters(filters: ReportFilters): boolean {
+  return (
+    !!filters.search.trim() ||
+    filters.statuses.length > 0 ||
+    filters.priorities.length > 0 ||
+    !!filters.inspectorId ||
+    !!filters.createdWithinDays
+  );
+}
+
+export function getCreatedSince(
+  filters: ReportFilters,
+  now: number = Date.now()
+): Date | null {
+  return filters.createdWithinDays
+    ? new Date(now - filters.createdWithinDays * 24 * 60 * 60 * 1000)
+    : null;
+}
+
+// Client-side twin of the service's query, for drafts and queued reports
+// that only exist on the device
+export function matchesReportFilters(
+  report: InspectionReport,
+  filters: ReportFilters,
+  now: number = Date.now()
+): boolean {
+  const term = filters.search.trim().toLowerCase();
+  if (
+    term &&
+    ![
+      report.equipmentId,
+      report.equipmentType,
+      report.location,
+      report.description,
+    ].some((field) => (field || "").toLowerCase().includes(term))
+  ) {
+    return false;
+  }
+  if (
+    filters.statuses.length > 0 &&
+    !filters.statuses.includes(report.status)
+  ) {
+    return false;
+  }
+  if (
+    filters.priorities.length > 0 &&
+    !filters.priorities.includes(report.priority)
+  ) {
+    return false;
+  }
+  if (filters.inspectorId && report.inspectorId !== filters.inspectorId) {
+    return false;
+  }
+  const createdSince = getCreatedSince(filters, now);
+  if (createdSince && report.createdAt < createdSince) {
+    return false;
+  }
+  return true;
+}
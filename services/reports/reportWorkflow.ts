@@ -0,0 +1,106 @@
+// services/reports/reportWorkflow.ts
+import { User } from "../../types/auth";
+import {
+  InspectionReport,
+  ReportStatus,
+  StatusTransition,
+} from "../../types/report";
+import { canAccessContractor, hasCapability } from "../auth/permissions";
+
+// Every allowed move through the report lifecycle. Anything not listed here
+// is rejected, both in the UI and in the report service. Reports reach the
+// server already Submitted (a Draft only exists on the inspector's device),
+// so In Progress means a reviewer sent the report back for revision.
+export const STATUS_TRANSITIONS: StatusTransition[] = [
+  {
+    from: "In Progress",
+    to: "Submitted",
+    action: "Submit for Review",
+    capability: "reports.submit",
+    requiresComment: false,
+  },
+  {
+    from: "Submitted",
+    to: "Reviewed",
+    action: "Mark Reviewed",
+    capability: "reports.review",
+    requiresComment: false,
+  },
+  {
+    from: "Submitted",
+    to: "In Progress",
+    action: "Reject",
+    capability: "reports.review",
+    requiresComment: true,
+  },
+  {
+    from: "Reviewed",
+    to: "In Progress",
+    action: "Reject",
+    capability: "reports.review",
+    requiresComment: true,
+  },
+  {
+    from: "Reviewed",
+    to: "Completed",
+    action: "Approve",
+    capability: "reports.approve",
+    requiresComment: false,
+  },
+];
+
+type WorkflowReport = Pick<
+  InspectionReport,
+  "status" | "inspectorId" | "contractorId"
+>;
+
+type WorkflowActor = Pick<User, "id" | "role" | "contractorId">;
+
+export function getAvailableTransitions(
+  report: WorkflowReport,
+  actor: WorkflowActor
+): StatusTransition[] {
+  if (!canAccessContractor(actor, report.contractorId)) {
+    return [];
+  }
+
+  // Submitting is limited to the report's own inspector
+  const ownsReport = report.inspectorId === actor.id;
+
+  return STATUS_TRANSITIONS.filter(
+    (t) =>
+      t.from === report.status &&
+      hasCapability(actor, t.capability) &&
+      (t.capability !== "reports.submit" || ownsReport)
+  );
+}
+
+export function findTransition(
+  report: WorkflowReport,
+  to: ReportStatus,
+  actor: WorkflowActor
+): StatusTransition | undefined {
+  return getAvailableTransitions(report, actor).find((t) => t.to === to);
+}
+
+// A report sent back by its reviewer can be edited and resubmitted by the
+// inspector who wrote it
+export function canReviseReport(
+  report: WorkflowReport & Pick<InspectionReport, "syncState">,
+  actor: WorkflowActor | null | undefined
+): boolean {
+  return (
+    !!actor &&
+    report.syncState === "synced" &&
+    report.status === "In Progress" &&
+    !!findTransition(report, "Submitted", actor)
+  );
+}
+
+// The report row reaches the server before its photos do, so a reviewer can
+// open it while the inspector's device is still uploading them
+export function countPendingPhotos(
+  report: Pick<InspectionReport, "photos" | "photoCount">
+): number {
+  return Math.max((report.photoCount ?? 0) - report.photos.length, 0);
+}
@@ -0,0 +1,182 @@
+// services/schedule/SupabaseScheduleService.ts
+import { supabase } from "../../lib/supabase";
+import { checkPermission } from "../auth/permissions";
+import { User } from "../../types/auth";
+import { ReportResult } from "../../types/report";
+import {
+  InspectionRecord,
+  IntervalRule,
+  IntervalRuleInput,
+  IScheduleService,
+} from "../../types/schedule";
+
+export class SupabaseScheduleService implements IScheduleService {
+  async listRules(contractorId: string): Promise<ReportResult<IntervalRule[]>> {
+    try {
+      const { data, error } = await supabase
+        .from("inspection_interval_rules")
+        .select("*")
+        .eq("contractor_id", contractorId)
+        .order("equipment_type", { ascending: true });
+
+      if (error) {
+        return {
+          success: false,
+          error: error.message,
+          errorCode: error.code,
+        };
+      }
+
+      return {
+        success: true,
+        data: (data || []).map((row) => this.mapRule(row)),
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || "Failed to load inspection intervals",
+      };
+    }
+  }
+
+  async saveRule(
+    contractorId: string,
+    rule: IntervalRuleInput & { id?: string },
+    actor: User
+  ): Promise<ReportResult<IntervalRule>> {
+    try {
+      const denied = checkPermission(actor, "equipment.manage", contractorId);
+      if (denied) {
+        return denied;
+      }
+
+      if (rule.intervalDays < 1 || rule.leadDays < 0) {
+        return {
+          success: false,
+          error: "The interval must be at least one day",
+          errorCode: "invalid_interval",
+        };
+      }
+
+      const row = {
+        contractor_id: contractorId,
+        equipment_type: rule.equipmentType.trim() || "*",
+        inspection_class: rule.inspectionClass,
+        interval_days: rule.intervalDays,
+        lead_days: rule.leadDays,
+      };
+
+      // One rule per equipment type and class
+      const query = rule.id
+        ? supabase
+            .from("inspection_interval_rules")
+            .update(row)
+            .eq("id", rule.id)
+        : supabase.from("inspection_interval_rules").upsert(row, {
+            onConflict: "contractor_id,equipment_type,inspection_class",
+          });
+
+      const { data, error } = await query.select("*").single();
+
+      if (error || !data) {
+        return {
+          success: false,
+          error: error?.message || "Failed to save inspection interval",
+          errorCode: error?.code,
+        };
+      }
+
+      return {
+        success: true,
+        data: this.mapRule(data),
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || "Failed to save inspection interval",
+      };
+    }
+  }
+
+  async deleteRule(id: string, actor: User): Promise<ReportResult<void>> {
+    try {
+      const denied = checkPermission(actor, "equipment.manage");
+      if (denied) {
+        return denied;
+      }
+
+      let query = supabase
+        .from("inspection_interval_rules")
+        .delete()
+        .eq("id", id);
+      if (actor.role !== "super_admin") {
+        query = query.eq("contractor_id", actor.contractorId);
+      }
+      const { error } = await query;
+
+      if (error) {
+        return {
+          success: false,
+          error: error.message,
+          errorCode: error.code,
+        };
+      }
+
+      return { success: true };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || "Failed to delete inspection interval",
+      };
+    }
+  }
+
+  // Completed reports against registered assets. Reports from before
+  // inspection classes existed count as frequent inspections.
+  async listInspectionHistory(
+    contractorId: string
+  ): Promise<ReportResult<InspectionRecord[]>> {
+    try {
+      const { data, error } = await supabase
+        .from("inspection_reports")
+        .select("asset_id, inspection_class, created_at")
+        .eq("contractor_id", contractorId)
+        .eq("status", "Completed")
+        .not("asset_id", "is", null);
+
+      if (error) {
+        return {
+          success: false,
+          error: error.message,
+          errorCode: error.code,
+        };
+      }
+
+      return {
+        success: true,
+        data: (data || []).map((row) => ({
+          assetId: row.asset_id,
+          inspectionClass: row.inspection_class || "frequent",
+          completedAt: new Date(row.created_at),
+        })),
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || "Failed to load inspection history",
+      };
+    }
+  }
+
+  // Private helper methods
+  private mapRule(data: any): IntervalRule {
+    return {
+      id: data.id,
+      contractorId: data.contractor_id,
+      equipmentType: data.equipment_type,
+      inspectionClass: data.inspection_class,
+      intervalDays: data.interval_days,
+      leadDays: data.lead_days,
+    };
+  }
+}
@@ -0,0 +1,208 @@
+import {
+  computeSchedule,
+  daysUntil,
+  findInspectionsToDispatch,
+  findIntervalRule,
+  parseDateInput,
+  satisfies,
+} from "../dueDates";
+import { Equipment } from "../../../types/equipment";
+import { InspectionJob } from "../../../types/job";
+import { IntervalRule } from "../../../types/schedule";
+
+const NOW = new Date(2026, 9, 19, 10, 30).getTime();
+
+const CRANE: Equipment = {
+  id: "asset-1",
+  contractorId: "contractor-1",
+  assetTag: "CR-101",
+  equipmentType: "Overhead Crane",
+  serialNumber: "SN-1",
+  manufacturer: "Konecranes",
+  site: "Plant A",
+  location: "Bay 2",
+  isActive: true,
+  createdAt: new Date(2026, 0, 5),
+};
+
+function rule(
+  overrides: Partial<IntervalRule> & Pick<IntervalRule, "inspectionClass">
+): IntervalRule {
+  return {
+    id: `rule-${overrides.equipmentType}-${overrides.inspectionClass}`,
+    contractorId: "contractor-1",
+    equipmentType: "*",
+    intervalDays: 30,
+    leadDays: 7,
+    ...overrides,
+  };
+}
+
+describe("satisfies", () => {
+  it("counts a more thorough inspection as every lighter one", () => {
+    expect(satisfies("annual", "frequent")).toBe(true);
+    expect(satisfies("annual", "periodic")).toBe(true);
+    expect(satisfies("periodic", "periodic")).toBe(true);
+    expect(satisfies("frequent", "periodic")).toBe(false);
+    expect(satisfies("periodic", "annual")).toBe(false);
+  });
+});
+
+describe("findIntervalRule", () => {
+  const rules = [
+    rule({ equipmentType: "*", inspectionClass: "frequent", intervalDays: 14 }),
+    rule({
+      equipmentType: "overhead crane ",
+      inspectionClass: "frequent",
+      intervalDays: 7,
+    }),
+  ];
+
+  it("prefers the equipment type's own rule, ignoring case and spaces", () => {
+    expect(
+      findIntervalRule(rules, "Overhead Crane", "frequent").intervalDays
+    ).toBe(7);
+  });
+
+  it("falls back to the contractor's catch-all rule", () => {
+    expect(findIntervalRule(rules, "Hoist", "frequent").intervalDays).toBe(14);
+  });
+
+  it("falls back to the built-in default for an unconfigured class", () => {
+    expect(findIntervalRule(rules, "Hoist", "annual")).toMatchObject({
+      intervalDays: 365,
+      leadDays: 30,
+    });
+  });
+});
+
+describe("daysUntil", () => {
+  it("counts whole calendar days regardless of the time of day", () => {
+    expect(daysUntil(new Date(2026, 9, 19, 23, 59), NOW)).toBe(0);
+    expect(daysUntil(new Date(2026, 9, 20, 0, 1), NOW)).toBe(1);
+    expect(daysUntil(new Date(2026, 9, 18, 23, 59), NOW)).toBe(-1);
+  });
+});
+
+describe("parseDateInput", () => {
+  it("reads a YYYY-MM-DD date as the end of that local day", () => {
+    expect(parseDateInput(" 2026-10-19 ")).toEqual(
+      new Date(2026, 9, 19, 23, 59, 59)
+    );
+  });
+
+  it("rejects other formats and dates that don't exist", () => {
+    expect(parseDateInput("19/10/2026")).toBeNull();
+    expect(parseDateInput("2026-10-1")).toBeNull();
+    expect(parseDateInput("2026-02-30")).toBeNull();
+    expect(parseDateInput("2026-13-01")).toBeNull();
+  });
+});
+
+describe("computeSchedule", () => {
+  const rules = [
+    rule({ inspectionClass: "frequent", intervalDays: 30, leadDays: 7 }),
+    rule({ inspectionClass: "periodic", intervalDays: 90, leadDays: 14 }),
+    rule({ inspectionClass: "annual", intervalDays: 365, leadDays: 30 }),
+  ];
+
+  it("dates each class from the latest inspection that satisfies it", () => {
+    const history = [
+      {
+        assetId: CRANE.id,
+        inspectionClass: "frequent" as const,
+        completedAt: new Date(2026, 9, 15),
+      },
+      {
+        assetId: CRANE.id,
+        inspectionClass: "annual" as const,
+        completedAt: new Date(2026, 6, 1),
+      },
+    ];
+
+    const schedule = computeSchedule([CRANE], history, rules, NOW);
+    const byClass = Object.fromEntries(
+      schedule.map((item) => [item.inspectionClass, item])
+    );
+
+    // The annual inspection also reset the periodic clock
+    expect(byClass.periodic.lastInspection).toEqual(new Date(2026, 6, 1));
+    expect(byClass.periodic.daysUntilDue).toBe(-20);
+    expect(byClass.periodic.state).toBe("overdue");
+    expect(byClass.frequent.lastInspection).toEqual(new Date(2026, 9, 15));
+    expect(byClass.frequent.daysUntilDue).toBe(26);
+    expect(byClass.frequent.state).toBe("scheduled");
+    expect(byClass.annual.daysUntilDue).toBe(255);
+    expect(schedule.map((item) => item.inspectionClass)).toEqual([
+      "periodic",
+      "frequent",
+      "annual",
+    ]);
+  });
+
+  it("marks an inspection due soon within the rule's lead time", () => {
+    const history = [
+      {
+        assetId: CRANE.id,
+        inspectionClass: "frequent" as const,
+        completedAt: new Date(2026, 8, 25),
+      },
+    ];
+
+    const [frequent] = computeSchedule([CRANE], history, rules, NOW).filter(
+      (item) => item.inspectionClass === "frequent"
+    );
+
+    expect(frequent.daysUntilDue).toBe(6);
+    expect(frequent.state).toBe("due_soon");
+  });
+
+  it("makes never-inspected assets due from registration and skips retired ones", () => {
+    const retired = { ...CRANE, id: "asset-2", isActive: false };
+
+    const schedule = computeSchedule([CRANE, retired], [], rules, NOW);
+
+    expect(schedule).toHaveLength(3);
+    expect(schedule.every((item) => item.assetId === CRANE.id)).toBe(true);
+    expect(schedule.every((item) => item.state === "overdue")).toBe(true);
+    expect(schedule[0].dueDate).toEqual(CRANE.createdAt);
+  });
+});
+
+describe("findInspectionsToDispatch", () => {
+  it("picks due inspections that have no open job", () => {
+    const schedule = computeSchedule([CRANE], [], [], NOW);
+    const job = (overrides: Partial<InspectionJob>) =>
+      ({
+        assetId: CRANE.id,
+        inspectionClass: "frequent",
+        status: "Assigned",
+        ...overrides,
+      } as InspectionJob);
+
+    const due = findInspectionsToDispatch(schedule, [
+      job({ inspectionClass: "frequent", status: "In Progress" }),
+      job({ inspectionClass: "periodic", status: "Completed" }),
+      job({ inspectionClass: "annual", status: "Cancelled" }),
+    ]);
+
+    expect(due.map((item) => item.inspectionClass)).toEqual([
+      "periodic",
+      "annual",
+    ]);
+  });
+
+  it("leaves out inspections that aren't due yet", () => {
+    const history = [
+      {
+        assetId: CRANE.id,
+        inspectionClass: "annual" as const,
+        completedAt: new Date(2026, 9, 18),
+      },
+    ];
+
+    const schedule = computeSchedule([CRANE], history, [], NOW);
+
+    expect(findInspectionsToDispatch(schedule, [])).toEqual([]);
+  });
+});
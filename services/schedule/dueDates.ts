@@ -0,0 +1,212 @@
+// services/schedule/dueDates.ts
+import { Equipment } from "../../types/equipment";
+import { InspectionJob } from "../../types/job";
+import {
+  DueState,
+  InspectionClass,
+  InspectionRecord,
+  IntervalRule,
+  IntervalRuleInput,
+  ScheduledInspection,
+} from "../../types/schedule";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const INSPECTION_CLASSES: InspectionClass[] = [
+  "frequent",
+  "periodic",
+  "annual",
+];
+
+export const INSPECTION_CLASS_LABELS: Record<InspectionClass, string> = {
+  frequent: "Frequent",
+  periodic: "Periodic",
+  annual: "Annual",
+};
+
+// Used for any class a contractor hasn't configured
+export const DEFAULT_INTERVAL_RULES: IntervalRuleInput[] = [
+  {
+    equipmentType: "*",
+    inspectionClass: "frequent",
+    intervalDays: 30,
+    leadDays: 7,
+  },
+  {
+    equipmentType: "*",
+    inspectionClass: "periodic",
+    intervalDays: 90,
+    leadDays: 14,
+  },
+  {
+    equipmentType: "*",
+    inspectionClass: "annual",
+    intervalDays: 365,
+    leadDays: 30,
+  },
+];
+
+// A more thorough inspection also counts as every lighter one, so an
+// annual inspection resets the periodic and frequent clocks too
+export function satisfies(
+  done: InspectionClass,
+  required: InspectionClass
+): boolean {
+  return (
+    INSPECTION_CLASSES.indexOf(done) >= INSPECTION_CLASSES.indexOf(required)
+  );
+}
+
+// Exact equipment type first, then the contractor's "*" rule, then the
+// built-in default
+export function findIntervalRule(
+  rules: IntervalRuleInput[],
+  equipmentType: string,
+  inspectionClass: InspectionClass
+): IntervalRuleInput {
+  const type = equipmentType.trim().toLowerCase();
+  const forClass = rules.filter(
+    (rule) => rule.inspectionClass === inspectionClass
+  );
+  return (
+    forClass.find((rule) => rule.equipmentType.trim().toLowerCase() === type) ||
+    forClass.find((rule) => rule.equipmentType === "*") ||
+    DEFAULT_INTERVAL_RULES.find(
+      (rule) => rule.inspectionClass === inspectionClass
+    )!
+  );
+}
+
+// Whole calendar days from today, negative once the date has passed
+export function daysUntil(date: Date, now: number = Date.now()): number {
+  const startOfToday = new Date(now);
+  startOfToday.setHours(0, 0, 0, 0);
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+  return Math.round((day.getTime() - startOfToday.getTime()) / DAY_MS);
+}
+
+export function getDueState(daysUntilDue: number, leadDays: number): DueState {
+  if (daysUntilDue < 0) {
+    return "overdue";
+  }
+  return daysUntilDue <= leadDays ? "due_soon" : "scheduled";
+}
+
+// One entry per active asset and inspection class, soonest due first.
+// Assets that were never inspected are due from the day they were
+// registered.
+export function computeSchedule(
+  equipment: Equipment[],
+  history: InspectionRecord[],
+  rules: IntervalRule[],
+  now: number = Date.now()
+): ScheduledInspection[] {
+  const schedule: ScheduledInspection[] = [];
+
+  for (const asset of equipment) {
+    if (!asset.isActive) {
+      continue;
+    }
+
+    const assetHistory = history.filter(
+      (record) => record.assetId === asset.id
+    );
+
+    for (const inspectionClass of INSPECTION_CLASSES) {
+      const rule = findIntervalRule(
+        rules,
+        asset.equipmentType,
+        inspectionClass
+      );
+      const last = assetHistory
+        .filter((record) => satisfies(record.inspectionClass, inspectionClass))
+        .reduce<Date | undefined>(
+          (latest, record) =>
+            !latest || record.completedAt > latest
+              ? record.completedAt
+              : latest,
+          undefined
+        );
+
+      const dueDate = last
+        ? new Date(last.getTime() + rule.intervalDays * DAY_MS)
+        : asset.createdAt;
+      const daysUntilDue = daysUntil(dueDate, now);
+
+      schedule.push({
+        id: `${asset.id}:${inspectionClass}`,
+        assetId: asset.id,
+        assetTag: asset.assetTag,
+        equipmentType: asset.equipmentType,
+        site: asset.site,
+        location: asset.location,
+        inspectionClass,
+        lastInspection: last,
+        dueDate,
+        daysUntilDue,
+        state: getDueState(daysUntilDue, rule.leadDays),
+      });
+    }
+  }
+
+  return schedule.sort((a, b) => a.dueDate.getTime() - b.dueDate.getTime());
+}
+
+// An assigned or started job already covers this asset and class
+export function findOpenJob(
+  item: Pick<ScheduledInspection, "assetId" | "inspectionClass">,
+  jobs: InspectionJob[]
+): InspectionJob | undefined {
+  return jobs.find(
+    (job) =>
+      job.assetId === item.assetId &&
+      job.inspectionClass === item.inspectionClass &&
+      (job.status === "Assigned" || job.status === "In Progress")
+  );
+}
+
+// Overdue and due-soon inspections nobody has been dispatched for yet,
+// which is what generating jobs from the schedule creates jobs for
+export function findInspectionsToDispatch(
+  schedule: ScheduledInspection[],
+  jobs: InspectionJob[]
+): ScheduledInspection[] {
+  return schedule.filter(
+    (item) => item.state !== "scheduled" && !findOpenJob(item, jobs)
+  );
+}
+
+export function describeDue(
+  item: Pick<ScheduledInspection, "daysUntilDue">
+): string {
+  if (item.daysUntilDue < 0) {
+    const days = -item.daysUntilDue;
+    return `Overdue by ${days} day${days === 1 ? "" : "s"}`;
+  }
+  if (item.daysUntilDue === 0) {
+    return "Due today";
+  }
+  return `Due in ${item.daysUntilDue} day${item.daysUntilDue === 1 ? "" : "s"}`;
+}
+
+// YYYY-MM-DD, as typed into due date fields
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+export function formatDateInput(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(
+    date.getDate()
+  )}`;
+}
+
+// End of the given local day, so anything due today isn't overdue until tomorrow
+export function parseDateInput(value: string): Date | null {
+  const match = DATE_PATTERN.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+  const [, year, month, day] = match.map(Number);
+  const date = new Date(year, month - 1, day, 23, 59, 59);
+  return date.getMonth() === month - 1 ? date : null;
+}
@@ -0,0 +1,85 @@
+// services/signatures/reportSignatures.ts
+import * as Crypto from "expo-crypto";
+import { InspectionForm } from "../../types/report";
+import { ReportSignature, SignerRole } from "../../types/signature";
+
+// Keys sorted at every level so the same content always serializes the same
+function stableStringify(value: any): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    return `{${Object.keys(value)
+      .filter((key) => value[key] !== undefined)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${stableStringify(value[key])}`)
+      .join(",")}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+// Everything a signer vouches for. Device paths, upload state and the
+// signatures themselves are left out so syncing doesn't change the hash.
+export function signedContent(form: InspectionForm): string {
+  return stableStringify({
+    assetId: form.assetId,
+    equipmentId: form.equipmentId.trim(),
+    equipmentType: form.equipmentType.trim(),
+    location: form.location.trim(),
+    priority: form.priority,
+    inspectionClass: form.inspectionClass,
+    description: form.description.trim(),
+    notes: form.notes.trim(),
+    templateId: form.templateId,
+    templateVersion: form.templateVersion,
+    checklist: form.checklist,
+    // By id, since the server returns photos in whatever order they landed
+    photos: [...form.photos]
+      .sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0))
+      .map((photo) => ({
+        id: photo.id,
+        caption: photo.caption,
+        annotations: photo.annotations,
+        checklistItemId: photo.checklistItemId,
+      })),
+    // Omitted when empty so reports signed before defects existed still verify
+    defects: form.defects?.length
+      ? form.defects.map((defect) => ({
+          id: defect.id,
+          title: defect.title.trim(),
+          severity: defect.severity,
+          removeFromService: defect.removeFromService,
+          recommendedAction: defect.recommendedAction.trim(),
+          dueDate: defect.dueDate,
+          checklistItemId: defect.checklistItemId,
+          beforePhotoIds: defect.beforePhotoIds,
+        }))
+      : undefined,
+  });
+}
+
+// The report version a signature is bound to
+export function hashReportContent(form: InspectionForm): Promise<string> {
+  return Crypto.digestStringAsync(
+    Crypto.CryptoDigestAlgorithm.SHA256,
+    signedContent(form)
+  );
+}
+
+export function isSignatureValid(
+  signature: ReportSignature,
+  reportHash: string
+): boolean {
+  return signature.reportHash === reportHash;
+}
+
+export function findSignature(
+  signatures: ReportSignature[] | undefined,
+  role: SignerRole,
+  reportHash: string
+): ReportSignature | undefined {
+  return (signatures || []).find(
+    (signature) =>
+      signature.signerRole === role && isSignatureValid(signature, reportHash)
+  );
+}
@@ -0,0 +1,32 @@
+// services/signatures/signatureGeometry.ts
+// Pure helpers shared by the signature components and the certificate
+// renderer
+import { SignatureStroke, SignerRole } from "../../types/signature";
+
+export const SIGNATURE_STROKE_WIDTH = 2.5;
+
+export const SIGNER_ROLE_LABELS: Record<SignerRole, string> = {
+  inspector: "Inspector",
+  site_representative: "Site Representative",
+};
+
+// SVG path data for one stroke scaled to the given size. A single tap is
+// drawn as a dot.
+export function strokePath(
+  stroke: SignatureStroke,
+  width: number,
+  height: number
+): string {
+  if (stroke.length === 0) {
+    return "";
+  }
+  const points = stroke.length === 1 ? [stroke[0], stroke[0]] : stroke;
+  return points
+    .map(
+      (point, index) =>
+        `${index === 0 ? "M" : "L"}${(point.x * width).toFixed(1)} ${(
+          point.y * height
+        ).toFixed(1)}`
+    )
+    .join(" ");
+}
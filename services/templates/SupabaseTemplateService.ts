@@ -0,0 +1,148 @@
+// services/templates/SupabaseTemplateService.ts
+import { supabase } from "../../lib/supabase";
+import { checkPermission } from "../auth/permissions";
+import { User } from "../../types/auth";
+import { ReportResult } from "../../types/report";
+import { ChecklistTemplate, ITemplateService } from "../../types/template";
+
+export class SupabaseTemplateService implements ITemplateService {
+  async listTemplates(
+    contractorId: string
+  ): Promise<ReportResult<ChecklistTemplate[]>> {
+    try {
+      const { data, error } = await supabase
+        .from("checklist_templates")
+        .select("*")
+        .eq("contractor_id", contractorId)
+        .order("equipment_type", { ascending: true });
+
+      if (error) {
+        return {
+          success: false,
+          error: error.message,
+          errorCode: error.code,
+        };
+      }
+
+      return {
+        success: true,
+        data: (data || []).map((row) => this.mapTemplate(row)),
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || "Failed to load templates",
+      };
+    }
+  }
+
+  async saveTemplate(
+    template: Omit<ChecklistTemplate, "id" | "version" | "updatedAt"> & {
+      id?: string;
+      version?: number;
+    },
+    actor: User
+  ): Promise<ReportResult<ChecklistTemplate>> {
+    try {
+      const denied = checkPermission(
+        actor,
+        "templates.manage",
+        template.contractorId
+      );
+      if (denied) {
+        return denied;
+      }
+
+      const row = {
+        contractor_id: template.contractorId,
+        equipment_type: template.equipmentType.trim(),
+        name: template.name.trim(),
+        sections: template.sections,
+        updated_at: new Date().toISOString(),
+      };
+
+      // Each save bumps the version so reports can record which revision
+      // of the checklist they were filled against. Matching on the old
+      // version stops two managers silently overwriting each other.
+      const query = template.id
+        ? supabase
+            .from("checklist_templates")
+            .update({ ...row, version: (template.version || 0) + 1 })
+            .eq("id", template.id)
+            .eq("version", template.version || 0)
+        : supabase.from("checklist_templates").insert({ ...row, version: 1 });
+
+      const { data, error } = await query.select("*").maybeSingle();
+
+      if (!error && !data && template.id) {
+        return {
+          success: false,
+          error:
+            "This template was changed by someone else. Reload and try again.",
+          errorCode: "version_conflict",
+        };
+      }
+
+      if (error || !data) {
+        return {
+          success: false,
+          error: error?.message || "Failed to save template",
+          errorCode: error?.code,
+        };
+      }
+
+      return {
+        success: true,
+        data: this.mapTemplate(data),
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || "Failed to save template",
+      };
+    }
+  }
+
+  async deleteTemplate(id: string, actor: User): Promise<ReportResult<void>> {
+    try {
+      const denied = checkPermission(actor, "templates.manage");
+      if (denied) {
+        return denied;
+      }
+
+      let query = supabase.from("checklist_templates").delete().eq("id", id);
+      if (actor.role !== "super_admin") {
+        query = query.eq("contractor_id", actor.contractorId);
+      }
+      const { error } = await query;
+
+      if (error) {
+        return {
+          success: false,
+          error: error.message,
+          errorCode: error.code,
+        };
+      }
+
+      return { success: true };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || "Failed to delete template",
+      };
+    }
+  }
+
+  // Private helper methods
+  private mapTemplate(data: any): ChecklistTemplate {
+    return {
+      id: data.id,
+      contractorId: data.contractor_id,
+      equipmentType: data.equipment_type,
+      name: data.name,
+      version: data.version,
+      sections: data.sections || [],
+      updatedAt: new Date(data.updated_at),
+    };
+  }
+}
@@ -0,0 +1,66 @@
+import {
+  resolveReportTemplate,
+  toTemplateSnapshot,
+} from "../checklistValidation";
+import { ChecklistTemplate } from "../../../types/template";
+
+const REVISION_1: ChecklistTemplate = {
+  id: "template-1",
+  contractorId: "contractor-1",
+  equipmentType: "Overhead Crane",
+  name: "Crane Periodic",
+  version: 1,
+  sections: [
+    {
+      id: "hoist",
+      title: "Hoist",
+      items: [
+        { id: "rope", label: "Wire rope", kind: "pass_fail", required: true },
+      ],
+    },
+  ],
+  updatedAt: new Date(Date.UTC(2026, 0, 5)),
+};
+
+const REVISION_2: ChecklistTemplate = {
+  ...REVISION_1,
+  version: 2,
+  sections: [
+    {
+      id: "hoist",
+      title: "Hoist",
+      items: [
+        {
+          id: "rope-2",
+          label: "Hoist rope",
+          kind: "pass_fail",
+          required: true,
+        },
+      ],
+    },
+  ],
+};
+
+describe("resolveReportTemplate", () => {
+  it("prefers the snapshot stored with the report", () => {
+    const report = {
+      templateId: REVISION_1.id,
+      templateVersion: 1,
+      templateSnapshot: toTemplateSnapshot(REVISION_1),
+    };
+
+    expect(resolveReportTemplate(report, [REVISION_2])).toEqual(
+      toTemplateSnapshot(REVISION_1)
+    );
+    expect(resolveReportTemplate(report, [])?.sections[0].items[0].id).toBe(
+      "rope"
+    );
+  });
+
+  it("falls back to the current template only for the same revision", () => {
+    const report = { templateId: REVISION_1.id, templateVersion: 1 };
+
+    expect(resolveReportTemplate(report, [REVISION_1])?.version).toBe(1);
+    expect(resolveReportTemplate(report, [REVISION_2])).toBeNull();
+  });
+});
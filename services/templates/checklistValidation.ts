@@ -0,0 +1,221 @@
+// services/templates/checklistValidation.ts
+import { InspectionForm } from "../../types/report";
+import {
+  ChecklistItem,
+  ChecklistResponse,
+  ChecklistResponses,
+  ChecklistTemplate,
+  TemplateSnapshot,
+} from "../../types/template";
+
+// Errors are keyed by InspectionForm field name or ChecklistItem.id
+export type InspectionErrors = Record<string, string>;
+
+const MIN_DESCRIPTION_LENGTH = 10;
+
+export function findTemplateForEquipmentType(
+  templates: ChecklistTemplate[],
+  equipmentType: string
+): ChecklistTemplate | null {
+  const key = equipmentType.trim().toLowerCase();
+  if (!key) {
+    return null;
+  }
+  return (
+    templates.find((t) => t.equipmentType.trim().toLowerCase() === key) || null
+  );
+}
+
+// Human-readable answer for read-only views and exported certificates
+export function formatChecklistResponse(
+  item: ChecklistItem,
+  response?: ChecklistResponse
+): string {
+  if (!response || response.value === undefined || response.value === "") {
+    return "Not answered";
+  }
+  switch (item.kind) {
+    case "pass_fail":
+      return response.value === "na"
+        ? "N/A"
+        : response.value === "pass"
+        ? "Pass"
+        : "Fail";
+    case "measurement":
+      return `${response.value}${item.unit ? ` ${item.unit}` : ""}`;
+    default:
+      return String(response.value);
+  }
+}
+
+export function parseMeasurement(value: ChecklistResponse["value"]) {
+  if (typeof value === "number") {
+    return value;
+  }
+  if (typeof value !== "string" || !value.trim()) {
+    return null;
+  }
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : NaN;
+}
+
+export function isOutOfTolerance(
+  item: ChecklistItem,
+  response?: ChecklistResponse
+): boolean {
+  if (item.kind !== "measurement" || !response) {
+    return false;
+  }
+  const value = parseMeasurement(response.value);
+  if (value === null || Number.isNaN(value)) {
+    return false;
+  }
+  return (
+    (item.min !== undefined && value < item.min) ||
+    (item.max !== undefined && value > item.max)
+  );
+}
+
+function validateItem(
+  item: ChecklistItem,
+  form: InspectionForm
+): string | undefined {
+  const response = form.checklist[item.id];
+
+  switch (item.kind) {
+    case "pass_fail":
+      if (!response?.value) {
+        return item.required ? "Select pass, fail or N/A" : undefined;
+      }
+      if (response.value === "fail" && !response.comment?.trim()) {
+        return "Describe the failure";
+      }
+      return undefined;
+
+    case "measurement": {
+      const value = parseMeasurement(response?.value);
+      if (value === null) {
+        return item.required ? "Measurement is required" : undefined;
+      }
+      return Number.isNaN(value) ? "Enter a number" : undefined;
+    }
+
+    case "text":
+      return item.required &&
+        !(typeof response?.value === "string" && response.value.trim())
+        ? "This field is required"
+        : undefined;
+
+    case "photo":
+      return item.required &&
+        !form.photos.some((photo) => photo.checklistItemId === item.id)
+        ? "At least one photo is required"
+        : undefined;
+
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Validate a report against its checklist template. Reports without a
+ * template fall back to the free-text description rules.
+ */
+export function validateInspection(
+  form: InspectionForm,
+  template: ChecklistTemplate | null
+): InspectionErrors {
+  const errors: InspectionErrors = {};
+
+  if (!form.assetId) {
+    errors.assetId = "Select the equipment being inspected";
+  }
+
+  if (!form.location.trim()) {
+    errors.location = "Location is required";
+  }
+
+  if (!template) {
+    if (!form.description.trim()) {
+      errors.description = "Description is required";
+    } else if (form.description.trim().length < MIN_DESCRIPTION_LENGTH) {
+      errors.description = `Description must be at least ${MIN_DESCRIPTION_LENGTH} characters`;
+    }
+    return errors;
+  }
+
+  for (const section of template.sections) {
+    for (const item of section.items) {
+      const error = validateItem(item, form);
+      if (error) {
+        errors[item.id] = error;
+      }
+    }
+  }
+
+  return errors;
+}
+
+// Failed pass/fail items and out-of-tolerance measurements, in template order
+export function findFailedItems(
+  template: ChecklistTemplate,
+  form: InspectionForm
+): ChecklistItem[] {
+  return template.sections
+    .flatMap((section) => section.items)
+    .filter((item) => {
+      const response = form.checklist[item.id];
+      return (
+        (item.kind === "pass_fail" && response?.value === "fail") ||
+        isOutOfTolerance(item, response)
+      );
+    });
+}
+
+// Only answers for the template's own items are kept, and none without one
+export function pruneChecklist(
+  checklist: ChecklistResponses,
+  template: ChecklistTemplate | null
+): ChecklistResponses {
+  if (!template) {
+    return {};
+  }
+  const itemIds = new Set(
+    template.sections.flatMap((section) => section.items.map((i) => i.id))
+  );
+  return Object.fromEntries(
+    Object.entries(checklist).filter(([itemId]) => itemIds.has(itemId))
+  );
+}
+
+export function toTemplateSnapshot(
+  template: ChecklistTemplate
+): TemplateSnapshot {
+  return {
+    id: template.id,
+    equipmentType: template.equipmentType,
+    name: template.name,
+    version: template.version,
+    sections: template.sections,
+  };
+}
+
+// The revision a report was filled against: its own snapshot, or for
+// reports saved before snapshots, the current template only while it is
+// still that same revision
+export function resolveReportTemplate(
+  report: Pick<
+    InspectionForm,
+    "templateId" | "templateVersion" | "templateSnapshot"
+  >,
+  templates: ChecklistTemplate[]
+): TemplateSnapshot | null {
+  if (report.templateSnapshot) {
+    return report.templateSnapshot;
+  }
+  return (
+    templates.find(
+      (t) => t.id === report.templateId && t.version === report.templateVersion
+    ) || null
+  );
+}
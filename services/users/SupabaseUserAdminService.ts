@@ -0,0 +1,181 @@
+// services/users/SupabaseUserAdminService.ts
+import { supabase } from "../../lib/supabase";
+import { checkPermission } from "../auth/permissions";
+import { User } from "../../types/auth";
+import { ReportResult } from "../../types/report";
+import { AssignableRole, IUserAdminService } from "../../types/userAdmin";
+
+const PROFILE_SELECT = `
+  *,
+  contractors:contractor_id (
+    id,
+    name
+  )
+`;
+
+export class SupabaseUserAdminService implements IUserAdminService {
+  async listUsers(
+    contractorId: string,
+    actor: User
+  ): Promise<ReportResult<User[]>> {
+    try {
+      const denied = checkPermission(actor, "users.manage", contractorId);
+      if (denied) {
+        return denied;
+      }
+
+      const { data, error } = await supabase
+        .from("user_profiles")
+        .select(PROFILE_SELECT)
+        .eq("contractor_id", contractorId)
+        .order("last_name", { ascending: true });
+
+      if (error) {
+        return {
+          success: false,
+          error: error.message,
+          errorCode: error.code,
+        };
+      }
+
+      return {
+        success: true,
+        data: (data || []).map((row) => this.mapUser(row)),
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || "Failed to load team",
+      };
+    }
+  }
+
+  async updateRole(
+    userId: string,
+    role: AssignableRole,
+    actor: User
+  ): Promise<ReportResult<User>> {
+    return this.updateUser(userId, actor, { role }, "Failed to change role");
+  }
+
+  async setActive(
+    userId: string,
+    isActive: boolean,
+    actor: User
+  ): Promise<ReportResult<User>> {
+    return this.updateUser(
+      userId,
+      actor,
+      { is_active: isActive },
+      isActive ? "Failed to reactivate user" : "Failed to deactivate user"
+    );
+  }
+
+  async requirePasswordChange(
+    userId: string,
+    actor: User
+  ): Promise<ReportResult<User>> {
+    return this.updateUser(
+      userId,
+      actor,
+      { must_change_password: true },
+      "Failed to require a password change"
+    );
+  }
+
+  // Private helper methods
+  private async updateUser(
+    userId: string,
+    actor: User,
+    changes: Record<string, any>,
+    failureMessage: string
+  ): Promise<ReportResult<User>> {
+    try {
+      const denied = checkPermission(actor, "users.manage");
+      if (denied) {
+        return denied;
+      }
+
+      // Managers can't lock themselves out or demote themselves
+      if (userId === actor.id) {
+        return {
+          success: false,
+          error: "You can't change your own account here",
+          errorCode: "forbidden",
+        };
+      }
+
+      const { data: target, error: targetError } = await supabase
+        .from("user_profiles")
+        .select("id, contractor_id, role")
+        .eq("id", userId)
+        .single();
+
+      if (targetError || !target) {
+        return {
+          success: false,
+          error: targetError?.message || "User not found",
+          errorCode: targetError?.code,
+        };
+      }
+
+      const outsideContractor = checkPermission(
+        actor,
+        "users.manage",
+        target.contractor_id
+      );
+      if (outsideContractor) {
+        return outsideContractor;
+      }
+
+      if (target.role === "super_admin") {
+        return {
+          success: false,
+          error: "Platform administrators can't be changed here",
+          errorCode: "forbidden",
+        };
+      }
+
+      const { data, error } = await supabase
+        .from("user_profiles")
+        .update({ ...changes, updated_at: new Date().toISOString() })
+        .eq("id", userId)
+        .select(PROFILE_SELECT)
+        .single();
+
+      if (error || !data) {
+        return {
+          success: false,
+          error: error?.message || failureMessage,
+          errorCode: error?.code,
+        };
+      }
+
+      return {
+        success: true,
+        data: this.mapUser(data),
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || failureMessage,
+      };
+    }
+  }
+
+  private mapUser(data: any): User {
+    return {
+      id: data.id,
+      email: data.email,
+      firstName: data.first_name,
+      lastName: data.last_name,
+      role: data.role,
+      contractorId: data.contractor_id,
+      contractorName: data.contractors?.name || "Unknown",
+      isActive: data.is_active,
+      mustChangePassword: data.must_change_password,
+      lastLogin: data.last_login ? new Date(data.last_login) : undefined,
+      createdAt: new Date(data.created_at),
+    };
+  }
+}
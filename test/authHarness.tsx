@@ -0,0 +1,80 @@
+// test/authHarness.tsx
+// Renders components inside a real AuthProvider backed by an
+// InMemoryAuthService, so auth flows run end to end with no network.
+import React, { ReactElement } from "react";
+import { Text } from "react-native";
+import { PaperProvider } from "react-native-paper";
+import { render } from "@testing-library/react-native";
+import { AuthProvider, useAuth } from "../components/auth/AuthContext";
+import {
+  InMemoryAuthOptions,
+  InMemoryAuthService,
+  InMemoryInvitation,
+} from "../services/auth/InMemoryAuthService";
+import { IInvitationService } from "../types/invitation";
+
+// 64 hex characters, the shape parseInvitationToken accepts
+export const INVITE_TOKEN = "ab".repeat(32);
+
+export const INVITATION: InMemoryInvitation = {
+  email: "new.inspector@example.com",
+  contractorId: "contractor-1",
+  contractorName: "Acme Lifting",
+  role: "inspector",
+};
+
+// Previews come from the same invitations the auth service will redeem
+function invitationServiceFor(
+  invitations: Record<string, InMemoryInvitation>
+): IInvitationService {
+  return {
+    previewInvitation: async (token) => {
+      const invitation = invitations[token];
+      return invitation
+        ? {
+            success: true,
+            data: {
+              email: invitation.email,
+              role: invitation.role === "manager" ? "manager" : "inspector",
+              contractorName: invitation.contractorName,
+              expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
+            },
+          }
+        : { success: false, error: "This invitation is not valid" };
+    },
+    createInvitation: async () => ({ success: false, error: "Not supported" }),
+    listInvitations: async () => ({ success: true, data: [] }),
+    revokeInvitation: async () => ({ success: false, error: "Not supported" }),
+  };
+}
+
+// Shows who AuthContext thinks is signed in
+export function SessionProbe() {
+  const { user, loading } = useAuth();
+  if (loading) {
+    return <Text>Loading session</Text>;
+  }
+  return <Text>{user ? `Signed in as ${user.firstName}` : "Signed out"}</Text>;
+}
+
+export function renderWithAuth(
+  ui: ReactElement,
+  options: InMemoryAuthOptions = {}
+) {
+  const invitations = options.invitations || {
+    [INVITE_TOKEN]: INVITATION,
+  };
+  const authService = new InMemoryAuthService({ ...options, invitations });
+  const utils = render(
+    <PaperProvider>
+      <AuthProvider
+        authService={authService}
+        invitationService={invitationServiceFor(invitations)}
+      >
+        {ui}
+        <SessionProbe />
+      </AuthProvider>
+    </PaperProvider>
+  );
+  return { ...utils, authService };
+}
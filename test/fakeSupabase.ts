@@ -0,0 +1,195 @@
+// test/fakeSupabase.ts
+// Just enough of the supabase-js query builder for service tests: rows live
+// in memory, `select` strings are honoured for the report_photos embed, and
+// RPCs are answered by handlers the test registers.
+import { randomUUID } from "crypto";
+
+type Row = Record<string, any>;
+type Filter = { column: string; value: any };
+type RpcHandler = (args: Row) => { data?: any; error?: any };
+
+// `photos:report_photos ( id, caption, ... )` -> the embedded column list
+function embeddedColumns(select: string, table: string): string[] | null {
+  const match = select.match(new RegExp(`\\w+:${table}\\s*\\(([^)]*)\\)`));
+  return match
+    ? match[1]
+        .split(",")
+        .map((column) => column.trim())
+        .filter(Boolean)
+    : null;
+}
+
+function pick(row: Row, columns: string[]): Row {
+  return Object.fromEntries(columns.map((column) => [column, row[column]]));
+}
+
+class FakeQuery implements PromiseLike<{ data: any; error: any }> {
+  private op: "select" | "insert" | "upsert" | "update" | "delete" = "select";
+  private payload: Row[] = [];
+  private filters: Filter[] = [];
+  private columns = "*";
+  private onConflict = "id";
+
+  constructor(private db: FakeSupabase, private table: string) {}
+
+  select(columns = "*") {
+    this.columns = columns;
+    return this;
+  }
+
+  insert(rows: Row | Row[]) {
+    this.op = "insert";
+    this.payload = Array.isArray(rows) ? rows : [rows];
+    return this;
+  }
+
+  upsert(rows: Row | Row[], options: { onConflict?: string } = {}) {
+    this.op = "upsert";
+    this.payload = Array.isArray(rows) ? rows : [rows];
+    this.onConflict = options.onConflict || "id";
+    return this;
+  }
+
+  update(changes: Row) {
+    this.op = "update";
+    this.payload = [changes];
+    return this;
+  }
+
+  delete() {
+    this.op = "delete";
+    return this;
+  }
+
+  eq(column: string, value: any) {
+    this.filters.push({ column, value });
+    return this;
+  }
+
+  order() {
+    return this;
+  }
+
+  async single() {
+    const { data, error } = await this.run();
+    if (error) {
+      return { data: null, error };
+    }
+    return data.length === 1
+      ? { data: data[0], error: null }
+      : { data: null, error: { code: "PGRST116", message: "Not one row" } };
+  }
+
+  async maybeSingle() {
+    const { data, error } = await this.run();
+    return { data: error ? null : data[0] || null, error };
+  }
+
+  then<T1, T2>(
+    resolve?: (value: { data: any; error: any }) => T1 | PromiseLike<T1>,
+    reject?: (reason: any) => T2 | PromiseLike<T2>
+  ) {
+    return this.run().then(resolve, reject);
+  }
+
+  private matches(row: Row) {
+    return this.filters.every((f) => row[f.column] === f.value);
+  }
+
+  private async run(): Promise<{ data: any; error: any }> {
+    const failure = this.db.failures[`${this.table}.${this.op}`];
+    if (failure) {
+      return { data: null, error: failure };
+    }
+
+    const rows = this.db.rows(this.table);
+    let affected: Row[];
+
+    switch (this.op) {
+      case "insert":
+        affected = this.payload.map((row) => ({
+          id: randomUUID(),
+          created_at: new Date().toISOString(),
+          ...row,
+        }));
+        rows.push(...affected);
+        break;
+      case "upsert": {
+        const keys = this.onConflict.split(",");
+        affected = this.payload.map((row) => {
+          const existing = rows.find((r) => keys.every((k) => r[k] === row[k]));
+          if (existing) {
+            return Object.assign(existing, row);
+          }
+          const created = {
+            id: randomUUID(),
+            created_at: new Date().toISOString(),
+            ...row,
+          };
+          rows.push(created);
+          return created;
+        });
+        break;
+      }
+      case "update":
+        affected = rows.filter((row) => this.matches(row));
+        affected.forEach((row) => Object.assign(row, this.payload[0]));
+        break;
+      case "delete":
+        affected = rows.filter((row) => this.matches(row));
+        this.db.tables[this.table] = rows.filter((row) => !this.matches(row));
+        break;
+      default:
+        affected = rows.filter((row) => this.matches(row));
+    }
+
+    return { data: affected.map((row) => this.project(row)), error: null };
+  }
+
+  // Copies so callers can't mutate stored rows, with report_photos embedded
+  private project(row: Row): Row {
+    const projected: Row = { ...row };
+    const photoColumns = embeddedColumns(this.columns, "report_photos");
+    if (photoColumns) {
+      projected.photos = this.db
+        .rows("report_photos")
+        .filter((photo) => photo.report_id === row.id)
+        .map((photo) => pick(photo, photoColumns));
+    }
+    return projected;
+  }
+}
+
+export class FakeSupabase {
+  tables: Record<string, Row[]> = {};
+  failures: Record<string, { code?: string; message: string }> = {};
+  rpcHandlers: Record<string, RpcHandler> = {};
+
+  rows(table: string): Row[] {
+    return (this.tables[table] = this.tables[table] || []);
+  }
+
+  from(table: string) {
+    return new FakeQuery(this, table);
+  }
+
+  async rpc(name: string, args: Row = {}) {
+    const handler = this.rpcHandlers[name];
+    if (!handler) {
+      return {
+        data: null,
+        error: { code: "PGRST202", message: `Unknown function ${name}` },
+      };
+    }
+    const { data = null, error = null } = handler(args);
+    return { data, error };
+  }
+
+  reset() {
+    this.tables = {};
+    this.failures = {};
+    this.rpcHandlers = {};
+  }
+}
+
+export const fakeSupabase = new FakeSupabase();
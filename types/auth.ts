@@ -9,10 +9,25 @@ export interface User {
   contractorName: string;
   isActive: boolean;
   mustChangePassword: boolean;
+  mustEnrollMfa?: boolean; // Only resolved for the signed-in user
   lastLogin?: Date;
   createdAt: Date;
 }
 
+// Fine-grained permissions, granted per role in services/auth/permissions.ts
+export type Capability =
+  | "reports.create"
+  | "reports.submit"
+  | "reports.review"
+  | "reports.approve"
+  | "templates.manage"
+  | "equipment.register"
+  | "equipment.manage"
+  | "users.manage"
+  | "jobs.dispatch"
+  | "defects.manage"
+  | "contractors.manage";
+
 export interface AuthSession {
   user: User;
   accessToken: string;
@@ -30,15 +45,63 @@ export interface RegisterData {
   password: string;
   firstName: string;
   lastName: string;
-  contractorId?: string; // Optional for invitation-based registration
-  role?: "manager" | "inspector";
+  invitationToken: string; // Contractor and role come from the invitation
+}
+
+// Provider-independent failure reasons. Services map their backend's
+// errors onto these; screens turn them into messages with
+// getAuthErrorMessage (services/auth/authErrors.ts).
+export enum AuthErrorCode {
+  INVALID_CREDENTIALS = "invalid_credentials",
+  EMAIL_NOT_CONFIRMED = "email_not_confirmed",
+  EMAIL_CONFIRMATION_REQUIRED = "email_confirmation_required",
+  EMAIL_TAKEN = "email_taken",
+  ACCOUNT_INACTIVE = "account_inactive",
+  CONTRACTOR_SUSPENDED = "contractor_suspended",
+  PROFILE_MISSING = "profile_missing",
+  INVALID_INVITATION = "invalid_invitation",
+  INVALID_AUTH_LINK = "invalid_auth_link",
+  NOT_AUTHENTICATED = "not_authenticated",
+  SESSION_EXPIRED = "session_expired",
+  WEAK_PASSWORD = "weak_password",
+  INVALID_CURRENT_PASSWORD = "invalid_current_password",
+  MFA_REQUIRED = "mfa_required",
+  INVALID_MFA_CODE = "invalid_mfa_code",
+  INVALID_RECOVERY_CODE = "invalid_recovery_code",
+  MFA_REQUIRED_BY_POLICY = "mfa_required_by_policy",
+  NETWORK = "network",
+  RATE_LIMITED = "rate_limited",
+  UNKNOWN = "unknown",
 }
 
 export interface AuthResult<T = any> {
   success: boolean;
   data?: T;
-  error?: string;
-  errorCode?: string;
+  error?: string; // Technical detail for logs; show getAuthErrorMessage()
+  errorCode?: AuthErrorCode;
+  mfaChallenge?: MfaChallenge; // Set when errorCode is MFA_REQUIRED
+}
+
+// Second step of a login for users with a verified TOTP factor
+export interface MfaChallenge {
+  factorId: string;
+  challengeId: string;
+  expiresAt: Date;
+}
+
+export interface MfaEnrollment {
+  factorId: string;
+  qrCode: string; // SVG markup encoding the otpauth:// URI
+  secret: string; // For manual entry when the QR code can't be scanned
+}
+
+export interface MfaStatus {
+  enrolled: boolean;
+  required: boolean; // Enforced by the contractor for this user's role
+}
+
+export interface LogoutOptions {
+  allDevices?: boolean; // Revoke every refresh token, not just this device's
 }
 
 export interface PasswordChangeData {
@@ -51,7 +114,7 @@ export interface IAuthService {
   // Authentication Methods
   login(credentials: LoginCredentials): Promise<AuthResult<AuthSession>>;
   register(data: RegisterData): Promise<AuthResult<AuthSession>>;
-  logout(): Promise<AuthResult<void>>;
+  logout(options?: LogoutOptions): Promise<AuthResult<void>>;
 
   // Session Management
   getCurrentSession(): Promise<AuthResult<AuthSession>>;
@@ -60,14 +123,35 @@ export interface IAuthService {
   // Password Management
   changePassword(data: PasswordChangeData): Promise<AuthResult<void>>;
   resetPassword(email: string): Promise<AuthResult<void>>;
+  // Sets the password for a session opened from a recovery link
+  setNewPassword(newPassword: string): Promise<AuthResult<void>>;
+
+  // Email Links (confirmation and password recovery)
+  completeAuthLink(url: string): Promise<AuthResult<AuthSession>>;
+  resendConfirmation(email: string): Promise<AuthResult<void>>;
+
+  // Multi-factor Authentication
+  verifyMfaChallenge(
+    challenge: MfaChallenge,
+    code: string
+  ): Promise<AuthResult<AuthSession>>;
+  redeemRecoveryCode(code: string): Promise<AuthResult<AuthSession>>;
+  getMfaStatus(): Promise<AuthResult<MfaStatus>>;
+  enrollMfa(): Promise<AuthResult<MfaEnrollment>>;
+  confirmMfaEnrollment(
+    factorId: string,
+    code: string
+  ): Promise<AuthResult<string[]>>; // Resolves to the new recovery codes
+  disableMfa(): Promise<AuthResult<void>>;
 
   // User Profile
   getCurrentUser(): Promise<AuthResult<User>>;
   updateProfile(updates: Partial<User>): Promise<AuthResult<User>>;
 
   // Session Events
+  // reason is set when a session is revoked, e.g. ACCOUNT_INACTIVE
   onAuthStateChange(
-    callback: (session: AuthSession | null) => void
+    callback: (session: AuthSession | null, reason?: AuthErrorCode) => void
   ): () => void;
 
   // Utility Methods
@@ -0,0 +1,53 @@
+// types/contractor.ts
+import { User } from "./auth";
+import { ReportResult } from "./report";
+
+export interface ContractorBranding {
+  brandColor?: string; // Hex, e.g. "#1976d2"
+  logoUrl?: string;
+}
+
+export interface Contractor extends ContractorBranding {
+  id: string;
+  name: string;
+  isSuspended: boolean;
+  suspendedAt?: Date;
+  requireManagerMfa: boolean;
+  createdAt: Date;
+}
+
+export interface ContractorSummary extends Contractor {
+  userCount: number;
+  reportCount: number;
+}
+
+export interface ContractorInput extends ContractorBranding {
+  name: string;
+}
+
+// Abstract interface for tenant administration. Everything except
+// getContractor and setMfaPolicy is restricted to super admins.
+export interface IContractorService {
+  listContractors(actor: User): Promise<ReportResult<ContractorSummary[]>>;
+  getContractor(id: string): Promise<ReportResult<Contractor>>;
+  createContractor(
+    input: ContractorInput,
+    actor: User
+  ): Promise<ReportResult<Contractor>>;
+  updateContractor(
+    id: string,
+    input: ContractorInput,
+    actor: User
+  ): Promise<ReportResult<Contractor>>;
+  setSuspended(
+    id: string,
+    suspended: boolean,
+    actor: User
+  ): Promise<ReportResult<Contractor>>;
+  // Managers can set their own contractor's security policy
+  setMfaPolicy(
+    id: string,
+    requireManagerMfa: boolean,
+    actor: User
+  ): Promise<ReportResult<Contractor>>;
+}
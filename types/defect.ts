@@ -0,0 +1,96 @@
+// types/defect.ts
+import { Capability, User } from "./auth";
+import { ReportPhoto } from "./photo";
+import { ReportResult } from "./report";
+
+export type DefectSeverity = "Critical" | "Major" | "Minor";
+
+export type DefectStatus = "Open" | "In Repair" | "Closed";
+
+export interface DefectTransition {
+  from: DefectStatus;
+  to: DefectStatus;
+  action: string; // Button label, e.g. "Verify & Close"
+  capability: Capability;
+  allowAssignee: boolean; // The defect's assignee may act without the capability
+  requiresEvidence: boolean; // Needs at least one after photo
+}
+
+// Recorded on the report form; becomes a Defect once the report syncs
+export interface DefectInput {
+  id: string; // Generated on the device so re-syncing can't duplicate it
+  title: string;
+  severity: DefectSeverity;
+  removeFromService: boolean;
+  recommendedAction: string;
+  dueDate: number; // epoch ms
+  checklistItemId?: string; // The failed checklist item it came from
+  beforePhotoIds: string[]; // Report photos showing the defect
+}
+
+export interface Defect {
+  id: string;
+  contractorId: string;
+  reportId: string;
+  assetId?: string;
+  assetTag: string;
+  equipmentType: string;
+  site: string; // Empty for equipment that isn't in the registry
+  location: string;
+  title: string;
+  severity: DefectSeverity;
+  removeFromService: boolean;
+  recommendedAction: string;
+  checklistItemId?: string;
+  status: DefectStatus;
+  assigneeId?: string;
+  assigneeName?: string;
+  dueDate: Date;
+  beforePhotos: ReportPhoto[];
+  afterPhotos: ReportPhoto[]; // Evidence of the repair
+  repairNotes: string;
+  reportedBy: string;
+  reportedByName: string;
+  closedBy?: string;
+  closedByName?: string;
+  closedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// The report a batch of defects was found on
+export type DefectSource = {
+  reportId: string;
+  contractorId: string;
+  assetId?: string;
+};
+
+// Abstract interface that any defect tracking backend must implement
+export interface IDefectService {
+  listDefects(
+    contractorId: string,
+    filter?: { assetId?: string; reportId?: string }
+  ): Promise<ReportResult<Defect[]>>;
+  recordDefects(
+    source: DefectSource,
+    defects: DefectInput[],
+    photos: ReportPhoto[], // The report's uploaded photos
+    author: Pick<User, "id" | "contractorId">
+  ): Promise<ReportResult<void>>;
+  assignDefect(
+    id: string,
+    changes: { assigneeId?: string | null; dueDate?: Date },
+    actor: User
+  ): Promise<ReportResult<Defect>>;
+  addRepairEvidence(
+    id: string,
+    photos: ReportPhoto[], // Captured on the device, uploaded here
+    repairNotes: string,
+    actor: User
+  ): Promise<ReportResult<Defect>>;
+  transitionDefect(
+    defect: Defect,
+    to: DefectStatus,
+    actor: User
+  ): Promise<ReportResult<Defect>>;
+}
@@ -0,0 +1,43 @@
+// types/equipment.ts
+import { User } from "./auth";
+import { ReportResult } from "./report";
+
+export type CapacityUnit = "kg" | "t" | "lb";
+
+export interface Equipment {
+  id: string;
+  contractorId: string;
+  assetTag: string; // The ID stencilled on the asset, e.g. "EQ-001"
+  equipmentType: string;
+  serialNumber: string;
+  manufacturer: string;
+  model?: string;
+  ratedCapacity?: number;
+  capacityUnit?: CapacityUnit;
+  site: string;
+  location: string;
+  isActive: boolean;
+  lastInspection?: Date; // Derived from the latest completed report
+  createdAt: Date;
+}
+
+export type EquipmentInput = Omit<
+  Equipment,
+  "id" | "contractorId" | "isActive" | "lastInspection" | "createdAt"
+>;
+
+// Abstract interface that any equipment registry backend must implement
+export interface IEquipmentService {
+  listEquipment(contractorId: string): Promise<ReportResult<Equipment[]>>;
+  getEquipment(id: string): Promise<ReportResult<Equipment>>;
+  createEquipment(
+    contractorId: string,
+    input: EquipmentInput,
+    actor: User
+  ): Promise<ReportResult<Equipment>>;
+  updateEquipment(
+    id: string,
+    updates: Partial<EquipmentInput> & { isActive?: boolean },
+    actor: User
+  ): Promise<ReportResult<Equipment>>;
+}
@@ -0,0 +1,49 @@
+// types/invitation.ts
+import { User } from "./auth";
+import { ReportResult } from "./report";
+
+export type InvitableRole = "manager" | "inspector";
+
+export interface Invitation {
+  id: string;
+  contractorId: string;
+  email: string;
+  role: InvitableRole;
+  invitedBy: string;
+  expiresAt: Date;
+  acceptedAt?: Date;
+  revokedAt?: Date;
+  createdAt: Date;
+}
+
+// What an invitee can see before they have an account
+export interface InvitationPreview {
+  email: string;
+  role: InvitableRole;
+  contractorName: string;
+  expiresAt: Date;
+}
+
+export interface InvitationInput {
+  email: string;
+  role: InvitableRole;
+  expiresInDays: number;
+}
+
+// Returned once at creation; only the token's hash is ever stored
+export interface IssuedInvitation {
+  invitation: Invitation;
+  token: string;
+  link: string;
+}
+
+// Abstract interface that any invitation backend must implement
+export interface IInvitationService {
+  createInvitation(
+    input: InvitationInput,
+    actor: User
+  ): Promise<ReportResult<IssuedInvitation>>;
+  listInvitations(contractorId: string): Promise<ReportResult<Invitation[]>>;
+  revokeInvitation(id: string, actor: User): Promise<ReportResult<void>>;
+  previewInvitation(token: string): Promise<ReportResult<InvitationPreview>>;
+}
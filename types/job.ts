@@ -0,0 +1,61 @@
+// types/job.ts
+import { User } from "./auth";
+import { ReportResult } from "./report";
+import { InspectionClass } from "./schedule";
+
+// Assigned -> In Progress once the inspector starts it -> Completed when the
+// report is submitted. Managers can cancel anything that isn't completed.
+export type JobStatus = "Assigned" | "In Progress" | "Completed" | "Cancelled";
+
+export interface InspectionJob {
+  id: string;
+  contractorId: string;
+  assetId: string;
+  assetTag: string;
+  equipmentType: string;
+  site: string;
+  location: string;
+  inspectionClass: InspectionClass;
+  dueDate: Date;
+  instructions: string;
+  assigneeId: string;
+  assigneeName: string;
+  createdBy: string;
+  createdByName: string;
+  status: JobStatus;
+  reportId?: string; // Set once the inspector's report reaches the server
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface JobInput {
+  assetId: string;
+  inspectionClass: InspectionClass;
+  dueDate: Date;
+  instructions: string;
+  assigneeId: string;
+}
+
+// Abstract interface that any job dispatch backend must implement
+export interface IJobService {
+  // Dispatchers see every job in the contractor, everyone else only their own
+  listJobs(
+    contractorId: string,
+    actor: User
+  ): Promise<ReportResult<InspectionJob[]>>;
+  createJob(
+    contractorId: string,
+    input: JobInput,
+    actor: User
+  ): Promise<ReportResult<InspectionJob>>;
+  reassignJob(
+    id: string,
+    assigneeId: string,
+    actor: User
+  ): Promise<ReportResult<InspectionJob>>;
+  updateJobStatus(
+    id: string,
+    status: JobStatus,
+    actor: User
+  ): Promise<ReportResult<InspectionJob>>;
+}
@@ -0,0 +1,66 @@
+// types/photo.ts
+import { ReportResult } from "./report";
+
+// Annotation coordinates are fractions (0-1) of the photo's width and
+// height, so markup stays aligned at any display or export size.
+export interface AnnotationPoint {
+  x: number;
+  y: number;
+}
+
+export type Annotation =
+  | {
+      kind: "arrow";
+      from: AnnotationPoint;
+      to: AnnotationPoint;
+      color: string;
+    }
+  | {
+      kind: "circle";
+      center: AnnotationPoint;
+      radius: number; // Fraction of the photo's width
+      color: string;
+    }
+  | {
+      kind: "text";
+      at: AnnotationPoint;
+      text: string;
+      color: string;
+    };
+
+export type AnnotationTool = Annotation["kind"];
+
+export interface ReportPhoto {
+  id: string;
+  caption: string;
+  width: number;
+  height: number;
+  annotations: Annotation[];
+  checklistItemId?: string; // Evidence for a photo-required checklist item
+  createdAt: number; // epoch ms
+
+  // Compressed copies kept on the device until uploaded
+  localUri?: string;
+  localThumbnailUri?: string;
+
+  // Set once the photo is stored in the contractor's bucket
+  storagePath?: string;
+  thumbnailPath?: string;
+}
+
+// Abstract interface that any photo storage backend must implement
+export interface IPhotoService {
+  uploadPhoto(
+    photo: ReportPhoto,
+    reportId: string,
+    contractorId: string
+  ): Promise<ReportResult<ReportPhoto>>;
+  // Stores the files only, for evidence that isn't part of a report. The
+  // folder must start with the contractor ID.
+  uploadPhotoFiles(
+    photo: ReportPhoto,
+    folder: string
+  ): Promise<ReportResult<ReportPhoto>>;
+  removePhoto(photo: ReportPhoto): Promise<ReportResult<void>>;
+  getPhotoUrls(paths: string[]): Promise<ReportResult<Record<string, string>>>;
+}
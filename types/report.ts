@@ -0,0 +1,179 @@
+// types/report.ts
+import { Capability, User } from "./auth";
+import { ReportPhoto } from "./photo";
+import { ChecklistResponses, TemplateSnapshot } from "./template";
+import { Equipment } from "./equipment";
+import { ContractorBranding } from "./contractor";
+import { InspectionClass } from "./schedule";
+import { ReportSignature } from "./signature";
+import { DefectInput } from "./defect";
+
+export type ReportPriority = "Low" | "Medium" | "High";
+
+export type ReportStatus =
+  | "Draft"
+  | "In Progress"
+  | "Submitted"
+  | "Reviewed"
+  | "Completed";
+
+export interface StatusTransition {
+  from: ReportStatus;
+  to: ReportStatus;
+  action: string; // Button label, e.g. "Approve"
+  capability: Capability;
+  requiresComment: boolean;
+}
+
+export interface ReportStatusEvent {
+  id: string;
+  reportId: string;
+  fromStatus: ReportStatus;
+  toStatus: ReportStatus;
+  actorId: string;
+  actorName: string;
+  comment?: string;
+  createdAt: Date;
+}
+
+// Where a report lives relative to the server
+export type SyncState = "draft" | "queued" | "synced" | "conflict";
+
+export interface InspectionForm {
+  reportId?: string; // Server report being revised after a rejection
+  assetId?: string; // Registry entry the report is for
+  equipmentId: string;
+  equipmentType: string;
+  location: string;
+  priority: ReportPriority;
+  inspectionClass?: InspectionClass; // Drives the asset's next due dates
+  jobId?: string; // Dispatched job this report fulfils
+  description: string;
+  notes: string;
+  photos: ReportPhoto[];
+
+  // Structured checklist, present when a template matched equipmentType
+  templateId?: string;
+  templateVersion?: number;
+  templateSnapshot?: TemplateSnapshot;
+  checklist: ChecklistResponses;
+
+  // Deficiencies found; tracked to close-out once the report syncs
+  defects?: DefectInput[];
+
+  // Sign-off, valid only while reportHash matches the content above
+  signatures?: ReportSignature[];
+}
+
+export interface InspectionReport extends InspectionForm {
+  id: string;
+  clientId?: string; // Local ID assigned when the report was queued offline
+  syncState: SyncState;
+  syncError?: string; // Why the server rejected a conflicted report
+  photoCount?: number; // Photos the inspector attached, uploaded or not
+  contractorId: string;
+  inspectorId: string;
+  inspectorName: string;
+  status: ReportStatus;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface OutboxEntry {
+  clientId: string;
+  form: InspectionForm;
+  authorId: string;
+  authorName: string;
+  contractorId: string;
+  serverReportId?: string; // Set once the report row exists but photos are pending
+  state: "queued" | "conflict";
+  attempts: number;
+  nextAttemptAt: number; // epoch ms
+  lastError?: string;
+  createdAt: number; // epoch ms
+}
+
+export interface ReportDraft {
+  form: InspectionForm;
+  updatedAt: number; // epoch ms
+}
+
+// Everything the certificate renderer needs, resolved up front so
+// rendering stays a pure function of its input
+export interface CertificateData {
+  report: InspectionReport;
+  contractorName: string;
+  branding?: ContractorBranding;
+  equipment?: Equipment;
+  template?: TemplateSnapshot;
+  photoUrls: Record<string, string>; // Keyed by ReportPhoto.storagePath
+  approvedBy?: string;
+  completedAt?: Date;
+  signatures: ReportSignature[];
+  reportHash: string; // Only signatures made against this content are shown
+  issuedAt: Date;
+}
+
+export type ReportSort = "newest" | "oldest" | "priority" | "overdue";
+
+// What the Reports list shows; persisted per user between sessions
+export interface ReportFilters {
+  search: string; // Matches equipment ID/type, location and description
+  statuses: ReportStatus[]; // Empty means any
+  priorities: ReportPriority[]; // Empty means any
+  inspectorId?: string;
+  createdWithinDays?: number; // e.g. 7 for the last week; unset means any
+  sort: ReportSort;
+}
+
+export interface ReportPage {
+  reports: InspectionReport[];
+  hasMore: boolean;
+}
+
+export interface ReportResult<T = any> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  errorCode?: string;
+}
+
+// Abstract interface that any report backend must implement
+export interface IReportService {
+  // Report Methods
+  createReport(
+    form: InspectionForm,
+    author: Pick<User, "id" | "role" | "contractorId">,
+    clientId?: string
+  ): Promise<ReportResult<InspectionReport>>;
+  // Replaces the content of a rejected report; resubmitting it is a
+  // separate transition
+  reviseReport(
+    reportId: string,
+    form: InspectionForm,
+    author: Pick<User, "id" | "role" | "contractorId">
+  ): Promise<ReportResult<InspectionReport>>;
+  getReport(id: string): Promise<ReportResult<InspectionReport>>;
+  getReportByClientId(
+    clientId: string
+  ): Promise<ReportResult<InspectionReport>>;
+  listReports(
+    contractorId: string,
+    filters: ReportFilters,
+    page: { offset: number; limit: number }
+  ): Promise<ReportResult<ReportPage>>;
+  listReportsForAsset(
+    assetId: string
+  ): Promise<ReportResult<InspectionReport[]>>;
+
+  // Status Workflow
+  transitionReport(
+    report: InspectionReport,
+    to: ReportStatus,
+    actor: Pick<User, "id" | "role" | "contractorId">,
+    comment?: string
+  ): Promise<ReportResult<InspectionReport>>;
+  getStatusHistory(
+    reportId: string
+  ): Promise<ReportResult<ReportStatusEvent[]>>;
+}
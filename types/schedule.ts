@@ -0,0 +1,58 @@
+// types/schedule.ts
+import { User } from "./auth";
+import { ReportResult } from "./report";
+
+// Crane inspection classes as in ASME B30: frequent (daily to monthly
+// checks by the operator or inspector), periodic (1 to 12 months, more
+// thorough) and annual (full inspection)
+export type InspectionClass = "frequent" | "periodic" | "annual";
+
+export interface IntervalRule {
+  id: string;
+  contractorId: string;
+  equipmentType: string; // "*" applies to any type without its own rule
+  inspectionClass: InspectionClass;
+  intervalDays: number;
+  leadDays: number; // How long before the due date it shows as upcoming
+}
+
+export type IntervalRuleInput = Omit<IntervalRule, "id" | "contractorId">;
+
+// A completed inspection, as far as scheduling cares
+export interface InspectionRecord {
+  assetId: string;
+  inspectionClass: InspectionClass;
+  completedAt: Date;
+}
+
+export type DueState = "overdue" | "due_soon" | "scheduled";
+
+// Generated from the registry, the rules and the inspection history;
+// never stored
+export interface ScheduledInspection {
+  id: string; // `${assetId}:${inspectionClass}`
+  assetId: string;
+  assetTag: string;
+  equipmentType: string;
+  site: string;
+  location: string;
+  inspectionClass: InspectionClass;
+  lastInspection?: Date;
+  dueDate: Date;
+  daysUntilDue: number; // Negative once overdue
+  state: DueState;
+}
+
+// Abstract interface that any scheduling backend must implement
+export interface IScheduleService {
+  listRules(contractorId: string): Promise<ReportResult<IntervalRule[]>>;
+  saveRule(
+    contractorId: string,
+    rule: IntervalRuleInput & { id?: string },
+    actor: User
+  ): Promise<ReportResult<IntervalRule>>;
+  deleteRule(id: string, actor: User): Promise<ReportResult<void>>;
+  listInspectionHistory(
+    contractorId: string
+  ): Promise<ReportResult<InspectionRecord[]>>;
+}
@@ -0,0 +1,25 @@
+// types/signature.ts
+
+export type SignerRole = "inspector" | "site_representative";
+
+// Stroke points are fractions (0-1) of the pad's width and height, the same
+// convention as photo annotations
+export interface SignaturePoint {
+  x: number;
+  y: number;
+}
+
+export type SignatureStroke = SignaturePoint[];
+
+export interface ReportSignature {
+  id: string;
+  signerRole: SignerRole;
+  signerName: string;
+  signerUserId?: string; // Set when the signer has an account
+  strokes: SignatureStroke[];
+  width: number; // Pad size when signed, to keep the aspect ratio
+  height: number;
+  imageDataUri: string; // PNG rendered from the pad when signed
+  reportHash: string; // Fingerprint of the report content that was signed
+  signedAt: number; // epoch ms
+}
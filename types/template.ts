@@ -0,0 +1,67 @@
+// types/template.ts
+import { User } from "./auth";
+import { ReportResult } from "./report";
+
+export type ChecklistItemKind = "pass_fail" | "measurement" | "text" | "photo";
+
+export interface ChecklistItem {
+  id: string;
+  label: string;
+  kind: ChecklistItemKind;
+  required: boolean;
+  guidance?: string;
+
+  // Measurement items only
+  unit?: string;
+  min?: number;
+  max?: number;
+}
+
+export interface ChecklistSection {
+  id: string;
+  title: string;
+  items: ChecklistItem[];
+}
+
+export interface ChecklistTemplate {
+  id: string;
+  contractorId: string;
+  equipmentType: string;
+  name: string;
+  version: number;
+  sections: ChecklistSection[];
+  updatedAt: Date;
+}
+
+// The revision a report was filled against, stored with the report so it
+// still renders after the template is edited or deleted
+export type TemplateSnapshot = Pick<
+  ChecklistTemplate,
+  "id" | "equipmentType" | "name" | "version" | "sections"
+>;
+
+export type PassFailValue = "pass" | "fail" | "na";
+
+export interface ChecklistResponse {
+  itemId: string;
+  value?: PassFailValue | number | string;
+  comment?: string;
+}
+
+// Keyed by ChecklistItem.id
+export type ChecklistResponses = Record<string, ChecklistResponse>;
+
+// Abstract interface that any template backend must implement
+export interface ITemplateService {
+  listTemplates(
+    contractorId: string
+  ): Promise<ReportResult<ChecklistTemplate[]>>;
+  saveTemplate(
+    template: Omit<ChecklistTemplate, "id" | "version" | "updatedAt"> & {
+      id?: string;
+      version?: number;
+    },
+    actor: User
+  ): Promise<ReportResult<ChecklistTemplate>>;
+  deleteTemplate(id: string, actor: User): Promise<ReportResult<void>>;
+}
@@ -0,0 +1,25 @@
+// types/userAdmin.ts
+import { User } from "./auth";
+import { ReportResult } from "./report";
+
+export type AssignableRole = "manager" | "inspector";
+
+// Abstract interface for managing other users' accounts. Every method takes
+// the acting user so implementations can enforce permissions themselves.
+export interface IUserAdminService {
+  listUsers(contractorId: string, actor: User): Promise<ReportResult<User[]>>;
+  updateRole(
+    userId: string,
+    role: AssignableRole,
+    actor: User
+  ): Promise<ReportResult<User>>;
+  setActive(
+    userId: string,
+    isActive: boolean,
+    actor: User
+  ): Promise<ReportResult<User>>;
+  requirePasswordChange(
+    userId: string,
+    actor: User
+  ): Promise<ReportResult<User>>;
+}